@@ -0,0 +1,222 @@
+import {DocumentData} from "firebase-admin/firestore";
+
+// Placeholder for an empty bracket slot (same as src/utils/tournaments.ts)
+export const BYE_ID = "bye";
+
+// Standings points for a bracket win when the league has no scoring system
+const DEFAULT_POINTS_PER_WIN = 3;
+
+type Slot = "home" | "away";
+
+/**
+ * Find a match anywhere in the bracket
+ * @param {DocumentData[]} rounds Tournament rounds
+ * @param {string} matchId Match to look up
+ * @return {DocumentData | undefined} The match, if it exists
+ */
+export function findMatch(
+  rounds: DocumentData[],
+  matchId: string,
+): DocumentData | undefined {
+  for (const round of rounds) {
+    const match = (round.matches || []).find(
+      (m: DocumentData) => m.id === matchId);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Put a participant into a slot of a later match
+ * @param {DocumentData[]} rounds Tournament rounds
+ * @param {string | undefined} matchId Match to fill, if any
+ * @param {Slot | undefined} slot Home or away slot
+ * @param {string} participantId Participant (or BYE_ID) moving on
+ */
+function placeInSlot(
+  rounds: DocumentData[],
+  matchId: string | undefined,
+  slot: Slot | undefined,
+  participantId: string,
+): void {
+  if (!matchId || !slot) return;
+  const match = findMatch(rounds, matchId);
+  if (!match) return;
+  match[slot === "home" ? "homeId" : "awayId"] = participantId;
+}
+
+/**
+ * Record the outcome of a bracket match and move both sides on: the winner
+ * to the next match, the loser into the losers bracket (if there is one)
+ * @param {DocumentData[]} rounds Tournament rounds (mutated)
+ * @param {DocumentData} match Match that finished
+ * @param {string} winnerId Participant who won
+ * @param {string} loserId Participant who lost
+ */
+export function completeMatch(
+  rounds: DocumentData[],
+  match: DocumentData,
+  winnerId: string,
+  loserId: string,
+): void {
+  match.status = "completed";
+  match.winner = winnerId;
+  placeInSlot(rounds, match.nextMatchId, match.nextMatchSlot, winnerId);
+  placeInSlot(
+    rounds,
+    match.loserNextMatchId,
+    match.loserNextMatchSlot,
+    loserId,
+  );
+}
+
+/**
+ * Advance everyone drawn against a bye. Runs until nothing moves, because a
+ * bye can cascade (e.g. two byes meeting in the losers bracket).
+ * @param {DocumentData[]} rounds Tournament rounds (mutated)
+ * @return {number} Number of matches decided by a bye
+ */
+export function resolveByes(rounds: DocumentData[]): number {
+  let resolved = 0;
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const round of rounds) {
+      for (const match of round.matches || []) {
+        if (match.status === "completed" || !match.homeId || !match.awayId) {
+          continue;
+        }
+        if (match.homeId !== BYE_ID && match.awayId !== BYE_ID) continue;
+
+        const homeIsBye = match.homeId === BYE_ID;
+        match.isBye = true;
+        completeMatch(
+          rounds,
+          match,
+          homeIsBye ? match.awayId : match.homeId,
+          homeIsBye ? match.homeId : match.awayId,
+        );
+        resolved++;
+        changed = true;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Whether a match has two real participants and still needs a game
+ * @param {DocumentData} match Bracket match
+ * @return {boolean} True when an invitation can be sent
+ */
+export function isMatchReady(match: DocumentData): boolean {
+  return match.status !== "completed" &&
+    match.status !== "canceled" &&
+    !match.gameId &&
+    !!match.homeId &&
+    !!match.awayId &&
+    match.homeId !== BYE_ID &&
+    match.awayId !== BYE_ID;
+}
+
+/**
+ * Update round statuses from their matches: open once a game exists,
+ * completed once every match is decided
+ * @param {DocumentData[]} rounds Tournament rounds (mutated)
+ */
+export function refreshRoundStatuses(rounds: DocumentData[]): void {
+  for (const round of rounds) {
+    const matches: DocumentData[] = round.matches || [];
+    if (matches.every((m) =>
+      m.status === "completed" || m.status === "canceled")) {
+      round.status = "completed";
+    } else if (matches.some((m) => m.gameId || m.status === "completed")) {
+      round.status = "open";
+    }
+  }
+}
+
+/**
+ * The match whose winner takes the tournament: the grand final with a
+ * losers bracket, otherwise the winners bracket final
+ * @param {DocumentData[]} rounds Tournament rounds
+ * @return {DocumentData | undefined} The deciding match
+ */
+export function getChampionshipMatch(
+  rounds: DocumentData[],
+): DocumentData | undefined {
+  const deciding = rounds.filter((round) => round.bracket !== "losers");
+  for (const round of deciding) {
+    const match = (round.matches || []).find(
+      (m: DocumentData) => !m.nextMatchId);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Build bracket standings from the played (non-bye) matches. The champion
+ * and runner-up come first, everyone else is ordered by wins, then losses
+ * and point differential.
+ * @param {DocumentData[]} rounds Tournament rounds
+ * @param {string[]} participantIds Everyone in the bracket
+ * @param {number} pointsPerWin Standings points for each win
+ * @return {DocumentData[]} LeagueStanding entries
+ */
+export function computeBracketStandings(
+  rounds: DocumentData[],
+  participantIds: string[],
+  pointsPerWin = DEFAULT_POINTS_PER_WIN,
+): DocumentData[] {
+  const table = new Map(participantIds.map((id) => [id, {
+    id,
+    gamesPlayed: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    pointDifferential: 0,
+  }]));
+
+  for (const round of rounds) {
+    for (const match of round.matches || []) {
+      if (match.status !== "completed" || match.isBye) continue;
+
+      const home = table.get(match.homeId);
+      const away = table.get(match.awayId);
+      const difference = (match.homeScore || 0) - (match.awayScore || 0);
+
+      if (home) {
+        home.gamesPlayed++;
+        home.pointDifferential += difference;
+        if (match.winner === match.homeId) home.gamesWon++;
+        else home.gamesLost++;
+      }
+      if (away) {
+        away.gamesPlayed++;
+        away.pointDifferential -= difference;
+        if (match.winner === match.awayId) away.gamesWon++;
+        else away.gamesLost++;
+      }
+    }
+  }
+
+  const final = getChampionshipMatch(rounds);
+  const placing = (id: string) => {
+    if (final?.status !== "completed") return 2;
+    if (final.winner === id) return 0;
+    return id === final.homeId || id === final.awayId ? 1 : 2;
+  };
+
+  return Array.from(table.values())
+    .sort((a, b) =>
+      placing(a.id) - placing(b.id) ||
+      b.gamesWon - a.gamesWon ||
+      a.gamesLost - b.gamesLost ||
+      b.pointDifferential - a.pointDifferential)
+    .map((entry, index) => ({
+      ...entry,
+      rank: index + 1,
+      points: entry.gamesWon * pointsPerWin,
+    }));
+}
@@ -0,0 +1,366 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  Firestore,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+} from "firebase-admin/firestore";
+
+// Longest message players can send
+const MAX_MESSAGE_LENGTH = 500;
+
+// Rate limit: one message every few seconds and a cap per minute
+const MIN_SECONDS_BETWEEN_MESSAGES = 2;
+const MAX_MESSAGES_PER_MINUTE = 10;
+
+// League roles that can delete messages and mute members
+const MODERATOR_ROLES = ["owner", "admin", "judge"];
+
+type ChatTargetType = "game" | "league";
+
+/**
+ * Where a message is posted: a game or a league chat
+ */
+interface ChatTarget {
+  type: ChatTargetType;
+  id: string;
+}
+
+/**
+ * Check the target of a chat request
+ * @param {DocumentData} data Callable request data
+ * @return {ChatTarget} Validated target
+ */
+function parseChatTarget(data: DocumentData): ChatTarget {
+  const {targetType, targetId} = data || {};
+  if ((targetType !== "game" && targetType !== "league") ||
+      !targetId || typeof targetId !== "string") {
+    throw new HttpsError("invalid-argument", "A game or league is required");
+  }
+  return {type: targetType, id: targetId};
+}
+
+/**
+ * Every player in a game
+ * @param {DocumentData} game Game document data
+ * @return {string[]} Player IDs
+ */
+function getGamePlayers(game: DocumentData): string[] {
+  if (game.teams) {
+    return [...game.teams.team1, ...game.teams.team2];
+  }
+  return [game.createdBy, game.opponent];
+}
+
+/**
+ * Whether a user is an active member of a league
+ * @param {Firestore} db Firestore instance
+ * @param {string} leagueId League ID
+ * @param {string} userId User ID
+ * @return {Promise<DocumentData | null>} Membership, or null
+ */
+async function getActiveMembership(
+  db: Firestore,
+  leagueId: string,
+  userId: string,
+): Promise<DocumentData | null> {
+  const membershipSnap = await db.collection("leagueMemberships")
+    .where("leagueId", "==", leagueId)
+    .where("userId", "==", userId)
+    .where("status", "==", "active")
+    .limit(1)
+    .get();
+  return membershipSnap.empty ? null : membershipSnap.docs[0].data();
+}
+
+/**
+ * Whether a user can moderate a league's chats: judges, the league owner
+ * and members with a moderator role
+ * @param {Firestore} db Firestore instance
+ * @param {string} leagueId League ID
+ * @param {string} userId User ID
+ * @param {boolean} isJudge Whether the caller has the judge claim
+ * @return {Promise<boolean>} True for moderators
+ */
+async function isLeagueModerator(
+  db: Firestore,
+  leagueId: string,
+  userId: string,
+  isJudge: boolean,
+): Promise<boolean> {
+  if (isJudge) return true;
+
+  const leagueSnap = await db.collection("leagues").doc(leagueId).get();
+  if (leagueSnap.data()?.createdBy === userId) return true;
+
+  const membership = await getActiveMembership(db, leagueId, userId);
+  return MODERATOR_ROLES.includes(membership?.role);
+}
+
+/**
+ * Game or league a chat belongs to
+ */
+interface ChatContext {
+  ref: DocumentReference;
+  data: DocumentData;
+  leagueId: string | null;
+}
+
+/**
+ * Resolve a chat target to its document and the league whose moderators
+ * and mutes apply to it. Friendly games have no league.
+ * @param {Firestore} db Firestore instance
+ * @param {ChatTarget} target Game or league
+ * @return {Promise<ChatContext>} Target document and league
+ */
+async function getChatContext(
+  db: Firestore,
+  target: ChatTarget,
+): Promise<ChatContext> {
+  const ref = db.collection(target.type === "game" ? "games" : "leagues")
+    .doc(target.id);
+  const data = (await ref.get()).data();
+  if (!data) {
+    throw new HttpsError("not-found", `${
+      target.type === "game" ? "Game" : "League"} not found`);
+  }
+  return {
+    ref,
+    data,
+    leagueId: target.type === "game" ? data.leagueId || null : target.id,
+  };
+}
+
+/**
+ * Whether a user takes part in a chat: a player of the game, or the owner
+ * or an active member of the league
+ * @param {Firestore} db Firestore instance
+ * @param {ChatTarget} target Game or league
+ * @param {ChatContext} context Target document
+ * @param {string} userId User ID
+ * @return {Promise<boolean>} True for participants
+ */
+async function isChatParticipant(
+  db: Firestore,
+  target: ChatTarget,
+  context: ChatContext,
+  userId: string,
+): Promise<boolean> {
+  if (target.type === "game") {
+    return getGamePlayers(context.data).includes(userId);
+  }
+  return context.data.createdBy === userId ||
+    !!(await getActiveMembership(db, target.id, userId));
+}
+
+/**
+ * Whether a mute is still running
+ * @param {DocumentData | undefined} mute mutedUsers document data
+ * @param {Timestamp} now Current time
+ * @return {boolean} True while the user is muted
+ */
+function isMuteActive(
+  mute: DocumentData | undefined,
+  now: Timestamp,
+): boolean {
+  return !!mute && (!mute.mutedUntil ||
+    mute.mutedUntil.toMillis() > now.toMillis());
+}
+
+/**
+ * Post a chat message to a game or league. Players must be in the game or
+ * league, not muted by its moderators and within the rate limit.
+ */
+export const sendChatMessage = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const userId = request.auth.uid;
+    const target = parseChatTarget(request.data);
+    const text = typeof request.data.text === "string" ?
+      request.data.text.trim() : "";
+    if (!text || text.length > MAX_MESSAGE_LENGTH) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Messages must be 1 to ${MAX_MESSAGE_LENGTH} characters`,
+      );
+    }
+
+    const db = getFirestore();
+
+    // Judges can switch chat off from the game configuration
+    const configSnap = await db.collection("gameConfig").doc("current").get();
+    if (configSnap.data()?.features?.enableChat === false) {
+      throw new HttpsError("failed-precondition", "Chat is turned off");
+    }
+
+    const context = await getChatContext(db, target);
+    if (!(await isChatParticipant(db, target, context, userId))) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only players and league members can chat here",
+      );
+    }
+
+    const {ref, leagueId} = context;
+    const userSnap = await db.collection("users").doc(userId).get();
+    const user = userSnap.data();
+    const throttleRef = db.collection("chatThrottle").doc(userId);
+    const messageRef = ref.collection("messages").doc();
+
+    await db.runTransaction(async (transaction) => {
+      const now = Timestamp.now();
+
+      if (leagueId) {
+        const muteSnap = await transaction.get(db.collection("leagues")
+          .doc(leagueId).collection("mutedUsers").doc(userId));
+        if (isMuteActive(muteSnap.data(), now)) {
+          throw new HttpsError(
+            "permission-denied",
+            "A league moderator has muted you",
+          );
+        }
+      }
+
+      // Keep the send times of the last minute to enforce both limits
+      const throttleSnap = await transaction.get(throttleRef);
+      const recent: Timestamp[] = (throttleSnap.data()?.recent || [])
+        .filter((sentAt: Timestamp) =>
+          now.toMillis() - sentAt.toMillis() < 60 * 1000);
+      const lastSentAt = recent[recent.length - 1];
+
+      if (lastSentAt && now.toMillis() - lastSentAt.toMillis() <
+          MIN_SECONDS_BETWEEN_MESSAGES * 1000) {
+        throw new HttpsError(
+          "resource-exhausted",
+          "You're sending messages too quickly",
+        );
+      }
+      if (recent.length >= MAX_MESSAGES_PER_MINUTE) {
+        throw new HttpsError(
+          "resource-exhausted",
+          "Message limit reached, try again in a minute",
+        );
+      }
+
+      transaction.set(throttleRef, {recent: [...recent, now]});
+      transaction.set(messageRef, {
+        senderId: userId,
+        senderName: user?.displayName || "Player",
+        ...(user?.photoURL && {senderPhotoURL: user.photoURL}),
+        text,
+        createdAt: now,
+      });
+    });
+
+    return {success: true, messageId: messageRef.id};
+  },
+);
+
+/**
+ * Moderate a chat. Anyone can delete their own messages; league owners,
+ * admins, judges and federation judges can delete any message in the
+ * league's chats and mute or unmute members.
+ */
+export const moderateChat = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const userId = request.auth.uid;
+    const {action} = request.data || {};
+    const db = getFirestore();
+    const now = Timestamp.now();
+
+    if (action === "delete") {
+      const target = parseChatTarget(request.data);
+      const {messageId} = request.data;
+      if (!messageId || typeof messageId !== "string") {
+        throw new HttpsError("invalid-argument", "messageId is required");
+      }
+
+      const {ref, leagueId} = await getChatContext(db, target);
+
+      const messageRef = ref.collection("messages").doc(messageId);
+      const message = (await messageRef.get()).data();
+      if (!message) {
+        throw new HttpsError("not-found", "Message not found");
+      }
+
+      const isModerator = !!leagueId && await isLeagueModerator(
+        db, leagueId, userId, request.auth.token.judge === true);
+      if (message.senderId !== userId && !isModerator) {
+        throw new HttpsError(
+          "permission-denied",
+          "Only moderators can delete other players' messages",
+        );
+      }
+
+      // Keep the message in place so the conversation still reads in order
+      await messageRef.update({
+        text: "",
+        deleted: true,
+        deletedBy: userId,
+        deletedAt: now,
+      });
+      logger.info(`Deleted chat message ${messageId}`, {
+        targetType: target.type,
+        targetId: target.id,
+        deletedBy: userId,
+      });
+      return {success: true};
+    }
+
+    if (action === "mute" || action === "unmute") {
+      const {leagueId, mutedUserId, minutes} = request.data;
+      if (!leagueId || typeof leagueId !== "string" ||
+          !mutedUserId || typeof mutedUserId !== "string") {
+        throw new HttpsError(
+          "invalid-argument",
+          "leagueId and mutedUserId are required",
+        );
+      }
+      if (!(await isLeagueModerator(
+        db, leagueId, userId, request.auth.token.judge === true))) {
+        throw new HttpsError(
+          "permission-denied",
+          "Only league moderators can mute members",
+        );
+      }
+
+      const muteRef = db.collection("leagues").doc(leagueId)
+        .collection("mutedUsers").doc(mutedUserId);
+
+      if (action === "unmute") {
+        await muteRef.delete();
+        return {success: true};
+      }
+
+      if (mutedUserId === userId) {
+        throw new HttpsError("invalid-argument", "You cannot mute yourself");
+      }
+      await muteRef.set({
+        userId: mutedUserId,
+        mutedBy: userId,
+        mutedAt: now,
+        mutedUntil: typeof minutes === "number" && minutes > 0 ?
+          Timestamp.fromMillis(now.toMillis() + minutes * 60 * 1000) :
+          null,
+      });
+      logger.info(`Muted ${mutedUserId} in league ${leagueId}`, {
+        mutedBy: userId,
+        minutes: minutes || null,
+      });
+      return {success: true};
+    }
+
+    throw new HttpsError("invalid-argument", "Unknown moderation action");
+  },
+);
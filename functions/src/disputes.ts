@@ -0,0 +1,402 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  FieldValue,
+  Timestamp,
+  DocumentData,
+} from "firebase-admin/firestore";
+
+type GameSide = "creator" | "opponent";
+
+// How a judge can settle a dispute
+const DISPUTE_DECISIONS = [
+  "uphold_creator",
+  "uphold_opponent",
+  "corrected",
+  "voided",
+];
+
+// Longest comment or ruling note that can be recorded
+const MAX_COMMENT_LENGTH = 500;
+
+/**
+ * Get every player on one side of a game (both partners in a double game)
+ * @param {DocumentData} game Game document data
+ * @param {GameSide} side Creator (team1) or opponent (team2) side
+ * @return {string[]} Player IDs on that side
+ */
+function getSidePlayers(game: DocumentData, side: GameSide): string[] {
+  if (game.teams) {
+    return side === "creator" ? game.teams.team1 : game.teams.team2;
+  }
+  return [side === "creator" ? game.createdBy : game.opponent];
+}
+
+/**
+ * Side of the game a user plays on, or null for non-players
+ * @param {DocumentData} game Game document data
+ * @param {string} userId User ID
+ * @return {GameSide | null} Creator or opponent side
+ */
+function getGameSide(game: DocumentData, userId: string): GameSide | null {
+  if (getSidePlayers(game, "creator").includes(userId)) return "creator";
+  if (getSidePlayers(game, "opponent").includes(userId)) return "opponent";
+  return null;
+}
+
+/**
+ * Whether a user is asked to confirm the submitted result
+ * @param {DocumentData} game Game document data
+ * @param {string} userId User ID
+ * @return {boolean} True for the confirming side
+ */
+function isConfirmingPlayer(game: DocumentData, userId: string): boolean {
+  if (game.confirmingTeam && game.teams) {
+    return game.teams[game.confirmingTeam].includes(userId);
+  }
+  return game.confirmedBy === userId;
+}
+
+/**
+ * Read claimed scores from a request, or null when they are not two
+ * different whole numbers of zero or more
+ * @param {unknown} scores Scores sent by the client
+ * @return {{creator: number, opponent: number} | null} Claimed scores
+ */
+function parseScores(
+  scores: unknown,
+): {creator: number, opponent: number} | null {
+  const {creator, opponent} = (scores || {}) as Record<string, unknown>;
+  if (!Number.isInteger(creator) || !Number.isInteger(opponent)) return null;
+  if ((creator as number) < 0 || (opponent as number) < 0 ||
+      creator === opponent) {
+    return null;
+  }
+  return {creator: creator as number, opponent: opponent as number};
+}
+
+/**
+ * Whether a user can settle disputes of a game: federation judges for every
+ * game, and the owner and judges of the league for league games. Players
+ * never rule on their own game.
+ * @param {DocumentData} game Game document data
+ * @param {string} userId User ID
+ * @param {boolean} isJudge Whether the caller has the judge claim
+ * @return {Promise<boolean>} True for the game's judges
+ */
+async function canResolveDispute(
+  game: DocumentData,
+  userId: string,
+  isJudge: boolean,
+): Promise<boolean> {
+  if (getGameSide(game, userId)) return false;
+  if (isJudge) return true;
+  if (!game.leagueId) return false;
+
+  const league = (await getFirestore().collection("leagues")
+    .doc(game.leagueId).get()).data();
+  return !!league && (league.createdBy === userId ||
+    league.memberRoles?.[userId] === "judge");
+}
+
+/**
+ * Dispute a submitted result, or restate a claim while the dispute is open.
+ * The first claim comes from the side asked to confirm: the game moves to
+ * disputed and waits for a judge instead of going back into play. The
+ * submitting side can then add its own comment and scores.
+ */
+export const fileDisputeClaim = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {gameId, handId} = request.data || {};
+    const scores = parseScores(request.data?.scores);
+    const comment = typeof request.data?.comment === "string" ?
+      request.data.comment.trim() : "";
+
+    if (!gameId || typeof gameId !== "string") {
+      throw new HttpsError("invalid-argument", "gameId is required");
+    }
+    if (!scores) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Claim a final score with a winner for each side",
+      );
+    }
+    if (!comment || comment.length > MAX_COMMENT_LENGTH) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A comment of up to ${MAX_COMMENT_LENGTH} characters is required`,
+      );
+    }
+
+    const userId = request.auth.uid;
+    const db = getFirestore();
+    const gameRef = db.collection("games").doc(gameId);
+    const disputeRef = db.collection("gameDisputes").doc(gameId);
+
+    const opened = await db.runTransaction(async (transaction) => {
+      const game = (await transaction.get(gameRef)).data();
+      if (!game) {
+        throw new HttpsError("not-found", "Game not found");
+      }
+
+      const side = getGameSide(game, userId);
+      if (!side) {
+        throw new HttpsError(
+          "permission-denied",
+          "Only players of this game can dispute its result",
+        );
+      }
+
+      const now = Timestamp.now();
+      const claim = {scores, comment, userId, submittedAt: now};
+
+      if (game.status === "disputed") {
+        const dispute = (await transaction.get(disputeRef)).data();
+        if (!dispute || dispute.status !== "open") {
+          throw new HttpsError(
+            "failed-precondition",
+            "This dispute is no longer open",
+          );
+        }
+
+        transaction.update(disputeRef, {
+          [`claims.${side}`]: claim,
+          updatedAt: now,
+          history: FieldValue.arrayUnion({
+            action: "claim_updated",
+            side,
+            userId,
+            at: now,
+          }),
+        });
+        return false;
+      }
+
+      if (game.status !== "waiting_confirmation" ||
+          !isConfirmingPlayer(game, userId)) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Only the side asked to confirm can dispute the result",
+        );
+      }
+
+      const submittedScores = {
+        creator: game.scores?.creator || 0,
+        opponent: game.scores?.opponent || 0,
+      };
+      if (submittedScores.creator === scores.creator &&
+          submittedScores.opponent === scores.opponent) {
+        throw new HttpsError(
+          "invalid-argument",
+          "Your claim matches the submitted score; confirm it instead",
+        );
+      }
+
+      let handNumber: number | null = null;
+      if (handId) {
+        const hand = (await transaction.get(
+          gameRef.collection("hands").doc(String(handId)))).data();
+        if (!hand) {
+          throw new HttpsError("not-found", "Hand not found");
+        }
+        handNumber = hand.handNumber;
+      }
+
+      const submitterSide: GameSide = side === "creator" ?
+        "opponent" : "creator";
+      const creatorPlayers = getSidePlayers(game, "creator");
+      const opponentPlayers = getSidePlayers(game, "opponent");
+
+      transaction.set(disputeRef, {
+        gameId,
+        leagueId: game.leagueId || null,
+        players: [...creatorPlayers, ...opponentPlayers],
+        sides: {creator: creatorPlayers, opponent: opponentPlayers},
+        pointsToWin: game.settings?.pointsToWin || null,
+        status: "open",
+        claims: {
+          // The submitted result stands as the other side's claim until
+          // they add their own comment
+          [submitterSide]: {
+            scores: submittedScores,
+            comment: "",
+            userId: null,
+            submittedAt: game.updatedAt || now,
+          },
+          [side]: claim,
+        },
+        ...(handNumber !== null && {handId: String(handId), handNumber}),
+        openedBy: userId,
+        openedAt: now,
+        updatedAt: now,
+        history: [{action: "opened", side, userId, at: now}],
+      });
+
+      transaction.update(gameRef, {
+        status: "disputed",
+        hasDispute: true,
+        confirmedBy: null,
+        confirmingTeam: null,
+        activePlayer: null,
+        updatedAt: now,
+      });
+      return true;
+    });
+
+    logger.info(`${opened ? "Opened" : "Updated"} dispute of game ${gameId}`, {
+      userId,
+    });
+
+    return {success: true, opened};
+  },
+);
+
+/**
+ * Settle an open dispute. Upholding a claim or entering a corrected score
+ * completes the game, so the onGameCompleted function applies the result
+ * to player stats and ratings; voiding abandons it without counting it
+ * for anyone. The ruling is recorded on the dispute.
+ */
+export const resolveDispute = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {gameId, decision} = request.data || {};
+    const note = typeof request.data?.note === "string" ?
+      request.data.note.trim() : "";
+
+    if (!gameId || typeof gameId !== "string" ||
+        !DISPUTE_DECISIONS.includes(decision)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "gameId and a valid decision are required",
+      );
+    }
+    if (note.length > MAX_COMMENT_LENGTH) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Notes are limited to ${MAX_COMMENT_LENGTH} characters`,
+      );
+    }
+
+    const correctedScores = parseScores(request.data?.scores);
+    if (decision === "corrected" && !correctedScores) {
+      throw new HttpsError(
+        "invalid-argument",
+        "A corrected score needs a winner and whole numbers of points",
+      );
+    }
+
+    const userId = request.auth.uid;
+    const db = getFirestore();
+    const gameRef = db.collection("games").doc(gameId);
+    const disputeRef = db.collection("gameDisputes").doc(gameId);
+
+    const initialGame = (await gameRef.get()).data();
+    if (!initialGame) {
+      throw new HttpsError("not-found", "Game not found");
+    }
+    if (!(await canResolveDispute(initialGame, userId,
+      request.auth.token.judge === true))) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only judges who did not play this game can settle its dispute",
+      );
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const game = (await transaction.get(gameRef)).data();
+      const dispute = (await transaction.get(disputeRef)).data();
+      if (!game || game.status !== "disputed" ||
+          !dispute || dispute.status !== "open") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This game has no open dispute",
+        );
+      }
+
+      const now = Timestamp.now();
+      let finalScores: {creator: number, opponent: number} | null = null;
+      if (decision === "uphold_creator") {
+        finalScores = dispute.claims?.creator?.scores || null;
+      } else if (decision === "uphold_opponent") {
+        finalScores = dispute.claims?.opponent?.scores || null;
+      } else if (decision === "corrected") {
+        finalScores = correctedScores;
+      }
+
+      if (decision !== "voided" && !parseScores(finalScores)) {
+        throw new HttpsError(
+          "failed-precondition",
+          "That claim has no winner; enter a corrected score instead",
+        );
+      }
+
+      const resolution = {
+        decision,
+        scores: finalScores,
+        note,
+        resolvedBy: userId,
+        resolvedAt: now,
+      };
+
+      if (!finalScores) {
+        // Voided games count for nobody, so no stats are applied
+        transaction.update(gameRef, {
+          status: "abandoned",
+          winner: null,
+          winningTeam: null,
+          activePlayer: null,
+          completedAt: now,
+          updatedAt: now,
+          statsApplied: true,
+          statsAppliedAt: FieldValue.serverTimestamp(),
+        });
+      } else {
+        const creatorWon = finalScores.creator > finalScores.opponent;
+        transaction.update(gameRef, {
+          status: "completed",
+          scores: game.teams ?
+            {...finalScores, team1: finalScores.creator,
+              team2: finalScores.opponent} :
+            finalScores,
+          winner: creatorWon ? game.createdBy : game.opponent,
+          winningTeam: game.teams ? (creatorWon ? "team1" : "team2") : null,
+          confirmedBy: null,
+          confirmingTeam: null,
+          activePlayer: null,
+          completedAt: now,
+          updatedAt: now,
+        });
+      }
+
+      transaction.update(disputeRef, {
+        status: "resolved",
+        resolution,
+        updatedAt: now,
+        history: FieldValue.arrayUnion({
+          action: "resolved",
+          decision,
+          userId,
+          at: now,
+        }),
+      });
+    });
+
+    logger.info(`Resolved dispute of game ${gameId}: ${decision}`, {
+      resolvedBy: userId,
+      leagueId: initialGame.leagueId || null,
+    });
+
+    return {success: true};
+  },
+);
@@ -2,10 +2,12 @@ import { onSchedule } from "firebase-functions/v2/scheduler";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
 import { getFirestore, Timestamp, FieldValue } from "firebase-admin/firestore";
+import {TRIAL_REMINDER_DAYS} from "./leagueTrials";
 
 /**
  * Cloud Function that runs daily to check for expired memberships
- * and automatically set them to inactive status
+ * and automatically set them to inactive status. Free trials end the same
+ * way, after their members have been reminded a few days ahead.
  */
 export const checkExpiredMemberships = onSchedule(
   {
@@ -19,7 +21,9 @@ export const checkExpiredMemberships = onSchedule(
     
     const db = getFirestore();
     const now = Timestamp.now();
-    const processedCount = { expired: 0, errors: 0 };
+    const processedCount = { expired: 0, reminded: 0, errors: 0 };
+    const reminderCutoff =
+      now.toMillis() + TRIAL_REMINDER_DAYS * 24 * 60 * 60 * 1000;
 
     try {
       // Get all premium leagues (leagues that require payment)
@@ -52,11 +56,13 @@ export const checkExpiredMemberships = onSchedule(
             const memberData = memberDoc.data();
             const memberId = memberDoc.id;
             
+            const isTrial = memberData.paymentStatus === "trial";
+
             // Check if member has expired membership
             if (memberData.membershipExpiresAt && 
                 memberData.membershipExpiresAt.toMillis() < now.toMillis()) {
               
-              logger.info(`Expiring membership for user ${memberData.userId} in league ${leagueId}`);
+              logger.info(`Expiring ${isTrial ? "trial" : "membership"} for user ${memberData.userId} in league ${leagueId}`);
 
               // Update member status to inactive
               await db.collection("leagueMemberships").doc(memberId).update({
@@ -70,15 +76,37 @@ export const checkExpiredMemberships = onSchedule(
               await db.collection("membershipEvents").add({
                 userId: memberData.userId,
                 leagueId: leagueId,
-                eventType: "auto_expired",
+                eventType: isTrial ? "trial_expired" : "auto_expired",
                 status: "inactive",
-                reason: "Payment expired",
+                reason: isTrial ? "Free trial ended" : "Payment expired",
                 createdAt: FieldValue.serverTimestamp(),
                 previousStatus: "active",
                 processedBy: "system",
               });
 
               processedCount.expired++;
+            } else if (isTrial && !memberData.trialReminderSentAt &&
+                memberData.membershipExpiresAt &&
+                memberData.membershipExpiresAt.toMillis() < reminderCutoff) {
+              // Remind the member once that the trial is ending; the league
+              // page shows the reminder with a link to pay
+              await db.collection("leagueMemberships").doc(memberId).update({
+                trialReminderSentAt: FieldValue.serverTimestamp(),
+              });
+
+              const trialEnd = memberData.membershipExpiresAt.toDate()
+                .toISOString().slice(0, 10);
+              await db.collection("membershipEvents").add({
+                userId: memberData.userId,
+                leagueId: leagueId,
+                eventType: "trial_ending",
+                status: "active",
+                reason: `Free trial ends ${trialEnd}`,
+                createdAt: FieldValue.serverTimestamp(),
+                processedBy: "system",
+              });
+
+              processedCount.reminded++;
             }
           }
         } catch (error) {
@@ -87,7 +115,7 @@ export const checkExpiredMemberships = onSchedule(
         }
       }
 
-      logger.info(`Expired membership check completed. Expired: ${processedCount.expired}, Errors: ${processedCount.errors}`);
+      logger.info(`Expired membership check completed. Expired: ${processedCount.expired}, Trial reminders: ${processedCount.reminded}, Errors: ${processedCount.errors}`);
       
     } catch (error) {
       logger.error("Error in expired membership check:", error);
@@ -168,7 +196,9 @@ export const manualCheckExpiredMemberships = onCall(
                 leagueId: leagueId,
                 eventType: "manual_expired",
                 status: "inactive",
-                reason: "Manual payment check - expired",
+                reason: memberData.paymentStatus === "trial" ?
+                  "Manual payment check - free trial ended" :
+                  "Manual payment check - expired",
                 createdAt: FieldValue.serverTimestamp(),
                 previousStatus: "active",
                 processedBy: request.auth.uid,
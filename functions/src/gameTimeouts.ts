@@ -0,0 +1,262 @@
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  FieldValue,
+  Timestamp,
+  DocumentData,
+} from "firebase-admin/firestore";
+
+// Overdue games resolved per run; the rest wait for the next run
+const MAX_GAMES_PER_RUN = 200;
+
+type GameSide = "creator" | "opponent";
+type TimeoutPolicy = "leader_wins" | "forfeit_inactive" | "abandon";
+
+// Policy for friendly games and leagues that never chose one
+const DEFAULT_TIMEOUT_POLICY: TimeoutPolicy = "leader_wins";
+
+/**
+ * Outcome of an overdue game
+ */
+export interface TimeoutResolution {
+  outcome: "leader_wins" | "forfeit" | "abandoned";
+  winningSide?: GameSide;
+  forfeitedBy?: GameSide;
+}
+
+/**
+ * Last time each side recorded a hand, in milliseconds
+ */
+export interface SideActivity {
+  creator?: number;
+  opponent?: number;
+}
+
+/**
+ * Get every player on one side of a game (both partners in a double game)
+ * @param {DocumentData} game Game document data
+ * @param {GameSide} side Creator (team1) or opponent (team2) side
+ * @return {string[]} Player IDs on that side
+ */
+function getSidePlayers(game: DocumentData, side: GameSide): string[] {
+  if (game.teams) {
+    return side === "creator" ? game.teams.team1 : game.teams.team2;
+  }
+  return [side === "creator" ? game.createdBy : game.opponent];
+}
+
+/**
+ * Resolve a game that is still in progress at its deadline. Leader wins
+ * needs a side ahead on points and forfeits need one side to have been
+ * active more recently; anything else is abandoned.
+ * @param {DocumentData} game Game document data
+ * @param {TimeoutPolicy} policy League policy
+ * @param {SideActivity} activity Last hand recorded by each side
+ * @return {TimeoutResolution} How the game ends
+ */
+export function resolveTimeout(
+  game: DocumentData,
+  policy: TimeoutPolicy,
+  activity: SideActivity,
+): TimeoutResolution {
+  const creatorScore = game.scores?.creator || 0;
+  const opponentScore = game.scores?.opponent || 0;
+
+  if (policy === "leader_wins" && creatorScore !== opponentScore) {
+    return {
+      outcome: "leader_wins",
+      winningSide: creatorScore > opponentScore ? "creator" : "opponent",
+    };
+  }
+
+  if (policy === "forfeit_inactive") {
+    const creatorLast = activity.creator || 0;
+    const opponentLast = activity.opponent || 0;
+    if (creatorLast !== opponentLast) {
+      const forfeitedBy: GameSide =
+        creatorLast < opponentLast ? "creator" : "opponent";
+      return {
+        outcome: "forfeit",
+        forfeitedBy,
+        winningSide: forfeitedBy === "creator" ? "opponent" : "creator",
+      };
+    }
+  }
+
+  return {outcome: "abandoned"};
+}
+
+/**
+ * Find when each side last recorded a hand
+ * @param {DocumentData} game Game document data
+ * @param {DocumentData[]} hands Hands recorded for the game
+ * @return {SideActivity} Latest hand per side, in milliseconds
+ */
+function getSideActivity(
+  game: DocumentData,
+  hands: DocumentData[],
+): SideActivity {
+  const activity: SideActivity = {};
+  const creatorPlayers = getSidePlayers(game, "creator");
+  const opponentPlayers = getSidePlayers(game, "opponent");
+
+  for (const hand of hands) {
+    const recordedAt = hand.recordedAt?.toMillis?.() || 0;
+    const side: GameSide | null =
+      creatorPlayers.includes(hand.recordedBy) ? "creator" :
+        opponentPlayers.includes(hand.recordedBy) ? "opponent" :
+          null;
+    if (side && recordedAt > (activity[side] || 0)) {
+      activity[side] = recordedAt;
+    }
+  }
+
+  return activity;
+}
+
+/**
+ * Resolve one overdue game by its league's policy. Decided games complete
+ * with a winner so onGameCompleted applies them to stats; abandoned games
+ * are counted on every player's profile here.
+ * @param {string} gameId ID of the overdue game
+ * @return {Promise<TimeoutResolution | null>} Outcome, or null if the game
+ * was no longer overdue
+ */
+export async function resolveOverdueGame(
+  gameId: string,
+): Promise<TimeoutResolution | null> {
+  const db = getFirestore();
+  const gameRef = db.collection("games").doc(gameId);
+
+  const handsSnap = await gameRef.collection("hands").get();
+  const hands = handsSnap.docs
+    .map((handDoc) => handDoc.data())
+    .filter((hand) => !hand.disputed);
+
+  return db.runTransaction(async (transaction) => {
+    const gameSnap = await transaction.get(gameRef);
+    const game = gameSnap.data();
+    const now = Timestamp.now();
+
+    if (!game || game.status !== "in_progress" || !game.deadline ||
+        game.deadline.toMillis() > now.toMillis()) {
+      return null;
+    }
+
+    let policy: TimeoutPolicy = DEFAULT_TIMEOUT_POLICY;
+    if (game.leagueId) {
+      const leagueSnap = await transaction.get(
+        db.collection("leagues").doc(game.leagueId));
+      policy = leagueSnap.data()?.settings?.timeoutPolicy ||
+        DEFAULT_TIMEOUT_POLICY;
+    }
+
+    const resolution = resolveTimeout(
+      game,
+      policy,
+      getSideActivity(game, hands),
+    );
+    const scoresAtDeadline = {
+      creator: game.scores?.creator || 0,
+      opponent: game.scores?.opponent || 0,
+    };
+    const timeout = {
+      policy,
+      outcome: resolution.outcome,
+      ...(resolution.forfeitedBy && {forfeitedBy: resolution.forfeitedBy}),
+      scoresAtDeadline,
+      resolvedAt: now,
+    };
+
+    if (!resolution.winningSide) {
+      // Nobody won: close the game and count it as abandoned for everyone
+      const players = [
+        ...getSidePlayers(game, "creator"),
+        ...getSidePlayers(game, "opponent"),
+      ];
+      players.forEach((playerId) => {
+        // Merge so a player without a user document does not fail the
+        // whole transaction
+        transaction.set(db.collection("users").doc(playerId), {
+          stats: {gamesAbandoned: FieldValue.increment(1)},
+        }, {merge: true});
+      });
+
+      transaction.update(gameRef, {
+        status: "abandoned",
+        timeout,
+        activePlayer: null,
+        completedAt: now,
+        updatedAt: now,
+        statsApplied: true,
+        statsAppliedAt: FieldValue.serverTimestamp(),
+      });
+      return resolution;
+    }
+
+    const creatorWon = resolution.winningSide === "creator";
+    transaction.update(gameRef, {
+      status: "completed",
+      timeout,
+      scores: game.teams ?
+        {...scoresAtDeadline, team1: scoresAtDeadline.creator,
+          team2: scoresAtDeadline.opponent} :
+        scoresAtDeadline,
+      winner: creatorWon ? game.createdBy : game.opponent,
+      winningTeam: game.teams ? (creatorWon ? "team1" : "team2") : null,
+      confirmedBy: null,
+      confirmingTeam: null,
+      activePlayer: null,
+      completedAt: now,
+      updatedAt: now,
+    });
+    return resolution;
+  });
+}
+
+/**
+ * Scheduled function that resolves in_progress games past their deadline
+ */
+export const resolveOverdueGames = onSchedule(
+  {
+    schedule: "every 5 minutes",
+    timeZone: "UTC",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    const db = getFirestore();
+
+    // Judges can switch time limits off from the game configuration
+    const configSnap = await db.collection("gameConfig").doc("current").get();
+    if (configSnap.data()?.features?.enableTimeouts === false) {
+      logger.info("Time limits are disabled, skipping overdue games");
+      return;
+    }
+
+    const overdueSnap = await db.collection("games")
+      .where("status", "==", "in_progress")
+      .where("deadline", "<=", Timestamp.now())
+      .limit(MAX_GAMES_PER_RUN)
+      .get();
+
+    if (overdueSnap.empty) {
+      logger.info("No overdue games");
+      return;
+    }
+
+    const counts = {leader_wins: 0, forfeit: 0, abandoned: 0, errors: 0};
+
+    for (const gameDoc of overdueSnap.docs) {
+      try {
+        const resolution = await resolveOverdueGame(gameDoc.id);
+        if (resolution) counts[resolution.outcome]++;
+      } catch (error) {
+        counts.errors++;
+        logger.error(`Error resolving overdue game ${gameDoc.id}:`, error);
+      }
+    }
+
+    logger.info("Resolved overdue games", counts);
+  },
+);
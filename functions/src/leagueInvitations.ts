@@ -0,0 +1,146 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+
+/**
+ * Accept or decline a league invitation. Accepting creates the invitee's
+ * membership with the invited role, or reuses a lapsed one. Comped
+ * invitations and free leagues make the member active straight away; paid
+ * leagues leave the membership pending until the fee is paid on the join
+ * page.
+ */
+export const respondToLeagueInvitation = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {invitationId, accept} = request.data || {};
+    if (!invitationId || typeof invitationId !== "string" ||
+        typeof accept !== "boolean") {
+      throw new HttpsError(
+        "invalid-argument",
+        "invitationId and accept are required",
+      );
+    }
+
+    const userId = request.auth.uid;
+    const db = getFirestore();
+    const invitationRef = db.collection("leagueInvitations").doc(invitationId);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const invitation = (await transaction.get(invitationRef)).data();
+      if (!invitation || invitation.invitedUserId !== userId) {
+        throw new HttpsError("not-found", "Invitation not found");
+      }
+      if (invitation.status !== "pending") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This invitation has already been answered",
+        );
+      }
+
+      const now = Timestamp.now();
+      if (invitation.expiresAt &&
+          invitation.expiresAt.toMillis() <= now.toMillis()) {
+        transaction.update(invitationRef, {status: "expired"});
+        return {expired: true};
+      }
+
+      if (!accept) {
+        transaction.update(invitationRef, {
+          status: "declined",
+          respondedAt: now,
+        });
+        return {expired: false, membershipId: null, paymentRequired: false};
+      }
+
+      const leagueRef = db.collection("leagues").doc(invitation.leagueId);
+      const league = (await transaction.get(leagueRef)).data();
+      if (!league) {
+        throw new HttpsError("not-found", "League not found");
+      }
+
+      const membershipSnap = await transaction.get(
+        db.collection("leagueMemberships")
+          .where("leagueId", "==", invitation.leagueId)
+          .where("userId", "==", userId)
+          .limit(1));
+      const existing = membershipSnap.empty ?
+        null : membershipSnap.docs[0];
+      if (existing?.data().status === "active") {
+        throw new HttpsError(
+          "already-exists",
+          "You are already a member of this league",
+        );
+      }
+      if (existing?.data().status === "suspended") {
+        throw new HttpsError(
+          "failed-precondition",
+          "Your membership in this league is suspended",
+        );
+      }
+
+      const paymentRequired =
+        league.settings?.pricing?.paymentRequired === true &&
+        invitation.comped !== true;
+      const membership = {
+        status: paymentRequired ? "pending" : "active",
+        role: invitation.role,
+        ...(invitation.comped === true && {paymentStatus: "comped"}),
+        ...(paymentRequired && {paymentStatus: "pending"}),
+        invitationId,
+      };
+
+      const membershipRef = existing?.ref ||
+        db.collection("leagueMemberships").doc();
+      if (existing) {
+        transaction.update(membershipRef, {...membership, updatedAt: now});
+      } else {
+        transaction.set(membershipRef, {
+          leagueId: invitation.leagueId,
+          userId,
+          joinedAt: now,
+          ...membership,
+          stats: {
+            gamesPlayed: 0,
+            gamesWon: 0,
+            totalPoints: 0,
+            winRate: 0,
+            currentStreak: 0,
+            longestWinStreak: 0,
+          },
+        });
+      }
+
+      transaction.update(invitationRef, {
+        status: "accepted",
+        respondedAt: now,
+        membershipId: membershipRef.id,
+      });
+
+      transaction.set(db.collection("membershipEvents").doc(), {
+        leagueId: invitation.leagueId,
+        userId,
+        eventType: "invitation_accepted",
+        invitationId,
+        invitedBy: invitation.invitedBy,
+        role: invitation.role,
+        comped: invitation.comped === true,
+        timestamp: now,
+      });
+
+      return {expired: false, membershipId: membershipRef.id, paymentRequired};
+    });
+
+    if (result.expired) {
+      throw new HttpsError("deadline-exceeded", "This invitation has expired");
+    }
+
+    logger.info(`${accept ? "Accepted" : "Declined"} league invitation ${
+      invitationId}`, {userId});
+
+    return {success: true, ...result};
+  },
+);
@@ -0,0 +1,322 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
+import {createHash} from "crypto";
+import {squareRequest} from "./squareApi";
+
+// Days of league access one membership payment buys
+export const MEMBERSHIP_PERIOD_DAYS = 30;
+
+// Square payment error codes, as players should read them
+const PAYMENT_FAILURE_REASONS: Record<string, string> = {
+  CARD_DECLINED: "Your card was declined.",
+  GENERIC_DECLINE: "Your card was declined.",
+  CARD_DECLINED_CALL_ISSUER: "Your card was declined. Please call your bank.",
+  CARD_DECLINED_VERIFICATION_REQUIRED:
+    "Your bank needs to verify this payment. Please try again.",
+  INSUFFICIENT_FUNDS: "The card has insufficient funds.",
+  CVV_FAILURE: "The card security code (CVV) is incorrect.",
+  VERIFY_CVV_FAILURE: "The card security code (CVV) is incorrect.",
+  ADDRESS_VERIFICATION_FAILURE:
+    "The billing postal code does not match the card.",
+  VERIFY_AVS_FAILURE: "The billing postal code does not match the card.",
+  INVALID_EXPIRATION: "The card expiration date is invalid.",
+  CARD_EXPIRED: "The card has expired.",
+  INVALID_CARD: "The card number is invalid.",
+  INVALID_ACCOUNT: "The card number is invalid.",
+  CARD_NOT_SUPPORTED: "This card type is not supported.",
+  TRANSACTION_LIMIT: "This payment is over your card's limit.",
+  PAN_FAILURE: "The card number is invalid.",
+};
+
+/**
+ * Activate or extend a membership after a payment. Time left on an active
+ * membership is kept, so paying early never shortens it. Activating the
+ * same payment again returns the period it already paid for.
+ * @param {string} leagueId League paid for
+ * @param {string} userId Paying member
+ * @param {string} paymentId Payment or invoice that paid for the period
+ * @param {string} reason Recorded on the membership event
+ * @return {Promise<Date>} New membership expiration date
+ */
+export async function activateMembership(
+  leagueId: string,
+  userId: string,
+  paymentId: string,
+  reason: string,
+): Promise<Date> {
+  const db = getFirestore();
+
+  // Check if user already has membership for this league
+  const membershipQuery = await db
+    .collection("leagueMemberships")
+    .where("leagueId", "==", leagueId)
+    .where("userId", "==", userId)
+    .get();
+  const membershipDoc = membershipQuery.empty ? null : membershipQuery.docs[0];
+  const membership = membershipDoc?.data();
+  if (membership?.lastPaymentId === paymentId &&
+      membership.membershipExpiresAt) {
+    return membership.membershipExpiresAt.toDate();
+  }
+
+  const periodStart = membership?.status === "active" &&
+    membership.membershipExpiresAt?.toMillis() > Date.now() ?
+    membership.membershipExpiresAt.toDate() : new Date();
+  const expirationDate = new Date(periodStart);
+  expirationDate.setDate(expirationDate.getDate() + MEMBERSHIP_PERIOD_DAYS);
+  const expiresTimestamp = Timestamp.fromDate(expirationDate);
+
+  if (!membershipDoc || !membership) {
+    // Create new membership
+    await db.collection("leagueMemberships").add({
+      leagueId,
+      userId,
+      status: "active",
+      role: "player",
+      joinedAt: FieldValue.serverTimestamp(),
+      membershipExpiresAt: expiresTimestamp,
+      paymentStatus: "active",
+      lastPaymentId: paymentId,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      stats: {
+        gamesPlayed: 0,
+        gamesWon: 0,
+        totalPoints: 0,
+        winRate: 0,
+        currentStreak: 0,
+        longestWinStreak: 0,
+      },
+    });
+  } else {
+    // Update existing membership (reactivate if needed, but a payment
+    // never ends a suspension)
+    await membershipDoc.ref.update({
+      status: membership.status === "suspended" ? "suspended" : "active",
+      paymentStatus: "active",
+      membershipExpiresAt: expiresTimestamp,
+      lastPaymentId: paymentId,
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(membership.status === "inactive" && {
+        reactivatedAt: FieldValue.serverTimestamp(),
+      }),
+    });
+  }
+
+  // Log membership event
+  await db.collection("membershipEvents").add({
+    leagueId,
+    userId,
+    eventType: membershipDoc ? "membership_extended" : "membership_created",
+    status: "active",
+    paymentId,
+    expirationDate: expiresTimestamp,
+    timestamp: FieldValue.serverTimestamp(),
+    reason,
+  });
+
+  return expirationDate;
+}
+
+/**
+ * Charge a league membership fee with a card token from the Web Payments
+ * SDK. The amount comes from the league's pricing, never from the client.
+ * The client sends one idempotency key per payment attempt, so a retried
+ * request cannot charge the card twice; the derived key also names the
+ * LeaguePayment record. An attempt stays pending until Square answers, and
+ * a retry resends the first request so Square can replay its result.
+ */
+export const processLeaguePayment = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {sourceId, leagueId, idempotencyKey, verificationToken, amount} =
+      request.data || {};
+    if (!sourceId || typeof sourceId !== "string" ||
+        !leagueId || typeof leagueId !== "string" ||
+        !idempotencyKey || typeof idempotencyKey !== "string") {
+      throw new HttpsError("invalid-argument", "Invalid payment parameters");
+    }
+
+    const userId = request.auth.uid;
+    const db = getFirestore();
+
+    const league = (await db.collection("leagues").doc(leagueId).get()).data();
+    if (!league) {
+      throw new HttpsError("not-found", "League not found");
+    }
+    const pricing = league.settings?.pricing;
+    if (!pricing?.paymentRequired || !(pricing.monthlyFee > 0)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This league has no membership fee",
+      );
+    }
+    // The client shows a price; refuse to charge if it is no longer current
+    if (amount !== undefined && Number(amount) !== pricing.monthlyFee) {
+      throw new HttpsError(
+        "failed-precondition",
+        "The league fee has changed. Please review the new price.",
+        {reason: "AMOUNT_MISMATCH", monthlyFee: pricing.monthlyFee},
+      );
+    }
+
+    const membershipSnap = await db.collection("leagueMemberships")
+      .where("leagueId", "==", leagueId)
+      .where("userId", "==", userId)
+      .limit(1)
+      .get();
+    const isRenewal = !membershipSnap.empty &&
+      membershipSnap.docs[0].data().paymentStatus === "active";
+
+    // Square keys are at most 45 characters
+    const paymentKey = createHash("sha256")
+      .update(`${userId}:${leagueId}:${idempotencyKey}`)
+      .digest("hex")
+      .slice(0, 45);
+    const paymentRef = db.collection("payments").doc(paymentKey);
+    const currency = pricing.currency || "USD";
+
+    // Record the attempt first; a repeated key returns the earlier result
+    const previous = await db.runTransaction(async (transaction) => {
+      const existing = (await transaction.get(paymentRef)).data();
+      if (existing) return existing;
+      transaction.set(paymentRef, {
+        userId,
+        leagueId,
+        amount: pricing.monthlyFee,
+        currency,
+        status: "pending",
+        type: isRenewal ? "renewal" : "initial",
+        paymentMethod: "square_card",
+        // Kept until Square answers, so a retry sends the same request
+        squareSourceId: sourceId,
+        ...(verificationToken && {
+          squareVerificationToken: verificationToken,
+        }),
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      return null;
+    });
+    if (previous?.status === "failed") {
+      throw new HttpsError("failed-precondition", previous.failureReason, {
+        reason: previous.failureCode,
+        declined: true,
+      });
+    }
+    // A charged payment whose membership was not activated yet finishes here
+    if (previous?.status === "completed" && previous.membershipExpiresAt) {
+      return {
+        success: true,
+        paymentId: paymentRef.id,
+        membershipExpiresAt: previous.membershipExpiresAt.toDate()
+          .toISOString(),
+      };
+    }
+
+    // A retry resends the first request, which Square answers the same way
+    const attempt = previous || {
+      amount: pricing.monthlyFee,
+      currency,
+      squareSourceId: sourceId,
+      squareVerificationToken: verificationToken,
+    };
+    let squarePaymentId: string = previous?.squarePaymentId;
+    if (previous?.status !== "completed") {
+      let squarePayment: {id: string; status: string; receipt_url?: string};
+      try {
+        ({payment: squarePayment} = await squareRequest<{
+          payment: {id: string; status: string; receipt_url?: string};
+        }>("/v2/payments", "POST", {
+          source_id: attempt.squareSourceId,
+          idempotency_key: paymentKey,
+          amount_money: {
+            amount: Math.round(attempt.amount * 100),
+            currency: attempt.currency,
+          },
+          location_id: process.env.SQUARE_LOCATION_ID,
+          autocomplete: true,
+          reference_id: paymentRef.id,
+          note: `League: ${leagueId} | User: ${userId} | Type: card_payment`,
+          ...(attempt.squareVerificationToken && {
+            verification_token: attempt.squareVerificationToken,
+          }),
+        }));
+        if (squarePayment.status !== "COMPLETED") {
+          throw new HttpsError(
+            "internal",
+            `Payment ${squarePayment.status.toLowerCase()}`,
+            {squareCode: squarePayment.status},
+          );
+        }
+      } catch (error) {
+        const squareCode = error instanceof HttpsError ?
+          (error.details as {squareCode?: string} | undefined)?.squareCode :
+          undefined;
+
+        // Without an answer from Square the card may have been charged, so
+        // the attempt stays pending for the client to retry with its key
+        if (!squareCode) {
+          logger.error("Payment could not be confirmed:", error);
+          throw new HttpsError(
+            "unavailable",
+            "The payment could not be confirmed. Please try again.",
+          );
+        }
+
+        const failureReason = PAYMENT_FAILURE_REASONS[squareCode] ||
+          "The payment could not be processed. Please try again.";
+        logger.error("Payment processing error:", error);
+        await paymentRef.update({
+          status: "failed",
+          failureReason,
+          failureCode: squareCode,
+          squareSourceId: FieldValue.delete(),
+          squareVerificationToken: FieldValue.delete(),
+          processedAt: FieldValue.serverTimestamp(),
+        });
+
+        throw new HttpsError("failed-precondition", failureReason, {
+          reason: squareCode,
+          declined: true,
+        });
+      }
+
+      await paymentRef.update({
+        status: "completed",
+        squarePaymentId: squarePayment.id,
+        ...(squarePayment.receipt_url && {
+          receiptUrl: squarePayment.receipt_url,
+        }),
+        squareSourceId: FieldValue.delete(),
+        squareVerificationToken: FieldValue.delete(),
+        processedAt: FieldValue.serverTimestamp(),
+      });
+      squarePaymentId = squarePayment.id;
+    }
+
+    const expirationDate = await activateMembership(
+      leagueId, userId, paymentRef.id, "square_card_payment");
+    await paymentRef.update({
+      membershipExpiresAt: Timestamp.fromDate(expirationDate),
+    });
+
+    logger.info("Payment processed successfully", {
+      paymentId: paymentRef.id,
+      squarePaymentId,
+      userId,
+      leagueId,
+      amount: attempt.amount,
+    });
+
+    return {
+      success: true,
+      paymentId: paymentRef.id,
+      membershipExpiresAt: expirationDate.toISOString(),
+    };
+  },
+);
@@ -0,0 +1,133 @@
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  FieldValue,
+  DocumentData,
+} from "firebase-admin/firestore";
+
+// Membership statuses that keep a member (and their role) on the league
+const ROLE_STATUSES = ["active", "suspended"];
+
+// Memberships written per batch when the mirror is rebuilt
+const ROLE_SYNC_BATCH_SIZE = 400;
+
+/**
+ * League role a membership is mirrored with, or null once it has ended
+ * @param {DocumentData | undefined} membership Membership document data
+ * @return {string | null} Player, admin, judge or owner role
+ */
+function getMirroredRole(membership: DocumentData | undefined): string | null {
+  if (!membership || !ROLE_STATUSES.includes(membership.status)) return null;
+  return membership.role || "player";
+}
+
+/**
+ * Keep leagues/{leagueId}.memberRoles in step with the league's members
+ * and their roles. Membership IDs are generated, so the rules read
+ * membership and delegated roles from this map on the league instead of
+ * querying memberships.
+ */
+export const onLeagueMembershipRoleChanged = onDocumentWritten(
+  "leagueMemberships/{membershipId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const membership = after || before;
+    if (!membership?.leagueId || !membership.userId) return;
+
+    const previousRole = getMirroredRole(before);
+    const role = getMirroredRole(after);
+    if (previousRole === role) return;
+
+    const leagueRef = getFirestore().collection("leagues")
+      .doc(membership.leagueId);
+
+    try {
+      await leagueRef.update({
+        [`memberRoles.${membership.userId}`]: role || FieldValue.delete(),
+      });
+      logger.info(`League role of ${membership.userId} is now ${
+        role || "none"}`, {leagueId: membership.leagueId});
+    } catch (error) {
+      logger.error(`Error syncing league roles of ${membership.leagueId}:`,
+        error);
+      throw error; // Let the trigger retry
+    }
+  },
+);
+
+/**
+ * Mirror every current membership onto its league, for leagues whose
+ * members joined before the mirror covered players
+ * @return {Promise<number>} Number of memberships mirrored
+ */
+async function syncLeagueMemberRoles(): Promise<number> {
+  const db = getFirestore();
+  const membershipsSnap = await db.collection("leagueMemberships")
+    .where("status", "in", ROLE_STATUSES)
+    .get();
+
+  // Memberships of deleted leagues are skipped
+  const leagueIds = Array.from(new Set(membershipsSnap.docs
+    .map((membershipDoc) => membershipDoc.data().leagueId)
+    .filter(Boolean)));
+  const leagueSnaps = leagueIds.length > 0 ?
+    await db.getAll(...leagueIds.map((leagueId) =>
+      db.collection("leagues").doc(leagueId))) :
+    [];
+  const existingLeagueIds = new Set(leagueSnaps
+    .filter((leagueSnap) => leagueSnap.exists)
+    .map((leagueSnap) => leagueSnap.id));
+
+  let batch = db.batch();
+  let pending = 0;
+
+  for (const membershipDoc of membershipsSnap.docs) {
+    const membership = membershipDoc.data();
+    if (!existingLeagueIds.has(membership.leagueId) ||
+      !membership.userId) continue;
+
+    batch.update(db.collection("leagues").doc(membership.leagueId), {
+      [`memberRoles.${membership.userId}`]: getMirroredRole(membership),
+    });
+    pending++;
+
+    if (pending % ROLE_SYNC_BATCH_SIZE === 0) {
+      await batch.commit();
+      batch = db.batch();
+    }
+  }
+
+  if (pending % ROLE_SYNC_BATCH_SIZE !== 0) {
+    await batch.commit();
+  }
+  return pending;
+}
+
+/**
+ * Rebuild the memberRoles mirror of every league (administrators only)
+ */
+export const manualSyncLeagueMemberRoles = onCall(
+  {
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async (request) => {
+    if (!request.auth || !request.auth.token.admin) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only administrators can run this function",
+      );
+    }
+
+    try {
+      const synced = await syncLeagueMemberRoles();
+      return {success: true, synced};
+    } catch (error) {
+      logger.error("Error syncing league member roles:", error);
+      throw new HttpsError("internal", "Failed to sync league member roles");
+    }
+  },
+);
@@ -0,0 +1,134 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days before a trial ends that the member is reminded to pay
+export const TRIAL_REMINDER_DAYS = 3;
+
+/**
+ * Start a free trial of a priced league. The trial is an active membership
+ * that expires after the league's trialPeriodDays, when
+ * checkExpiredMemberships ends it and the member has to pay to keep
+ * playing. Trials are recorded in leagueTrials/{leagueId}_{userId}, which
+ * only functions write, so leaving and rejoining never grants another one.
+ */
+export const startLeagueTrial = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {leagueId} = request.data || {};
+    if (!leagueId || typeof leagueId !== "string") {
+      throw new HttpsError("invalid-argument", "leagueId is required");
+    }
+
+    const userId = request.auth.uid;
+    const db = getFirestore();
+    const league = (await db.collection("leagues").doc(leagueId).get()).data();
+    if (!league) {
+      throw new HttpsError("not-found", "League not found");
+    }
+    const pricing = league.settings?.pricing;
+    const trialDays = Math.floor(Number(pricing?.trialPeriodDays) || 0);
+    if (!pricing?.paymentRequired || trialDays <= 0) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This league does not offer a free trial",
+      );
+    }
+
+    const membershipSnap = await db.collection("leagueMemberships")
+      .where("leagueId", "==", leagueId)
+      .where("userId", "==", userId)
+      .limit(1)
+      .get();
+    const membershipDoc = membershipSnap.empty ? null : membershipSnap.docs[0];
+    const membership = membershipDoc?.data();
+    // Accepted invitations to priced leagues wait for payment as pending
+    const awaitingPayment = membership?.status === "pending" &&
+      membership.paymentStatus === "pending";
+    if (membership && !awaitingPayment) {
+      throw new HttpsError(
+        "failed-precondition",
+        "You are already a member of this league",
+      );
+    }
+    if (!membership && !league.isPublic) {
+      throw new HttpsError(
+        "permission-denied",
+        "This is a private league. You can only join by invitation.",
+      );
+    }
+
+    const trialEndsAt = Timestamp.fromMillis(Date.now() + trialDays * DAY_MS);
+    const trialRef = db.collection("leagueTrials").doc(`${leagueId}_${userId}`);
+    const membershipRef = membershipDoc?.ref ||
+      db.collection("leagueMemberships").doc();
+
+    await db.runTransaction(async (transaction) => {
+      if ((await transaction.get(trialRef)).exists) {
+        throw new HttpsError(
+          "already-exists",
+          "You have already used your free trial in this league",
+        );
+      }
+
+      transaction.set(trialRef, {
+        leagueId,
+        userId,
+        trialDays,
+        startedAt: FieldValue.serverTimestamp(),
+        endsAt: trialEndsAt,
+      });
+
+      const trialFields = {
+        status: "active",
+        paymentStatus: "trial",
+        trialEndsAt,
+        membershipExpiresAt: trialEndsAt,
+        updatedAt: FieldValue.serverTimestamp(),
+      };
+      if (membership) {
+        transaction.update(membershipRef, trialFields);
+      } else {
+        transaction.set(membershipRef, {
+          ...trialFields,
+          leagueId,
+          userId,
+          role: "player",
+          joinedAt: FieldValue.serverTimestamp(),
+          createdAt: FieldValue.serverTimestamp(),
+          stats: {
+            gamesPlayed: 0,
+            gamesWon: 0,
+            totalPoints: 0,
+            winRate: 0,
+            currentStreak: 0,
+            longestWinStreak: 0,
+          },
+        });
+      }
+    });
+
+    await db.collection("membershipEvents").add({
+      leagueId,
+      userId,
+      eventType: "trial_started",
+      status: "active",
+      expirationDate: trialEndsAt,
+      timestamp: FieldValue.serverTimestamp(),
+      reason: `${trialDays}-day free trial`,
+    });
+
+    logger.info("Started league trial", {leagueId, userId, trialDays});
+
+    return {
+      success: true,
+      trialEndsAt: trialEndsAt.toDate().toISOString(),
+    };
+  },
+);
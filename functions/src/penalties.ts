@@ -0,0 +1,410 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  Firestore,
+  Transaction,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+} from "firebase-admin/firestore";
+
+const PENALTY_TYPES = ["point_deduction", "warning", "suspension", "fine"];
+
+// League roles that can issue and lift penalties
+const PENALTY_ROLES = ["owner", "judge"];
+
+// Longest reason a judge can record
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Whether a user can issue penalties in a league: federation judges, the
+ * league owner and members with the judge role
+ * @param {Firestore} db Firestore instance
+ * @param {DocumentData} league League document data
+ * @param {string} leagueId League ID
+ * @param {string} userId User ID
+ * @param {boolean} isJudge Whether the caller has the judge claim
+ * @return {Promise<boolean>} True for league judges
+ */
+async function canIssuePenalties(
+  db: Firestore,
+  league: DocumentData,
+  leagueId: string,
+  userId: string,
+  isJudge: boolean,
+): Promise<boolean> {
+  if (isJudge || league.createdBy === userId) return true;
+
+  const membershipSnap = await db.collection("leagueMemberships")
+    .where("leagueId", "==", leagueId)
+    .where("userId", "==", userId)
+    .where("status", "==", "active")
+    .limit(1)
+    .get();
+  return !membershipSnap.empty &&
+    PENALTY_ROLES.includes(membershipSnap.docs[0].data().role);
+}
+
+/**
+ * Find a member's membership document in a league
+ * @param {Firestore} db Firestore instance
+ * @param {string} leagueId League ID
+ * @param {string} userId Member ID
+ * @return {Promise<DocumentReference | null>} Membership
+ */
+async function findMembershipRef(
+  db: Firestore,
+  leagueId: string,
+  userId: string,
+): Promise<DocumentReference | null> {
+  const membershipSnap = await db.collection("leagueMemberships")
+    .where("leagueId", "==", leagueId)
+    .where("userId", "==", userId)
+    .limit(1)
+    .get();
+  return membershipSnap.empty ? null : membershipSnap.docs[0].ref;
+}
+
+/**
+ * Membership status to restore once a new suspension ends. A member who is
+ * already suspended keeps the status from before the first suspension.
+ * @param {Firestore} db Firestore instance
+ * @param {DocumentReference} membershipRef Membership being suspended
+ * @param {string} leagueId League ID
+ * @param {string} userId Suspended member
+ * @return {Promise<string>} Status before the suspension
+ */
+async function getStatusBeforeSuspension(
+  db: Firestore,
+  membershipRef: DocumentReference,
+  leagueId: string,
+  userId: string,
+): Promise<string> {
+  const membership = (await membershipRef.get()).data();
+  if (membership?.status !== "suspended") {
+    return membership?.status || "active";
+  }
+
+  const runningSnap = await db.collection("leaguePenalties")
+    .where("leagueId", "==", leagueId)
+    .where("userId", "==", userId)
+    .where("type", "==", "suspension")
+    .where("status", "==", "active")
+    .get();
+  const running = runningSnap.docs.find((suspensionDoc) =>
+    suspensionDoc.data().previousStatus);
+  return running?.data().previousStatus || "active";
+}
+
+/**
+ * Restore a suspended member to the status they had before the suspension,
+ * unless another suspension is still running
+ * @param {Firestore} db Firestore instance
+ * @param {Transaction} transaction Running transaction
+ * @param {DocumentData} penalty Suspension being lifted
+ * @param {string} penaltyId ID of the suspension being lifted
+ * @param {Timestamp} now Current time
+ * @return {Promise<void>}
+ */
+async function endSuspension(
+  db: Firestore,
+  transaction: Transaction,
+  penalty: DocumentData,
+  penaltyId: string,
+  now: Timestamp,
+): Promise<void> {
+  const otherSuspensions = await transaction.get(
+    db.collection("leaguePenalties")
+      .where("leagueId", "==", penalty.leagueId)
+      .where("userId", "==", penalty.userId)
+      .where("type", "==", "suspension")
+      .where("status", "==", "active"));
+  const stillSuspended = otherSuspensions.docs.some((suspensionDoc) => {
+    const suspendedUntil = suspensionDoc.data().suspendedUntil;
+    return suspensionDoc.id !== penaltyId &&
+      (!suspendedUntil || suspendedUntil.toMillis() > now.toMillis());
+  });
+
+  const membershipRef = await findMembershipRef(
+    db, penalty.leagueId, penalty.userId);
+  if (membershipRef && !stillSuspended) {
+    const membership = (await transaction.get(membershipRef)).data();
+    if (membership?.status === "suspended") {
+      transaction.update(membershipRef, {
+        status: penalty.previousStatus || "active",
+        suspendedUntil: null,
+        updatedAt: now,
+      });
+    }
+  }
+}
+
+/**
+ * Record a penalty against a league member. Suspensions set the membership
+ * to suspended and fines create a pending penalty payment that the player
+ * settles through Square checkout.
+ */
+export const issuePenalty = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {leagueId, userId, type, gameId, points, days, amount} =
+      request.data || {};
+    const reason = typeof request.data?.reason === "string" ?
+      request.data.reason.trim() : "";
+
+    if (!leagueId || typeof leagueId !== "string" ||
+        !userId || typeof userId !== "string" ||
+        !PENALTY_TYPES.includes(type)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "leagueId, userId and a penalty type are required",
+      );
+    }
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A reason of up to ${MAX_REASON_LENGTH} characters is required`,
+      );
+    }
+    if (type === "point_deduction" &&
+        !(Number.isInteger(points) && points > 0)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Point deductions need a positive whole number of points",
+      );
+    }
+    if (type === "suspension" && days !== undefined && days !== null &&
+        !(Number.isInteger(days) && days > 0)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Suspensions last a whole number of days, or until lifted",
+      );
+    }
+    if (type === "fine" && !(typeof amount === "number" && amount > 0)) {
+      throw new HttpsError("invalid-argument", "Fines need a positive amount");
+    }
+
+    const db = getFirestore();
+    const leagueSnap = await db.collection("leagues").doc(leagueId).get();
+    const league = leagueSnap.data();
+    if (!league) {
+      throw new HttpsError("not-found", "League not found");
+    }
+
+    // Penalties can be switched off per league and for every league
+    const configSnap = await db.collection("gameConfig").doc("current").get();
+    if (league.settings?.penaltiesEnabled === false ||
+        configSnap.data()?.features?.enablePenalties === false) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Penalties are turned off for this league",
+      );
+    }
+
+    if (!(await canIssuePenalties(db, league, leagueId, request.auth.uid,
+      request.auth.token.judge === true))) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only league judges can issue penalties",
+      );
+    }
+
+    const membershipRef = await findMembershipRef(db, leagueId, userId);
+    if (!membershipRef) {
+      throw new HttpsError("not-found", "This player is not a league member");
+    }
+
+    if (gameId) {
+      const game = (await db.collection("games").doc(gameId).get()).data();
+      if (!game || game.leagueId !== leagueId) {
+        throw new HttpsError(
+          "invalid-argument",
+          "The game must be a game of this league",
+        );
+      }
+    }
+
+    const previousStatus = type === "suspension" ?
+      await getStatusBeforeSuspension(db, membershipRef, leagueId, userId) :
+      null;
+
+    const now = Timestamp.now();
+    const penaltyRef = db.collection("leaguePenalties").doc();
+    const paymentRef = db.collection("payments").doc();
+    const suspendedUntil = type === "suspension" && days ?
+      Timestamp.fromMillis(now.toMillis() + days * 24 * 60 * 60 * 1000) :
+      null;
+    const currency = league.settings?.pricing?.currency || "USD";
+
+    const batch = db.batch();
+    batch.set(penaltyRef, {
+      leagueId,
+      userId,
+      type,
+      reason,
+      ...(gameId && {gameId}),
+      status: "active",
+      ...(type === "point_deduction" && {points}),
+      ...(type === "suspension" && {suspendedUntil, previousStatus}),
+      ...(type === "fine" && {amount, currency, paymentId: paymentRef.id}),
+      issuedBy: request.auth.uid,
+      issuedAt: now,
+    });
+
+    if (type === "suspension") {
+      batch.update(membershipRef, {
+        status: "suspended",
+        suspendedUntil,
+        updatedAt: now,
+      });
+    }
+
+    if (type === "fine") {
+      batch.set(paymentRef, {
+        userId,
+        leagueId,
+        amount,
+        currency,
+        status: "pending",
+        type: "penalty",
+        penaltyId: penaltyRef.id,
+        createdAt: now,
+      });
+    }
+
+    batch.set(db.collection("membershipEvents").doc(), {
+      leagueId,
+      userId,
+      eventType: "penalty_issued",
+      penaltyId: penaltyRef.id,
+      penaltyType: type,
+      issuedBy: request.auth.uid,
+      timestamp: now,
+      reason,
+    });
+
+    await batch.commit();
+
+    logger.info(`Issued ${type} to ${userId} in league ${leagueId}`, {
+      penaltyId: penaltyRef.id,
+      issuedBy: request.auth.uid,
+    });
+
+    return {success: true, penaltyId: penaltyRef.id};
+  },
+);
+
+/**
+ * Lift an active penalty. Lifted deductions stop counting in the
+ * standings, lifted suspensions restore the membership and lifted fines
+ * cancel their pending payment.
+ */
+export const liftPenalty = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {penaltyId} = request.data || {};
+    if (!penaltyId || typeof penaltyId !== "string") {
+      throw new HttpsError("invalid-argument", "penaltyId is required");
+    }
+
+    const db = getFirestore();
+    const penaltyRef = db.collection("leaguePenalties").doc(penaltyId);
+    const initialPenalty = (await penaltyRef.get()).data();
+    if (!initialPenalty) {
+      throw new HttpsError("not-found", "Penalty not found");
+    }
+
+    const league = (await db.collection("leagues")
+      .doc(initialPenalty.leagueId).get()).data() || {};
+    if (!(await canIssuePenalties(db, league, initialPenalty.leagueId,
+      request.auth.uid, request.auth.token.judge === true))) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only league judges can lift penalties",
+      );
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const penalty = (await transaction.get(penaltyRef)).data();
+      if (!penalty || penalty.status !== "active") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This penalty is no longer active",
+        );
+      }
+
+      const now = Timestamp.now();
+
+      if (penalty.type === "suspension") {
+        await endSuspension(db, transaction, penalty, penaltyId, now);
+      }
+      if (penalty.type === "fine" && penalty.paymentId) {
+        transaction.update(db.collection("payments").doc(penalty.paymentId), {
+          status: "canceled",
+          processedAt: now,
+        });
+      }
+
+      transaction.update(penaltyRef, {
+        status: "lifted",
+        liftedBy: request.auth?.uid,
+        liftedAt: now,
+      });
+    });
+
+    logger.info(`Lifted penalty ${penaltyId}`, {liftedBy: request.auth.uid});
+    return {success: true};
+  },
+);
+
+/**
+ * Scheduled function that ends suspensions whose time is up
+ */
+export const liftExpiredSuspensions = onSchedule(
+  {
+    schedule: "every 1 hours",
+    timeZone: "UTC",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    const db = getFirestore();
+    const expiredSnap = await db.collection("leaguePenalties")
+      .where("type", "==", "suspension")
+      .where("status", "==", "active")
+      .where("suspendedUntil", "<=", Timestamp.now())
+      .get();
+
+    let lifted = 0;
+    for (const penaltyDoc of expiredSnap.docs) {
+      try {
+        await db.runTransaction(async (transaction) => {
+          const penalty = (await transaction.get(penaltyDoc.ref)).data();
+          if (!penalty || penalty.status !== "active") return;
+
+          const now = Timestamp.now();
+          await endSuspension(db, transaction, penalty, penaltyDoc.id, now);
+          transaction.update(penaltyDoc.ref, {
+            status: "lifted",
+            liftedBy: "system",
+            liftedAt: now,
+          });
+        });
+        lifted++;
+      } catch (error) {
+        logger.error(`Error ending suspension ${penaltyDoc.id}:`, error);
+      }
+    }
+
+    logger.info(`Ended ${lifted} expired suspensions`);
+  },
+);
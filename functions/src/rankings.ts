@@ -0,0 +1,421 @@
+import {onDocumentUpdated} from "firebase-functions/v2/firestore";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  FieldValue,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import {
+  DEFAULT_RATING,
+  MAX_RATING_HISTORY,
+  calculateRatingChanges,
+} from "./rating";
+
+// Firestore allows at most 500 writes per batch
+const RANK_BATCH_SIZE = 500;
+
+// Completed games read per page when pair stats are rebuilt
+const PAIR_REBUILD_PAGE_SIZE = 500;
+
+type GameSide = "creator" | "opponent";
+
+/**
+ * ID of the stats document of a pair (pareja), within one league or, with
+ * a null league, across every game. Partner order does not matter.
+ * @param {string | null} leagueId League the stats cover, or null for all
+ * @param {string[]} players The two partners
+ * @return {string} pairStats document ID
+ */
+function pairStatsId(leagueId: string | null, players: string[]): string {
+  return `${leagueId || "all"}_${[...players].sort().join("_")}`;
+}
+
+/**
+ * Whether a game was played by two full pairs
+ * @param {DocumentData} game Game document data
+ * @return {boolean} True for 2v2 games
+ */
+function isPairGame(game: DocumentData): boolean {
+  return game.teams?.team1?.length === 2 && game.teams?.team2?.length === 2;
+}
+
+/**
+ * A pair's stats after one more game
+ * @param {DocumentData | undefined} current Stats before the game, if any
+ * @param {string[]} players The two partners
+ * @param {string | null} leagueId League the stats cover, or null for all
+ * @param {number} points Points the pair scored
+ * @param {boolean} won Whether the pair won
+ * @return {DocumentData} The pair's new stats document
+ */
+function nextPairStats(
+  current: DocumentData | undefined,
+  players: string[],
+  leagueId: string | null,
+  points: number,
+  won: boolean,
+): DocumentData {
+  const currentStreak = won ? (current?.currentStreak || 0) + 1 : 0;
+  return {
+    pairId: [...players].sort().join("_"),
+    playerIds: [...players].sort(),
+    leagueId,
+    gamesPlayed: (current?.gamesPlayed || 0) + 1,
+    gamesWon: (current?.gamesWon || 0) + (won ? 1 : 0),
+    totalPoints: (current?.totalPoints || 0) + points,
+    currentStreak,
+    longestWinStreak: Math.max(currentStreak, current?.longestWinStreak || 0),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Get every player on one side of a game (both partners in a double game)
+ * @param {DocumentData} game Game document data
+ * @param {GameSide} side Creator (team1) or opponent (team2) side
+ * @return {string[]} Player IDs on that side
+ */
+function getSidePlayers(game: DocumentData, side: GameSide): string[] {
+  if (game.teams) {
+    return side === "creator" ? game.teams.team1 : game.teams.team2;
+  }
+  return [side === "creator" ? game.createdBy : game.opponent];
+}
+
+/**
+ * Apply a completed game to every player's stats and rating, and to the
+ * stats of both pairs in a 2v2 game, in one transaction. The game is
+ * flagged so retried triggers never count it twice.
+ * @param {string} gameId ID of the completed game
+ * @return {Promise<boolean>} Whether any player stats changed
+ */
+export async function applyCompletedGameStats(
+  gameId: string,
+): Promise<boolean> {
+  const db = getFirestore();
+  const gameRef = db.collection("games").doc(gameId);
+
+  return db.runTransaction(async (transaction) => {
+    const gameSnap = await transaction.get(gameRef);
+    const game = gameSnap.data();
+
+    if (!game || game.status !== "completed" || game.statsApplied) {
+      return false;
+    }
+
+    // Games completed without a result still get flagged as processed
+    if (!game.scores || !game.winner) {
+      transaction.update(gameRef, {
+        statsApplied: true,
+        statsAppliedAt: FieldValue.serverTimestamp(),
+      });
+      return false;
+    }
+
+    const creatorWon = game.winningTeam ?
+      game.winningTeam === "team1" :
+      game.winner === game.createdBy;
+    const opponentWon = game.winningTeam ?
+      game.winningTeam === "team2" :
+      game.winner === game.opponent;
+
+    const sides: {side: GameSide; won: boolean; players: string[]}[] = [
+      {
+        side: "creator",
+        won: creatorWon,
+        players: getSidePlayers(game, "creator"),
+      },
+      {
+        side: "opponent",
+        won: opponentWon,
+        players: getSidePlayers(game, "opponent"),
+      },
+    ];
+
+    // Read every player before writing anything (transaction requirement)
+    const userRefs = sides.map(({players}) =>
+      players.map((playerId) => db.collection("users").doc(playerId)));
+    const userSnaps = await Promise.all(
+      userRefs.map((refs) => transaction.getAll(...refs)),
+    );
+    const users = userSnaps.map((snaps) =>
+      snaps.map((snap) => snap.data()));
+
+    // Pairs are tracked across every game and within the game's league
+    const pairLeagueIds: (string | null)[] =
+      [null, ...(game.leagueId ? [game.leagueId] : [])];
+    const pairRefs = isPairGame(game) ?
+      sides.map(({players}) => pairLeagueIds.map((leagueId) =>
+        db.collection("pairStats").doc(pairStatsId(leagueId, players)))) :
+      [];
+    const pairSnaps = await Promise.all(
+      pairRefs.map((refs) => transaction.getAll(...refs)),
+    );
+
+    // Rate both sides from their ratings before this game
+    const toRatingPlayer = (user: DocumentData | undefined) => ({
+      rating: user?.stats?.rating ?? DEFAULT_RATING,
+      gamesPlayed: user?.stats?.gamesPlayed || 0,
+    });
+    const ratingChanges = calculateRatingChanges(
+      users[0].map(toRatingPlayer),
+      users[1].map(toRatingPlayer),
+      game.scores.creator,
+      game.scores.opponent,
+      creatorWon,
+      game.settings?.pointsToWin || 0,
+    );
+
+    sides.forEach(({side, won}, sideIndex) => {
+      userRefs[sideIndex].forEach((userRef, playerIndex) => {
+        const user = users[sideIndex][playerIndex];
+        if (!user) return;
+
+        const stats = user.stats || {};
+        const change = ratingChanges[side][playerIndex];
+        const rating = (stats.rating ?? DEFAULT_RATING) + change;
+        const winStreak = won ? (stats.winStreak || 0) + 1 : 0;
+        // Losses by forfeit when the time limit ran out are tracked too
+        const forfeited = game.timeout?.forfeitedBy === side;
+
+        transaction.update(userRef, {
+          "stats.gamesPlayed": (stats.gamesPlayed || 0) + 1,
+          "stats.gamesWon": (stats.gamesWon || 0) + (won ? 1 : 0),
+          "stats.totalPoints": (stats.totalPoints || 0) + game.scores[side],
+          "stats.lastGameAt": FieldValue.serverTimestamp(),
+          "stats.winStreak": winStreak,
+          "stats.maxWinStreak": Math.max(winStreak, stats.maxWinStreak || 0),
+          "stats.rating": rating,
+          ...(forfeited && {
+            "stats.gamesForfeited": (stats.gamesForfeited || 0) + 1,
+          }),
+          "ratingHistory": [
+            ...(user.ratingHistory || []),
+            {gameId, rating, change, recordedAt: Timestamp.now()},
+          ].slice(-MAX_RATING_HISTORY),
+        });
+      });
+    });
+
+    pairRefs.forEach((refs, sideIndex) => {
+      const {side, won, players} = sides[sideIndex];
+      refs.forEach((pairRef, scopeIndex) => {
+        transaction.set(pairRef, nextPairStats(
+          pairSnaps[sideIndex][scopeIndex].data(),
+          players,
+          pairLeagueIds[scopeIndex],
+          game.scores[side],
+          won,
+        ));
+      });
+    });
+
+    transaction.update(gameRef, {
+      statsApplied: true,
+      statsAppliedAt: FieldValue.serverTimestamp(),
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Recompute stats.globalRank for every player who has played a game.
+ * Ordered by rating, then games won, total points and win rate.
+ * @return {Promise<number>} Number of players whose rank changed
+ */
+export async function recomputeGlobalRanks(): Promise<number> {
+  const db = getFirestore();
+  const usersSnap = await db.collection("users")
+    .where("stats.gamesPlayed", ">", 0)
+    .get();
+
+  const players = usersSnap.docs.map((userDoc) => {
+    const stats = userDoc.data().stats || {};
+    return {
+      ref: userDoc.ref,
+      currentRank: stats.globalRank,
+      rating: stats.rating ?? DEFAULT_RATING,
+      gamesWon: stats.gamesWon || 0,
+      totalPoints: stats.totalPoints || 0,
+      winRate: stats.gamesPlayed > 0 ?
+        (stats.gamesWon || 0) / stats.gamesPlayed :
+        0,
+    };
+  });
+
+  players.sort((a, b) => {
+    if (b.rating !== a.rating) return b.rating - a.rating;
+    if (b.gamesWon !== a.gamesWon) return b.gamesWon - a.gamesWon;
+    if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
+    return b.winRate - a.winRate;
+  });
+
+  // Only write players whose rank actually moved
+  const changed = players
+    .map((player, index) => ({...player, rank: index + 1}))
+    .filter((player) => player.rank !== player.currentRank);
+
+  for (let i = 0; i < changed.length; i += RANK_BATCH_SIZE) {
+    const batch = db.batch();
+    changed.slice(i, i + RANK_BATCH_SIZE).forEach((player) => {
+      batch.update(player.ref, {
+        "stats.globalRank": player.rank,
+        "stats.lastRankUpdate": FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  return changed.length;
+}
+
+/**
+ * Rebuild every pair's stats from all completed 2v2 games, oldest first so
+ * streaks come out right. Used to backfill games completed before pair
+ * stats were kept by applyCompletedGameStats.
+ * @return {Promise<number>} Number of pair stats documents written
+ */
+export async function rebuildPairStats(): Promise<number> {
+  const db = getFirestore();
+  const pairStats = new Map<string, DocumentData>();
+
+  let lastGame: QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let gamesQuery = db.collection("games")
+      .where("status", "==", "completed")
+      .orderBy("completedAt", "asc")
+      .limit(PAIR_REBUILD_PAGE_SIZE);
+    if (lastGame) gamesQuery = gamesQuery.startAfter(lastGame);
+    const gamesSnap = await gamesQuery.get();
+    if (gamesSnap.empty) break;
+    lastGame = gamesSnap.docs[gamesSnap.docs.length - 1];
+
+    gamesSnap.docs.forEach((gameDoc) => {
+      const game = gameDoc.data();
+      if (!isPairGame(game) || !game.scores || !game.winner) return;
+
+      const sides: {side: GameSide; won: boolean}[] = [
+        {
+          side: "creator",
+          won: game.winningTeam ?
+            game.winningTeam === "team1" :
+            game.winner === game.createdBy,
+        },
+        {
+          side: "opponent",
+          won: game.winningTeam ?
+            game.winningTeam === "team2" :
+            game.winner === game.opponent,
+        },
+      ];
+      sides.forEach(({side, won}) => {
+        const players = getSidePlayers(game, side);
+        [null, ...(game.leagueId ? [game.leagueId] : [])]
+          .forEach((leagueId) => {
+            const id = pairStatsId(leagueId, players);
+            pairStats.set(id, nextPairStats(
+              pairStats.get(id), players, leagueId, game.scores[side], won));
+          });
+      });
+    });
+  }
+
+  const entries = [...pairStats.entries()];
+  for (let i = 0; i < entries.length; i += RANK_BATCH_SIZE) {
+    const batch = db.batch();
+    entries.slice(i, i + RANK_BATCH_SIZE).forEach(([id, stats]) => {
+      batch.set(db.collection("pairStats").doc(id), stats);
+    });
+    await batch.commit();
+  }
+
+  return entries.length;
+}
+
+/**
+ * Update player stats and global ranks when a game moves to completed
+ */
+export const onGameCompleted = onDocumentUpdated(
+  "games/{gameId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+
+    if (!before || !after) return;
+    if (before.status === "completed" || after.status !== "completed") return;
+
+    const gameId = event.params.gameId;
+
+    try {
+      const applied = await applyCompletedGameStats(gameId);
+      if (!applied) {
+        logger.info(`No stats to apply for game ${gameId}`);
+        return;
+      }
+
+      const changed = await recomputeGlobalRanks();
+      logger.info(
+        `Applied stats for game ${gameId}, ${changed} global ranks changed`,
+      );
+    } catch (error) {
+      logger.error(`Error processing completed game ${gameId}:`, error);
+      throw error; // Let the trigger retry
+    }
+  },
+);
+
+/**
+ * Manual function to recompute global ranks for the whole population
+ */
+export const manualRecomputeGlobalRanks = onCall(
+  {
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async (request) => {
+    if (!request.auth || !request.auth.token.admin) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only administrators can run this function",
+      );
+    }
+
+    try {
+      const changed = await recomputeGlobalRanks();
+      return {success: true, changed};
+    } catch (error) {
+      logger.error("Error recomputing global ranks:", error);
+      throw new HttpsError("internal", "Failed to recompute global ranks");
+    }
+  },
+);
+
+/**
+ * Manual function to rebuild pair stats from every completed game
+ */
+export const manualRebuildPairStats = onCall(
+  {
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async (request) => {
+    if (!request.auth || !request.auth.token.admin) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only administrators can run this function",
+      );
+    }
+
+    try {
+      const written = await rebuildPairStats();
+      return {success: true, written};
+    } catch (error) {
+      logger.error("Error rebuilding pair stats:", error);
+      throw new HttpsError("internal", "Failed to rebuild pair stats");
+    }
+  },
+);
@@ -0,0 +1,114 @@
+// Elo-style skill rating for USA Domino Federation players
+
+// Every player starts here before their first confirmed game
+export const DEFAULT_RATING = 1500;
+
+// Players move faster while provisional so new ratings settle quickly
+export const PROVISIONAL_GAMES = 20;
+const PROVISIONAL_K_FACTOR = 40;
+const ESTABLISHED_K_FACTOR = 20;
+
+// How much a lopsided score adds on top of the base change (0.5 = up to +50%)
+const MARGIN_WEIGHT = 0.5;
+
+// Keep the history series small enough to live on the user document
+export const MAX_RATING_HISTORY = 50;
+
+export interface RatingPlayer {
+  rating: number;
+  gamesPlayed: number;
+}
+
+/**
+ * Expected score (win probability) of a side against another
+ * @param {number} rating Rating of the side being evaluated
+ * @param {number} opponentRating Rating of the opposing side
+ * @return {number} Number between 0 and 1
+ */
+export function getExpectedScore(
+  rating: number,
+  opponentRating: number,
+): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Get the K factor for a player based on how established their rating is
+ * @param {number} gamesPlayed Confirmed games played before this one
+ * @return {number} The K factor to apply
+ */
+export function getKFactor(gamesPlayed: number): number {
+  return gamesPlayed < PROVISIONAL_GAMES ?
+    PROVISIONAL_K_FACTOR :
+    ESTABLISHED_K_FACTOR;
+}
+
+/**
+ * Weight a result by how decisive it was relative to the points to win
+ * @param {number} winnerScore Final score of the winning side
+ * @param {number} loserScore Final score of the losing side
+ * @param {number} pointsToWin Target score of the game
+ * @return {number} Multiplier between 1 and 1 + MARGIN_WEIGHT
+ */
+export function getMarginMultiplier(
+  winnerScore: number,
+  loserScore: number,
+  pointsToWin: number,
+): number {
+  if (pointsToWin <= 0) return 1;
+  const margin = Math.min(
+    Math.max((winnerScore - loserScore) / pointsToWin, 0),
+    1,
+  );
+  return 1 + MARGIN_WEIGHT * margin;
+}
+
+/**
+ * Average rating of a side (both partners in a double game)
+ * @param {RatingPlayer[]} players Players on the side
+ * @return {number} The side's rating
+ */
+export function getSideRating(players: RatingPlayer[]): number {
+  if (players.length === 0) return DEFAULT_RATING;
+  const total = players.reduce((sum, player) => sum + player.rating, 0);
+  return total / players.length;
+}
+
+/**
+ * Calculate the rating change of every player in a finished game
+ * @param {RatingPlayer[]} creatorSide Players on the creator side (team1)
+ * @param {RatingPlayer[]} opponentSide Players on the opponent side (team2)
+ * @param {number} creatorScore Final score of the creator side
+ * @param {number} opponentScore Final score of the opponent side
+ * @param {boolean} creatorWon Whether the creator side won
+ * @param {number} pointsToWin Target score of the game
+ * @return {object} Rounded changes in the same order as the input players
+ */
+export function calculateRatingChanges(
+  creatorSide: RatingPlayer[],
+  opponentSide: RatingPlayer[],
+  creatorScore: number,
+  opponentScore: number,
+  creatorWon: boolean,
+  pointsToWin: number,
+): {creator: number[]; opponent: number[]} {
+  const creatorRating = getSideRating(creatorSide);
+  const opponentRating = getSideRating(opponentSide);
+
+  const multiplier = creatorWon ?
+    getMarginMultiplier(creatorScore, opponentScore, pointsToWin) :
+    getMarginMultiplier(opponentScore, creatorScore, pointsToWin);
+
+  const creatorDelta = (creatorWon ? 1 : 0) -
+    getExpectedScore(creatorRating, opponentRating);
+  const opponentDelta = (creatorWon ? 0 : 1) -
+    getExpectedScore(opponentRating, creatorRating);
+
+  const change = (player: RatingPlayer, delta: number) =>
+    Math.round(getKFactor(player.gamesPlayed) * multiplier * delta);
+
+  return {
+    creator: creatorSide.map((player) => change(player, creatorDelta)),
+    opponent: opponentSide.map((player) => change(player, opponentDelta)),
+  };
+}
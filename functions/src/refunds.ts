@@ -0,0 +1,275 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  Firestore,
+  FieldValue,
+  DocumentData,
+} from "firebase-admin/firestore";
+import {createHash} from "crypto";
+import {squareRequest} from "./squareApi";
+import {MEMBERSHIP_PERIOD_DAYS} from "./leaguePayments";
+
+// League roles that can refund membership payments
+const REFUND_ROLES = ["owner", "judge"];
+
+const REFUND_MODES = ["full", "prorated"];
+
+// Longest reason Square accepts on a refund
+const MAX_REASON_LENGTH = 192;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Refund statuses in Square, mapped to LeaguePaymentRefund statuses
+const REFUND_STATUSES: Record<string, string> = {
+  PENDING: "pending",
+  COMPLETED: "completed",
+  REJECTED: "failed",
+  FAILED: "failed",
+};
+
+/**
+ * Map a Square refund status to a LeaguePaymentRefund status
+ * @param {string} squareStatus Square refund status
+ * @return {string} Our status
+ */
+export function toRefundStatus(squareStatus: string): string {
+  return REFUND_STATUSES[squareStatus] || "pending";
+}
+
+/**
+ * Whether a user can refund payments in a league: federation judges, the
+ * league owner and members with the judge role
+ * @param {Firestore} db Firestore instance
+ * @param {DocumentData} league League document data
+ * @param {string} leagueId League ID
+ * @param {string} userId User ID
+ * @param {boolean} isJudge Whether the caller has the judge claim
+ * @return {Promise<boolean>} True for league judges
+ */
+async function canRefundPayments(
+  db: Firestore,
+  league: DocumentData,
+  leagueId: string,
+  userId: string,
+  isJudge: boolean,
+): Promise<boolean> {
+  if (isJudge || league.createdBy === userId) return true;
+
+  const membershipSnap = await db.collection("leagueMemberships")
+    .where("leagueId", "==", leagueId)
+    .where("userId", "==", userId)
+    .where("status", "==", "active")
+    .limit(1)
+    .get();
+  return !membershipSnap.empty &&
+    REFUND_ROLES.includes(membershipSnap.docs[0].data().role);
+}
+
+/**
+ * Refund a league membership payment through Square, in full or for the
+ * days left until the membership it paid for expires. The payment record
+ * tracks the refund until the refund.updated webhook settles it; the
+ * member can optionally lose access straight away.
+ */
+export const refundLeaguePayment = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {paymentId, mode, deactivateMembership, reason} =
+      request.data || {};
+    if (!paymentId || typeof paymentId !== "string") {
+      throw new HttpsError("invalid-argument", "paymentId is required");
+    }
+    if (!REFUND_MODES.includes(mode)) {
+      throw new HttpsError("invalid-argument", "Invalid refund mode");
+    }
+    if (reason !== undefined &&
+        (typeof reason !== "string" || reason.length > MAX_REASON_LENGTH)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Reason must be at most ${MAX_REASON_LENGTH} characters`,
+      );
+    }
+
+    const userId = request.auth.uid;
+    const db = getFirestore();
+    const paymentRef = db.collection("payments").doc(paymentId);
+    const payment = (await paymentRef.get()).data();
+    if (!payment) {
+      throw new HttpsError("not-found", "Payment not found");
+    }
+
+    const league = (await db.collection("leagues")
+      .doc(payment.leagueId).get()).data();
+    if (!league) {
+      throw new HttpsError("not-found", "League not found");
+    }
+    if (!(await canRefundPayments(db, league, payment.leagueId, userId,
+      request.auth.token.judge === true))) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only the league owner and judges can refund payments",
+      );
+    }
+
+    if (payment.status !== "completed" || payment.type === "penalty") {
+      throw new HttpsError(
+        "failed-precondition",
+        "Only completed membership payments can be refunded",
+      );
+    }
+    // Subscription invoices are refunded from the Square dashboard
+    if (!payment.squarePaymentId) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This payment can only be refunded in Square",
+      );
+    }
+
+    const membershipSnap = await db.collection("leagueMemberships")
+      .where("leagueId", "==", payment.leagueId)
+      .where("userId", "==", payment.userId)
+      .limit(1)
+      .get();
+    const membershipDoc = membershipSnap.empty ? null : membershipSnap.docs[0];
+
+    let amount = payment.amount;
+    if (mode === "prorated") {
+      // Older payments do not record the expiry they paid up to
+      const expiresAt = payment.membershipExpiresAt ||
+        membershipDoc?.data().membershipExpiresAt;
+      const daysLeft = expiresAt ? Math.min(MEMBERSHIP_PERIOD_DAYS,
+        Math.max(0, Math.ceil((expiresAt.toMillis() - Date.now()) / DAY_MS))) :
+        0;
+      amount = Math.round(
+        payment.amount * daysLeft / MEMBERSHIP_PERIOD_DAYS * 100) / 100;
+    }
+    if (!(amount > 0)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "There are no days left on this membership to refund",
+      );
+    }
+
+    // Claim the refund first so two judges cannot refund the same payment.
+    // A failed refund can be retried under a new idempotency key; one that
+    // Square never answered is resent unchanged under the same key.
+    const refund = await db.runTransaction(async (transaction) => {
+      const current = (await transaction.get(paymentRef)).data()?.refund;
+      if (current?.status === "pending" && !current.squareRefundId) {
+        return current;
+      }
+      if (current && current.status !== "failed") {
+        throw new HttpsError(
+          "already-exists",
+          "This payment has already been refunded",
+        );
+      }
+      const claim = {
+        amount,
+        mode,
+        status: "pending",
+        attempt: (current?.attempt || 0) + 1,
+        membershipDeactivated: deactivateMembership === true,
+        refundedBy: userId,
+        ...(reason?.trim() && {reason: reason.trim()}),
+      };
+      transaction.update(paymentRef, {
+        refund: {...claim, requestedAt: FieldValue.serverTimestamp()},
+      });
+      return claim;
+    });
+
+    let squareRefund: {id: string; status: string};
+    try {
+      ({refund: squareRefund} = await squareRequest<{
+        refund: {id: string; status: string};
+      }>("/v2/refunds", "POST", {
+        idempotency_key: createHash("sha256")
+          .update(`${paymentId}:refund:${refund.attempt}`)
+          .digest("hex")
+          .slice(0, 45),
+        payment_id: payment.squarePaymentId,
+        amount_money: {
+          amount: Math.round(refund.amount * 100),
+          currency: payment.currency || "USD",
+        },
+        ...(refund.reason && {reason: refund.reason}),
+      }));
+    } catch (error) {
+      logger.error("Refund failed:", error);
+      // Without an answer from Square the refund may have gone through, so
+      // it stays pending until it is retried or the webhook settles it
+      if (!(error instanceof HttpsError)) {
+        throw new HttpsError(
+          "unavailable",
+          "The refund could not be confirmed. Please try again.",
+        );
+      }
+      await paymentRef.update({
+        "refund.status": "failed",
+        "refund.failureReason": error.message,
+      });
+      throw error;
+    }
+
+    const refundStatus = toRefundStatus(squareRefund.status);
+    await paymentRef.update({
+      "refund.squareRefundId": squareRefund.id,
+      "refund.status": refundStatus,
+      ...(refundStatus === "completed" && {
+        "status": "refunded",
+        "refund.completedAt": FieldValue.serverTimestamp(),
+      }),
+    });
+
+    if (refund.membershipDeactivated && membershipDoc) {
+      const previousStatus = membershipDoc.data().status;
+      const batch = db.batch();
+      // A running suspension stays in place and now ends with the member
+      // inactive instead of restoring the status they had before it
+      if (previousStatus === "suspended") {
+        const suspensionsSnap = await db.collection("leaguePenalties")
+          .where("leagueId", "==", payment.leagueId)
+          .where("userId", "==", payment.userId)
+          .where("type", "==", "suspension")
+          .where("status", "==", "active")
+          .get();
+        suspensionsSnap.docs.forEach((suspensionDoc) =>
+          batch.update(suspensionDoc.ref, {previousStatus: "inactive"}));
+      }
+      batch.update(membershipDoc.ref, {
+        ...(previousStatus !== "suspended" && {status: "inactive"}),
+        paymentStatus: "cancelled",
+        membershipExpiresAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      await batch.commit();
+      await db.collection("membershipEvents").add({
+        userId: payment.userId,
+        leagueId: payment.leagueId,
+        eventType: "refund_deactivated",
+        status: "inactive",
+        paymentId,
+        reason: refund.reason || "Payment refunded",
+        createdAt: FieldValue.serverTimestamp(),
+        previousStatus,
+        processedBy: userId,
+      });
+    }
+
+    logger.info("Refunded league payment", {
+      paymentId,
+      squareRefundId: squareRefund.id,
+      amount: refund.amount,
+      mode: refund.mode,
+      refundedBy: userId,
+    });
+
+    return {success: true, amount: refund.amount, status: refundStatus};
+  },
+);
@@ -0,0 +1,158 @@
+import {onCall, HttpsError, CallableRequest} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {getAuth} from "firebase-admin/auth";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+
+// Roles kept in custom claims; everyone else is a player
+const ROLES = ["judge", "admin"];
+
+/**
+ * Emails allowed to manage roles before any admin exists, from the
+ * BOOTSTRAP_ADMIN_EMAILS environment variable (comma separated)
+ * @return {string[]} Lower-cased emails
+ */
+function getBootstrapAdminEmails(): string[] {
+  return (process.env.BOOTSTRAP_ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether the caller can grant and revoke roles: admins, and the bootstrap
+ * admins with a verified email
+ * @param {CallableRequest} request Callable request
+ * @return {boolean} True for role managers
+ */
+function canManageRoles(request: CallableRequest): boolean {
+  const token = request.auth?.token;
+  if (!token) return false;
+  if (token.admin === true) return true;
+  return token.email_verified === true && !!token.email &&
+    getBootstrapAdminEmails().includes(token.email.toLowerCase());
+}
+
+/**
+ * Grant or revoke the judge or admin role. The role is stored as a custom
+ * claim, mirrored on the user's profile so other players can see it, and
+ * every change is recorded in roleChanges.
+ */
+export const setUserRole = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+    if (!canManageRoles(request)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins can change roles",
+      );
+    }
+
+    const {userId, role, granted} = request.data || {};
+    const reason = typeof request.data?.reason === "string" ?
+      request.data.reason.trim().slice(0, 500) : "";
+
+    if (!userId || typeof userId !== "string" || !ROLES.includes(role) ||
+        typeof granted !== "boolean") {
+      throw new HttpsError(
+        "invalid-argument",
+        "userId, a judge or admin role and granted are required",
+      );
+    }
+
+    // Admins keep their own admin role so the federation is never locked out
+    if (userId === request.auth.uid && role === "admin" && !granted) {
+      throw new HttpsError(
+        "failed-precondition",
+        "You cannot revoke your own admin role",
+      );
+    }
+
+    const auth = getAuth();
+    let userRecord;
+    try {
+      userRecord = await auth.getUser(userId);
+    } catch {
+      throw new HttpsError("not-found", "User not found");
+    }
+
+    const claims = {...(userRecord.customClaims || {})};
+    if (!!claims[role] === granted) {
+      return {success: true, changed: false};
+    }
+
+    if (granted) {
+      claims[role] = true;
+    } else {
+      delete claims[role];
+    }
+    await auth.setCustomUserClaims(userId, claims);
+
+    const db = getFirestore();
+    const now = Timestamp.now();
+    const roles = ROLES.filter((claim) => claims[claim] === true);
+    const batch = db.batch();
+
+    // Clients refresh their ID token when rolesUpdatedAt changes. Players
+    // without a profile yet only get the claim.
+    const userRef = db.collection("users").doc(userId);
+    if ((await userRef.get()).exists) {
+      batch.update(userRef, {roles, rolesUpdatedAt: now});
+    }
+    batch.set(db.collection("roleChanges").doc(), {
+      userId,
+      email: userRecord.email || null,
+      role,
+      action: granted ? "granted" : "revoked",
+      reason,
+      changedBy: request.auth.uid,
+      changedAt: now,
+    });
+    await batch.commit();
+
+    logger.info(`${granted ? "Granted" : "Revoked"} ${role} for ${userId}`, {
+      changedBy: request.auth.uid,
+    });
+
+    return {success: true, changed: true, roles};
+  },
+);
+
+/**
+ * Find a user by email so admins can grant roles to players who have not
+ * set up a profile yet
+ */
+export const findUserByEmail = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+    if (!canManageRoles(request)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins can look up users",
+      );
+    }
+
+    const email = typeof request.data?.email === "string" ?
+      request.data.email.trim().toLowerCase() : "";
+    if (!email) {
+      throw new HttpsError("invalid-argument", "email is required");
+    }
+
+    try {
+      const userRecord = await getAuth().getUserByEmail(email);
+      return {
+        userId: userRecord.uid,
+        email: userRecord.email,
+        displayName: userRecord.displayName || null,
+        roles: ROLES.filter((role) => userRecord.customClaims?.[role] === true),
+      };
+    } catch {
+      throw new HttpsError("not-found", "No user with that email");
+    }
+  },
+);
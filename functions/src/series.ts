@@ -0,0 +1,178 @@
+import {onDocumentUpdated} from "firebase-functions/v2/firestore";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  Timestamp,
+  DocumentData,
+} from "firebase-admin/firestore";
+
+type GameSide = "creator" | "opponent";
+
+// Game statuses that end a game and are applied to its series
+const FINISHED_STATUSES = ["completed", "abandoned", "rejected"];
+
+/**
+ * Games a side must win to take a best-of series
+ * @param {number} bestOf Series length
+ * @return {number} Wins needed to clinch
+ */
+export function getSeriesWinsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+/**
+ * Side that won a completed game, or null for a game without a winner
+ * @param {DocumentData} game Game document data
+ * @return {GameSide | null} Winning side
+ */
+function getWinningSide(game: DocumentData): GameSide | null {
+  if (game.winningTeam) {
+    return game.winningTeam === "team1" ? "creator" : "opponent";
+  }
+  if (!game.winner) return null;
+  return game.winner === game.createdBy ? "creator" : "opponent";
+}
+
+/**
+ * Next game of a series: the same players and settings, already accepted
+ * since everyone agreed to the whole series with the first invitation
+ * @param {DocumentData} series Series document data
+ * @param {string} seriesId ID of the series
+ * @param {DocumentData} previousGame Game that was just confirmed
+ * @param {number} gameNumber Position of the game in the series
+ * @param {Timestamp} now Creation time
+ * @return {DocumentData} Game document data
+ */
+function buildNextGame(
+  series: DocumentData,
+  seriesId: string,
+  previousGame: DocumentData,
+  gameNumber: number,
+  now: Timestamp,
+): DocumentData {
+  return {
+    createdBy: series.createdBy,
+    opponent: series.opponent,
+    ...(series.opponents && {opponents: series.opponents}),
+    ...(series.teams && {teams: series.teams}),
+    ...(series.leagueId && {leagueId: series.leagueId}),
+    status: "accepted",
+    settings: series.settings,
+    allowSpectators: previousGame.allowSpectators || false,
+    seriesId,
+    seriesGameNumber: gameNumber,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Apply a finished game to its series. A confirmed game adds to the score
+ * and either closes the series or schedules the next game; an abandoned
+ * game abandons the series and a declined invitation cancels it.
+ * @param {string} gameId ID of the finished game
+ * @param {DocumentData} game Game document data
+ * @return {Promise<string | null>} New series status or next game ID, or
+ * null if the game was already applied
+ */
+export async function applySeriesGame(
+  gameId: string,
+  game: DocumentData,
+): Promise<string | null> {
+  const db = getFirestore();
+  const seriesRef = db.collection("series").doc(game.seriesId);
+
+  return db.runTransaction(async (transaction) => {
+    const seriesSnap = await transaction.get(seriesRef);
+    const series = seriesSnap.data();
+    const countedGameIds: string[] = series?.countedGameIds || [];
+
+    // Only the series' current game moves it on
+    if (!series || series.status !== "in_progress" ||
+        countedGameIds.includes(gameId) ||
+        !(series.gameIds || []).includes(gameId) ||
+        series.currentGameId !== gameId) {
+      return null;
+    }
+
+    const now = Timestamp.now();
+    const counted = [...countedGameIds, gameId];
+
+    if (game.status !== "completed") {
+      const status = game.status === "rejected" ? "canceled" : "abandoned";
+      transaction.update(seriesRef, {
+        status,
+        countedGameIds: counted,
+        completedAt: now,
+        updatedAt: now,
+      });
+      return status;
+    }
+
+    // Ties replay the game without changing the score
+    const score = {...series.score};
+    const winningSide = getWinningSide(game);
+    if (winningSide) score[winningSide]++;
+
+    if (winningSide &&
+        score[winningSide] >= getSeriesWinsNeeded(series.bestOf)) {
+      transaction.update(seriesRef, {
+        status: "completed",
+        score,
+        countedGameIds: counted,
+        winner: winningSide === "creator" ? series.createdBy : series.opponent,
+        winningSide,
+        ...(series.teams && {
+          winningTeam: winningSide === "creator" ? "team1" : "team2",
+        }),
+        completedAt: now,
+        updatedAt: now,
+      });
+      return "completed";
+    }
+
+    const gameIds: string[] = series.gameIds || [];
+    const nextGameRef = db.collection("games").doc();
+    transaction.set(
+      nextGameRef,
+      buildNextGame(series, seriesRef.id, game, gameIds.length + 1, now),
+    );
+    transaction.update(seriesRef, {
+      score,
+      gameIds: [...gameIds, nextGameRef.id],
+      countedGameIds: counted,
+      currentGameId: nextGameRef.id,
+      updatedAt: now,
+    });
+    return nextGameRef.id;
+  });
+}
+
+/**
+ * Keep a best-of series in step with its games as they finish
+ */
+export const onSeriesGameUpdated = onDocumentUpdated(
+  "games/{gameId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const game = event.data?.after.data();
+
+    if (!before || !game || !game.seriesId) return;
+    if (before.status === game.status ||
+        !FINISHED_STATUSES.includes(game.status)) return;
+
+    const gameId = event.params.gameId;
+
+    try {
+      const result = await applySeriesGame(gameId, game);
+      if (result) {
+        logger.info(`Applied game ${gameId} to series ${game.seriesId}`, {
+          result,
+        });
+      }
+    } catch (error) {
+      logger.error(`Error updating series ${game.seriesId}:`, error);
+      throw error; // Let the trigger retry
+    }
+  },
+);
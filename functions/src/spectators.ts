@@ -0,0 +1,161 @@
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  Firestore,
+  Timestamp,
+  DocumentData,
+} from "firebase-admin/firestore";
+
+type GameSide = "creator" | "opponent";
+
+/**
+ * Public profile of a player shown to spectators
+ */
+interface SpectatorPlayer {
+  uid: string;
+  displayName: string;
+  photoURL?: string;
+}
+
+/**
+ * Load the public profile of each player, in order
+ * @param {Firestore} db Firestore instance
+ * @param {string[]} playerIds Player IDs
+ * @return {Promise<SpectatorPlayer[]>} Display names and photos
+ */
+async function getSpectatorPlayers(
+  db: Firestore,
+  playerIds: string[],
+): Promise<SpectatorPlayer[]> {
+  const userSnaps = await Promise.all(
+    playerIds.map((uid) => db.collection("users").doc(uid).get()));
+  return userSnaps.map((userSnap) => {
+    const user = userSnap.data();
+    return {
+      uid: userSnap.id,
+      displayName: user?.displayName || "Player",
+      ...(user?.photoURL && {photoURL: user.photoURL}),
+    };
+  });
+}
+
+/**
+ * Side of a game a player is on
+ * @param {DocumentData} game Game document data
+ * @param {string} playerId Player ID
+ * @return {GameSide | null} Creator or opponent side
+ */
+function getPlayerSide(game: DocumentData, playerId?: string): GameSide | null {
+  if (!playerId) return null;
+  const creatorSide: string[] = game.teams ?
+    game.teams.team1 : [game.createdBy];
+  return creatorSide.includes(playerId) ? "creator" : "opponent";
+}
+
+/**
+ * Build the public copy of a game. Only fields that are safe to show to
+ * anyone with the link are copied: no emails, stats, disputes or chat.
+ * @param {Firestore} db Firestore instance
+ * @param {DocumentData} game Game document data
+ * @return {Promise<DocumentData>} spectatorGames document data
+ */
+export async function buildSpectatorGame(
+  db: Firestore,
+  game: DocumentData,
+): Promise<DocumentData> {
+  const [team1, team2] = await Promise.all([
+    getSpectatorPlayers(db, game.teams ? game.teams.team1 : [game.createdBy]),
+    getSpectatorPlayers(db, game.teams ? game.teams.team2 : [game.opponent]),
+  ]);
+
+  let league: DocumentData | undefined;
+  if (game.leagueId) {
+    const leagueSnap = await db.collection("leagues").doc(game.leagueId).get();
+    const leagueData = leagueSnap.data();
+    if (leagueData) {
+      league = {
+        id: leagueSnap.id,
+        name: leagueData.name,
+        ...(leagueData.photoURL && {photoURL: leagueData.photoURL}),
+      };
+    }
+  }
+
+  let series: DocumentData | undefined;
+  if (game.seriesId) {
+    const seriesSnap = await db.collection("series").doc(game.seriesId).get();
+    if (seriesSnap.exists) {
+      series = {
+        bestOf: seriesSnap.data()?.bestOf,
+        gameNumber: game.seriesGameNumber || 1,
+      };
+    }
+  }
+
+  const winningSide = game.winningTeam ?
+    (game.winningTeam === "team1" ? "creator" : "opponent") :
+    getPlayerSide(game, game.winner);
+
+  return {
+    status: game.status,
+    settings: {
+      gameMode: game.settings?.gameMode || "single",
+      pointsToWin: game.settings?.pointsToWin || 0,
+      ...(game.settings?.ruleset && {ruleset: game.settings.ruleset}),
+    },
+    team1,
+    team2,
+    scores: {
+      creator: game.scores?.creator || 0,
+      opponent: game.scores?.opponent || 0,
+    },
+    activeSide: game.status === "in_progress" ?
+      getPlayerSide(game, game.activePlayer) : null,
+    winningSide: game.status === "completed" ? winningSide : null,
+    handCount: game.handCount || 0,
+    ...(league && {league}),
+    ...(series && {series}),
+    ...(game.startedAt && {startedAt: game.startedAt}),
+    ...(game.deadline && {deadline: game.deadline}),
+    ...(game.completedAt && {completedAt: game.completedAt}),
+    updatedAt: Timestamp.now(),
+  };
+}
+
+/**
+ * Keep the public spectator copy of a game in step with the game, and
+ * remove it when players stop allowing spectators or judges switch
+ * spectating off
+ */
+export const onGameSpectatorsUpdated = onDocumentWritten(
+  "games/{gameId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const game = event.data?.after.data();
+    const gameId = event.params.gameId;
+
+    if (!before?.allowSpectators && !game?.allowSpectators) return;
+
+    const db = getFirestore();
+    const spectatorRef = db.collection("spectatorGames").doc(gameId);
+
+    try {
+      const configSnap = await db.collection("gameConfig").doc("current")
+        .get();
+      const enabled =
+        configSnap.data()?.features?.allowSpectators !== false;
+
+      if (!game || !game.allowSpectators || !enabled) {
+        await spectatorRef.delete();
+        logger.info(`Stopped publishing game ${gameId} to spectators`);
+        return;
+      }
+
+      await spectatorRef.set(await buildSpectatorGame(db, game));
+    } catch (error) {
+      logger.error(`Error publishing game ${gameId} to spectators:`, error);
+      throw error; // Let the trigger retry
+    }
+  },
+);
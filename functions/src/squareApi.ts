@@ -0,0 +1,59 @@
+import {HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+
+const SQUARE_VERSION = "2024-07-17";
+
+/**
+ * Base URL of the Square API. SQUARE_BASE_URL points the functions at the
+ * fake Square server (see testing/fakeSquareServer.ts) in the emulator.
+ * @return {string} Square API origin
+ */
+export function getSquareBaseUrl(): string {
+  if (process.env.SQUARE_BASE_URL) return process.env.SQUARE_BASE_URL;
+  return process.env.SQUARE_ENVIRONMENT === "production" ?
+    "https://connect.squareup.com" :
+    "https://connect.squareupsandbox.com";
+}
+
+/**
+ * Call the Square REST API with the configured access token
+ * @param {string} path API path, e.g. "/v2/customers"
+ * @param {string} method HTTP method
+ * @param {object} body JSON request body
+ * @return {Promise<T>} Parsed response body
+ */
+export async function squareRequest<T>(
+  path: string,
+  method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
+  body?: object,
+): Promise<T> {
+  const accessToken = process.env.SQUARE_ACCESS_TOKEN;
+  if (!accessToken) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Square access token not configured",
+    );
+  }
+
+  const response = await fetch(`${getSquareBaseUrl()}${path}`, {
+    method,
+    headers: {
+      "Authorization": `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+      "Square-Version": SQUARE_VERSION,
+    },
+    ...(body && {body: JSON.stringify(body)}),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    logger.error("Square API Error:", {path, errors: data.errors});
+    throw new HttpsError(
+      "internal",
+      `Square API error: ${data.errors?.[0]?.detail || "Unknown error"}`,
+      {squareCode: data.errors?.[0]?.code || null},
+    );
+  }
+
+  return data as T;
+}
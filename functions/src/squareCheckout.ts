@@ -1,8 +1,11 @@
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
+import {getFirestore} from "firebase-admin/firestore";
+import {getSquareBaseUrl} from "./squareApi";
 
 /**
- * Create a Square Online Checkout session for league membership payment
+ * Create a Square Online Checkout session for league membership payment,
+ * or for a league fine when a pending penalty paymentId is passed
  */
 export const createSquareCheckout = onCall(
   { region: "us-central1" },
@@ -12,27 +15,49 @@ export const createSquareCheckout = onCall(
       throw new HttpsError("unauthenticated", "User must be authenticated");
     }
 
-    const { leagueId, leagueName, amount, currency = "USD", returnUrl, userId } = request.data;
+    const {
+      leagueId,
+      leagueName,
+      returnUrl,
+      userId,
+      paymentId,
+    } = request.data;
+    let {amount, currency = "USD"} = request.data;
 
-    if (!leagueId || !leagueName || !amount || amount <= 0) {
+    if (!leagueId || !leagueName ||
+        (!paymentId && (!amount || amount <= 0))) {
       throw new HttpsError("invalid-argument", "Invalid checkout parameters");
     }
 
     const userIdToUse = userId || request.auth.uid;
 
+    // Fines are charged at the amount and currency the judge issued, never
+    // the client's
+    if (paymentId) {
+      const fine = (await getFirestore().collection("payments")
+        .doc(paymentId).get()).data();
+      if (!fine || fine.type !== "penalty" ||
+          fine.userId !== request.auth.uid ||
+          fine.leagueId !== leagueId || fine.status !== "pending") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This fine cannot be paid",
+        );
+      }
+      amount = fine.amount;
+      currency = fine.currency || "USD";
+    }
+
     try {
       // Get Square access token from environment
       const squareAccessToken = process.env.SQUARE_ACCESS_TOKEN;
-      const squareEnvironment = process.env.SQUARE_ENVIRONMENT || "sandbox";
       
       if (!squareAccessToken) {
         throw new HttpsError("failed-precondition", "Square access token not configured");
       }
 
       // Determine Square API endpoint
-      const baseUrl = squareEnvironment === "production" 
-        ? "https://connect.squareup.com" 
-        : "https://connect.squareupsandbox.com";
+      const baseUrl = getSquareBaseUrl();
 
       // Create checkout request body
       const checkoutRequest = {
@@ -41,13 +66,17 @@ export const createSquareCheckout = onCall(
           location_id: process.env.SQUARE_LOCATION_ID,
           line_items: [
             {
-              name: `${leagueName} - Monthly Membership`,
+              name: paymentId ?
+                `${leagueName} - League Fine` :
+                `${leagueName} - Monthly Membership`,
               quantity: "1",
               base_price_money: {
                 amount: Math.round(amount * 100), // Convert to cents
                 currency: currency
               },
-              variation_name: "Monthly Subscription"
+              variation_name: paymentId ?
+                "Penalty" :
+                "Monthly Subscription",
             }
           ]
         },
@@ -57,7 +86,11 @@ export const createSquareCheckout = onCall(
           redirect_url: returnUrl || `${process.env.CLIENT_BASE_URL}/leagues/${leagueId}?payment=success`
         },
         pre_populate_buyer_email: request.auth.token?.email || "",
-        payment_note: `League: ${leagueId} | User: ${userIdToUse} | Type: membership_payment`
+        payment_note: paymentId ?
+          `League: ${leagueId} | User: ${userIdToUse} | ` +
+            `Type: penalty | Payment: ${paymentId}` :
+          `League: ${leagueId} | User: ${userIdToUse} | ` +
+            "Type: membership_payment",
       };
 
       // Make request to Square API
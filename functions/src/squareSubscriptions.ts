@@ -0,0 +1,431 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  Timestamp,
+} from "firebase-admin/firestore";
+import {squareRequest} from "./squareApi";
+
+// Subscription statuses in Square, mapped to LeagueSubscription statuses
+const SUBSCRIPTION_STATUSES: Record<string, string> = {
+  PENDING: "pending",
+  ACTIVE: "active",
+  CANCELED: "cancelled",
+  DEACTIVATED: "expired",
+};
+
+// Subscriptions that still bill the member
+const OPEN_STATUSES = ["pending", "active", "past_due"];
+
+interface SquareSubscription {
+  id: string;
+  status: string;
+  customer_id: string;
+  plan_variation_id: string;
+  charged_through_date?: string;
+  canceled_date?: string;
+  invoice_ids?: string[];
+}
+
+interface SquareSubscriptionAction {
+  id: string;
+  type: string;
+}
+
+/**
+ * Map a Square subscription status to a LeagueSubscription status
+ * @param {string} squareStatus Square subscription status
+ * @return {string|null} Our status, or null when we do not track it
+ */
+export function toSubscriptionStatus(squareStatus: string): string | null {
+  return SUBSCRIPTION_STATUSES[squareStatus] || null;
+}
+
+/**
+ * Square customer of a player, created on their first subscription. The
+ * mapping is kept server-side in squareCustomers/{userId}.
+ * @param {string} userId Player subscribing
+ * @param {string} email Email Square sends invoices to
+ * @param {string} name Player display name
+ * @return {Promise<string>} Square customer ID
+ */
+async function ensureSquareCustomer(
+  userId: string,
+  email: string,
+  name: string,
+): Promise<string> {
+  const customerRef = getFirestore().collection("squareCustomers").doc(userId);
+  const existing = (await customerRef.get()).data();
+  if (existing?.customerId) return existing.customerId;
+
+  const {customer} = await squareRequest<{customer: {id: string}}>(
+    "/v2/customers", "POST", {
+      idempotency_key: `customer-${userId}`,
+      given_name: name,
+      email_address: email,
+      reference_id: userId,
+    });
+
+  await customerRef.set({
+    customerId: customer.id,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  return customer.id;
+}
+
+/**
+ * Monthly subscription plan of a priced league, kept in
+ * squarePlans/{leagueId}. A new plan variation is created whenever the
+ * league fee or currency changes; existing subscribers keep their price.
+ * @param {string} leagueId League being subscribed to
+ * @param {DocumentData} league League document data
+ * @return {Promise<string>} Square plan variation ID
+ */
+async function ensureLeaguePlan(
+  leagueId: string,
+  league: DocumentData,
+): Promise<string> {
+  const {monthlyFee, currency = "USD"} = league.settings.pricing;
+  const planRef = getFirestore().collection("squarePlans").doc(leagueId);
+  const existing = (await planRef.get()).data();
+  if (existing && existing.monthlyFee === monthlyFee &&
+      existing.currency === currency) {
+    return existing.variationId;
+  }
+
+  const {id_mappings: idMappings} = await squareRequest<{
+    id_mappings: {client_object_id: string; object_id: string}[];
+  }>("/v2/catalog/object", "POST", {
+    idempotency_key: `plan-${leagueId}-${monthlyFee}-${currency}`,
+    object: {
+      type: "SUBSCRIPTION_PLAN",
+      id: "#plan",
+      subscription_plan_data: {
+        name: `${league.name} - Monthly Membership`,
+        subscription_plan_variations: [{
+          type: "SUBSCRIPTION_PLAN_VARIATION",
+          id: "#variation",
+          subscription_plan_variation_data: {
+            name: "Monthly",
+            phases: [{
+              cadence: "MONTHLY",
+              ordinal: 0,
+              pricing: {
+                type: "STATIC",
+                price_money: {
+                  amount: Math.round(monthlyFee * 100),
+                  currency,
+                },
+              },
+            }],
+          },
+        }],
+      },
+    },
+  });
+
+  const objectId = (clientId: string) => idMappings
+    .find((mapping) => mapping.client_object_id === clientId)?.object_id;
+  const planId = objectId("#plan");
+  const variationId = objectId("#variation");
+  if (!planId || !variationId) {
+    throw new HttpsError("internal", "Failed to create subscription plan");
+  }
+
+  await planRef.set({
+    planId,
+    variationId,
+    monthlyFee,
+    currency,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return variationId;
+}
+
+/**
+ * Load a subscription document owned by the caller
+ * @param {string} subscriptionId LeagueSubscription document ID
+ * @param {string} userId Caller
+ * @return {Promise<object>} Reference and data of the subscription
+ */
+async function getOwnSubscription(
+  subscriptionId: unknown,
+  userId: string,
+): Promise<{ref: DocumentReference; data: DocumentData}> {
+  if (!subscriptionId || typeof subscriptionId !== "string") {
+    throw new HttpsError("invalid-argument", "subscriptionId is required");
+  }
+
+  const ref = getFirestore().collection("subscriptions").doc(subscriptionId);
+  const data = (await ref.get()).data();
+  if (!data || data.userId !== userId) {
+    throw new HttpsError("not-found", "Subscription not found");
+  }
+  if (!data.squareSubscriptionId) {
+    throw new HttpsError(
+      "failed-precondition",
+      "This membership does not renew automatically",
+    );
+  }
+  return {ref, data};
+}
+
+/**
+ * Subscribe the caller to a priced league's monthly plan. Square bills the
+ * customer by invoice each month; the membership is activated and extended
+ * by the invoice.payment_made webhook. Members on a free trial are first
+ * billed the day the trial ends.
+ */
+export const createLeagueSubscription = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {leagueId} = request.data || {};
+    if (!leagueId || typeof leagueId !== "string") {
+      throw new HttpsError("invalid-argument", "leagueId is required");
+    }
+
+    const userId = request.auth.uid;
+    const email = request.auth.token.email;
+    if (!email) {
+      throw new HttpsError(
+        "failed-precondition",
+        "An email address is needed for recurring billing",
+      );
+    }
+
+    const db = getFirestore();
+    const league = (await db.collection("leagues").doc(leagueId).get()).data();
+    if (!league) {
+      throw new HttpsError("not-found", "League not found");
+    }
+    if (!league.settings?.pricing?.paymentRequired ||
+        !(league.settings.pricing.monthlyFee > 0)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This league has no membership fee",
+      );
+    }
+
+    const membershipSnap = await db.collection("leagueMemberships")
+      .where("leagueId", "==", leagueId)
+      .where("userId", "==", userId)
+      .limit(1)
+      .get();
+    const membership = membershipSnap.empty ?
+      null : membershipSnap.docs[0].data();
+    const trialEndsAt: Timestamp | null =
+      membership?.paymentStatus === "trial" &&
+      membership.trialEndsAt?.toMillis() > Date.now() ?
+        membership.trialEndsAt : null;
+
+    // Claim the subscription record before calling Square. Its ID is the
+    // idempotency key, so a call retried after a lost response reaches the
+    // same Square subscription instead of starting a second one.
+    const subscriptionRef = await db.runTransaction(async (transaction) => {
+      const openSnap = await transaction.get(db.collection("subscriptions")
+        .where("userId", "==", userId)
+        .where("leagueId", "==", leagueId)
+        .where("status", "in", OPEN_STATUSES));
+      // One-off payments also leave subscription records, without a Square ID
+      if (openSnap.docs.some((doc) => doc.data().squareSubscriptionId)) {
+        throw new HttpsError(
+          "already-exists",
+          "You already have a subscription to this league",
+        );
+      }
+
+      // A claim whose Square call never answered has a null Square ID
+      const claim = openSnap.docs.find((doc) =>
+        doc.data().squareSubscriptionId === null);
+      if (claim) return claim.ref;
+
+      const now = Timestamp.now();
+      const ref = db.collection("subscriptions").doc();
+      transaction.set(ref, {
+        userId,
+        leagueId,
+        status: "pending",
+        currentPeriodStart: now,
+        currentPeriodEnd: now, // Moves forward as invoices are paid
+        autoRenew: true,
+        paymentHistory: [],
+        squareSubscriptionId: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return ref;
+    });
+
+    let subscription: SquareSubscription;
+    let customerId: string;
+    let planVariationId: string;
+    try {
+      customerId = await ensureSquareCustomer(
+        userId, email, request.auth.token.name || email);
+      planVariationId = await ensureLeaguePlan(leagueId, league);
+
+      ({subscription} = await squareRequest<{
+        subscription: SquareSubscription;
+      }>("/v2/subscriptions", "POST", {
+        idempotency_key: `subscription-${subscriptionRef.id}`,
+        location_id: process.env.SQUARE_LOCATION_ID,
+        plan_variation_id: planVariationId,
+        customer_id: customerId,
+        ...(trialEndsAt && {
+          start_date: trialEndsAt.toDate().toISOString().slice(0, 10),
+        }),
+      }));
+    } catch (error) {
+      // Square turned the request down, so the claim can go; after a
+      // network failure it stays for the retry to reuse
+      if (error instanceof HttpsError) {
+        await subscriptionRef.delete();
+      }
+      throw error;
+    }
+
+    await subscriptionRef.update({
+      status: toSubscriptionStatus(subscription.status) || "pending",
+      squareSubscriptionId: subscription.id,
+      squareCustomerId: customerId,
+      squarePlanVariationId: planVariationId,
+      updatedAt: Timestamp.now(),
+    });
+
+    // Send the player straight to the first invoice when Square has one
+    let invoiceUrl: string | null = null;
+    const firstInvoiceId = subscription.invoice_ids?.[0];
+    if (firstInvoiceId) {
+      try {
+        const {invoice} = await squareRequest<{
+          invoice: {public_url?: string};
+        }>(`/v2/invoices/${firstInvoiceId}`);
+        invoiceUrl = invoice.public_url || null;
+      } catch {
+        logger.warn("First subscription invoice not available yet", {
+          subscriptionId: subscription.id,
+        });
+      }
+    }
+
+    logger.info("Created league subscription", {
+      userId,
+      leagueId,
+      squareSubscriptionId: subscription.id,
+    });
+
+    return {success: true, subscriptionId: subscriptionRef.id, invoiceUrl};
+  },
+);
+
+/**
+ * Turn auto-renew off or back on. Turning it off schedules a Square
+ * cancellation at the end of the paid period; turning it on again removes
+ * that scheduled cancellation.
+ */
+export const setSubscriptionAutoRenew = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {subscriptionId, autoRenew} = request.data || {};
+    if (typeof autoRenew !== "boolean") {
+      throw new HttpsError("invalid-argument", "autoRenew is required");
+    }
+
+    const {ref, data} = await getOwnSubscription(
+      subscriptionId, request.auth.uid);
+    if (!OPEN_STATUSES.includes(data.status)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This subscription has already ended",
+      );
+    }
+    if (data.autoRenew === autoRenew) {
+      return {success: true};
+    }
+
+    if (autoRenew) {
+      if (data.squareCancelActionId) {
+        await squareRequest(
+          `/v2/subscriptions/${data.squareSubscriptionId}/actions/${
+            data.squareCancelActionId}`,
+          "DELETE");
+      }
+      await ref.update({
+        autoRenew: true,
+        squareCancelActionId: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    } else {
+      const {actions} = await squareRequest<{
+        actions?: SquareSubscriptionAction[];
+      }>(`/v2/subscriptions/${data.squareSubscriptionId}/cancel`, "POST");
+      const cancelAction = actions?.find((action) => action.type === "CANCEL");
+      await ref.update({
+        autoRenew: false,
+        ...(cancelAction && {squareCancelActionId: cancelAction.id}),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    logger.info(`Turned auto-renew ${autoRenew ? "on" : "off"}`, {
+      subscriptionId,
+      userId: request.auth.uid,
+    });
+
+    return {success: true};
+  },
+);
+
+/**
+ * Cancel a subscription for good. Square stops billing at the end of the
+ * paid period and the membership runs until its current expiry date.
+ */
+export const cancelLeagueSubscription = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {subscriptionId} = request.data || {};
+    const {ref, data} = await getOwnSubscription(
+      subscriptionId, request.auth.uid);
+    if (!OPEN_STATUSES.includes(data.status)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This subscription has already ended",
+      );
+    }
+
+    // A subscription with auto-renew off is already canceled in Square
+    if (data.autoRenew !== false) {
+      await squareRequest(
+        `/v2/subscriptions/${data.squareSubscriptionId}/cancel`, "POST");
+    }
+
+    await ref.update({
+      status: "cancelled",
+      autoRenew: false,
+      cancelledAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info("Cancelled league subscription", {
+      subscriptionId,
+      userId: request.auth.uid,
+    });
+
+    return {success: true};
+  },
+);
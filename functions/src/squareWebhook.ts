@@ -1,26 +1,52 @@
 import { onRequest } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
-import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
-import { createHmac } from "crypto";
+import {
+  getFirestore,
+  FieldValue,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { createHmac, timingSafeEqual } from "crypto";
+import {toSubscriptionStatus} from "./squareSubscriptions";
+import {activateMembership} from "./leaguePayments";
+import {toRefundStatus} from "./refunds";
 
 const db = getFirestore();
 
+// Payment notes of league fines carry the pending penalty payment
+const FINE_PAYMENT_NOTE = /Type: penalty \| Payment: ([^|]+)/;
+
+// Card payments are recorded by processLeaguePayment when they are charged
+const CARD_PAYMENT_NOTE = /Type: card_payment/;
+
+// gRPC status Firestore reports when create() finds an existing document
+const ALREADY_EXISTS = 6;
+
 /**
- * Verify Square webhook signature for security
+ * Verify Square webhook signature for security. Square signs the
+ * notification URL followed by the raw request body.
+ * @param {string} notificationUrl URL the webhook subscription posts to
+ * @param {Buffer} rawBody Request body exactly as received
+ * @param {string} signature x-square-hmacsha256-signature header
+ * @param {string} webhookSignatureKey Signature key of the subscription
+ * @return {boolean} Whether the signature matches
  */
-function verifySquareSignature(body: string, signature: string, webhookSignatureKey: string): boolean {
-  try {
-    // Square uses HMAC SHA-256 with the webhook signature key
-    const expectedSignature = createHmac('sha256', webhookSignatureKey)
-      .update(body)
-      .digest('base64');
-
-    // Compare signatures in a timing-safe manner
-    return signature === expectedSignature;
-  } catch (error) {
-    logger.error("Error verifying webhook signature:", error);
-    return false;
-  }
+function verifySquareSignature(
+  notificationUrl: string,
+  rawBody: Buffer,
+  signature: string,
+  webhookSignatureKey: string,
+): boolean {
+  const expected = createHmac("sha256", webhookSignatureKey)
+    .update(notificationUrl)
+    .update(rawBody)
+    .digest();
+  const received = Buffer.from(signature, "base64");
+
+  // Compare signatures in a timing-safe manner
+  return received.length === expected.length &&
+    timingSafeEqual(received, expected);
 }
 
 /**
@@ -40,25 +66,24 @@ export const handleSquareWebhook = onRequest(
         return;
       }
 
-      // Get the webhook signature for verification (Square sends this)
+      // Every webhook must be signed with the subscription's key
       const signature = req.get("x-square-hmacsha256-signature");
-      const body = JSON.stringify(req.body);
-      
-      // Verify webhook signature for security (in production)
       const webhookSignatureKey = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
-      if (webhookSignatureKey && signature) {
-        const isValidSignature = verifySquareSignature(body, signature, webhookSignatureKey);
-        if (!isValidSignature) {
-          logger.warn("Invalid webhook signature received");
-          res.status(401).json({ error: "Invalid signature" });
-          return;
-        }
-        logger.info("Webhook signature verified successfully");
-      } else {
-        logger.warn("Webhook signature verification skipped (missing key or signature)");
+      if (!webhookSignatureKey) {
+        logger.error("SQUARE_WEBHOOK_SIGNATURE_KEY is not configured");
+        res.status(500).json({ error: "Webhook not configured" });
+        return;
+      }
+      const notificationUrl = process.env.SQUARE_WEBHOOK_URL ||
+        `https://${req.get("host")}${req.originalUrl}`;
+      if (!signature || !verifySquareSignature(
+        notificationUrl, req.rawBody, signature, webhookSignatureKey)) {
+        logger.warn("Invalid webhook signature received");
+        res.status(401).json({ error: "Invalid signature" });
+        return;
       }
+
       logger.info("Square webhook received", {
-        signature,
         eventType: req.body?.type,
         eventId: req.body?.event_id
       });
@@ -76,7 +101,21 @@ export const handleSquareWebhook = onRequest(
           break;
           
         case "invoice.payment_made":
-          await handleInvoicePaymentMade(event.data.object.invoice_payment_request);
+          await handleInvoicePaymentMade(event.data.object.invoice);
+          break;
+
+        case "invoice.scheduled_charge_failed":
+          await handleInvoiceChargeFailed(event.data.object.invoice);
+          break;
+
+        case "refund.created":
+        case "refund.updated":
+          await handleRefundUpdated(event.data.object.refund);
+          break;
+
+        case "subscription.created":
+        case "subscription.updated":
+          await handleSubscriptionUpdated(event.data.object.subscription);
           break;
           
         default:
@@ -116,6 +155,18 @@ async function handlePaymentCreated(payment: any) {
 
     const leagueId = leagueMatch[1].trim();
     const userId = userMatch[1].trim();
+    const finePaymentMatch = note.match(FINE_PAYMENT_NOTE);
+
+    if (CARD_PAYMENT_NOTE.test(note)) {
+      logger.info("Card payment already recorded", {paymentId: payment.id});
+      return;
+    }
+
+    // Fines settle their penalty instead of extending the membership
+    if (finePaymentMatch && payment.status === "COMPLETED") {
+      await processFinePayment(finePaymentMatch[1].trim(), payment);
+      return;
+    }
 
     // Only process completed payments
     if (payment.status === "COMPLETED") {
@@ -157,6 +208,19 @@ async function handlePaymentUpdated(payment: any) {
 
     const leagueId = leagueMatch[1].trim();
     const userId = userMatch[1].trim();
+    const finePaymentMatch = note.match(FINE_PAYMENT_NOTE);
+
+    if (CARD_PAYMENT_NOTE.test(note)) {
+      logger.info("Card payment already recorded", {paymentId: payment.id});
+      return;
+    }
+
+    if (finePaymentMatch) {
+      if (payment.status === "COMPLETED") {
+        await processFinePayment(finePaymentMatch[1].trim(), payment);
+      }
+      return;
+    }
 
     if (payment.status === "COMPLETED") {
       await processSuccessfulPayment({
@@ -183,11 +247,263 @@ async function handlePaymentUpdated(payment: any) {
 }
 
 /**
- * Handle invoice payment made event
+ * League subscription document of a Square subscription
+ * @param {string} squareSubscriptionId Square subscription ID
+ * @return {Promise<QueryDocumentSnapshot|null>} Subscription, if we have it
+ */
+async function findSubscription(
+  squareSubscriptionId: string,
+): Promise<QueryDocumentSnapshot | null> {
+  const subscriptionSnap = await db.collection("subscriptions")
+    .where("squareSubscriptionId", "==", squareSubscriptionId)
+    .limit(1)
+    .get();
+  return subscriptionSnap.empty ? null : subscriptionSnap.docs[0];
+}
+
+/**
+ * Handle subscription created and updated events by moving the
+ * LeagueSubscription to the matching status
+ * @param {DocumentData} subscription Square subscription object
+ * @return {Promise<void>}
+ */
+async function handleSubscriptionUpdated(
+  subscription: DocumentData,
+): Promise<void> {
+  try {
+    const subscriptionDoc = await findSubscription(subscription.id);
+    if (!subscriptionDoc) {
+      logger.warn("No league subscription for Square subscription", {
+        squareSubscriptionId: subscription.id,
+      });
+      return;
+    }
+
+    const status = toSubscriptionStatus(subscription.status);
+    if (!status) {
+      logger.info(`Ignoring subscription status ${subscription.status}`);
+      return;
+    }
+
+    // Square keeps a subscription ACTIVE until its paid period ends, so a
+    // member's cancellation and an unpaid invoice outlast that status
+    const current = subscriptionDoc.data().status;
+    const nextStatus = status === "active" &&
+      (current === "cancelled" || current === "past_due") ? current : status;
+
+    await subscriptionDoc.ref.update({
+      status: nextStatus,
+      autoRenew: !subscription.canceled_date &&
+        (nextStatus === "active" || nextStatus === "pending" ||
+          nextStatus === "past_due"),
+      ...(subscription.charged_through_date && {
+        nextPaymentDate: Timestamp.fromDate(
+          new Date(subscription.charged_through_date)),
+      }),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info("Updated league subscription", {
+      subscriptionId: subscriptionDoc.id,
+      squareStatus: subscription.status,
+      status: nextStatus,
+    });
+  } catch (error) {
+    logger.error("Error handling subscription update:", error);
+  }
+}
+
+/**
+ * Handle invoice payment made event. Subscription invoices start or renew
+ * the member's period; other invoices are only logged.
+ * @param {DocumentData} invoice Square invoice object
+ * @return {Promise<void>}
+ */
+async function handleInvoicePaymentMade(invoice: DocumentData): Promise<void> {
+  try {
+    if (!invoice?.subscription_id) {
+      logger.info("Invoice payment made", {invoiceId: invoice?.id});
+      return;
+    }
+
+    const subscriptionDoc = await findSubscription(invoice.subscription_id);
+    if (!subscriptionDoc) {
+      logger.warn("No league subscription for paid invoice", {
+        invoiceId: invoice.id,
+        squareSubscriptionId: invoice.subscription_id,
+      });
+      return;
+    }
+
+    const {userId, leagueId, status} = subscriptionDoc.data();
+    const amountMoney = invoice.payment_requests?.[0]?.computed_amount_money;
+
+    // Square retries webhooks, so each invoice is recorded once. A retry of
+    // a delivery that failed before activating the membership finishes it.
+    const paymentRef = db.collection("payments").doc(`invoice_${invoice.id}`);
+    const recorded = await paymentRef.create({
+      userId,
+      leagueId,
+      amount: (amountMoney?.amount || 0) / 100,
+      currency: amountMoney?.currency || "USD",
+      squareInvoiceId: invoice.id,
+      // Refunds of invoice payments only name the invoice's order
+      ...(invoice.order_id && {squareOrderId: invoice.order_id}),
+      subscriptionId: subscriptionDoc.id,
+      status: "completed",
+      type: "subscription_payment",
+      paymentMethod: "square_subscription",
+      createdAt: FieldValue.serverTimestamp(),
+      processedAt: FieldValue.serverTimestamp(),
+    }).then(() => false, (error) => {
+      if (error.code !== ALREADY_EXISTS) throw error;
+      return true;
+    });
+    if (recorded &&
+        (await paymentRef.get()).data()?.membershipExpiresAt) {
+      return;
+    }
+
+    const expirationDate = await activateMembership(
+      leagueId, userId, paymentRef.id, "square_subscription_renewed");
+    await paymentRef.update({
+      membershipExpiresAt: Timestamp.fromDate(expirationDate),
+    });
+
+    await subscriptionDoc.ref.update({
+      status: status === "cancelled" ? "cancelled" : "active",
+      currentPeriodStart: FieldValue.serverTimestamp(),
+      currentPeriodEnd: Timestamp.fromDate(expirationDate),
+      paymentHistory: FieldValue.arrayUnion(paymentRef.id),
+      lastPaymentId: paymentRef.id,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info("Processed subscription invoice", {
+      invoiceId: invoice.id,
+      subscriptionId: subscriptionDoc.id,
+      membershipExpires: expirationDate.toISOString(),
+    });
+  } catch (error) {
+    // Rethrown so Square gets an error response and retries the delivery
+    logger.error("Error handling invoice payment:", error);
+    throw error;
+  }
+}
+
+/**
+ * Handle a failed automatic charge of a subscription invoice. The
+ * membership runs until it expires; Square keeps retrying the invoice.
+ * @param {DocumentData} invoice Square invoice object
+ * @return {Promise<void>}
  */
-async function handleInvoicePaymentMade(invoicePayment: any) {
-  logger.info("Invoice payment made", { invoicePayment });
-  // Handle invoice payments if needed
+async function handleInvoiceChargeFailed(
+  invoice: DocumentData,
+): Promise<void> {
+  try {
+    if (!invoice?.subscription_id) return;
+
+    const subscriptionDoc = await findSubscription(invoice.subscription_id);
+    if (!subscriptionDoc || subscriptionDoc.data().status === "cancelled") {
+      return;
+    }
+
+    await subscriptionDoc.ref.update({
+      status: "past_due",
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    logger.info("Subscription payment failed", {
+      invoiceId: invoice.id,
+      subscriptionId: subscriptionDoc.id,
+    });
+  } catch (error) {
+    logger.error("Error handling failed invoice charge:", error);
+  }
+}
+
+/**
+ * Handle refund created and updated events. Refunds issued through
+ * refundLeaguePayment are matched by their Square ID; refunds made in the
+ * Square dashboard are recorded on the payment they refund.
+ * @param {DocumentData} refund Square refund object
+ * @return {Promise<void>}
+ */
+async function handleRefundUpdated(refund: DocumentData): Promise<void> {
+  try {
+    let paymentSnap = await db.collection("payments")
+      .where("refund.squareRefundId", "==", refund.id)
+      .limit(1)
+      .get();
+    if (paymentSnap.empty) {
+      paymentSnap = await db.collection("payments")
+        .where("squarePaymentId", "==", refund.payment_id)
+        .limit(1)
+        .get();
+    }
+    if (paymentSnap.empty && refund.order_id) {
+      paymentSnap = await db.collection("payments")
+        .where("squareOrderId", "==", refund.order_id)
+        .limit(1)
+        .get();
+    }
+    if (paymentSnap.empty) {
+      logger.warn("No payment for Square refund", {
+        refundId: refund.id,
+        squarePaymentId: refund.payment_id,
+      });
+      return;
+    }
+
+    const paymentDoc = paymentSnap.docs[0];
+    const current = paymentDoc.data().refund;
+    const status = toRefundStatus(refund.status);
+    // Square may send a late update after the refund has settled
+    if (current?.squareRefundId === refund.id &&
+        current.status === "completed") {
+      return;
+    }
+    const completed = status === "completed";
+    const failureReason = status === "failed" ?
+      `Refund ${refund.status.toLowerCase()}` : null;
+    // A refund refundLeaguePayment claimed but did not hear back about is
+    // the one Square reports here
+    if (current?.squareRefundId === refund.id ||
+        (current?.status === "pending" && !current.squareRefundId)) {
+      await paymentDoc.ref.update({
+        "refund.squareRefundId": refund.id,
+        "refund.status": status,
+        ...(completed && {
+          "status": "refunded",
+          "refund.completedAt": FieldValue.serverTimestamp(),
+        }),
+        ...(failureReason && {"refund.failureReason": failureReason}),
+      });
+    } else {
+      await paymentDoc.ref.update({
+        refund: {
+          squareRefundId: refund.id,
+          amount: (refund.amount_money?.amount || 0) / 100,
+          status,
+          membershipDeactivated: false,
+          refundedBy: "square",
+          requestedAt: FieldValue.serverTimestamp(),
+          ...(refund.reason && {reason: refund.reason}),
+          ...(completed && {completedAt: FieldValue.serverTimestamp()}),
+          ...(failureReason && {failureReason}),
+        },
+        ...(completed && {status: "refunded"}),
+      });
+    }
+
+    logger.info("Updated payment refund", {
+      paymentId: paymentDoc.id,
+      refundId: refund.id,
+      status,
+    });
+  } catch (error) {
+    logger.error("Error handling refund update:", error);
+  }
 }
 
 /**
@@ -204,8 +520,11 @@ async function processSuccessfulPayment(paymentData: {
   const { paymentId, leagueId, userId, amount, currency, squarePaymentData } = paymentData;
 
   try {
-    // Save payment record
-    await db.collection("payments").add({
+    // payment.created and payment.updated both report a completed checkout
+    // payment, so it is recorded once under its Square ID. A delivery that
+    // failed before activating the membership is finished by the next one.
+    const paymentRef = db.collection("payments").doc(`checkout_${paymentId}`);
+    const recorded = await paymentRef.create({
       paymentId,
       squarePaymentId: paymentId,
       userId,
@@ -218,67 +537,19 @@ async function processSuccessfulPayment(paymentData: {
       squareData: squarePaymentData,
       createdAt: FieldValue.serverTimestamp(),
       processedAt: FieldValue.serverTimestamp(),
+    }).then(() => false, (error) => {
+      if (error.code !== ALREADY_EXISTS) throw error;
+      return true;
     });
-
-    // Calculate membership expiration (30 days from now)
-    const expirationDate = new Date();
-    expirationDate.setDate(expirationDate.getDate() + 30);
-    const expiresTimestamp = Timestamp.fromDate(expirationDate);
-
-    // Check if user already has membership for this league
-    const membershipQuery = await db
-      .collection("leagueMemberships")
-      .where("leagueId", "==", leagueId)
-      .where("userId", "==", userId)
-      .get();
-
-    if (membershipQuery.empty) {
-      // Create new membership
-      await db.collection("leagueMemberships").add({
-        leagueId,
-        userId,
-        status: "active",
-        role: "player",
-        joinedAt: FieldValue.serverTimestamp(),
-        membershipExpiresAt: expiresTimestamp,
-        paymentStatus: "active",
-        lastPaymentId: paymentId,
-        createdAt: FieldValue.serverTimestamp(),
-        updatedAt: FieldValue.serverTimestamp(),
-        stats: {
-          gamesPlayed: 0,
-          gamesWon: 0,
-          totalPoints: 0,
-          winRate: 0,
-          currentStreak: 0,
-          longestWinStreak: 0,
-        },
-      });
-    } else {
-      // Update existing membership (reactivate if needed)
-      const membershipDoc = membershipQuery.docs[0];
-      await membershipDoc.ref.update({
-        status: "active",
-        paymentStatus: "active",
-        membershipExpiresAt: expiresTimestamp,
-        lastPaymentId: paymentId,
-        updatedAt: FieldValue.serverTimestamp(),
-        ...(membershipDoc.data().status === "inactive" && {
-          reactivatedAt: FieldValue.serverTimestamp()
-        })
-      });
+    if (recorded &&
+        (await paymentRef.get()).data()?.membershipExpiresAt) {
+      return;
     }
 
-    // Log membership event
-    await db.collection("membershipEvents").add({
-      leagueId,
-      userId,
-      eventType: membershipQuery.empty ? "membership_created" : "membership_extended",
-      status: "active",
-      paymentId,
-      expirationDate: expiresTimestamp,
-      timestamp: FieldValue.serverTimestamp(),
-      reason: "square_payment_completed"
+    const expirationDate = await activateMembership(
+      leagueId, userId, paymentId, "square_payment_completed");
+    await paymentRef.update({
+      membershipExpiresAt: Timestamp.fromDate(expirationDate),
     });
 
     logger.info("Successfully processed payment and updated membership", {
@@ -294,6 +565,62 @@ async function processSuccessfulPayment(paymentData: {
   }
 }
 
+/**
+ * Settle a league fine once its Square payment completes
+ * @param {string} paymentId Pending penalty payment in Firestore
+ * @param {DocumentData} squarePayment Square payment object
+ * @return {Promise<void>}
+ */
+async function processFinePayment(
+  paymentId: string,
+  squarePayment: DocumentData,
+): Promise<void> {
+  try {
+    const paymentRef = db.collection("payments").doc(paymentId);
+
+    await db.runTransaction(async (transaction) => {
+      const fine = (await transaction.get(paymentRef)).data();
+      if (!fine || fine.status === "completed") return;
+
+      // The note names the fine, but only the amount proves it was paid
+      const paid = squarePayment.amount_money;
+      if (paid?.amount !== Math.round(fine.amount * 100) ||
+        paid?.currency !== fine.currency) {
+        logger.error("Square payment does not match the fine", {
+          paymentId,
+          squarePaymentId: squarePayment.id,
+          expected: {amount: fine.amount, currency: fine.currency},
+          received: paid,
+        });
+        return;
+      }
+
+      transaction.update(paymentRef, {
+        status: "completed",
+        squarePaymentId: squarePayment.id,
+        paymentMethod: "square_checkout",
+        processedAt: FieldValue.serverTimestamp(),
+      });
+      if (fine.penaltyId) {
+        const penaltyRef = db.collection("leaguePenalties")
+          .doc(fine.penaltyId);
+        transaction.update(penaltyRef, {
+          status: "settled",
+          settledAt: FieldValue.serverTimestamp(),
+        });
+      }
+    });
+
+    logger.info("Processed league fine payment", {
+      paymentId,
+      squarePaymentId: squarePayment.id,
+    });
+  } catch (error) {
+    logger.error("Error settling league fine:", error);
+    throw error;
+  }
+}
+
 /**
  * Process a failed payment
  */
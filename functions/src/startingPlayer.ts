@@ -0,0 +1,259 @@
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  Timestamp,
+  DocumentData,
+} from "firebase-admin/firestore";
+import {randomInt} from "crypto";
+
+/**
+ * How the starting player was chosen, stored on the game for audit
+ */
+export interface StartingPlayerResolution {
+  option: string;
+  method: "creator" | "opponent" | "random" | "winner_previous" |
+    "highest_double";
+  playerId: string;
+  candidates?: string[];
+  previousGameId?: string;
+  highestDouble?: number;
+  fallbackReason?: string;
+  resolvedAt: Timestamp;
+}
+
+/**
+ * Every player in a game, creator side first
+ * @param {DocumentData} game Game document data
+ * @return {string[]} Player IDs
+ */
+function getGamePlayers(game: DocumentData): string[] {
+  if (game.teams) {
+    return [...game.teams.team1, ...game.teams.team2];
+  }
+  return [game.createdBy, game.opponent];
+}
+
+/**
+ * Whether two games were played by exactly the same players
+ * @param {DocumentData} a First game
+ * @param {DocumentData} b Second game
+ * @return {boolean} True for the same set of players
+ */
+function hasSamePlayers(a: DocumentData, b: DocumentData): boolean {
+  const playersA = getGamePlayers(a).sort();
+  const playersB = getGamePlayers(b).sort();
+  return playersA.length === playersB.length &&
+    playersA.every((playerId, index) => playerId === playersB[index]);
+}
+
+/**
+ * Find the latest completed game between the same creator and opponent.
+ * In a team game it only counts if the partners were the same too.
+ * @param {string} gameId Game being started (skipped)
+ * @param {DocumentData} game Game document data
+ * @return {Promise<{id: string, data: DocumentData} | null>} Previous game
+ */
+async function findPreviousGame(
+  gameId: string,
+  game: DocumentData,
+): Promise<{id: string; data: DocumentData} | null> {
+  const db = getFirestore();
+  const pair = [game.createdBy, game.opponent];
+  const previousSnap = await db.collection("games")
+    .where("createdBy", "in", pair)
+    .where("opponent", "in", pair)
+    .where("status", "==", "completed")
+    .orderBy("completedAt", "desc")
+    .limit(1)
+    .get();
+
+  const previous = previousSnap.docs[0];
+  if (!previous || previous.id === gameId ||
+    !hasSamePlayers(previous.data(), game)) {
+    return null;
+  }
+
+  return {id: previous.id, data: previous.data()};
+}
+
+/**
+ * Draw one of the players at random, server-side
+ * @param {string} option Starting player option of the game
+ * @param {string[]} candidates Players to draw from
+ * @param {Timestamp} now Resolution time
+ * @param {string} fallbackReason Why another option fell back to a draw
+ * @return {StartingPlayerResolution} The draw
+ */
+function drawStartingPlayer(
+  option: string,
+  candidates: string[],
+  now: Timestamp,
+  fallbackReason?: string,
+): StartingPlayerResolution {
+  return {
+    option,
+    method: "random",
+    playerId: candidates[randomInt(candidates.length)],
+    candidates,
+    ...(fallbackReason && {fallbackReason}),
+    resolvedAt: now,
+  };
+}
+
+/**
+ * Resolve who plays first from the game's startingPlayer option
+ * @param {DocumentData} game Game document data
+ * @param {{id: string, data: DocumentData} | null} previousGame Latest game
+ * between the same players, for winner_previous
+ * @param {Timestamp} now Resolution time
+ * @return {StartingPlayerResolution} Starting player and how it was chosen
+ */
+export function resolveStartingPlayer(
+  game: DocumentData,
+  previousGame: {id: string; data: DocumentData} | null,
+  now: Timestamp,
+): StartingPlayerResolution {
+  const option = game.settings?.startingPlayer || "creator";
+  const players = getGamePlayers(game);
+
+  if (option === "creator" || option === "opponent") {
+    return {
+      option,
+      method: option,
+      playerId: option === "creator" ? game.createdBy : game.opponent,
+      resolvedAt: now,
+    };
+  }
+
+  if (option === "winner_previous") {
+    if (!previousGame) {
+      return drawStartingPlayer(option, players, now,
+        "No previous game between these players");
+    }
+    const winner = previousGame.data.winner;
+    if (!winner || !players.includes(winner)) {
+      return drawStartingPlayer(option, players, now,
+        "The previous game had no winner");
+    }
+    return {
+      option,
+      method: "winner_previous",
+      playerId: winner,
+      previousGameId: previousGame.id,
+      resolvedAt: now,
+    };
+  }
+
+  if (option === "highest_double") {
+    const declarations: Record<string, number | null> =
+      game.highestDoubles || {};
+    const highest = players
+      .filter((playerId) => typeof declarations[playerId] === "number")
+      .sort((a, b) =>
+        (declarations[b] as number) - (declarations[a] as number))[0];
+    if (!highest) {
+      return drawStartingPlayer(option, players, now,
+        "Nobody declared a double");
+    }
+    return {
+      option,
+      method: "highest_double",
+      playerId: highest,
+      highestDouble: declarations[highest] as number,
+      resolvedAt: now,
+    };
+  }
+
+  return drawStartingPlayer(option, players, now);
+}
+
+/**
+ * Start an accepted game: resolve the starting player, set the deadline of
+ * games with a time limit and record how the first player was chosen
+ */
+export const startGame = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {gameId} = request.data || {};
+    if (!gameId || typeof gameId !== "string") {
+      throw new HttpsError("invalid-argument", "gameId is required");
+    }
+
+    const db = getFirestore();
+    const gameRef = db.collection("games").doc(gameId);
+    const initialSnap = await gameRef.get();
+    const initialGame = initialSnap.data();
+    if (!initialGame) {
+      throw new HttpsError("not-found", "Game not found");
+    }
+
+    const previousGame =
+      initialGame.settings?.startingPlayer === "winner_previous" ?
+        await findPreviousGame(gameId, initialGame) :
+        null;
+
+    const resolution = await db.runTransaction(async (transaction) => {
+      const gameSnap = await transaction.get(gameRef);
+      const game = gameSnap.data();
+      if (!game) {
+        throw new HttpsError("not-found", "Game not found");
+      }
+
+      const players = getGamePlayers(game);
+      if (!players.includes(request.auth?.uid || "")) {
+        throw new HttpsError(
+          "permission-denied",
+          "You are not authorized to start this game",
+        );
+      }
+      if (game.status !== "accepted") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This game is not ready to start",
+        );
+      }
+
+      if (game.settings?.startingPlayer === "highest_double") {
+        const declarations = game.highestDoubles || {};
+        const missing = players.filter((playerId) =>
+          !(playerId in declarations));
+        if (missing.length > 0) {
+          throw new HttpsError(
+            "failed-precondition",
+            "Every player must declare their highest double first",
+          );
+        }
+      }
+
+      const now = Timestamp.now();
+      const startingPlayer = resolveStartingPlayer(game, previousGame, now);
+      const timeLimit = game.settings?.timeLimit || 0;
+
+      transaction.update(gameRef, {
+        status: "in_progress",
+        activePlayer: startingPlayer.playerId,
+        startingPlayerResolution: startingPlayer,
+        startedAt: now,
+        updatedAt: now,
+        ...(timeLimit > 0 && {
+          deadline: Timestamp.fromMillis(
+            now.toMillis() + timeLimit * 60 * 1000),
+        }),
+      });
+
+      return startingPlayer;
+    });
+
+    logger.info(`Started game ${gameId}`, {
+      method: resolution.method,
+      playerId: resolution.playerId,
+    });
+
+    return {success: true, startingPlayer: resolution.playerId};
+  },
+);
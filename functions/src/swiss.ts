@@ -0,0 +1,243 @@
+import {DocumentData} from "firebase-admin/firestore";
+
+// Give up on a rematch-free pairing after this many search steps
+const MAX_PAIRING_STEPS = 100000;
+
+// Swiss score of a win; a draw is worth half
+const WIN_SCORE = 1;
+
+/**
+ * Running Swiss record of one participant
+ */
+interface SwissRecord {
+  id: string;
+  seed: number;
+  score: number;
+  opponents: string[];
+  homeGames: number;
+  hadBye: boolean;
+}
+
+/**
+ * A pairing for the next Swiss round
+ */
+export interface SwissPairing {
+  homeId: string;
+  awayId: string;
+}
+
+/**
+ * Pairings of the next Swiss round and who sits it out
+ */
+export interface SwissRoundPairings {
+  pairings: SwissPairing[];
+  byeId?: string;
+}
+
+/**
+ * Build every participant's score, opponents and bye history from the
+ * rounds played so far. Byes count as a win.
+ * @param {DocumentData[]} rounds Published rounds
+ * @param {string[]} participantIds Participants in seed order
+ * @return {Map<string, SwissRecord>} Records by participant ID
+ */
+function buildRecords(
+  rounds: DocumentData[],
+  participantIds: string[],
+): Map<string, SwissRecord> {
+  const records = new Map(participantIds.map((id, seed) => [id, {
+    id,
+    seed,
+    score: 0,
+    opponents: [] as string[],
+    homeGames: 0,
+    hadBye: false,
+  }]));
+
+  for (const round of rounds) {
+    for (const match of round.matches || []) {
+      const home = records.get(match.homeId);
+      const away = records.get(match.awayId);
+
+      if (match.isBye) {
+        if (home) {
+          home.hadBye = true;
+          home.score += WIN_SCORE;
+        }
+        continue;
+      }
+      if (!home || !away) continue;
+
+      home.opponents.push(away.id);
+      away.opponents.push(home.id);
+      home.homeGames++;
+
+      if (match.status !== "completed") continue;
+      if (match.winner === home.id) {
+        home.score += WIN_SCORE;
+      } else if (match.winner === away.id) {
+        away.score += WIN_SCORE;
+      } else {
+        home.score += WIN_SCORE / 2;
+        away.score += WIN_SCORE / 2;
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Pair the next Swiss round. Players are ordered by score, then seed, and
+ * each one is matched with the closest-scored opponent they have not met.
+ * Within a score group the top half meets the bottom half. If no pairing
+ * avoids every rematch, rematches are allowed as a last resort.
+ * @param {DocumentData[]} rounds Published rounds
+ * @param {string[]} participantIds Participants in seed order
+ * @return {SwissRoundPairings} Next round
+ */
+export function pairSwissRound(
+  rounds: DocumentData[],
+  participantIds: string[],
+): SwissRoundPairings {
+  const records = buildRecords(rounds, participantIds);
+  let players = Array.from(records.values())
+    .sort((a, b) => b.score - a.score || a.seed - b.seed);
+
+  // Odd fields: the lowest placed player without a bye sits out
+  let byeId: string | undefined;
+  if (players.length % 2 !== 0) {
+    const byePlayer = [...players].reverse().find((p) => !p.hadBye) ||
+      players[players.length - 1];
+    byeId = byePlayer.id;
+    players = players.filter((p) => p.id !== byeId);
+  }
+
+  // Position inside the score group, for top-half vs bottom-half pairing
+  const groupPosition = new Map<string, {index: number; size: number}>();
+  for (const player of players) {
+    const group = players.filter((p) => p.score === player.score);
+    groupPosition.set(player.id, {
+      index: group.indexOf(player),
+      size: group.length,
+    });
+  }
+
+  const candidateOrder = (player: SwissRecord, others: SwissRecord[]) => {
+    const position = groupPosition.get(player.id);
+    const half = Math.floor((position?.size || 0) / 2);
+    return [...others].sort((a, b) => {
+      const scoreGap = Math.abs(a.score - player.score) -
+        Math.abs(b.score - player.score);
+      if (scoreGap !== 0) return scoreGap;
+      const offset = (q: SwissRecord) => Math.abs(
+        (groupPosition.get(q.id)?.index || 0) - (position?.index || 0) - half);
+      return offset(a) - offset(b) || a.seed - b.seed;
+    });
+  };
+
+  let steps = 0;
+  const search = (
+    remaining: SwissRecord[],
+    allowRematch: boolean,
+  ): [SwissRecord, SwissRecord][] | null => {
+    if (remaining.length === 0) return [];
+    if (++steps > MAX_PAIRING_STEPS && !allowRematch) return null;
+
+    const [player, ...others] = remaining;
+    for (const opponent of candidateOrder(player, others)) {
+      if (!allowRematch && player.opponents.includes(opponent.id)) continue;
+      const rest = search(
+        others.filter((p) => p.id !== opponent.id),
+        allowRematch,
+      );
+      if (rest) return [[player, opponent], ...rest];
+      if (allowRematch) break;
+    }
+    return null;
+  };
+
+  const pairs = search(players, false) || search(players, true) || [];
+
+  // Whoever has hosted fewer games takes the home side
+  const pairings = pairs.map(([a, b]) =>
+    a.homeGames <= b.homeGames ?
+      {homeId: a.id, awayId: b.id} :
+      {homeId: b.id, awayId: a.id});
+
+  return {pairings, byeId};
+}
+
+/**
+ * Swiss standings ordered by score, then Buchholz (sum of the opponents'
+ * scores) and Sonneborn-Berger (scores of beaten opponents plus half of
+ * drawn ones)
+ * @param {DocumentData[]} rounds Published rounds
+ * @param {string[]} participantIds Participants in seed order
+ * @return {DocumentData[]} LeagueStanding entries with tiebreaks
+ */
+export function computeSwissStandings(
+  rounds: DocumentData[],
+  participantIds: string[],
+): DocumentData[] {
+  const records = buildRecords(rounds, participantIds);
+  const table = new Map(participantIds.map((id) => [id, {
+    id,
+    gamesPlayed: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    gamesTied: 0,
+    pointDifferential: 0,
+    sonnebornBerger: 0,
+  }]));
+
+  for (const round of rounds) {
+    for (const match of round.matches || []) {
+      if (match.status !== "completed" || match.isBye) continue;
+
+      const home = table.get(match.homeId);
+      const away = table.get(match.awayId);
+      if (!home || !away) continue;
+
+      const difference = (match.homeScore || 0) - (match.awayScore || 0);
+      const homeOpponentScore = records.get(away.id)?.score || 0;
+      const awayOpponentScore = records.get(home.id)?.score || 0;
+
+      home.gamesPlayed++;
+      away.gamesPlayed++;
+      home.pointDifferential += difference;
+      away.pointDifferential -= difference;
+
+      if (match.winner === home.id) {
+        home.gamesWon++;
+        away.gamesLost++;
+        home.sonnebornBerger += homeOpponentScore;
+      } else if (match.winner === away.id) {
+        away.gamesWon++;
+        home.gamesLost++;
+        away.sonnebornBerger += awayOpponentScore;
+      } else {
+        home.gamesTied++;
+        away.gamesTied++;
+        home.sonnebornBerger += homeOpponentScore / 2;
+        away.sonnebornBerger += awayOpponentScore / 2;
+      }
+    }
+  }
+
+  const seedOf = (id: string) => records.get(id)?.seed || 0;
+
+  return Array.from(table.values())
+    .map((entry) => ({
+      ...entry,
+      points: records.get(entry.id)?.score || 0,
+      buchholz: (records.get(entry.id)?.opponents || []).reduce(
+        (sum, opponentId) => sum + (records.get(opponentId)?.score || 0), 0),
+    }))
+    .sort((a, b) =>
+      b.points - a.points ||
+      b.buchholz - a.buchholz ||
+      b.sonnebornBerger - a.sonnebornBerger ||
+      seedOf(a.id) - seedOf(b.id))
+    .map((entry, index) => ({...entry, rank: index + 1}));
+}
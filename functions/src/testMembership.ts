@@ -4,11 +4,18 @@ import { logger } from "firebase-functions";
 
 /**
  * Cloud Function for testing - Manually set a user's membership status
- * Only for development/testing purposes
+ * Only for development/testing purposes, and only administrators can call it
  */
 export const setMembershipStatus = onCall(
   { region: "us-central1" },
   async (request) => {
+    if (!request.auth || !request.auth.token.admin) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only administrators can run this function",
+      );
+    }
+
     const { leagueId, userId, status } = request.data;
 
     if (!leagueId || !userId || !status) {
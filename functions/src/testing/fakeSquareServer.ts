@@ -0,0 +1,502 @@
+/**
+ * Fake Square server for local development.
+ *
+ * Implements the parts of the Square API our functions call (customers,
+ * subscription plans, subscriptions, invoices, card payments, refunds and
+ * payment links) in memory
+ * and sends signed webhooks back like Square does. Point the functions at
+ * it with SQUARE_BASE_URL and run it with `npm run square:fake`:
+ *
+ *   SQUARE_BASE_URL=http://localhost:8787   (functions environment)
+ *   FAKE_SQUARE_PORT=8787
+ *   SQUARE_WEBHOOK_URL=http://127.0.0.1:5001/<project>/us-central1/handleSquareWebhook
+ *   SQUARE_WEBHOOK_SIGNATURE_KEY=<any key>
+ *
+ * Set SQUARE_WEBHOOK_URL and SQUARE_WEBHOOK_SIGNATURE_KEY to the same values
+ * in both environments, since handleSquareWebhook signs the URL and body.
+ *
+ * Card payments accept Square's sandbox test nonces: cnon:card-nonce-ok
+ * succeeds, and the cnon:card-nonce-declined and cnon:card-nonce-rejected-*
+ * nonces fail with the matching error codes.
+ *
+ * Billing events are triggered by hand through the /fake routes:
+ *
+ *   POST /fake/invoices/{id}/pay               invoice.payment_made
+ *   POST /fake/invoices/{id}/fail              invoice.scheduled_charge_failed
+ *   POST /fake/subscriptions/{id}/deactivate   subscription.updated
+ *   POST /fake/refunds/{id}/complete           refund.updated (COMPLETED)
+ *   POST /fake/refunds/{id}/fail               refund.updated (FAILED)
+ *   GET  /fake/state                           everything created so far
+ */
+
+import {createServer, IncomingMessage, Server, ServerResponse} from "http";
+import {createHmac, randomUUID} from "crypto";
+
+interface FakeSquareOptions {
+  port?: number;
+  webhookUrl?: string;
+  signatureKey?: string;
+}
+
+interface Money {
+  amount: number;
+  currency: string;
+}
+
+interface FakeSubscription {
+  id: string;
+  status: string;
+  customer_id: string;
+  plan_variation_id: string;
+  location_id?: string;
+  start_date: string;
+  charged_through_date?: string;
+  canceled_date?: string;
+  invoice_ids: string[];
+  cancel_action_id?: string;
+}
+
+interface FakeInvoice {
+  id: string;
+  status: string;
+  subscription_id: string;
+  order_id: string;
+  public_url: string;
+  payment_requests: {
+    computed_amount_money: Money;
+  }[];
+}
+
+interface FakeRefund {
+  id: string;
+  status: string;
+  payment_id: string;
+  amount_money: Money;
+  reason?: string;
+}
+
+export interface FakeSquareState {
+  customers: Record<string, Record<string, unknown>>;
+  planPrices: Record<string, Money>;
+  subscriptions: Record<string, FakeSubscription>;
+  invoices: Record<string, FakeInvoice>;
+  paymentLinks: Record<string, Record<string, unknown>>;
+  payments: Record<string, Record<string, unknown>>;
+  refunds: Record<string, FakeRefund>;
+}
+
+// Square sandbox nonces that fail, with the error each one produces
+const DECLINED_NONCES: Record<string, string> = {
+  "cnon:card-nonce-declined": "CARD_DECLINED",
+  "cnon:card-nonce-rejected-cvv": "CVV_FAILURE",
+  "cnon:card-nonce-rejected-postalcode": "ADDRESS_VERIFICATION_FAILURE",
+  "cnon:card-nonce-rejected-expiration": "INVALID_EXPIRATION",
+};
+
+// Square request bodies are free-form JSON
+type JsonBody = Record<string, unknown>;
+
+// The parts of a subscription plan catalog object the fake reads
+interface CatalogPlan {
+  id: string;
+  subscription_plan_data: {
+    subscription_plan_variations: {
+      id: string;
+      subscription_plan_variation_data: {
+        phases: {pricing: {price_money: Money}}[];
+      };
+    }[];
+  };
+}
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Date one month after an ISO date, as Square reports charged-through dates
+ * @param {string} date ISO date (YYYY-MM-DD)
+ * @return {string} ISO date a month later
+ */
+function addMonth(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Read and parse a JSON request body
+ * @param {IncomingMessage} req Incoming request
+ * @return {Promise<JsonBody>} Parsed body, empty when there is none
+ */
+async function readBody(req: IncomingMessage): Promise<JsonBody> {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+/**
+ * Write a JSON response
+ * @param {ServerResponse} res Response to write
+ * @param {number} status HTTP status code
+ * @param {object} body Response body
+ */
+function send(res: ServerResponse, status: number, body: object): void {
+  res.writeHead(status, {"Content-Type": "application/json"});
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start the fake Square server
+ * @param {FakeSquareOptions} options Port and webhook destination
+ * @return {object} The HTTP server and its in-memory state
+ */
+export function startFakeSquareServer(
+  options: FakeSquareOptions = {},
+): {server: Server; state: FakeSquareState; baseUrl: string} {
+  const port = options.port ?? 8787;
+  const baseUrl = `http://localhost:${port}`;
+  const state: FakeSquareState = {
+    customers: {},
+    planPrices: {},
+    subscriptions: {},
+    invoices: {},
+    paymentLinks: {},
+    payments: {},
+    refunds: {},
+  };
+  // Responses by idempotency key, replayed like Square does
+  const idempotentResponses: Record<string, [number, object]> = {};
+
+  // Send a webhook signed the way handleSquareWebhook verifies it
+  const sendWebhook = async (type: string, object: JsonBody) => {
+    if (!options.webhookUrl || !options.signatureKey) return;
+
+    const body = JSON.stringify({
+      type,
+      event_id: randomUUID(),
+      created_at: new Date().toISOString(),
+      data: {type: type.split(".")[0], object},
+    });
+    const headers = {
+      "Content-Type": "application/json",
+      "x-square-hmacsha256-signature":
+        createHmac("sha256", options.signatureKey)
+          .update(options.webhookUrl + body)
+          .digest("base64"),
+    };
+
+    try {
+      await fetch(options.webhookUrl, {method: "POST", headers, body});
+    } catch (error) {
+      console.error(`Fake Square could not deliver ${type}:`, error);
+    }
+  };
+
+  const createInvoice = (subscription: FakeSubscription): FakeInvoice => {
+    const id = `inv_${randomUUID()}`;
+    const invoice: FakeInvoice = {
+      id,
+      status: "UNPAID",
+      subscription_id: subscription.id,
+      order_id: `order_${randomUUID()}`,
+      public_url: `${baseUrl}/fake/invoices/${id}`,
+      payment_requests: [{
+        computed_amount_money:
+          state.planPrices[subscription.plan_variation_id] ||
+          {amount: 0, currency: "USD"},
+      }],
+    };
+    state.invoices[id] = invoice;
+    subscription.invoice_ids.push(id);
+    return invoice;
+  };
+
+  const routes: {
+    method: string;
+    path: RegExp;
+    handle: (match: string[], body: JsonBody) => Promise<[number, object]>;
+  }[] = [
+    {
+      method: "POST",
+      path: /^\/v2\/customers$/,
+      handle: async (_match, body) => {
+        const id = `cust_${randomUUID()}`;
+        const customer: JsonBody = {...body, id};
+        delete customer.idempotency_key;
+        state.customers[id] = customer;
+        return [200, {customer}];
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/v2\/catalog\/object$/,
+      handle: async (_match, body) => {
+        const plan = body.object as CatalogPlan;
+        const variation = plan.subscription_plan_data
+          .subscription_plan_variations[0];
+        const planId = `plan_${randomUUID()}`;
+        const variationId = `planvar_${randomUUID()}`;
+        state.planPrices[variationId] = variation
+          .subscription_plan_variation_data.phases[0].pricing.price_money;
+        return [200, {
+          catalog_object: {...plan, id: planId},
+          id_mappings: [
+            {client_object_id: plan.id, object_id: planId},
+            {client_object_id: variation.id, object_id: variationId},
+          ],
+        }];
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/v2\/subscriptions$/,
+      handle: async (_match, body) => {
+        const customerId = body.customer_id as string;
+        const planVariationId = body.plan_variation_id as string;
+        if (!state.customers[customerId] ||
+            !state.planPrices[planVariationId]) {
+          return [400, {errors: [{detail: "Unknown customer or plan"}]}];
+        }
+        // Subscriptions starting after a free trial wait until then
+        const startDate = (body.start_date as string | undefined) || today();
+        const subscription: FakeSubscription = {
+          id: `sub_${randomUUID()}`,
+          status: startDate > today() ? "PENDING" : "ACTIVE",
+          customer_id: customerId,
+          plan_variation_id: planVariationId,
+          location_id: body.location_id as string | undefined,
+          start_date: startDate,
+          invoice_ids: [],
+        };
+        state.subscriptions[subscription.id] = subscription;
+        createInvoice(subscription);
+        await sendWebhook("subscription.created", {subscription});
+        return [200, {subscription}];
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/v2\/subscriptions\/([^/]+)$/,
+      handle: async ([id]) => state.subscriptions[id] ?
+        [200, {subscription: state.subscriptions[id]}] :
+        [404, {errors: [{detail: "Subscription not found"}]}],
+    },
+    {
+      method: "POST",
+      path: /^\/v2\/subscriptions\/([^/]+)\/cancel$/,
+      handle: async ([id]) => {
+        const subscription = state.subscriptions[id];
+        if (!subscription) {
+          return [404, {errors: [{detail: "Subscription not found"}]}];
+        }
+        subscription.canceled_date =
+          subscription.charged_through_date || today();
+        subscription.cancel_action_id = `action_${randomUUID()}`;
+        await sendWebhook("subscription.updated", {subscription});
+        return [200, {
+          subscription,
+          actions: [{
+            id: subscription.cancel_action_id,
+            type: "CANCEL",
+            effective_date: subscription.canceled_date,
+          }],
+        }];
+      },
+    },
+    {
+      method: "DELETE",
+      path: /^\/v2\/subscriptions\/([^/]+)\/actions\/([^/]+)$/,
+      handle: async ([id, actionId]) => {
+        const subscription = state.subscriptions[id];
+        if (!subscription || subscription.cancel_action_id !== actionId) {
+          return [404, {errors: [{detail: "Action not found"}]}];
+        }
+        delete subscription.canceled_date;
+        delete subscription.cancel_action_id;
+        await sendWebhook("subscription.updated", {subscription});
+        return [200, {subscription}];
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/v2\/invoices\/([^/]+)$/,
+      handle: async ([id]) => state.invoices[id] ?
+        [200, {invoice: state.invoices[id]}] :
+        [404, {errors: [{detail: "Invoice not found"}]}],
+    },
+    {
+      method: "POST",
+      path: /^\/v2\/payments$/,
+      handle: async (_match, body) => {
+        const idempotencyKey = body.idempotency_key as string;
+        const replay = idempotentResponses[idempotencyKey];
+        if (replay) return replay;
+
+        const errorCode = DECLINED_NONCES[body.source_id as string];
+        const payment = {
+          id: `pay_${randomUUID()}`,
+          status: errorCode ? "FAILED" : "COMPLETED",
+          amount_money: body.amount_money,
+          reference_id: body.reference_id,
+          note: body.note,
+          receipt_url: `${baseUrl}/fake/receipts/${randomUUID()}`,
+        };
+        state.payments[payment.id] = payment;
+
+        const response: [number, object] = errorCode ?
+          [402, {errors: [{code: errorCode, detail: errorCode}], payment}] :
+          [200, {payment}];
+        idempotentResponses[idempotencyKey] = response;
+        if (!errorCode) await sendWebhook("payment.created", {payment});
+        return response;
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/v2\/refunds$/,
+      handle: async (_match, body) => {
+        const idempotencyKey = body.idempotency_key as string;
+        const replay = idempotentResponses[idempotencyKey];
+        if (replay) return replay;
+
+        const paymentId = body.payment_id as string;
+        const amountMoney = body.amount_money as Money;
+        const payment = state.payments[paymentId];
+        if (!payment || payment.status !== "COMPLETED") {
+          return [404, {errors: [{
+            code: "NOT_FOUND",
+            detail: "Payment not found",
+          }]}];
+        }
+        // Square refuses to refund more than is left on a payment
+        const refunded = Object.values(state.refunds)
+          .filter((refund) => refund.payment_id === paymentId &&
+            refund.status !== "FAILED")
+          .reduce((total, refund) => total + refund.amount_money.amount, 0);
+        const paid = (payment.amount_money as Money).amount;
+        if (refunded + amountMoney.amount > paid) {
+          return [400, {errors: [{
+            code: "REFUND_AMOUNT_INVALID",
+            detail: "The requested refund amount exceeds the amount available",
+          }]}];
+        }
+
+        const refund: FakeRefund = {
+          id: `ref_${randomUUID()}`,
+          status: "PENDING",
+          payment_id: paymentId,
+          amount_money: amountMoney,
+          ...(typeof body.reason === "string" && {reason: body.reason}),
+        };
+        state.refunds[refund.id] = refund;
+
+        const response: [number, object] = [200, {refund}];
+        idempotentResponses[idempotencyKey] = response;
+        await sendWebhook("refund.created", {refund});
+        return response;
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/v2\/online-checkout\/payment-links$/,
+      handle: async (_match, body) => {
+        const id = `link_${randomUUID()}`;
+        const paymentLink = {
+          id,
+          url: `${baseUrl}/fake/payment-links/${id}`,
+          order: body.order,
+          payment_note: body.payment_note,
+        };
+        state.paymentLinks[id] = paymentLink;
+        return [200, {payment_link: paymentLink}];
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/fake\/invoices\/([^/]+)\/pay$/,
+      handle: async ([id]) => {
+        const invoice = state.invoices[id];
+        if (!invoice) return [404, {errors: [{detail: "Invoice not found"}]}];
+        const subscription = state.subscriptions[invoice.subscription_id];
+        invoice.status = "PAID";
+        subscription.charged_through_date = addMonth(
+          subscription.charged_through_date || subscription.start_date);
+        await sendWebhook("invoice.payment_made", {invoice});
+        // Square opens the next period's invoice once one is paid
+        const next = subscription.canceled_date ?
+          null : createInvoice(subscription);
+        return [200, {invoice, nextInvoice: next}];
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/fake\/invoices\/([^/]+)\/fail$/,
+      handle: async ([id]) => {
+        const invoice = state.invoices[id];
+        if (!invoice) return [404, {errors: [{detail: "Invoice not found"}]}];
+        invoice.status = "UNPAID";
+        await sendWebhook("invoice.scheduled_charge_failed", {invoice});
+        return [200, {invoice}];
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/fake\/subscriptions\/([^/]+)\/deactivate$/,
+      handle: async ([id]) => {
+        const subscription = state.subscriptions[id];
+        if (!subscription) {
+          return [404, {errors: [{detail: "Subscription not found"}]}];
+        }
+        subscription.status = "DEACTIVATED";
+        await sendWebhook("subscription.updated", {subscription});
+        return [200, {subscription}];
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/fake\/refunds\/([^/]+)\/(complete|fail)$/,
+      handle: async ([id, outcome]) => {
+        const refund = state.refunds[id];
+        if (!refund) return [404, {errors: [{detail: "Refund not found"}]}];
+        refund.status = outcome === "complete" ? "COMPLETED" : "FAILED";
+        await sendWebhook("refund.updated", {refund});
+        return [200, {refund}];
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/fake\/state$/,
+      handle: async () => [200, state],
+    },
+  ];
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url || "/").split("?")[0];
+    const route = routes.find((candidate) =>
+      candidate.method === req.method && candidate.path.test(path));
+    if (!route) {
+      send(res, 404, {errors: [{detail: `No fake for ${req.method} ${path}`}]});
+      return;
+    }
+
+    try {
+      const match = (route.path.exec(path) || []).slice(1);
+      const [status, body] = await route.handle(match, await readBody(req));
+      send(res, status, body);
+    } catch (error) {
+      send(res, 500, {errors: [{detail: String(error)}]});
+    }
+  });
+
+  server.listen(port);
+  return {server, state, baseUrl};
+}
+
+if (require.main === module) {
+  const port = Number(process.env.FAKE_SQUARE_PORT) || 8787;
+  startFakeSquareServer({
+    port,
+    webhookUrl: process.env.SQUARE_WEBHOOK_URL,
+    signatureKey: process.env.SQUARE_WEBHOOK_SIGNATURE_KEY,
+  });
+  console.log(`Fake Square server listening on http://localhost:${port}`);
+}
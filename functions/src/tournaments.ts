@@ -0,0 +1,854 @@
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {onDocumentUpdated} from "firebase-functions/v2/firestore";
+import {logger} from "firebase-functions";
+import {
+  getFirestore,
+  Firestore,
+  Timestamp,
+  Transaction,
+  DocumentData,
+  DocumentReference,
+} from "firebase-admin/firestore";
+import {
+  completeMatch,
+  computeBracketStandings,
+  findMatch,
+  getChampionshipMatch,
+  isMatchReady,
+  refreshRoundStatuses,
+  resolveByes,
+  BYE_ID,
+} from "./brackets";
+import {computeSwissStandings, pairSwissRound} from "./swiss";
+
+// Rounds as they were read, so only the ones that changed are written back
+const loadedRounds = new WeakMap<DocumentData, string>();
+
+/**
+ * Read a tournament together with its rounds subcollection
+ * @param {Transaction} transaction Running transaction
+ * @param {DocumentReference} tournamentRef Tournament document
+ * @return {Promise<DocumentData | undefined>} Tournament data with its
+ * rounds in round order, if the tournament exists
+ */
+async function getTournament(
+  transaction: Transaction,
+  tournamentRef: DocumentReference,
+): Promise<DocumentData | undefined> {
+  const tournamentSnap = await transaction.get(tournamentRef);
+  const tournament = tournamentSnap.data();
+  if (!tournament) return undefined;
+
+  const roundsSnap = await transaction.get(tournamentRef.collection("rounds"));
+  tournament.rounds = roundsSnap.docs
+    .map((roundDoc) => {
+      const round = roundDoc.data();
+      loadedRounds.set(round, JSON.stringify(round));
+      return round;
+    })
+    .sort((a, b) => a.roundNumber - b.roundNumber);
+  return tournament;
+}
+
+/**
+ * Write the rounds that are new or changed since they were read, and
+ * update the tournament document
+ * @param {Transaction} transaction Running transaction
+ * @param {DocumentReference} tournamentRef Tournament document
+ * @param {DocumentData} tournament Tournament data read by getTournament
+ * @param {DocumentData} update Fields to update on the tournament
+ */
+function saveTournament(
+  transaction: Transaction,
+  tournamentRef: DocumentReference,
+  tournament: DocumentData,
+  update: DocumentData,
+): void {
+  for (const round of tournament.rounds || []) {
+    if (loadedRounds.get(round) === JSON.stringify(round)) continue;
+    transaction.set(tournamentRef.collection("rounds").doc(round.id), round);
+  }
+  transaction.update(tournamentRef, update);
+}
+
+/**
+ * Create the invitation game for one tournament match within a transaction
+ * @param {Firestore} db Firestore instance
+ * @param {Transaction} transaction Running transaction
+ * @param {string} tournamentId ID of the leagueTournaments document
+ * @param {DocumentData} tournament Tournament data
+ * @param {DocumentData} leagueSettings Settings of the tournament's league
+ * @param {DocumentData} round Round the match belongs to
+ * @param {DocumentData} match Match to create the game for
+ * @param {Timestamp} now Creation time
+ * @return {string} ID of the new game
+ */
+function createMatchGame(
+  db: Firestore,
+  transaction: Transaction,
+  tournamentId: string,
+  tournament: DocumentData,
+  leagueSettings: DocumentData,
+  round: DocumentData,
+  match: DocumentData,
+  now: Timestamp,
+): string {
+  // The home side sends the invitation, the away side accepts it
+  const gameRef = db.collection("games").doc();
+  transaction.set(gameRef, {
+    createdBy: match.homeId,
+    opponent: match.awayId,
+    status: "invited",
+    leagueId: tournament.leagueId,
+    tournamentId,
+    roundId: round.id,
+    matchId: match.id,
+    createdAt: now,
+    updatedAt: now,
+    settings: {
+      gameMode: leagueSettings.gameMode || "single",
+      pointsToWin: leagueSettings.pointsToWin || 150,
+      ruleset: leagueSettings.ruleset || "standard",
+      ...(leagueSettings.timeLimit > 0 && {
+        timeLimit: leagueSettings.timeLimit,
+      }),
+    },
+  });
+  return gameRef.id;
+}
+
+/**
+ * Send invitations for every bracket match that has two real participants.
+ * Byes are resolved first so seeds drawn against nobody move straight on.
+ * @param {Firestore} db Firestore instance
+ * @param {Transaction} transaction Running transaction
+ * @param {string} tournamentId ID of the leagueTournaments document
+ * @param {DocumentData} tournament Tournament data (rounds are mutated)
+ * @param {DocumentData} leagueSettings Settings of the tournament's league
+ * @return {number} Number of games created
+ */
+function openReadyBracketMatches(
+  db: Firestore,
+  transaction: Transaction,
+  tournamentId: string,
+  tournament: DocumentData,
+  leagueSettings: DocumentData,
+): number {
+  const rounds: DocumentData[] = tournament.rounds || [];
+  const now = Timestamp.now();
+  let created = 0;
+
+  resolveByes(rounds);
+
+  for (const round of rounds) {
+    for (const match of round.matches || []) {
+      if (!isMatchReady(match)) continue;
+      match.gameId = createMatchGame(
+        db,
+        transaction,
+        tournamentId,
+        tournament,
+        leagueSettings,
+        round,
+        match,
+        now,
+      );
+      created++;
+      if (!round.openedAt) round.openedAt = now;
+    }
+  }
+
+  refreshRoundStatuses(rounds);
+  return created;
+}
+
+/**
+ * Close an elimination tournament once its deciding match has a winner
+ * @param {DocumentData} tournament Tournament data
+ * @param {DocumentData} leagueSettings Settings of the tournament's league
+ * @return {DocumentData} Fields to update on the tournament
+ */
+function getBracketUpdate(
+  tournament: DocumentData,
+  leagueSettings: DocumentData,
+): DocumentData {
+  const rounds: DocumentData[] = tournament.rounds || [];
+  const final = getChampionshipMatch(rounds);
+  const finished = final?.status === "completed";
+
+  return {
+    standings: computeBracketStandings(
+      rounds,
+      tournament.participantIds || [],
+      leagueSettings.scoringSystem?.pointsPerWin,
+    ),
+    status: finished ? "completed" : "active",
+    ...(finished && {winner: final.winner}),
+  };
+}
+
+/**
+ * Pair and publish the next Swiss round, creating its games. The bye (if
+ * any) is recorded as an already completed match.
+ * @param {Firestore} db Firestore instance
+ * @param {Transaction} transaction Running transaction
+ * @param {string} tournamentId ID of the leagueTournaments document
+ * @param {DocumentData} tournament Tournament data (rounds are mutated)
+ * @param {DocumentData} leagueSettings Settings of the tournament's league
+ * @return {number} Number of games created
+ */
+function publishSwissRound(
+  db: Firestore,
+  transaction: Transaction,
+  tournamentId: string,
+  tournament: DocumentData,
+  leagueSettings: DocumentData,
+): number {
+  const rounds: DocumentData[] = tournament.rounds || [];
+  const roundNumber = rounds.length + 1;
+  const roundId = `round-${roundNumber}`;
+  const now = Timestamp.now();
+  const {pairings, byeId} = pairSwissRound(
+    rounds,
+    tournament.participantIds || [],
+  );
+
+  const round: DocumentData = {
+    id: roundId,
+    tournamentId,
+    roundNumber,
+    status: "open",
+    openedAt: now,
+    matches: [],
+  };
+
+  pairings.forEach((pairing, index) => {
+    const match: DocumentData = {
+      id: `${roundId}-match-${index + 1}`,
+      roundId,
+      homeId: pairing.homeId,
+      awayId: pairing.awayId,
+      status: "scheduled",
+    };
+    match.gameId = createMatchGame(
+      db,
+      transaction,
+      tournamentId,
+      tournament,
+      leagueSettings,
+      round,
+      match,
+      now,
+    );
+    round.matches.push(match);
+  });
+
+  if (byeId) {
+    round.matches.push({
+      id: `${roundId}-bye`,
+      roundId,
+      homeId: byeId,
+      awayId: BYE_ID,
+      status: "completed",
+      winner: byeId,
+      isBye: true,
+    });
+  }
+
+  tournament.rounds = [...rounds, round];
+  return pairings.length;
+}
+
+/**
+ * Swiss standings and completion once the last round has been played
+ * @param {DocumentData} tournament Tournament data
+ * @return {DocumentData} Fields to update on the tournament
+ */
+function getSwissUpdate(tournament: DocumentData): DocumentData {
+  const rounds: DocumentData[] = tournament.rounds || [];
+  const standings = computeSwissStandings(
+    rounds,
+    tournament.participantIds || [],
+  );
+  const finished = rounds.length >= (tournament.numberOfRounds || 0) &&
+    rounds.every((round) => round.status === "completed");
+
+  return {
+    standings,
+    status: finished ? "completed" : "active",
+    ...(finished && standings.length > 0 && {winner: standings[0].id}),
+  };
+}
+
+/**
+ * Whether the caller may run a league's tournaments: the league owner, a
+ * league admin or a site judge
+ * @param {DocumentData | undefined} league League data
+ * @param {string} uid Caller's user ID
+ * @param {boolean} isJudge Whether the caller has the judge claim
+ * @return {boolean} True if the caller manages the league's tournaments
+ */
+function isTournamentAdmin(
+  league: DocumentData | undefined,
+  uid: string,
+  isJudge: boolean,
+): boolean {
+  return league?.createdBy === uid ||
+    league?.memberRoles?.[uid] === "admin" ||
+    isJudge;
+}
+
+/**
+ * Carry a finished match through the rest of the tournament. In an
+ * elimination bracket the next invitations go out; otherwise the round
+ * closes once every match is done (an abandoned match counts as done, with
+ * no result), and in a Swiss tournament the next round is paired.
+ * @param {Firestore} db Firestore instance
+ * @param {Transaction} transaction Running transaction
+ * @param {DocumentReference} tournamentRef Tournament document
+ * @param {DocumentData} tournament Tournament data (rounds are mutated)
+ * @param {DocumentData} round Round of the finished match
+ * @return {Promise<void>}
+ */
+async function advanceTournament(
+  db: Firestore,
+  transaction: Transaction,
+  tournamentRef: DocumentReference,
+  tournament: DocumentData,
+  round: DocumentData,
+): Promise<void> {
+  const rounds: DocumentData[] = tournament.rounds || [];
+  const leagueRef = db.collection("leagues").doc(tournament.leagueId);
+  const leagueSnap = await transaction.get(leagueRef);
+  const leagueSettings = leagueSnap.data()?.settings || {};
+
+  if (tournament.format === "elimination") {
+    openReadyBracketMatches(
+      db,
+      transaction,
+      tournamentRef.id,
+      tournament,
+      leagueSettings,
+    );
+
+    saveTournament(
+      transaction,
+      tournamentRef,
+      tournament,
+      getBracketUpdate(tournament, leagueSettings),
+    );
+    return;
+  }
+
+  if (round.matches.every((m: DocumentData) =>
+    m.status === "completed" || m.status === "canceled" ||
+    m.status === "abandoned")) {
+    round.status = "completed";
+  }
+
+  if (tournament.format === "swiss") {
+    const isLatestRound = round.roundNumber === rounds.length;
+    if (round.status === "completed" && isLatestRound &&
+      rounds.length < (tournament.numberOfRounds || 0)) {
+      publishSwissRound(
+        db,
+        transaction,
+        tournamentRef.id,
+        tournament,
+        leagueSettings,
+      );
+    }
+
+    saveTournament(
+      transaction,
+      tournamentRef,
+      tournament,
+      getSwissUpdate(tournament),
+    );
+    return;
+  }
+
+  const allRoundsCompleted = rounds.every((r) => r.status === "completed");
+
+  saveTournament(transaction, tournamentRef, tournament, {
+    status: allRoundsCompleted ? "completed" : "active",
+  });
+}
+
+/**
+ * Open a tournament round: create an invitation game for every match and
+ * mark the round as open. Rounds that are already open are left untouched.
+ * @param {string} tournamentId ID of the leagueTournaments document
+ * @param {number} roundNumber Round to open
+ * @return {Promise<number>} Number of games created
+ */
+export async function openTournamentRoundGames(
+  tournamentId: string,
+  roundNumber: number,
+): Promise<number> {
+  const db = getFirestore();
+  const tournamentRef = db.collection("leagueTournaments").doc(tournamentId);
+
+  return db.runTransaction(async (transaction) => {
+    const tournament = await getTournament(transaction, tournamentRef);
+    if (!tournament) {
+      throw new HttpsError("not-found", "Tournament not found");
+    }
+
+    const leagueRef = db.collection("leagues").doc(tournament.leagueId);
+    const leagueSnap = await transaction.get(leagueRef);
+    const leagueSettings = leagueSnap.data()?.settings || {};
+
+    const rounds: DocumentData[] = tournament.rounds || [];
+    const round = rounds.find((r) => r.roundNumber === roundNumber);
+    if (!round || (round.status && round.status !== "scheduled")) {
+      return 0;
+    }
+
+    const now = Timestamp.now();
+    let created = 0;
+
+    round.matches = (round.matches || []).map((match: DocumentData) => {
+      if (match.gameId || match.status === "canceled") return match;
+
+      const gameId = createMatchGame(
+        db,
+        transaction,
+        tournamentId,
+        tournament,
+        leagueSettings,
+        round,
+        match,
+        now,
+      );
+      created++;
+
+      return {...match, gameId};
+    });
+    round.status = "open";
+    round.openedAt = now;
+
+    saveTournament(transaction, tournamentRef, tournament, {
+      status: "active",
+    });
+
+    return created;
+  });
+}
+
+/**
+ * Start an elimination bracket, or send any invitations that are due
+ * @param {string} tournamentId ID of the leagueTournaments document
+ * @return {Promise<number>} Number of games created
+ */
+export async function openBracketGames(tournamentId: string): Promise<number> {
+  const db = getFirestore();
+  const tournamentRef = db.collection("leagueTournaments").doc(tournamentId);
+
+  return db.runTransaction(async (transaction) => {
+    const tournament = await getTournament(transaction, tournamentRef);
+    if (!tournament) {
+      throw new HttpsError("not-found", "Tournament not found");
+    }
+
+    const leagueRef = db.collection("leagues").doc(tournament.leagueId);
+    const leagueSnap = await transaction.get(leagueRef);
+    const leagueSettings = leagueSnap.data()?.settings || {};
+
+    const created = openReadyBracketMatches(
+      db,
+      transaction,
+      tournamentId,
+      tournament,
+      leagueSettings,
+    );
+
+    saveTournament(
+      transaction,
+      tournamentRef,
+      tournament,
+      getBracketUpdate(tournament, leagueSettings),
+    );
+
+    return created;
+  });
+}
+
+/**
+ * Publish the next Swiss round once the previous one is complete
+ * @param {string} tournamentId ID of the leagueTournaments document
+ * @return {Promise<{roundNumber: number, gamesCreated: number}>} New round
+ */
+export async function openSwissRound(
+  tournamentId: string,
+): Promise<{roundNumber: number; gamesCreated: number}> {
+  const db = getFirestore();
+  const tournamentRef = db.collection("leagueTournaments").doc(tournamentId);
+
+  return db.runTransaction(async (transaction) => {
+    const tournament = await getTournament(transaction, tournamentRef);
+    if (!tournament) {
+      throw new HttpsError("not-found", "Tournament not found");
+    }
+
+    const rounds: DocumentData[] = tournament.rounds || [];
+    if (rounds.length >= (tournament.numberOfRounds || 0)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "All rounds have already been published",
+      );
+    }
+    const lastRound = rounds[rounds.length - 1];
+    if (lastRound && lastRound.status !== "completed") {
+      throw new HttpsError(
+        "failed-precondition",
+        `Round ${lastRound.roundNumber} is still being played`,
+      );
+    }
+
+    const leagueRef = db.collection("leagues").doc(tournament.leagueId);
+    const leagueSnap = await transaction.get(leagueRef);
+    const leagueSettings = leagueSnap.data()?.settings || {};
+
+    const gamesCreated = publishSwissRound(
+      db,
+      transaction,
+      tournamentId,
+      tournament,
+      leagueSettings,
+    );
+
+    saveTournament(
+      transaction,
+      tournamentRef,
+      tournament,
+      getSwissUpdate(tournament),
+    );
+
+    return {roundNumber: rounds.length + 1, gamesCreated};
+  });
+}
+
+/**
+ * Open every scheduled tournament round whose start date has arrived
+ */
+export const openDueTournamentRounds = onSchedule(
+  {
+    schedule: "0 * * * *", // Every hour
+    timeZone: "UTC",
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const db = getFirestore();
+    const now = Timestamp.now();
+
+    const tournamentsSnap = await db.collection("leagueTournaments")
+      .where("status", "in", ["upcoming", "active"])
+      .get();
+
+    let opened = 0;
+
+    for (const tournamentDoc of tournamentsSnap.docs) {
+      const roundsSnap = await tournamentDoc.ref.collection("rounds")
+        .where("status", "==", "scheduled")
+        .get();
+      const dueRounds = roundsSnap.docs
+        .map((roundDoc) => roundDoc.data())
+        .filter((round) =>
+          round.startDate &&
+          round.startDate.toMillis() <= now.toMillis())
+        .sort((a, b) => a.roundNumber - b.roundNumber);
+
+      for (const round of dueRounds) {
+        try {
+          const games = await openTournamentRoundGames(
+            tournamentDoc.id,
+            round.roundNumber,
+          );
+          logger.info(
+            `Opened round ${round.roundNumber} of tournament ` +
+            `${tournamentDoc.id} with ${games} games`,
+          );
+          opened++;
+        } catch (error) {
+          logger.error(
+            `Error opening round ${round.roundNumber} of tournament ` +
+            `${tournamentDoc.id}:`,
+            error,
+          );
+        }
+      }
+    }
+
+    logger.info(`Tournament round check completed, ${opened} rounds opened`);
+  },
+);
+
+/**
+ * Open the next scheduled round of a tournament right away. For elimination
+ * brackets this starts the bracket and sends every invitation that is ready.
+ * Only the league owner or a judge can call this.
+ */
+export const openTournamentRound = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {tournamentId} = request.data || {};
+    if (!tournamentId || typeof tournamentId !== "string") {
+      throw new HttpsError("invalid-argument", "tournamentId is required");
+    }
+
+    const db = getFirestore();
+    const tournamentSnap = await db.collection("leagueTournaments")
+      .doc(tournamentId)
+      .get();
+    const tournament = tournamentSnap.data();
+    if (!tournament) {
+      throw new HttpsError("not-found", "Tournament not found");
+    }
+
+    const leagueSnap = await db.collection("leagues")
+      .doc(tournament.leagueId)
+      .get();
+    if (!isTournamentAdmin(
+      leagueSnap.data(),
+      request.auth.uid,
+      !!request.auth.token.judge,
+    )) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only league admins can open tournament rounds",
+      );
+    }
+
+    if (tournament.format === "elimination") {
+      if (tournament.status === "completed") {
+        throw new HttpsError(
+          "failed-precondition",
+          "The bracket is already decided",
+        );
+      }
+
+      const gamesCreated = await openBracketGames(tournamentId);
+      return {success: true, gamesCreated};
+    }
+
+    if (tournament.format === "swiss") {
+      const {roundNumber, gamesCreated} = await openSwissRound(tournamentId);
+      return {success: true, roundNumber, gamesCreated};
+    }
+
+    const scheduledSnap = await tournamentSnap.ref.collection("rounds")
+      .where("status", "==", "scheduled")
+      .get();
+    const nextRound = scheduledSnap.docs
+      .map((roundDoc) => roundDoc.data())
+      .sort((a, b) => a.roundNumber - b.roundNumber)[0];
+    if (!nextRound) {
+      throw new HttpsError(
+        "failed-precondition",
+        "All rounds are already open",
+      );
+    }
+
+    const gamesCreated = await openTournamentRoundGames(
+      tournamentId,
+      nextRound.roundNumber,
+    );
+
+    return {
+      success: true,
+      roundNumber: nextRound.roundNumber,
+      gamesCreated,
+    };
+  },
+);
+
+/**
+ * Copy the result of a finished tournament game onto its match. A completed
+ * game (including a forfeit on time) moves the winner on; an abandoned or
+ * voided game leaves the match abandoned. In a bracket an abandoned match
+ * holds its branch until an admin records a walkover; in round-robin and
+ * Swiss play it counts as played with no result so the round can close.
+ */
+export const onTournamentGameCompleted = onDocumentUpdated(
+  "games/{gameId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const game = event.data?.after.data();
+
+    if (!before || !game || !game.tournamentId) return;
+    const completed = before.status !== "completed" &&
+      game.status === "completed";
+    const abandoned = before.status !== "abandoned" &&
+      game.status === "abandoned";
+    if (!completed && !abandoned) return;
+
+    const db = getFirestore();
+    const tournamentRef = db.collection("leagueTournaments")
+      .doc(game.tournamentId);
+
+    await db.runTransaction(async (transaction) => {
+      const tournament = await getTournament(transaction, tournamentRef);
+      if (!tournament) return;
+
+      const rounds: DocumentData[] = tournament.rounds || [];
+      const round = rounds.find((r) => r.id === game.roundId);
+      const match = round?.matches?.find(
+        (m: DocumentData) => m.id === game.matchId);
+      if (!round || !match || match.status === "completed" ||
+        match.status === "abandoned") return;
+      // Only the game the tournament created for the match, between the
+      // match's players, can settle it
+      if (match.gameId !== event.params.gameId ||
+        game.createdBy !== match.homeId || game.opponent !== match.awayId) {
+        logger.warn(
+          `Game ${event.params.gameId} is not the game of match ${match.id}`);
+        return;
+      }
+
+      if (abandoned) {
+        match.status = "abandoned";
+        if (tournament.format === "elimination") {
+          refreshRoundStatuses(rounds);
+          saveTournament(transaction, tournamentRef, tournament, {
+            status: "active",
+          });
+          return;
+        }
+      } else if (tournament.format === "elimination") {
+        if (!game.winner) {
+          logger.warn(`Bracket game ${event.params.gameId} has no winner`);
+          return;
+        }
+
+        match.homeScore = game.scores?.creator ?? 0;
+        match.awayScore = game.scores?.opponent ?? 0;
+        completeMatch(
+          rounds,
+          match,
+          game.winner,
+          game.winner === match.homeId ? match.awayId : match.homeId,
+        );
+      } else {
+        match.status = "completed";
+        match.homeScore = game.scores?.creator ?? 0;
+        match.awayScore = game.scores?.opponent ?? 0;
+        if (game.winner) {
+          match.winner = game.winner;
+        }
+      }
+
+      await advanceTournament(
+        db,
+        transaction,
+        tournamentRef,
+        tournament,
+        round,
+      );
+    });
+
+    logger.info(
+      `Recorded game ${event.params.gameId} (${game.status}) in tournament ` +
+      `${game.tournamentId}`,
+    );
+  },
+);
+
+/**
+ * Award an abandoned tournament match to one side as a walkover. In a
+ * bracket the winner moves on (and the loser drops into the losers
+ * bracket); in round-robin and Swiss play the match counts as a win.
+ * Only the league owner or a judge can call this.
+ */
+export const recordTournamentWalkover = onCall(
+  {cors: true},
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "User must be authenticated");
+    }
+
+    const {tournamentId, matchId, winnerId} = request.data || {};
+    if (!tournamentId || typeof tournamentId !== "string" ||
+      !matchId || typeof matchId !== "string" ||
+      !winnerId || typeof winnerId !== "string") {
+      throw new HttpsError(
+        "invalid-argument",
+        "tournamentId, matchId and winnerId are required",
+      );
+    }
+
+    const db = getFirestore();
+    const tournamentRef = db.collection("leagueTournaments").doc(tournamentId);
+    const uid = request.auth.uid;
+    const isJudge = !!request.auth.token.judge;
+
+    await db.runTransaction(async (transaction) => {
+      const tournament = await getTournament(transaction, tournamentRef);
+      if (!tournament) {
+        throw new HttpsError("not-found", "Tournament not found");
+      }
+
+      const leagueSnap = await transaction.get(
+        db.collection("leagues").doc(tournament.leagueId));
+      if (!isTournamentAdmin(leagueSnap.data(), uid, isJudge)) {
+        throw new HttpsError(
+          "permission-denied",
+          "Only league admins can record walkovers",
+        );
+      }
+
+      const rounds: DocumentData[] = tournament.rounds || [];
+      const match = findMatch(rounds, matchId);
+      const round = rounds.find((r) => r.id === match?.roundId);
+      if (!match || !round) {
+        throw new HttpsError("not-found", "Match not found");
+      }
+      if (match.status !== "abandoned") {
+        throw new HttpsError(
+          "failed-precondition",
+          "Only an abandoned match can be awarded as a walkover",
+        );
+      }
+      if (winnerId !== match.homeId && winnerId !== match.awayId) {
+        throw new HttpsError(
+          "invalid-argument",
+          "The winner must be one of the match's players",
+        );
+      }
+
+      match.isWalkover = true;
+      if (tournament.format === "elimination") {
+        completeMatch(
+          rounds,
+          match,
+          winnerId,
+          winnerId === match.homeId ? match.awayId : match.homeId,
+        );
+      } else {
+        match.status = "completed";
+        match.winner = winnerId;
+      }
+
+      await advanceTournament(
+        db,
+        transaction,
+        tournamentRef,
+        tournament,
+        round,
+      );
+    });
+
+    logger.info(
+      `Walkover in match ${matchId} of tournament ${tournamentId} ` +
+      `awarded to ${winnerId}`,
+    );
+
+    return {success: true};
+  },
+);
@@ -4,14 +4,17 @@ import { ThemeProvider } from "./components/theme-provider";
 import { useState, useEffect, useCallback, useMemo, memo, lazy, Suspense } from "react";
 import { signOut, onAuthStateChanged, type User } from "firebase/auth";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { doc, onSnapshot } from "firebase/firestore";
 import {
   auth,
+  db,
   loginWithGoogle,
   getUserProfile,
-  getNewInvitations,
 } from "./firebase";
+import type { LeagueInvitation } from "./models/league";
+import { useNotifications } from "@/components/NotificationManager";
 import UsernameSetup from "@/components/auth/UsernameSetup";
-import { isJudge } from "./utils/auth";
+import { loadRoleClaims, type StaffRole } from "./utils/auth";
 import { browserScheduler } from "./utils/leagueStatusScheduler";
 
 // Get base path for GitHub Pages
@@ -31,12 +34,17 @@ import Leagues from "./pages/leagues";
 
 // Lazy load less critical pages
 const Profile = lazy(() => import("./pages/Profile"));
+const Receipt = lazy(() => import("./pages/Receipt"));
 const GameDetail = lazy(() => import("./pages/GameDetail"));
 const GamesList = lazy(() => import("./pages/GamesList"));
 const CreateLeague = lazy(() => import("./pages/leagues/create"));
 const LeagueDetail = lazy(() => import("./pages/leagues/detail"));
 const JoinLeague = lazy(() => import("./pages/leagues/join"));
 const LeagueManagement = lazy(() => import("./pages/leagues/manage"));
+const GameConfigAdmin = lazy(() => import("./pages/GameConfigAdmin"));
+const RoleAdmin = lazy(() => import("./pages/RoleAdmin"));
+const DisputeQueue = lazy(() => import("./pages/DisputeQueue"));
+const SpectateGame = lazy(() => import("./pages/SpectateGame"));
 
 // Development/Testing pages
 const TestMembershipAdmin = lazy(() => import("./pages/TestMembershipAdmin"));
@@ -58,75 +66,31 @@ PageLoader.displayName = 'PageLoader';
 // Types
 interface AppState {
   user: User | null;
+  roles: StaffRole[]; // From the ID token claims
   loading: boolean;
   needsUsername: boolean;
 }
 
-// Custom hook for invitation management with optimized polling
-const useInvitationManager = (user: User | null) => {
-  const [pendingInvitations, setPendingInvitations] = useState<number>(0);
-
-  const fetchInvitations = useCallback(async () => {
-    if (!user) {
-      setPendingInvitations(0);
-      return;
-    }
-
-    try {
-      const invites = await getNewInvitations();
-      setPendingInvitations(invites.length);
-    } catch (error) {
-      console.error("Error fetching game invitations:", error);
-    }
-  }, [user]);
-
-  useEffect(() => {
-    fetchInvitations();
-
-    if (!user) return;
-
-    // Smart polling: frequent when active, less when inactive
-    let intervalId: NodeJS.Timeout;
-
-    const handleVisibilityChange = () => {
-      clearInterval(intervalId);
-
-      if (document.visibilityState === 'visible') {
-        fetchInvitations();
-        intervalId = setInterval(fetchInvitations, 30000); // 30s
-      } else {
-        intervalId = setInterval(fetchInvitations, 120000); // 2min
-      }
-    };
-
-    handleVisibilityChange();
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    return () => {
-      clearInterval(intervalId);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [user, fetchInvitations]);
-
-  return { pendingInvitations, refreshInvitations: fetchInvitations };
-};
-
 // Main App component with optimized state management
 const App = memo(() => {
   const [appState, setAppState] = useState<AppState>({
     user: null,
+    roles: [],
     loading: true,
     needsUsername: false,
   });
 
-  const { pendingInvitations, refreshInvitations } = useInvitationManager(appState.user);
+  const { pendingInvitations, leagueInvitations, refreshInvitations } = useNotifications(appState.user);
 
   // Optimized auth state listener with preloading
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
       if (currentUser) {
         try {
-          const userProfile = await getUserProfile(currentUser.uid);
+          const [userProfile, roles] = await Promise.all([
+            getUserProfile(currentUser.uid),
+            loadRoleClaims(currentUser),
+          ]);
           const needsUsernameSetup = userProfile
             ? userProfile.hasSetUsername === false && !userProfile.username
             : true;
@@ -134,6 +98,7 @@ const App = memo(() => {
           setAppState(prev => ({
             ...prev,
             user: currentUser,
+            roles,
             needsUsername: needsUsernameSetup,
             loading: false,
           }));
@@ -152,8 +117,10 @@ const App = memo(() => {
           }));
         }
       } else {
+        await loadRoleClaims(null);
         setAppState({
           user: null,
+          roles: [],
           loading: false,
           needsUsername: false,
         });
@@ -163,6 +130,31 @@ const App = memo(() => {
     return () => unsubscribe();
   }, []);
 
+  // Pick up role changes made by an admin without signing out and back in
+  useEffect(() => {
+    const user = appState.user;
+    if (!user) return;
+
+    let lastRolesUpdate: number | undefined;
+    const unsubscribe = onSnapshot(doc(db, "users", user.uid), async (userSnap) => {
+      const rolesUpdatedAt = userSnap.data()?.rolesUpdatedAt?.toMillis();
+      const changed = lastRolesUpdate !== undefined && rolesUpdatedAt !== lastRolesUpdate;
+      lastRolesUpdate = rolesUpdatedAt ?? 0;
+      if (!changed) return;
+
+      try {
+        const roles = await loadRoleClaims(user, true);
+        setAppState(prev => ({ ...prev, roles }));
+      } catch (error) {
+        console.error("Error refreshing role claims:", error);
+      }
+    }, (error) => {
+      console.error("Error listening to role changes:", error);
+    });
+
+    return () => unsubscribe();
+  }, [appState.user]);
+
   // Initialize league status scheduler for authenticated users
   useEffect(() => {
     if (appState.user) {
@@ -208,15 +200,19 @@ const App = memo(() => {
   // Memoized app props to prevent unnecessary re-renders
   const appContentProps = useMemo(() => ({
     user: appState.user,
+    roles: appState.roles,
     needsUsername: appState.needsUsername,
     pendingInvitations,
+    leagueInvitations,
     handleLogin: handleGoogleLogin,
     handleLogout,
     refreshInvitations,
   }), [
     appState.user,
+    appState.roles,
     appState.needsUsername,
     pendingInvitations,
+    leagueInvitations,
     handleGoogleLogin,
     handleLogout,
     refreshInvitations,
@@ -264,21 +260,27 @@ App.displayName = 'App';
 // Memoized AppContent component
 const AppContent = memo<{
   user: User | null;
+  roles: StaffRole[];
   needsUsername: boolean;
   pendingInvitations: number;
+  leagueInvitations: LeagueInvitation[];
   handleLogin: () => Promise<void>;
   handleLogout: () => Promise<void>;
   refreshInvitations: () => Promise<void>;
 }>(({
   user,
+  roles,
   needsUsername,
   pendingInvitations,
+  leagueInvitations,
   handleLogin,
   handleLogout,
   refreshInvitations,
 }) => {
   // Authentication check helper
   const isAuthenticated = user && !needsUsername;
+  const isJudgeUser = !!isAuthenticated && roles.includes("judge");
+  const isAdminUser = !!isAuthenticated && roles.includes("admin");
 
   return (
     <AppLayout
@@ -294,6 +296,14 @@ const AppContent = memo<{
         <Route path="/rules" element={<Rules />} />
         <Route path="/rankings" element={<Rankings />} />
         <Route path="/leagues" element={<Leagues />} />
+        <Route
+          path="/watch/:id"
+          element={
+            <Suspense fallback={<PageLoader />}>
+              <SpectateGame />
+            </Suspense>
+          }
+        />
 
         {/* Protected routes */}
         <Route
@@ -304,6 +314,14 @@ const AppContent = memo<{
             </Suspense>
           ) : <Navigate to="/" />}
         />
+        <Route
+          path="/receipts/:paymentId"
+          element={isAuthenticated ? (
+            <Suspense fallback={<PageLoader />}>
+              <Receipt />
+            </Suspense>
+          ) : <Navigate to="/" />}
+        />
         <Route
           path="/create-game"
           element={isAuthenticated ? <CreateGame /> : <Navigate to="/" />}
@@ -316,7 +334,7 @@ const AppContent = memo<{
           path="/games"
           element={isAuthenticated ? (
             <Suspense fallback={<PageLoader />}>
-              <GamesList refreshNotifications={refreshInvitations} />
+              <GamesList refreshNotifications={refreshInvitations} leagueInvitations={leagueInvitations} />
             </Suspense>
           ) : <Navigate to="/" />}
         />
@@ -332,7 +350,7 @@ const AppContent = memo<{
         {/* League routes */}
         <Route
           path="/leagues/create"
-          element={isAuthenticated && isJudge(user) ? (
+          element={isJudgeUser ? (
             <Suspense fallback={<PageLoader />}>
               <CreateLeague />
             </Suspense>
@@ -363,10 +381,38 @@ const AppContent = memo<{
           ) : <Navigate to="/leagues" />}
         />
 
+        {/* Judge queue - federation judges and league judges see their own disputes */}
+        <Route
+          path="/disputes"
+          element={isAuthenticated ? (
+            <Suspense fallback={<PageLoader />}>
+              <DisputeQueue />
+            </Suspense>
+          ) : <Navigate to="/" />}
+        />
+
+        {/* Admin routes */}
+        <Route
+          path="/admin/game-config"
+          element={isJudgeUser ? (
+            <Suspense fallback={<PageLoader />}>
+              <GameConfigAdmin />
+            </Suspense>
+          ) : <Navigate to="/" />}
+        />
+        <Route
+          path="/admin/roles"
+          element={isAdminUser ? (
+            <Suspense fallback={<PageLoader />}>
+              <RoleAdmin />
+            </Suspense>
+          ) : <Navigate to="/" />}
+        />
+
         {/* Development/Testing routes */}
         <Route
           path="/test/membership-admin"
-          element={isAuthenticated && user && isJudge(user) ? (
+          element={isJudgeUser ? (
             <Suspense fallback={<PageLoader />}>
               <TestMembershipAdmin />
             </Suspense>
@@ -45,9 +45,13 @@ import {
   UserIcon,
   ArrowRightStartOnRectangleIcon,
   ChevronUpIcon,
-  EllipsisVerticalIcon
+  EllipsisVerticalIcon,
+  AdjustmentsHorizontalIcon,
+  ShieldCheckIcon,
+  ScaleIcon
 } from '@heroicons/react/24/solid';
 import type { User } from 'firebase/auth';
+import { isJudge, isAdmin } from '../utils/auth';
 
 interface AppLayoutProps {
   user: User | null;
@@ -277,6 +281,30 @@ const StaticSidebar = memo<{
             <SidebarLabel>Settings</SidebarLabel>
           </SidebarItem>
         </Link>
+        {isJudge(user) && (
+          <Link to="/admin/game-config" onClick={handleLinkClick}>
+            <SidebarItem>
+              <AdjustmentsHorizontalIcon className="h-5 w-5" />
+              <SidebarLabel>Game Config</SidebarLabel>
+            </SidebarItem>
+          </Link>
+        )}
+        {isJudge(user) && (
+          <Link to="/disputes" onClick={handleLinkClick}>
+            <SidebarItem>
+              <ScaleIcon className="h-5 w-5" />
+              <SidebarLabel>Disputes</SidebarLabel>
+            </SidebarItem>
+          </Link>
+        )}
+        {isAdmin(user) && (
+          <Link to="/admin/roles" onClick={handleLinkClick}>
+            <SidebarItem>
+              <ShieldCheckIcon className="h-5 w-5" />
+              <SidebarLabel>Judges &amp; Admins</SidebarLabel>
+            </SidebarItem>
+          </Link>
+        )}
       </SidebarSection>
       <SidebarSpacer />
       <SidebarSection>
@@ -0,0 +1,248 @@
+/**
+ * Chat Panel Component
+ *
+ * Realtime chat for a game or a league. Messages are posted through the
+ * sendChatMessage function, which enforces membership, mutes and the rate
+ * limit; league moderators can delete messages and mute members.
+ */
+
+import React, { useState, useEffect, useRef, memo } from 'react';
+import { collection, query, orderBy, limit, onSnapshot } from 'firebase/firestore';
+import { PaperAirplaneIcon, TrashIcon, SpeakerXMarkIcon, SpeakerWaveIcon } from '@heroicons/react/24/solid';
+import {
+  auth,
+  db,
+  sendChatMessage,
+  deleteChatMessage,
+  muteChatUser,
+  unmuteChatUser,
+  ChatTarget,
+  ChatMessage,
+  ChatMute,
+} from '../firebase';
+import { useGameConfig } from '../config/gameConfig';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from './ui/card';
+import {
+  Avatar,
+  AvatarFallback,
+  AvatarImage,
+} from './ui/avatar';
+
+// Messages kept on screen; older ones stay in Firestore
+const MESSAGE_LIMIT = 100;
+
+// Mute lengths offered to moderators, in minutes (0 = until unmuted)
+const MUTE_OPTIONS = [
+  { minutes: 60, label: '1 hour' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '1 week' },
+  { minutes: 0, label: 'Until unmuted' },
+];
+
+interface ChatPanelProps {
+  target: ChatTarget;
+  leagueId?: string | null; // League whose moderators and mutes apply
+  canModerate?: boolean;
+  title?: string;
+}
+
+const isMuteActive = (mute: ChatMute) =>
+  !mute.mutedUntil || mute.mutedUntil.toMillis() > Date.now();
+
+const ChatPanel: React.FC<ChatPanelProps> = memo(({
+  target,
+  leagueId,
+  canModerate = false,
+  title = 'Chat',
+}) => {
+  const { config } = useGameConfig();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [mutes, setMutes] = useState<ChatMute[]>([]);
+  const [text, setText] = useState('');
+  const [muteMinutes, setMuteMinutes] = useState(MUTE_OPTIONS[0].minutes);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const currentUserId = auth.currentUser?.uid;
+  const parentCollection = target.type === 'game' ? 'games' : 'leagues';
+
+  // Realtime messages, newest last
+  useEffect(() => {
+    const messagesQuery = query(
+      collection(db, parentCollection, target.id, 'messages'),
+      orderBy('createdAt', 'desc'),
+      limit(MESSAGE_LIMIT)
+    );
+    const unsubscribe = onSnapshot(messagesQuery, (messagesSnap) => {
+      setMessages(messagesSnap.docs
+        .map(messageDoc => ({ id: messageDoc.id, ...messageDoc.data() } as ChatMessage))
+        .reverse());
+    }, (err) => {
+      console.error('Error listening to chat messages:', err);
+    });
+    return () => unsubscribe();
+  }, [parentCollection, target.id]);
+
+  // Mutes of the league this chat belongs to
+  useEffect(() => {
+    if (!leagueId) {
+      setMutes([]);
+      return;
+    }
+    const unsubscribe = onSnapshot(collection(db, 'leagues', leagueId, 'mutedUsers'), (mutesSnap) => {
+      setMutes(mutesSnap.docs.map(muteDoc => muteDoc.data() as ChatMute).filter(isMuteActive));
+    }, (err) => {
+      console.error('Error listening to chat mutes:', err);
+    });
+    return () => unsubscribe();
+  }, [leagueId]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  // Judges can switch chat off for everyone
+  if (config?.features?.enableChat === false) return null;
+
+  const mutedIds = new Set(mutes.map(mute => mute.userId));
+  const isMuted = !!currentUserId && mutedIds.has(currentUserId);
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || sending) return;
+
+    setSending(true);
+    await runAction(async () => {
+      await sendChatMessage(target, text);
+      setText('');
+    }, 'Could not send your message');
+    setSending(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">{title}</CardTitle>
+        {canModerate && leagueId && (
+          <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-zinc-400">
+            Mute for
+            <select
+              value={muteMinutes}
+              onChange={(e) => setMuteMinutes(Number(e.target.value))}
+              className="p-1 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+            >
+              {MUTE_OPTIONS.map(option => (
+                <option key={option.minutes} value={option.minutes}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div ref={listRef} className="h-72 overflow-y-auto space-y-3 pr-1">
+          {messages.length === 0 ? (
+            <p className="text-sm text-center text-gray-500 dark:text-zinc-400 pt-8">
+              No messages yet. Say hello!
+            </p>
+          ) : messages.map(message => {
+            const isOwn = message.senderId === currentUserId;
+            const senderMuted = mutedIds.has(message.senderId);
+
+            return (
+              <div key={message.id} className="group flex items-start gap-2">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={message.senderPhotoURL} alt={message.senderName} />
+                  <AvatarFallback>{message.senderName.substring(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-gray-500 dark:text-zinc-400">
+                    <span className="font-medium text-zinc-900 dark:text-white">{message.senderName}</span>
+                    {senderMuted && <span className="ml-1 text-red-500">(muted)</span>}
+                    <span className="ml-2">{message.createdAt?.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                  </p>
+                  {message.deleted ? (
+                    <p className="text-sm italic text-gray-400">Message deleted</p>
+                  ) : (
+                    <p className="text-sm break-words whitespace-pre-wrap">{message.text}</p>
+                  )}
+                </div>
+                {!message.deleted && (isOwn || canModerate) && (
+                  <button
+                    onClick={() => runAction(() => deleteChatMessage(target, message.id), 'Could not delete the message')}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+                    title="Delete message"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+                {canModerate && leagueId && !isOwn && (
+                  <button
+                    onClick={() => runAction(
+                      () => senderMuted
+                        ? unmuteChatUser(leagueId, message.senderId)
+                        : muteChatUser(leagueId, message.senderId, muteMinutes || undefined),
+                      'Could not update the mute'
+                    )}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-amber-600"
+                    title={senderMuted ? `Unmute ${message.senderName}` : `Mute ${message.senderName}`}
+                  >
+                    {senderMuted
+                      ? <SpeakerWaveIcon className="h-4 w-4" />
+                      : <SpeakerXMarkIcon className="h-4 w-4" />}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        {isMuted ? (
+          <p className="mt-3 text-sm text-amber-700 dark:text-amber-300">
+            A league moderator has muted you in this chat.
+          </p>
+        ) : (
+          <form onSubmit={handleSend} className="mt-3 flex gap-2">
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              maxLength={500}
+              placeholder="Write a message..."
+              className="flex-1 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+            />
+            <button
+              type="submit"
+              disabled={sending || !text.trim()}
+              className="px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              title="Send"
+            >
+              <PaperAirplaneIcon className="h-4 w-4" />
+            </button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+ChatPanel.displayName = 'ChatPanel';
+
+export default ChatPanel;
@@ -0,0 +1,155 @@
+/**
+ * Game Dispute Card
+ *
+ * Shows both sides' claims on a disputed game result and, once a judge has
+ * ruled, the decision. While the dispute is open the players can restate
+ * their side's score and comment through the fileDisputeClaim function.
+ */
+
+import React, { useState, memo } from "react";
+import { Link } from "react-router-dom";
+import { fileDisputeClaim } from "../firebase";
+import type { GameDispute, GameSide } from "../firebase";
+import { describeResolution, formatClaimScore } from "../utils/disputes";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+
+interface GameDisputeCardProps {
+  dispute: GameDispute;
+  sideNames: Record<GameSide, string>;
+  currentSide: GameSide | null; // Side of the signed-in player, null for judges
+  canJudge?: boolean;
+}
+
+const SIDES: GameSide[] = ["creator", "opponent"];
+
+const GameDisputeCard: React.FC<GameDisputeCardProps> = memo(({
+  dispute,
+  sideNames,
+  currentSide,
+  canJudge = false,
+}) => {
+  const ownClaim = currentSide ? dispute.claims[currentSide] : null;
+  const [form, setForm] = useState({
+    creator: ownClaim ? String(ownClaim.scores.creator) : "",
+    opponent: ownClaim ? String(ownClaim.scores.opponent) : "",
+    comment: ownClaim?.comment || "",
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = dispute.status === "open";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await fileDisputeClaim(dispute.gameId, {
+        scores: { creator: Number(form.creator), opponent: Number(form.opponent) },
+        comment: form.comment,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not update your claim");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-base">
+          {isOpen ? "Result Under Review" : "Dispute Resolved"}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-zinc-400">
+          {isOpen
+            ? "The players disagree on the result. A judge will uphold one claim, correct the score or void the game."
+            : `A judge settled this dispute on ${dispute.resolution?.resolvedAt.toDate().toLocaleDateString()}.`}
+          {dispute.handNumber !== undefined && ` The dispute concerns hand ${dispute.handNumber}.`}
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {SIDES.map(side => {
+            const claim = dispute.claims[side];
+            return (
+              <div key={side} className="p-3 border rounded-md dark:border-zinc-700">
+                <p className="text-sm font-medium">{sideNames[side]}</p>
+                <p className="text-xl font-bold">{formatClaimScore(claim.scores)}</p>
+                <p className="text-sm text-gray-600 dark:text-zinc-300 mt-1 break-words">
+                  {claim.comment || (claim.userId ? "" : "Submitted result, no comment yet")}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        {dispute.resolution && (
+          <div className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900">
+            <p className="font-medium">{describeResolution(dispute)}</p>
+            {dispute.resolution.note && (
+              <p className="text-sm mt-1">{dispute.resolution.note}</p>
+            )}
+          </div>
+        )}
+
+        {isOpen && currentSide && (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <p className="text-sm font-medium">Your side's claim</p>
+            <div className="grid grid-cols-2 gap-3">
+              {SIDES.map(side => (
+                <div key={side}>
+                  <label className="block text-xs text-gray-500 dark:text-zinc-400 mb-1">
+                    {sideNames[side]}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={form[side]}
+                    onChange={(e) => setForm(prev => ({ ...prev, [side]: e.target.value }))}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                    required
+                  />
+                </div>
+              ))}
+            </div>
+            <textarea
+              value={form.comment}
+              onChange={(e) => setForm(prev => ({ ...prev, comment: e.target.value }))}
+              maxLength={500}
+              rows={2}
+              placeholder="Explain your side of the result for the judge"
+              className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+              required
+            />
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+            <button
+              type="submit"
+              disabled={saving || !form.comment.trim()}
+              className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : ownClaim?.userId ? "Update Claim" : "Add Your Claim"}
+            </button>
+          </form>
+        )}
+
+        {isOpen && canJudge && (
+          <Link to="/disputes" className="inline-block text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400">
+            Settle it in the dispute queue
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+GameDisputeCard.displayName = "GameDisputeCard";
+
+export default GameDisputeCard;
@@ -0,0 +1,107 @@
+/**
+ * League Invitations Card
+ *
+ * Pending league invitations shown next to game invitations. Accepting one
+ * creates the membership through the respondToLeagueInvitation function;
+ * paid leagues that did not comp the invitation send the player on to pay.
+ */
+
+import React, { useState, memo } from "react";
+import { useNavigate } from "react-router-dom";
+import { respondToLeagueInvitation } from "../firebase";
+import type { LeagueInvitation } from "../models/league";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+
+interface LeagueInvitationsCardProps {
+  invitations: LeagueInvitation[];
+  onAnswered?: () => Promise<void>;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  player: "player",
+  admin: "league admin",
+  judge: "league judge",
+};
+
+const LeagueInvitationsCard: React.FC<LeagueInvitationsCardProps> = memo(({ invitations, onAnswered }) => {
+  const navigate = useNavigate();
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (invitations.length === 0) return null;
+
+  const handleAnswer = async (invitation: LeagueInvitation, accept: boolean) => {
+    setAnsweringId(invitation.id);
+    setError(null);
+    try {
+      const { paymentRequired } = await respondToLeagueInvitation(invitation.id, accept);
+      if (onAnswered) await onAnswered();
+      if (accept) {
+        navigate(paymentRequired ? `/leagues/join/${invitation.leagueId}` : `/leagues/${invitation.leagueId}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not answer the invitation");
+      if (onAnswered) await onAnswered();
+    } finally {
+      setAnsweringId(null);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>League Invitations ({invitations.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {invitations.map(invitation => (
+          <div
+            key={invitation.id}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-md bg-amber-50 border border-amber-200 dark:bg-amber-900/20 dark:border-amber-900"
+          >
+            <div>
+              <p className="font-medium">{invitation.leagueName}</p>
+              <p className="text-sm text-gray-600 dark:text-zinc-300">
+                {invitation.invitedByName} invited you to join as a {ROLE_LABELS[invitation.role] || invitation.role}
+                {invitation.comped && ", membership fee waived"}
+              </p>
+              {invitation.expiresAt && (
+                <p className="text-xs text-gray-500 dark:text-zinc-400">
+                  Expires {invitation.expiresAt.toDate().toLocaleDateString()}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={answeringId === invitation.id}
+                onClick={() => handleAnswer(invitation, true)}
+                className="bg-green-600 text-white hover:bg-green-700"
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={answeringId === invitation.id}
+                onClick={() => handleAnswer(invitation, false)}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+});
+
+LeagueInvitationsCard.displayName = "LeagueInvitationsCard";
+
+export default LeagueInvitationsCard;
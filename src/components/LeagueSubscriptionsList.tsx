@@ -0,0 +1,174 @@
+/**
+ * League Subscriptions List
+ *
+ * The signed-in player's league memberships billed by Square. Players can
+ * turn auto-renew off and on again until the paid period ends, or cancel
+ * for good; either way the membership runs until its current expiry.
+ */
+
+import React, { useState, useEffect, useCallback, memo } from "react";
+import { Link } from "react-router-dom";
+import {
+  getUserSubscriptions,
+  getLeagueById,
+  setSubscriptionAutoRenew,
+  cancelLeagueSubscription,
+} from "../firebase";
+import type { LeagueSubscription } from "../models/league";
+import { ConfirmModal } from "./modal";
+import { Button } from "./ui/button";
+
+const STATUS_STYLES: Record<LeagueSubscription["status"], { label: string; color: string }> = {
+  pending: { label: "Awaiting first payment", color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100" },
+  active: { label: "Active", color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" },
+  past_due: { label: "Payment failed", color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" },
+  cancelled: { label: "Cancelled", color: "bg-gray-100 text-gray-800 dark:bg-zinc-700 dark:text-zinc-200" },
+  expired: { label: "Ended", color: "bg-gray-100 text-gray-800 dark:bg-zinc-700 dark:text-zinc-200" },
+};
+
+const OPEN_STATUSES: LeagueSubscription["status"][] = ["pending", "active", "past_due"];
+
+const LeagueSubscriptionsList: React.FC = memo(() => {
+  const [subscriptions, setSubscriptions] = useState<LeagueSubscription[]>([]);
+  const [leagueNames, setLeagueNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<LeagueSubscription | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      // Only Square subscriptions can be managed; one-off payments are listed elsewhere
+      const recurring = (await getUserSubscriptions()).filter(subscription => subscription.squareSubscriptionId);
+      setSubscriptions(recurring);
+
+      const leagueIds = [...new Set(recurring.map(subscription => subscription.leagueId))];
+      const leagues = await Promise.all(leagueIds.map(leagueId => getLeagueById(leagueId)));
+      setLeagueNames(Object.fromEntries(leagues
+        .filter(league => league !== null)
+        .map(league => [league.id, league.name])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load subscriptions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const handleAutoRenew = async (subscription: LeagueSubscription) => {
+    setSavingId(subscription.id);
+    setError(null);
+    try {
+      await setSubscriptionAutoRenew(subscription.id, !subscription.autoRenew);
+      await loadSubscriptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change auto-renew");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+
+    const subscription = cancelTarget;
+    setCancelTarget(null);
+    setSavingId(subscription.id);
+    setError(null);
+    try {
+      await cancelLeagueSubscription(subscription.id);
+      await loadSubscriptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel the subscription");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-zinc-500 dark:text-zinc-400">Loading subscriptions...</div>;
+  }
+
+  if (subscriptions.length === 0) {
+    return (
+      <div className="text-sm text-zinc-500 dark:text-zinc-400">
+        {error || "You have no recurring league memberships."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {subscriptions.map(subscription => {
+        const status = STATUS_STYLES[subscription.status];
+        const isOpen = OPEN_STATUSES.includes(subscription.status);
+        const paidThrough = subscription.status !== "pending" && subscription.currentPeriodEnd
+          ? subscription.currentPeriodEnd.toDate().toLocaleDateString()
+          : null;
+
+        return (
+          <div
+            key={subscription.id}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg bg-gray-50 dark:bg-zinc-700"
+          >
+            <div className="min-w-0">
+              <Link
+                to={`/leagues/${subscription.leagueId}`}
+                className="font-medium text-zinc-900 dark:text-white hover:text-blue-700 dark:hover:text-blue-200"
+              >
+                {leagueNames[subscription.leagueId] || "League"}
+              </Link>
+              <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${status.color}`}>{status.label}</span>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">
+                {paidThrough && `Paid through ${paidThrough}`}
+                {paidThrough && isOpen && " · "}
+                {isOpen && (subscription.autoRenew ? "Renews automatically" : "Will not renew")}
+              </p>
+            </div>
+            {isOpen && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={savingId === subscription.id}
+                  onClick={() => handleAutoRenew(subscription)}
+                >
+                  {subscription.autoRenew ? "Turn off auto-renew" : "Turn on auto-renew"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={savingId === subscription.id}
+                  onClick={() => setCancelTarget(subscription)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <ConfirmModal
+        isOpen={!!cancelTarget}
+        onClose={() => setCancelTarget(null)}
+        onConfirm={handleCancel}
+        title="Cancel Subscription"
+        message={`Cancel your membership subscription to ${
+          cancelTarget ? leagueNames[cancelTarget.leagueId] || "this league" : "this league"
+        }? You keep access until the paid period ends, and you will not be charged again.`}
+        confirmText="Cancel Subscription"
+        isDestructive
+      />
+    </div>
+  );
+});
+
+LeagueSubscriptionsList.displayName = "LeagueSubscriptionsList";
+
+export default LeagueSubscriptionsList;
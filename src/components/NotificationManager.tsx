@@ -1,27 +1,38 @@
 import { memo, useCallback, useEffect, useState } from 'react';
 import { User } from 'firebase/auth';
-import { getNewInvitations } from '../firebase';
-import NotificationIndicator from './NotificationIndicator';
+import { getNewInvitations, getPendingLeagueInvitations } from '../firebase';
+import type { LeagueInvitation } from '../models/league';
 
 interface NotificationManagerProps {
   user: User | null;
-  children: (pendingInvitations: number, refreshInvitations: () => Promise<void>) => React.ReactNode;
+  children: (
+    pendingInvitations: number,
+    refreshInvitations: () => Promise<void>,
+    leagueInvitations: LeagueInvitation[]
+  ) => React.ReactNode;
 }
 
-export const NotificationManager = memo<NotificationManagerProps>(({ user, children }) => {
-  const [pendingInvitations, setPendingInvitations] = useState<number>(0);
+// Game and league invitations waiting for the user's answer, with smart polling
+export const useNotifications = (user: User | null) => {
+  const [gameInvitationCount, setGameInvitationCount] = useState<number>(0);
+  const [leagueInvitations, setLeagueInvitations] = useState<LeagueInvitation[]>([]);
 
   const fetchInvitations = useCallback(async () => {
     if (!user) {
-      setPendingInvitations(0);
+      setGameInvitationCount(0);
+      setLeagueInvitations([]);
       return;
     }
 
     try {
-      const invites = await getNewInvitations();
-      setPendingInvitations(invites.length);
+      const [invites, leagueInvites] = await Promise.all([
+        getNewInvitations(),
+        getPendingLeagueInvitations(),
+      ]);
+      setGameInvitationCount(invites.length);
+      setLeagueInvitations(leagueInvites);
     } catch (error) {
-      console.error("Error fetching game invitations:", error);
+      console.error("Error fetching invitations:", error);
     }
   }, [user]);
 
@@ -33,10 +44,10 @@ export const NotificationManager = memo<NotificationManagerProps>(({ user, child
 
     // Use smart polling: more frequent when tab is active, less when inactive
     let intervalId: NodeJS.Timeout;
-    
+
     const handleVisibilityChange = () => {
       clearInterval(intervalId);
-      
+
       if (document.visibilityState === 'visible') {
         // Active tab: check every 30 seconds
         fetchInvitations();
@@ -57,7 +68,17 @@ export const NotificationManager = memo<NotificationManagerProps>(({ user, child
     };
   }, [user, fetchInvitations]);
 
-  return <>{children(pendingInvitations, fetchInvitations)}</>;
+  return {
+    pendingInvitations: gameInvitationCount + leagueInvitations.length,
+    leagueInvitations,
+    refreshInvitations: fetchInvitations,
+  };
+};
+
+export const NotificationManager = memo<NotificationManagerProps>(({ user, children }) => {
+  const { pendingInvitations, leagueInvitations, refreshInvitations } = useNotifications(user);
+
+  return <>{children(pendingInvitations, refreshInvitations, leagueInvitations)}</>;
 });
 
 NotificationManager.displayName = 'NotificationManager';
@@ -0,0 +1,106 @@
+/**
+ * Pair Rankings Table Component
+ *
+ * Lists fixed partnerships (parejas) from double games with their
+ * record, points and win streaks.
+ */
+
+import React, { memo } from 'react';
+import { PairRankingEntry } from '../firebase';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Avatar,
+  AvatarFallback,
+  AvatarImage,
+} from './ui/avatar';
+
+interface PairRankingsTableProps {
+  pairs: PairRankingEntry[];
+  emptyMessage?: string;
+}
+
+const PairRankingsTable: React.FC<PairRankingsTableProps> = memo(({
+  pairs,
+  emptyMessage = 'No pairs have completed a double game yet.'
+}) => {
+  if (pairs.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Rank</TableHead>
+            <TableHead>Pair</TableHead>
+            <TableHead>Games</TableHead>
+            <TableHead>Wins</TableHead>
+            <TableHead>Win %</TableHead>
+            <TableHead>Points</TableHead>
+            <TableHead>Streak</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pairs.map((pair) => (
+            <TableRow key={pair.pairId}>
+              <TableCell>
+                <div className="text-xs sm:text-sm font-bold text-center">#{pair.rank}</div>
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center space-x-2">
+                  <div className="flex -space-x-2">
+                    {pair.players.map((player) => (
+                      <Avatar key={player.userId} className="h-6 w-6 sm:h-8 sm:w-8 ring-2 ring-white dark:ring-zinc-900">
+                        <AvatarImage src={player.photoURL || undefined} alt={player.displayName} />
+                        <AvatarFallback className="text-xs">
+                          {player.displayName.substring(0, 2).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                    ))}
+                  </div>
+                  <div className="font-medium text-xs sm:text-sm truncate max-w-32 sm:max-w-none">
+                    {pair.players.map((player) => player.displayName).join(' & ')}
+                  </div>
+                </div>
+              </TableCell>
+              <TableCell>
+                <div className="text-xs sm:text-sm text-center">{pair.gamesPlayed}</div>
+              </TableCell>
+              <TableCell>
+                <div className="text-xs sm:text-sm text-center">{pair.gamesWon}</div>
+              </TableCell>
+              <TableCell>
+                <div className="text-xs sm:text-sm text-center font-medium">{pair.winRate.toFixed(1)}%</div>
+              </TableCell>
+              <TableCell>
+                <div className="text-xs sm:text-sm text-center font-mono">{pair.totalPoints}</div>
+              </TableCell>
+              <TableCell>
+                <div className="text-xs sm:text-sm text-center" title={`Best: ${pair.longestWinStreak}`}>
+                  {pair.currentStreak > 0 ? `W${pair.currentStreak}` : '-'}
+                  <span className="text-gray-500 dark:text-gray-400"> / {pair.longestWinStreak}</span>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+});
+
+PairRankingsTable.displayName = 'PairRankingsTable';
+
+export default PairRankingsTable;
@@ -0,0 +1,161 @@
+/**
+ * Payment History
+ *
+ * The signed-in player's league payments: card and checkout payments,
+ * subscription invoices and fines, with the membership period each one
+ * paid for and a printable receipt.
+ */
+
+import React, { useState, useEffect, useCallback, memo } from "react";
+import { Link } from "react-router-dom";
+import { getUserPayments, getLeagueById, PAYMENTS_PAGE_SIZE } from "../firebase";
+import type { LeaguePayment } from "../models/league";
+import { PAYMENT_STATUS_LABELS, describePayment, formatMoney, paymentPeriod } from "../utils/payments";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+
+const STATUS_COLORS: Record<LeaguePayment["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100",
+  completed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100",
+  refunded: "bg-gray-100 text-gray-800 dark:bg-zinc-700 dark:text-zinc-200",
+  canceled: "bg-gray-100 text-gray-800 dark:bg-zinc-700 dark:text-zinc-200",
+};
+
+const PaymentHistory: React.FC = memo(() => {
+  const [payments, setPayments] = useState<LeaguePayment[]>([]);
+  const [leagueNames, setLeagueNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Loads the page of payments after the given one, with their league names
+  const loadPayments = useCallback(async (after?: LeaguePayment) => {
+    try {
+      const page = await getUserPayments(after);
+      setPayments(prev => after ? [...prev, ...page] : page);
+      setHasMore(page.length === PAYMENTS_PAGE_SIZE);
+
+      const leagueIds = [...new Set(page.map(payment => payment.leagueId))];
+      const leagues = await Promise.all(leagueIds.map(leagueId => getLeagueById(leagueId)));
+      setLeagueNames(prev => ({
+        ...prev,
+        ...Object.fromEntries(leagues
+          .filter(league => league !== null)
+          .map(league => [league.id, league.name])),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load payments");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPayments().finally(() => setLoading(false));
+  }, [loadPayments]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    await loadPayments(payments[payments.length - 1]);
+    setLoadingMore(false);
+  };
+
+  if (loading) {
+    return <div className="text-sm text-zinc-500 dark:text-zinc-400">Loading payments...</div>;
+  }
+
+  if (payments.length === 0) {
+    return (
+      <div className="text-sm text-zinc-500 dark:text-zinc-400">
+        {error || "You have not made any league payments."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>League</TableHead>
+            <TableHead className="hidden sm:table-cell">Period</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {payments.map(payment => {
+            const period = paymentPeriod(payment);
+            return (
+              <TableRow key={payment.id}>
+                <TableCell>{payment.createdAt?.toDate().toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <Link
+                    to={`/leagues/${payment.leagueId}`}
+                    className="font-medium text-zinc-900 dark:text-white hover:text-blue-700 dark:hover:text-blue-200"
+                  >
+                    {leagueNames[payment.leagueId] || "League"}
+                  </Link>
+                  <span className="block text-xs text-zinc-500 dark:text-zinc-400">{describePayment(payment)}</span>
+                </TableCell>
+                <TableCell className="hidden sm:table-cell">
+                  {period
+                    ? `${period.start.toLocaleDateString()} - ${period.end.toLocaleDateString()}`
+                    : "-"}
+                </TableCell>
+                <TableCell>
+                  {formatMoney(payment.amount, payment.currency)}
+                  {payment.refund?.status === "completed" && (
+                    <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                      {formatMoney(payment.refund.amount, payment.currency)} refunded
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_COLORS[payment.status]}`}>
+                    {PAYMENT_STATUS_LABELS[payment.status]}
+                  </span>
+                  {payment.status === "failed" && payment.failureReason && (
+                    <span className="block text-xs text-red-600 dark:text-red-400 mt-1">{payment.failureReason}</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {(payment.status === "completed" || payment.status === "refunded") && (
+                    <Link
+                      to={`/receipts/${payment.id}`}
+                      className="text-sm text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      Receipt
+                    </Link>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      {hasMore && (
+        <button
+          type="button"
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="mt-3 text-sm text-blue-600 hover:underline disabled:opacity-50 dark:text-blue-400"
+        >
+          {loadingMore ? "Loading..." : "Load more payments"}
+        </button>
+      )}
+    </div>
+  );
+});
+
+PaymentHistory.displayName = "PaymentHistory";
+
+export default PaymentHistory;
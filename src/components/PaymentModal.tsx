@@ -1,4 +1,4 @@
-import React, { useState, memo } from 'react';
+import React, { useState, useRef, memo } from 'react';
 import { PaymentForm, CreditCard, ApplePay, GooglePay } from 'react-square-web-payments-sdk';
 import { httpsCallable } from 'firebase/functions';
 import { functions } from '../firebase';
@@ -13,9 +13,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Loader2, CreditCard as CreditCardIcon, DollarSign, Check } from "lucide-react";
 
-// Firebase functions
+// Firebase function - charges the league fee and activates the membership
 const processLeaguePayment = httpsCallable(functions, 'processLeaguePayment');
-const extendMembershipAfterPayment = httpsCallable(functions, 'extendMembershipAfterPayment');
 
 interface PaymentModalProps {
   isOpen: boolean;
@@ -25,7 +24,6 @@ interface PaymentModalProps {
   monthlyFee: number;
   currency?: string;
   onSuccess?: () => void;
-  userId?: string; // Add userId for membership extension
 }
 
 const PaymentModal = memo<PaymentModalProps>(({
@@ -35,12 +33,13 @@ const PaymentModal = memo<PaymentModalProps>(({
   leagueName,
   monthlyFee,
   currency = 'USD',
-  onSuccess,
-  userId
+  onSuccess
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // One key per payment attempt, so a retried request never charges twice
+  const idempotencyKeyRef = useRef(crypto.randomUUID());
 
   // Verificar configuración de Square
   const squareApplicationId = import.meta.env.VITE_SQUARE_APPLICATION_ID;
@@ -63,58 +62,38 @@ const PaymentModal = memo<PaymentModalProps>(({
     setPaymentStatus('processing');
 
     try {
-      // Process the payment
+      // The server charges the league's current fee; the amount only
+      // guards against paying a price that changed since the modal opened
       const result = await processLeaguePayment({
         sourceId: token.token,
         leagueId: leagueId,
-        amount: monthlyFee
+        amount: monthlyFee,
+        idempotencyKey: idempotencyKeyRef.current,
+        verificationToken: verifiedBuyer?.token
       });
 
-      const data = result.data as { success?: boolean; error?: string; paymentId?: string };
-      
-      if (data.success && data.paymentId) {
-        // Extend membership after successful payment
-        if (userId) {
-          try {
-            const extensionResult = await extendMembershipAfterPayment({
-              userId: userId,
-              leagueId: leagueId,
-              paymentId: data.paymentId,
-              months: 1
-            });
-            
-            // Check if membership was reactivated
-            const membershipData = extensionResult.data as any;
-            if (membershipData.reactivated) {
-              console.log('Membership reactivated for inactive user');
-              setPaymentStatus('success');
-            } else {
-              console.log('Membership extended for active user');
-              setPaymentStatus('success');
-            }
-            
-          } catch (membershipError) {
-            console.warn('Payment successful but membership extension failed:', membershipError);
-            // Don't fail the entire process if membership extension fails
-            setPaymentStatus('success');
-          }
-        } else {
-          setPaymentStatus('success');
-        }
+      const data = result.data as { success?: boolean; paymentId?: string };
+      if (!data.success) {
+        throw new Error('Payment processing failed');
+      }
 
-        if (onSuccess) {
-          setTimeout(() => {
-            onSuccess();
-            onClose();
-          }, 2000);
-        }
-      } else {
-        throw new Error(data.error || 'Payment processing failed');
+      setPaymentStatus('success');
+      if (onSuccess) {
+        setTimeout(() => {
+          onSuccess();
+          onClose();
+        }, 2000);
       }
     } catch (error: any) {
+      // Failure reasons from the server are written for players
       console.error('Payment failed:', error);
       setErrorMessage(error.message || 'Payment failed. Please try again.');
       setPaymentStatus('error');
+      // Only a declined card starts a new attempt; after any other error the
+      // charge may have gone through, so the retry keeps the same key
+      if (error.details?.declined) {
+        idempotencyKeyRef.current = crypto.randomUUID();
+      }
     } finally {
       setIsProcessing(false);
     }
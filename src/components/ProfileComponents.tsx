@@ -114,6 +114,7 @@ export const UserStatsGrid = memo<{
     globalRank?: number;
     winStreak?: number;
     maxWinStreak?: number;
+    rating?: number;
   }
 }>(({ stats }) => {
   const winPercentage = stats.gamesPlayed > 0 
@@ -156,6 +157,13 @@ export const UserStatsGrid = memo<{
         value={`${lossRate}%`} 
         color="text-red-600" 
       />
+      {stats.rating !== undefined && (
+        <StatCard 
+          title="Rating" 
+          value={stats.rating} 
+          color="text-cyan-600" 
+        />
+      )}
       {stats.winStreak !== undefined && (
         <StatCard 
           title="Win Streak" 
@@ -1,6 +1,6 @@
 import React, { useState, memo } from 'react';
 import { httpsCallable } from 'firebase/functions';
-import { functions } from '../firebase';
+import { functions, createLeagueSubscription } from '../firebase';
 import {
   Dialog,
   DialogContent,
@@ -10,6 +10,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Loader2, CreditCard, DollarSign, ExternalLink, Shield, Zap } from "lucide-react";
 
 // Firebase function
@@ -24,6 +26,7 @@ interface SquareCheckoutModalProps {
   currency?: string;
   onSuccess?: () => void;
   userId?: string;
+  fine?: { paymentId: string; reason: string }; // Pay a league fine instead of the membership
 }
 
 const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
@@ -34,16 +37,31 @@ const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
   monthlyFee,
   currency = 'USD',
   onSuccess,
-  userId
+  userId,
+  fine
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [autoRenew, setAutoRenew] = useState(true);
+  const [invoiceNotice, setInvoiceNotice] = useState<string | null>(null);
 
   const handlePayment = async () => {
     setIsProcessing(true);
     setErrorMessage(null);
 
     try {
+      // Recurring memberships are billed by Square invoices each month
+      if (!fine && autoRenew) {
+        const { invoiceUrl } = await createLeagueSubscription(leagueId);
+        if (invoiceUrl) {
+          window.location.href = invoiceUrl;
+        } else {
+          setInvoiceNotice('Your subscription is set up. Square will email your first invoice shortly; your membership starts once it is paid.');
+          setIsProcessing(false);
+        }
+        return;
+      }
+
       const returnUrl = `${window.location.origin}/leagues/${leagueId}?payment=success`;
       
       const result = await createSquareCheckout({
@@ -52,7 +70,8 @@ const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
         amount: monthlyFee,
         currency,
         returnUrl,
-        userId
+        userId,
+        paymentId: fine?.paymentId
       });
 
       const data = result.data as any;
@@ -84,10 +103,12 @@ const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <DollarSign className="h-5 w-5 text-green-600" />
-            Join League Payment
+            {fine ? 'Pay League Fine' : 'Join League Payment'}
           </DialogTitle>
           <DialogDescription>
-            Complete your membership payment for {leagueName}
+            {fine
+              ? `Settle your fine for ${leagueName}: ${fine.reason}`
+              : `Complete your membership payment for ${leagueName}`}
           </DialogDescription>
         </DialogHeader>
 
@@ -95,16 +116,30 @@ const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
           {/* Payment Summary */}
           <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg p-4 border border-blue-200 dark:border-blue-800">
             <div className="flex justify-between items-center">
-              <span className="font-medium text-gray-700 dark:text-gray-300">Monthly Membership</span>
+              <span className="font-medium text-gray-700 dark:text-gray-300">{fine ? 'League Fine' : 'Monthly Membership'}</span>
               <span className="text-2xl font-bold text-blue-600 dark:text-blue-400">
                 {formatCurrency(monthlyFee)}
               </span>
             </div>
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-              Renews automatically every month
+              {fine ? 'One-time payment' : autoRenew ? 'Renews automatically every month' : 'One month, no renewal'}
             </p>
           </div>
 
+          {!fine && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="squareAutoRenew"
+                checked={autoRenew}
+                onCheckedChange={(checked) => setAutoRenew(!!checked)}
+                disabled={isProcessing || !!invoiceNotice}
+              />
+              <Label htmlFor="squareAutoRenew" className="text-sm">
+                Renew automatically each month (cancel anytime from your profile)
+              </Label>
+            </div>
+          )}
+
           {/* Square Benefits */}
           <div className="space-y-2">
             <h4 className="font-medium text-sm text-gray-700 dark:text-gray-300">Secure Payment by Square</h4>
@@ -131,6 +166,12 @@ const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
             </div>
           )}
 
+          {invoiceNotice && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-3 dark:bg-green-900/20 dark:border-green-800">
+              <p className="text-green-700 text-sm dark:text-green-300">{invoiceNotice}</p>
+            </div>
+          )}
+
           {/* Payment Process Info */}
           <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 text-sm text-gray-600 dark:text-gray-400">
             <p className="font-medium mb-1">What happens next:</p>
@@ -138,7 +179,7 @@ const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
               <li>You'll be redirected to Square's secure payment page</li>
               <li>Complete your payment with your preferred method</li>
               <li>Return automatically to the league page</li>
-              <li>Your membership will be activated instantly</li>
+              <li>{fine ? 'Your fine will be marked as paid' : 'Your membership will be activated instantly'}</li>
             </ol>
           </div>
         </div>
@@ -153,7 +194,7 @@ const SquareCheckoutModal = memo<SquareCheckoutModalProps>(({
           </Button>
           <Button
             onClick={handlePayment}
-            disabled={isProcessing}
+            disabled={isProcessing || !!invoiceNotice}
             className="bg-blue-600 hover:bg-blue-700 text-white"
           >
             {isProcessing ? (
@@ -0,0 +1,132 @@
+/**
+ * Tournament Bracket Component
+ *
+ * Draws an elimination tournament as columns of matches per round,
+ * grouped into the winners bracket, losers bracket and grand final.
+ */
+
+import React, { memo } from 'react';
+import { TrophyIcon } from '@heroicons/react/24/solid';
+import type { LeagueTournament, LeagueRound, LeagueMatch } from '../models/league';
+import { BYE_ID } from '../utils/tournaments';
+
+interface TournamentBracketProps {
+  tournament: LeagueTournament;
+  displayNames: Record<string, string>;
+  onMatchClick?: (match: LeagueMatch) => void;
+}
+
+const BRACKET_SECTIONS: { bracket: NonNullable<LeagueRound["bracket"]>; title: string }[] = [
+  { bracket: "winners", title: "Winners Bracket" },
+  { bracket: "losers", title: "Losers Bracket" },
+  { bracket: "final", title: "Grand Final" },
+];
+
+const getRoundTitle = (round: LeagueRound, roundCount: number): string => {
+  if (round.bracket === "final") return "Final";
+  if (round.bracket === "winners") {
+    if (round.roundNumber === roundCount) return "Final";
+    if (round.roundNumber === roundCount - 1) return "Semifinals";
+  }
+  return `Round ${round.roundNumber}`;
+};
+
+const BracketSlot: React.FC<{
+  participantId: string;
+  seed?: number;
+  score?: number;
+  isWinner: boolean;
+  displayNames: Record<string, string>;
+}> = ({ participantId, seed, score, isWinner, displayNames }) => {
+  const label = participantId === BYE_ID
+    ? 'Bye'
+    : participantId
+      ? displayNames[participantId] || participantId
+      : 'TBD';
+
+  return (
+    <div className={`flex items-center justify-between gap-2 px-2 py-1 text-xs sm:text-sm ${
+      isWinner ? 'font-bold text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400'
+    }`}>
+      <span className="truncate">
+        {seed && <span className="mr-1 text-gray-400">{seed}</span>}
+        {label}
+      </span>
+      {score !== undefined && <span className="font-mono">{score}</span>}
+    </div>
+  );
+};
+
+const TournamentBracket: React.FC<TournamentBracketProps> = memo(({
+  tournament,
+  displayNames,
+  onMatchClick
+}) => {
+  const rounds = tournament.rounds || [];
+
+  return (
+    <div className="space-y-6">
+      {tournament.winner && (
+        <div className="flex items-center gap-2 rounded-md bg-yellow-50 dark:bg-yellow-900/20 px-3 py-2 text-sm font-medium text-yellow-800 dark:text-yellow-200">
+          <TrophyIcon className="h-5 w-5" />
+          Champion: {displayNames[tournament.winner] || tournament.winner}
+        </div>
+      )}
+
+      {BRACKET_SECTIONS.map(({ bracket, title }) => {
+        const sectionRounds = rounds
+          .filter(round => (round.bracket || "winners") === bracket)
+          .sort((a, b) => a.roundNumber - b.roundNumber);
+        if (sectionRounds.length === 0) return null;
+
+        return (
+          <div key={bracket}>
+            {tournament.hasLosersBracket && (
+              <h4 className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">{title}</h4>
+            )}
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {sectionRounds.map(round => (
+                <div key={round.id} className="flex min-w-40 flex-col justify-around gap-3">
+                  <div className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                    {getRoundTitle(round, sectionRounds.length)}
+                  </div>
+                  {round.matches.map(match => {
+                    const played = match.status === "completed" && !match.isBye;
+                    return (
+                      <div
+                        key={match.id}
+                        className={`divide-y rounded-md border bg-white dark:bg-zinc-800 dark:divide-zinc-700 dark:border-zinc-700 ${
+                          match.gameId && onMatchClick ? 'cursor-pointer hover:border-gray-400' : ''
+                        } ${match.isBye ? 'opacity-60' : ''}`}
+                        onClick={() => match.gameId && onMatchClick?.(match)}
+                      >
+                        <BracketSlot
+                          participantId={match.homeId}
+                          seed={match.homeSeed}
+                          score={played ? match.homeScore : undefined}
+                          isWinner={!!match.winner && match.winner === match.homeId}
+                          displayNames={displayNames}
+                        />
+                        <BracketSlot
+                          participantId={match.awayId}
+                          seed={match.awaySeed}
+                          score={played ? match.awayScore : undefined}
+                          isWinner={!!match.winner && match.winner === match.awayId}
+                          displayNames={displayNames}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+TournamentBracket.displayName = 'TournamentBracket';
+
+export default TournamentBracket;
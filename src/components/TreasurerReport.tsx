@@ -0,0 +1,193 @@
+/**
+ * Treasurer Report
+ *
+ * Money side of the leagues a player owns: what was collected and refunded
+ * each month, which members still owe or have lapsed, and a CSV export of
+ * every payment for the league's books.
+ */
+
+import React, { useState, useEffect, useMemo, memo } from "react";
+import { getAllLeaguePayments, getLeagueMembers, getUserProfile } from "../firebase";
+import type { League, LeagueMember, LeaguePayment } from "../models/league";
+import { formatMoney, monthlyTotals, paymentsToCsv } from "../utils/payments";
+import { Button } from "./ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+
+interface TreasurerReportProps {
+  leagues: League[];
+}
+
+// Members who have not paid for the current period; comped members never owe
+const isOutstanding = (member: LeagueMember, now: number): boolean =>
+  member.status !== "banned" &&
+  member.paymentStatus !== "comped" &&
+  (member.paymentStatus === "pending" ||
+    member.paymentStatus === "expired" ||
+    (!!member.membershipExpiresAt && member.membershipExpiresAt.toMillis() < now));
+
+const formatMonth = (month: string): string => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+};
+
+const TreasurerReport: React.FC<TreasurerReportProps> = memo(({ leagues }) => {
+  const [leagueId, setLeagueId] = useState(leagues[0]?.id || "");
+  const [payments, setPayments] = useState<LeaguePayment[]>([]);
+  const [members, setMembers] = useState<LeagueMember[]>([]);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const league = leagues.find(candidate => candidate.id === leagueId);
+  const currency = league?.settings.pricing?.currency || "USD";
+
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const loadReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [leaguePayments, leagueMembers] = await Promise.all([
+          getAllLeaguePayments(leagueId),
+          getLeagueMembers(leagueId),
+        ]);
+        setPayments(leaguePayments);
+        setMembers(leagueMembers);
+
+        const userIds = [...new Set([
+          ...leaguePayments.map(payment => payment.userId),
+          ...leagueMembers.map(member => member.userId),
+        ])];
+        const profiles = await Promise.all(userIds.map(userId => getUserProfile(userId)));
+        setMemberNames(Object.fromEntries(userIds.map((userId, index) => [
+          userId,
+          profiles[index]?.displayName || "Unknown Player",
+        ])));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load the league's payments");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [leagueId]);
+
+  const totals = useMemo(() => monthlyTotals(payments), [payments]);
+  const outstanding = useMemo(() => {
+    const now = Date.now();
+    return members
+      .filter(member => isOutstanding(member, now))
+      .sort((a, b) => (a.membershipExpiresAt?.toMillis() || 0) - (b.membershipExpiresAt?.toMillis() || 0));
+  }, [members]);
+
+  const handleExport = () => {
+    if (!league) return;
+
+    const csv = paymentsToCsv(payments, memberNames);
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${league.name.replace(/[^\w-]+/g, "-")}-payments.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        {leagues.length > 1 ? (
+          <select
+            value={leagueId}
+            onChange={(e) => setLeagueId(e.target.value)}
+            className="p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+            aria-label="League"
+          >
+            {leagues.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+            ))}
+          </select>
+        ) : (
+          <p className="font-medium">{league?.name}</p>
+        )}
+        <Button size="sm" variant="outline" disabled={loading || payments.length === 0} onClick={handleExport}>
+          Export CSV
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {loading ? (
+        <div className="text-sm text-zinc-500 dark:text-zinc-400">Loading league payments...</div>
+      ) : (
+        <>
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Monthly totals</h3>
+            {totals.length === 0 ? (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">No payments have been collected yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead>Payments</TableHead>
+                      <TableHead>Collected</TableHead>
+                      <TableHead>Refunded</TableHead>
+                      <TableHead>Net</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {totals.map(total => (
+                      <TableRow key={total.month}>
+                        <TableCell>{formatMonth(total.month)}</TableCell>
+                        <TableCell>{total.payments}</TableCell>
+                        <TableCell>{formatMoney(total.collected, currency)}</TableCell>
+                        <TableCell>{formatMoney(total.refunded, currency)}</TableCell>
+                        <TableCell className="font-medium">{formatMoney(total.net, currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Outstanding and expired members</h3>
+            {outstanding.length === 0 ? (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">Every member is paid up.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-zinc-700">
+                {outstanding.map(member => (
+                  <li key={member.id || member.userId} className="flex justify-between gap-3 py-2 text-sm">
+                    <span>{memberNames[member.userId] || member.userId}</span>
+                    <span className="text-zinc-500 dark:text-zinc-400">
+                      {member.paymentStatus === "pending"
+                        ? "Awaiting first payment"
+                        : member.membershipExpiresAt
+                          ? `Expired ${member.membershipExpiresAt.toDate().toLocaleDateString()}`
+                          : "Expired"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+TreasurerReport.displayName = "TreasurerReport";
+
+export default TreasurerReport;
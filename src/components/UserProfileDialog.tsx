@@ -52,7 +52,8 @@ const UserProfileDialog: React.FC<UserProfileDialogProps> = ({
     totalPoints: stats?.totalPoints ?? user.stats.totalPoints,
     globalRank: stats?.rank ?? user.stats.globalRank,
     winStreak: user.stats.winStreak,
-    maxWinStreak: user.stats.maxWinStreak
+    maxWinStreak: user.stats.maxWinStreak,
+    rating: user.stats.rating
   };
 
   return (
@@ -80,6 +80,7 @@ const UserProfileModal: React.FC<UserProfileModalProps> = memo(({
       globalRank: customStats?.rank ?? user.stats.globalRank,
       winStreak: user.stats.winStreak,
       maxWinStreak: user.stats.maxWinStreak,
+      rating: user.stats.rating,
       winRate: customStats?.winRate ?? (
         user.stats.gamesPlayed > 0 
           ? Math.round((user.stats.gamesWon / user.stats.gamesPlayed) * 100)
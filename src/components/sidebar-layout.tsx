@@ -70,9 +70,9 @@ export function SidebarLayout({
 
   return (
     <SidebarContext.Provider value={{ closeSidebar }}>
-      <div className="relative isolate flex min-h-svh w-full  max-lg:flex-col bg-blue-900">
+      <div className="relative isolate flex min-h-svh w-full  max-lg:flex-col bg-blue-900 print:bg-white">
         {/* Sidebar on desktop */}
-        <div className="fixed inset-y-0 left-0 w-64 max-lg:hidden bg-blue-900">{sidebar}</div>
+        <div className="fixed inset-y-0 left-0 w-64 max-lg:hidden bg-blue-900 print:hidden">{sidebar}</div>
 
         {/* Sidebar on mobile */}
         <MobileSidebar open={showSidebar} close={closeSidebar}>
@@ -80,7 +80,7 @@ export function SidebarLayout({
         </MobileSidebar>
 
         {/* Navbar on mobile */}
-        <header className="flex items-center px-2 sm:px-4 lg:hidden bg-blue-900">
+        <header className="flex items-center px-2 sm:px-4 lg:hidden bg-blue-900 print:hidden">
           <div className="py-2.5">
             <NavbarItem
               onClick={() => setShowSidebar(true)}
@@ -93,8 +93,8 @@ export function SidebarLayout({
         </header>
 
         {/* Content */}
-        <main className="flex flex-1 flex-col pb-2 lg:min-w-0 lg:pt-2 lg:pr-2 lg:pl-64">
-          <div className="grow bg-white p-2 sm:p-4 lg:rounded-lg lg:bg-white lg:p-10 lg:shadow-xs lg:ring-1 lg:ring-zinc-950/5 dark:bg-zinc-900 dark:lg:bg-zinc-900 dark:lg:ring-white/10">
+        <main className="flex flex-1 flex-col pb-2 lg:min-w-0 lg:pt-2 lg:pr-2 lg:pl-64 print:p-0">
+          <div className="grow bg-white p-2 sm:p-4 lg:rounded-lg lg:bg-white lg:p-10 lg:shadow-xs lg:ring-1 lg:ring-zinc-950/5 dark:bg-zinc-900 dark:lg:bg-zinc-900 dark:lg:ring-white/10 print:p-0 print:shadow-none print:ring-0">
             <div className="w-full lg:mx-auto lg:max-w-6xl">{children}</div>
           </div>
         </main>
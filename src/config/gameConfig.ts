@@ -226,19 +226,28 @@ export const DEFAULT_GAME_CONFIG: GameConfigurationSchema = {
   }
 };
 
+// Remote configuration document, edited by judges from the admin page
+const GAME_CONFIG_COLLECTION = "gameConfig";
+const GAME_CONFIG_DOC_ID = "current";
+
 // Configuration cache
 let configCache: GameConfigurationSchema | null = null;
 let cacheTimestamp: number = 0;
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+// Live listeners - one shared Firestore snapshot listener keeps the cache fresh
+type GameConfigListener = (config: GameConfigurationSchema) => void;
+const configListeners = new Set<GameConfigListener>();
+let unsubscribeRemoteConfig: (() => void) | null = null;
+
 /**
  * Get game configuration with caching
  */
 export const getGameConfig = async (): Promise<GameConfigurationSchema> => {
   const now = Date.now();
   
-  // Return cached config if still valid
-  if (configCache && (now - cacheTimestamp) < CACHE_DURATION) {
+  // Return cached config if still valid (a live listener keeps it current)
+  if (configCache && (unsubscribeRemoteConfig || (now - cacheTimestamp) < CACHE_DURATION)) {
     return configCache;
   }
 
@@ -265,16 +274,29 @@ export const getGameConfig = async (): Promise<GameConfigurationSchema> => {
  */
 const loadRemoteConfig = async (): Promise<GameConfigurationSchema | null> => {
   try {
-    // TODO: Implement Firestore loading
-    // This would fetch from a 'gameConfig' collection
-    // For now, return null to use default config
-    return null;
+    const configSnap = await getDoc(doc(db, GAME_CONFIG_COLLECTION, GAME_CONFIG_DOC_ID));
+    return configSnap.exists() ? (configSnap.data() as GameConfigurationSchema) : null;
   } catch (error) {
     console.error("Error loading remote config:", error);
     return null;
   }
 };
 
+/**
+ * Compare two "major.minor.patch" versions
+ * @returns Negative if a is older than b, positive if newer, 0 if equal
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split(".").map(part => parseInt(part, 10) || 0);
+  const partsB = b.split(".").map(part => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < 3; i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
 /**
  * Migrate config to current version if needed
  */
@@ -282,7 +304,7 @@ const migrateConfig = (config: any): GameConfigurationSchema => {
   // Handle config migrations here
   // For example, if game modes change from "single/double" to "individuo/plural"
   
-  if (!config.version || config.version < "1.0.0") {
+  if (!config.version || compareVersions(config.version, "1.0.0") < 0) {
     // Perform migration
     if (config.gameModes) {
       config.gameModes = config.gameModes.map((mode: any) => {
@@ -295,13 +317,209 @@ const migrateConfig = (config: any): GameConfigurationSchema => {
     }
   }
 
+  // Lists missing from an older document fall back to the defaults; the
+  // remote version is kept so edits can keep bumping it
   return {
     ...DEFAULT_GAME_CONFIG,
     ...config,
-    version: "1.0.0"
+    features: {
+      ...DEFAULT_GAME_CONFIG.features,
+      ...config.features
+    },
+    version: config.version && compareVersions(config.version, "1.0.0") > 0
+      ? config.version
+      : "1.0.0"
+  };
+};
+
+/**
+ * Subscribe to live configuration changes
+ * The first subscriber starts a Firestore listener on the config document;
+ * every update replaces the cache right away instead of waiting it out.
+ * @param listener Called with the current config and on every change
+ * @returns Unsubscribe function
+ */
+export const subscribeToGameConfig = (listener: GameConfigListener): (() => void) => {
+  configListeners.add(listener);
+
+  if (!unsubscribeRemoteConfig) {
+    unsubscribeRemoteConfig = onSnapshot(
+      doc(db, GAME_CONFIG_COLLECTION, GAME_CONFIG_DOC_ID),
+      (configSnap) => {
+        configCache = configSnap.exists()
+          ? migrateConfig(configSnap.data())
+          : DEFAULT_GAME_CONFIG;
+        cacheTimestamp = Date.now();
+        configListeners.forEach(notify => notify(configCache!));
+      },
+      (error) => {
+        console.warn("Game config listener failed, keeping cached config:", error);
+      }
+    );
+  } else if (configCache) {
+    listener(configCache);
+  }
+
+  return () => {
+    configListeners.delete(listener);
+    if (configListeners.size === 0 && unsubscribeRemoteConfig) {
+      unsubscribeRemoteConfig();
+      unsubscribeRemoteConfig = null;
+    }
   };
 };
 
+// Option lists the admin editor manages, with the value type each one uses
+type OptionListKey = "gameModes" | "pointsOptions" | "rulesets" | "startingPlayerOptions" | "timeLimitOptions" | "numberOfPlayersOptions";
+
+const OPTION_LISTS: { key: OptionListKey; label: string }[] = [
+  { key: "gameModes", label: "Game modes" },
+  { key: "pointsOptions", label: "Points options" },
+  { key: "rulesets", label: "Rulesets" },
+  { key: "startingPlayerOptions", label: "Starting player options" },
+  { key: "timeLimitOptions", label: "Time limits" },
+  { key: "numberOfPlayersOptions", label: "Number of players options" }
+];
+
+/**
+ * Validate a configuration before it is published
+ * @returns Human readable problems; empty when the config is valid
+ */
+export const validateGameConfig = (config: GameConfigurationSchema): string[] => {
+  const errors: string[] = [];
+
+  OPTION_LISTS.forEach(({ key, label }) => {
+    const options: { value: string | number; label: string; isDefault?: boolean; deprecated?: boolean }[] = config[key];
+    const active = options.filter(option => !option.deprecated);
+    const defaults = options.filter(option => option.isDefault);
+    const values = options.map(option => option.value);
+
+    if (active.length === 0) {
+      errors.push(`${label}: keep at least one option that is not deprecated`);
+    }
+    if (defaults.length !== 1) {
+      errors.push(`${label}: exactly one option must be the default`);
+    } else if (defaults[0].deprecated) {
+      errors.push(`${label}: the default option cannot be deprecated`);
+    }
+    if (new Set(values).size !== values.length) {
+      errors.push(`${label}: option values must be unique`);
+    }
+    options.forEach(option => {
+      if (!option.label.trim()) {
+        errors.push(`${label}: every option needs a label`);
+      }
+      if (typeof option.value === "string" && !option.value.trim()) {
+        errors.push(`${label}: every option needs a value`);
+      }
+    });
+  });
+
+  config.pointsOptions.forEach(option => {
+    if (!Number.isInteger(option.value) || option.value <= 0) {
+      errors.push(`Points options: ${option.value} is not a positive whole number`);
+    }
+  });
+
+  config.timeLimitOptions.forEach(option => {
+    if (!Number.isInteger(option.value) || option.value < 0) {
+      errors.push(`Time limits: ${option.value} must be a whole number of minutes (0 = no limit)`);
+    }
+  });
+
+  if (config.features?.maxPlayersPerGame !== undefined && config.features.maxPlayersPerGame < 2) {
+    errors.push("Features: max players per game must be at least 2");
+  }
+
+  return Array.from(new Set(errors));
+};
+
+/**
+ * Version bump for a change: deprecations are major, additions minor and
+ * anything else (labels, descriptions, defaults, feature flags) a patch
+ */
+export const getVersionBump = (
+  previous: GameConfigurationSchema,
+  next: GameConfigurationSchema
+): "major" | "minor" | "patch" => {
+  let bump: "major" | "minor" | "patch" = "patch";
+
+  for (const { key } of OPTION_LISTS) {
+    const before = new Map<string | number, { deprecated?: boolean }>(
+      previous[key].map((option): [string | number, { deprecated?: boolean }] => [option.value, option])
+    );
+    for (const option of next[key]) {
+      const existing = before.get(option.value);
+      if (!existing) {
+        bump = "minor";
+      } else if (option.deprecated && !existing.deprecated) {
+        return "major";
+      }
+    }
+  }
+
+  return bump;
+};
+
+/**
+ * Increase a "major.minor.patch" version
+ */
+export const bumpVersion = (version: string, bump: "major" | "minor" | "patch"): string => {
+  const [major = 1, minor = 0, patch = 0] = version.split(".").map(part => parseInt(part, 10) || 0);
+  if (bump === "major") return `${major + 1}.0.0`;
+  if (bump === "minor") return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+/**
+ * Validate and publish a new configuration (judges only)
+ * The version is bumped from the one being replaced, and every client
+ * listening with subscribeToGameConfig picks the change up immediately.
+ * @returns The published configuration
+ */
+export const saveGameConfig = async (
+  previous: GameConfigurationSchema,
+  next: GameConfigurationSchema
+): Promise<GameConfigurationSchema> => {
+  try {
+    const errors = validateGameConfig(next);
+    if (errors.length > 0) {
+      throw new Error(errors.join("\n"));
+    }
+
+    const configRef = doc(db, GAME_CONFIG_COLLECTION, GAME_CONFIG_DOC_ID);
+
+    // Two judges publishing at once must not both bump from the same version
+    const published = await runTransaction(db, async (transaction) => {
+      const configSnap = await transaction.get(configRef);
+      const currentVersion = configSnap.exists() ? configSnap.data().version : previous.version;
+      if (currentVersion !== previous.version) {
+        throw new Error(`Version ${currentVersion} was published while you were editing. Reload to see it before publishing.`);
+      }
+
+      const config: GameConfigurationSchema = migrateConfig({
+        ...next,
+        version: bumpVersion(previous.version, getVersionBump(previous, next)),
+        lastUpdated: new Date().toISOString()
+      });
+
+      transaction.set(configRef, {
+        ...config,
+        updatedBy: auth.currentUser?.uid || null,
+        updatedAt: serverTimestamp()
+      });
+      return config;
+    });
+
+    configCache = published;
+    cacheTimestamp = Date.now();
+    return published;
+  } catch (error) {
+    console.error("Error saving game config:", error);
+    throw error; // Re-throw error for better UI handling
+  }
+};
+
 /**
  * Get default values for each configuration type
  */
@@ -410,6 +628,9 @@ export const useGameConfig = () => {
     };
 
     loadConfig();
+
+    // Pick up edits from the admin page as soon as they are published
+    return subscribeToGameConfig(setConfig);
   }, []);
 
   const refreshConfig = React.useCallback(async () => {
@@ -429,3 +650,5 @@ export const useGameConfig = () => {
 
 // Add React import for the hook
 import React from 'react';
+import { doc, getDoc, onSnapshot, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { auth, db } from '../firebase';
@@ -16,7 +16,12 @@ import {
   serverTimestamp,
   addDoc,
   limit,
-  deleteDoc
+  deleteDoc,
+  runTransaction,
+  writeBatch,
+  startAfter,
+  documentId,
+  DocumentReference
 } from "firebase/firestore";
 // Firebase Storage imports - ENABLED
 import { 
@@ -27,9 +32,12 @@ import {
   deleteObject 
 } from "firebase/storage";
 // Firebase Functions
-import { getFunctions } from "firebase/functions";
-import { Season } from './models/league';
+import { getFunctions, httpsCallable } from "firebase/functions";
+import { Season, LeagueTournament, LeagueRound, TimeoutPolicy, LeagueMemberRole, LeaguePenalty, PenaltyType, LeagueInvitation, LeagueSubscription, LeaguePayment, LeaguePaymentRefund, LeagueMember, League } from './models/league';
 import config from './config';
+import { generateRoundRobinPairings, scheduleRoundWindows, generateEliminationBracket } from './utils/tournaments';
+import { calculateLeagueStandings, StandingsGame } from './utils/standings';
+import { STAFF_ROLES, type StaffRole, isJudge } from './utils/auth';
 
 // Initialize Firebase with secure configuration
 const app = initializeApp(config.firebase);
@@ -39,16 +47,38 @@ const storage = getStorage(app); // Firebase Storage ENABLED
 const functions = getFunctions(app);
 const googleProvider = new GoogleAuthProvider();
 
+// Cloud Functions
+const startGameCallable = httpsCallable(functions, "startGame");
+const sendChatMessageCallable = httpsCallable(functions, "sendChatMessage");
+const moderateChatCallable = httpsCallable(functions, "moderateChat");
+const issuePenaltyCallable = httpsCallable(functions, "issuePenalty");
+const liftPenaltyCallable = httpsCallable(functions, "liftPenalty");
+const setUserRoleCallable = httpsCallable(functions, "setUserRole");
+const findUserByEmailCallable = httpsCallable(functions, "findUserByEmail");
+const fileDisputeClaimCallable = httpsCallable(functions, "fileDisputeClaim");
+const resolveDisputeCallable = httpsCallable(functions, "resolveDispute");
+const respondToLeagueInvitationCallable = httpsCallable(functions, "respondToLeagueInvitation");
+const createLeagueSubscriptionCallable = httpsCallable(functions, "createLeagueSubscription");
+const setSubscriptionAutoRenewCallable = httpsCallable(functions, "setSubscriptionAutoRenew");
+const cancelLeagueSubscriptionCallable = httpsCallable(functions, "cancelLeagueSubscription");
+const refundLeaguePaymentCallable = httpsCallable(functions, "refundLeaguePayment");
+const startLeagueTrialCallable = httpsCallable(functions, "startLeagueTrial");
+
 // Query limit from configuration
 const DEFAULT_QUERY_LIMIT = config.maxQueryLimit;
 
+// Rating shown for players without a confirmed game (same as functions/src/rating.ts)
+const DEFAULT_RATING = 1500;
+
 // Collection references
 const usersCollection = collection(db, "users");
 const gamesCollection = collection(db, "games");
 
 // Type definitions
 export type GameMode = "single" | "double";
-export type GameStatus = "invited" | "accepted" | "rejected" | "in_progress" | "waiting_confirmation" | "completed";
+export type GameStatus = "invited" | "accepted" | "rejected" | "in_progress" | "waiting_confirmation" | "disputed" | "completed" | "abandoned";
+export type GameSide = "creator" | "opponent";
+export type HandOutcome = "domino" | "tranque";
 
 // User profile interface
 export interface UserProfile {
@@ -67,8 +97,22 @@ export interface UserProfile {
     lastGameAt?: Timestamp;
     winStreak?: number;
     maxWinStreak?: number;
+    rating?: number; // Skill rating, DEFAULT_RATING until the first confirmed game
+    gamesForfeited?: number; // Games lost by forfeit when the time limit ran out
+    gamesAbandoned?: number; // Games closed without a result when the time limit ran out
   };
+  ratingHistory?: RatingHistoryEntry[]; // Most recent rating changes, oldest first (written server-side)
   hasSetUsername?: boolean;
+  roles?: StaffRole[]; // Mirror of the judge/admin custom claims (written server-side)
+  rolesUpdatedAt?: Timestamp;
+}
+
+// Rating history entry - one per confirmed game
+export interface RatingHistoryEntry {
+  gameId: string;
+  rating: number; // Rating after the game
+  change: number;
+  recordedAt: Timestamp;
 }
 
 // Game interface
@@ -82,6 +126,9 @@ export interface Game {
   completedAt?: Timestamp; // When the game was completed (for ranking timeframes)
   status: GameStatus;
   leagueId?: string; // Optional: if game is part of a league
+  tournamentId?: string; // Set on games created for a league tournament match
+  roundId?: string;
+  matchId?: string;
   teams?: {
     team1: string[]; // Array of player IDs (includes creator)
     team2: string[]; // Array of opponent IDs
@@ -93,6 +140,7 @@ export interface Game {
     startingPlayer?: string;
     useBoricuaRules?: boolean;
     ruleset?: string; // New dynamic ruleset field
+    timeLimit?: number; // Minutes from the start of play; unset or 0 = no limit
   };
   scores?: {
     creator: number;
@@ -101,10 +149,168 @@ export interface Game {
     team2?: number; // Team-based scoring
   };
   confirmedBy?: string;
+  confirmingTeam?: 'team1' | 'team2'; // For team games, any player on this team can confirm
   winner?: string;
   winningTeam?: 'team1' | 'team2'; // For team-based games
   activePlayer?: string; // Tracks which player's turn it is
   rejectionReason?: string; // Optional reason for rejection
+  handCount?: number; // Number of hands (manos) recorded in the hands subcollection
+  statsApplied?: boolean; // Set by the onGameCompleted function once player stats include this game
+  startedAt?: Timestamp;
+  deadline?: Timestamp; // Set when a game with a time limit starts
+  timeout?: GameTimeout; // Set by the resolveOverdueGames function
+  highestDoubles?: Record<string, number | null>; // Declared highest double per player (pips, null = none)
+  seriesId?: string; // Set on games played as part of a best-of series
+  seriesGameNumber?: number;
+  startingPlayerResolution?: StartingPlayerResolution; // Set by the startGame function
+  allowSpectators?: boolean; // Publish a read-only copy at /watch/:id for anyone with the link
+  hasDispute?: boolean; // Set by the fileDisputeClaim function; the record is in gameDisputes/{gameId}
+}
+
+export interface SpectatorPlayer {
+  uid: string;
+  displayName: string;
+  photoURL?: string;
+}
+
+// Public copy of a game in spectatorGames/{gameId}, written by the
+// onGameSpectatorsUpdated function for games that allow spectators.
+// It carries only what a spectator needs: no emails, stats or disputes.
+export interface SpectatorGame {
+  id?: string;
+  status: GameStatus;
+  settings: {
+    gameMode: GameMode;
+    pointsToWin: number;
+    ruleset?: string;
+  };
+  team1: SpectatorPlayer[]; // Creator side
+  team2: SpectatorPlayer[]; // Opponent side
+  scores: { creator: number; opponent: number };
+  activeSide?: GameSide | null;
+  winningSide?: GameSide | null;
+  handCount: number;
+  league?: { id: string; name: string; photoURL?: string };
+  series?: { bestOf: number; gameNumber: number };
+  startedAt?: Timestamp;
+  deadline?: Timestamp;
+  completedAt?: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Series lengths players can choose (1 = a single game)
+export const SERIES_LENGTHS = [1, 3, 5, 7];
+
+export type SeriesStatus = "in_progress" | "completed" | "canceled" | "abandoned";
+
+// Best-of series - consecutive games between the same players, stored in series/{seriesId}
+// After the first game, every game and the series score are written by the onSeriesGameUpdated function
+export interface Series {
+  id?: string;
+  bestOf: number; // Odd number of games; the first side to win a majority clinches
+  createdBy: string;
+  opponent: string;
+  opponents?: string[];
+  teams?: Game["teams"];
+  players: string[]; // Every player in the series
+  leagueId?: string;
+  settings: Game["settings"]; // Copied to every game of the series
+  status: SeriesStatus;
+  gameIds: string[]; // Games in playing order
+  countedGameIds: string[]; // Games already applied to the score
+  currentGameId: string;
+  score: { creator: number; opponent: number }; // Games won per side
+  winner?: string;
+  winningSide?: GameSide;
+  winningTeam?: 'team1' | 'team2';
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  completedAt?: Timestamp;
+}
+
+// Games a side needs to clinch a best-of series
+export const getSeriesWinsNeeded = (bestOf: number): number => Math.floor(bestOf / 2) + 1;
+
+// Create a series together with its first game
+const createSeries = async (firstGame: Omit<Game, "id">, bestOf: number): Promise<Game> => {
+  if (!SERIES_LENGTHS.includes(bestOf)) {
+    throw new Error("A series must be best of 3, 5 or 7 games");
+  }
+  
+  const seriesRef = doc(collection(db, "series"));
+  const gameRef = doc(gamesCollection);
+  const game: Omit<Game, "id"> = { ...firstGame, seriesId: seriesRef.id, seriesGameNumber: 1 };
+  
+  const series: Omit<Series, "id"> = {
+    bestOf,
+    createdBy: game.createdBy,
+    opponent: game.opponent,
+    ...(game.opponents && { opponents: game.opponents }),
+    ...(game.teams && { teams: game.teams }),
+    players: getGamePlayers(game as Game),
+    ...(game.leagueId && { leagueId: game.leagueId }),
+    settings: game.settings,
+    status: "in_progress",
+    gameIds: [gameRef.id],
+    countedGameIds: [],
+    currentGameId: gameRef.id,
+    score: { creator: 0, opponent: 0 },
+    createdAt: game.createdAt,
+    updatedAt: game.createdAt
+  };
+  
+  const batch = writeBatch(db);
+  batch.set(seriesRef, series);
+  batch.set(gameRef, game);
+  await batch.commit();
+  
+  return { ...game, id: gameRef.id };
+};
+
+// Get a series by ID
+export const getSeriesById = async (seriesId: string): Promise<Series | null> => {
+  try {
+    const seriesSnap = await getDoc(doc(db, "series", seriesId));
+    return seriesSnap.exists() ? { id: seriesSnap.id, ...seriesSnap.data() } as Series : null;
+  } catch (error) {
+    console.error("Error getting series:", error);
+    return null;
+  }
+};
+
+// How the first player was chosen (written server-side for audit)
+export interface StartingPlayerResolution {
+  option: string;
+  method: "creator" | "opponent" | "random" | "winner_previous" | "highest_double";
+  playerId: string;
+  candidates?: string[]; // Players in a random draw
+  previousGameId?: string; // Game whose winner starts, for winner_previous
+  highestDouble?: number; // Pips of the winning declaration, for highest_double
+  fallbackReason?: string; // Why the option fell back to a random draw
+  resolvedAt: Timestamp;
+}
+
+// How an overdue game was resolved (written server-side)
+export interface GameTimeout {
+  policy: TimeoutPolicy;
+  outcome: "leader_wins" | "forfeit" | "abandoned";
+  forfeitedBy?: GameSide; // Side that forfeited, for "forfeit"
+  scoresAtDeadline: { creator: number; opponent: number };
+  resolvedAt: Timestamp;
+}
+
+// Hand (mano) interface - stored in games/{gameId}/hands
+export interface GameHand {
+  id?: string;
+  handNumber: number;
+  outcome: HandOutcome; // "domino" when a side plays out, "tranque" when the game is blocked
+  winningSide: GameSide | null; // null for a tied tranque where nobody scores
+  points: number;
+  recordedBy: string;
+  recordedAt: Timestamp;
+  disputed?: boolean; // Disputed hands no longer count toward the tally
+  disputedBy?: string;
+  disputeReason?: string;
 }
 
 // Authentication functions
@@ -223,7 +429,10 @@ export const createGame = async (
     startingPlayer?: string,
     useBoricuaRules?: boolean,
     ruleset?: string,
-    leagueId?: string
+    leagueId?: string,
+    timeLimit?: number,
+    bestOf?: number,
+    allowSpectators?: boolean
   }
 ): Promise<Game | null> => {
   try {
@@ -248,16 +457,22 @@ export const createGame = async (
       updatedAt: Timestamp.now(),
       status: "invited", // Start as an invitation
       leagueId: settings.leagueId,
+      allowSpectators: settings.allowSpectators || false,
       settings: {
         gameMode: settings.gameMode,
         pointsToWin: settings.pointsToWin,
         numberOfPlayers: settings.numberOfPlayers,
         startingPlayer: settings.startingPlayer,
         useBoricuaRules: settings.useBoricuaRules,
-        ruleset: settings.ruleset
+        ruleset: settings.ruleset,
+        ...(settings.timeLimit ? { timeLimit: settings.timeLimit } : {})
       }
     };
     
+    if (settings.bestOf && settings.bestOf > 1) {
+      return createSeries(newGame, settings.bestOf);
+    }
+    
     const gameRef = await addDoc(gamesCollection, newGame);
     return { ...newGame, id: gameRef.id };
   } catch (error) {
@@ -276,7 +491,10 @@ export const createTeamGame = async (
     startingPlayer?: string,
     useBoricuaRules?: boolean,
     ruleset?: string,
-    leagueId?: string
+    leagueId?: string,
+    timeLimit?: number,
+    bestOf?: number,
+    allowSpectators?: boolean
   },
   teams?: {
     team1: string[], // Partners (excluding creator)
@@ -318,6 +536,7 @@ export const createTeamGame = async (
       updatedAt: Timestamp.now(),
       status: "invited",
       leagueId: settings.leagueId,
+      allowSpectators: settings.allowSpectators || false,
       teams: teams ? {
         team1: [auth.currentUser.uid, ...teams.team1],
         team2: teams.team2
@@ -328,10 +547,15 @@ export const createTeamGame = async (
         numberOfPlayers: settings.numberOfPlayers,
         startingPlayer: settings.startingPlayer,
         useBoricuaRules: settings.useBoricuaRules,
-        ruleset: settings.ruleset
+        ruleset: settings.ruleset,
+        ...(settings.timeLimit ? { timeLimit: settings.timeLimit } : {})
       }
     };
     
+    if (settings.bestOf && settings.bestOf > 1) {
+      return createSeries(newGame, settings.bestOf);
+    }
+    
     const gameRef = await addDoc(gamesCollection, newGame);
     return { ...newGame, id: gameRef.id };
   } catch (error) {
@@ -741,118 +965,249 @@ export const rejectGameInvitation = async (gameId: string, reason?: string): Pro
   }
 };
 
+// Let anyone with the link watch a game, or stop publishing it
+export const setGameSpectators = async (gameId: string, allowSpectators: boolean): Promise<void> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to change spectator access");
+    
+    await updateDoc(doc(db, "games", gameId), {
+      allowSpectators,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error("Error updating spectator access:", error);
+    throw error; // Re-throw error for better UI handling
+  }
+};
+
 // Start a game (transition from accepted to in_progress)
 export const startGame = async (gameId: string): Promise<Game | null> => {
   try {
     if (!auth.currentUser) throw new Error("You must be logged in to start a game");
     
-    const gameRef = doc(db, "games", gameId);
-    const gameSnap = await getDoc(gameRef);
-    
-    if (!gameSnap.exists()) throw new Error("Game not found");
+    // The server resolves the starting player (random draws, previous winner,
+    // highest double) and sets the deadline of games with a time limit
+    await startGameCallable({ gameId });
     
-    const game = gameSnap.data() as Game;
+    return getGameById(gameId);
+  } catch (error) {
+    console.error("Error starting game:", error);
+    throw error; // Re-throw error for better UI handling
+  }
+};
+
+// Every player in a game, creator side first
+export const getGamePlayers = (game: Game): string[] => {
+  if (game.teams) return [...game.teams.team1, ...game.teams.team2];
+  return [game.createdBy, game.opponent];
+};
+
+// Declare the highest double in hand before a highest_double game starts
+// (pips 0-6, or null for no double)
+export const declareHighestDouble = async (gameId: string, pips: number | null): Promise<Game | null> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to declare a double");
     
-    // Verify user is part of this game
     const userId = auth.currentUser.uid;
-    if (game.createdBy !== userId && game.opponent !== userId) {
-      throw new Error("You are not authorized to start this game");
+    if (pips !== null && (!Number.isInteger(pips) || pips < 0 || pips > 6)) {
+      throw new Error("A double must be between double blank and double six");
     }
     
-    // Verify game is in accepted status
-    if (game.status !== "accepted") {
-      throw new Error("This game is not ready to start");
-    }
-    
-    // Determine who goes first (use settings or random if not specified)
-    const firstPlayer = game.settings.startingPlayer === "creator" ? game.createdBy :
-                       game.settings.startingPlayer === "opponent" ? game.opponent :
-                       Math.random() < 0.5 ? game.createdBy : game.opponent;
+    const gameRef = doc(db, "games", gameId);
     
-    // Update game status to in_progress and set activePlayer
-    await updateDoc(gameRef, {
-      status: "in_progress",
-      updatedAt: serverTimestamp(),
-      activePlayer: firstPlayer
+    await runTransaction(db, async (transaction) => {
+      const gameSnap = await transaction.get(gameRef);
+      if (!gameSnap.exists()) throw new Error("Game not found");
+      
+      const game = gameSnap.data() as Game;
+      
+      if (!getGameSide(game, userId)) {
+        throw new Error("You are not authorized to update this game");
+      }
+      if (game.status !== "accepted") {
+        throw new Error("Doubles can only be declared before the game starts");
+      }
+      if (game.settings.startingPlayer !== "highest_double") {
+        throw new Error("This game does not use the highest double to pick the starting player");
+      }
+      
+      // Each double exists once in the set, so two players cannot hold the same one
+      const declarations = game.highestDoubles || {};
+      const holder = Object.keys(declarations).find(playerId =>
+        playerId !== userId && pips !== null && declarations[playerId] === pips);
+      if (holder) {
+        throw new Error(`Double ${pips} was already declared by another player`);
+      }
+      
+      transaction.update(gameRef, {
+        [`highestDoubles.${userId}`]: pips,
+        updatedAt: serverTimestamp()
+      });
     });
     
-    // Get updated game
-    const updatedGameSnap = await getDoc(gameRef);
-    return { id: updatedGameSnap.id, ...updatedGameSnap.data() } as Game;
+    return getGameById(gameId);
   } catch (error) {
-    console.error("Error starting game:", error);
+    console.error("Error declaring highest double:", error);
     throw error; // Re-throw error for better UI handling
   }
 };
 
-export const submitGameScore = async (gameId: string, creatorScore: number, opponentScore: number): Promise<Game | null> => {
+// Resolve which side of the game a user plays on (team1 counts as the creator side)
+export const getGameSide = (game: Game, userId: string): GameSide | null => {
+  if (game.createdBy === userId || game.teams?.team1?.includes(userId)) return "creator";
+  if (game.opponent === userId || game.teams?.team2?.includes(userId)) return "opponent";
+  return null;
+};
+
+// Get every player on one side of the game (both partners in a double game)
+export const getSidePlayers = (game: Game, side: GameSide): string[] => {
+  if (game.teams) return side === "creator" ? game.teams.team1 : game.teams.team2;
+  return [side === "creator" ? game.createdBy : game.opponent];
+};
+
+// Check whether a user may confirm or dispute the submitted result
+export const canConfirmGame = (game: Game, userId: string): boolean => {
+  if (game.status !== "waiting_confirmation") return false;
+  if (game.confirmingTeam && game.teams) {
+    return game.teams[game.confirmingTeam].includes(userId);
+  }
+  return game.confirmedBy === userId;
+};
+
+// Scores keep the creator/opponent keys for every game and mirror them as team1/team2 for team games
+const buildGameScores = (game: Game, creatorScore: number, opponentScore: number): Game["scores"] => {
+  if (game.teams) {
+    return { creator: creatorScore, opponent: opponentScore, team1: creatorScore, team2: opponentScore };
+  }
+  return { creator: creatorScore, opponent: opponentScore };
+};
+
+// Winner fields for a finished game (team games also record the winning team)
+const buildGameResult = (game: Game, winningSide: GameSide | null) => {
+  if (!winningSide) return { winner: null, winningTeam: null };
+  return {
+    winner: winningSide === "creator" ? game.createdBy : game.opponent,
+    winningTeam: game.teams ? (winningSide === "creator" ? "team1" : "team2") : null
+  };
+};
+
+// Confirmation goes to the side that did not submit the result
+const buildConfirmation = (game: Game, submitterSide: GameSide) => {
+  const confirmingSide: GameSide = submitterSide === "creator" ? "opponent" : "creator";
+  return {
+    confirmedBy: getSidePlayers(game, confirmingSide)[0],
+    confirmingTeam: game.teams ? (confirmingSide === "creator" ? "team1" : "team2") : null
+  };
+};
+
+// Get all hands recorded for a game, in the order they were played
+export const getGameHands = async (gameId: string): Promise<GameHand[]> => {
   try {
-    if (!auth.currentUser) throw new Error("You must be logged in to submit a score");
-    
-    const gameRef = doc(db, "games", gameId);
-    const gameSnap = await getDoc(gameRef);
-    
-    if (!gameSnap.exists()) throw new Error("Game not found");
+    const handsQuery = query(
+      collection(db, "games", gameId, "hands"),
+      orderBy("handNumber", "asc")
+    );
     
-    const game = gameSnap.data() as Game;
+    const handsSnap = await getDocs(handsQuery);
+    return handsSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as GameHand));
+  } catch (error) {
+    console.error("Error getting game hands:", error);
+    return [];
+  }
+};
+
+// Record a single hand (mano) and finish the game once a side reaches pointsToWin
+export const recordGameHand = async (
+  gameId: string,
+  hand: {
+    outcome: HandOutcome,
+    winningSide: GameSide | null,
+    points: number
+  }
+): Promise<Game | null> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to record a hand");
     
-    // Verify user is part of this game
     const userId = auth.currentUser.uid;
-    if (game.createdBy !== userId && game.opponent !== userId) {
-      throw new Error("You are not authorized to update this game");
-    }
-    
-    // Verify game is in active play status
-    if (game.status !== "in_progress" && game.status !== "accepted") {
-      throw new Error("This game is not in progress");
-    }
     
-    // Verify this is the active player's turn to submit scores
-    if (game.activePlayer && game.activePlayer !== userId) {
-      throw new Error("It's not your turn to submit scores");
+    // Validate hand
+    if (!Number.isInteger(hand.points) || hand.points < 0) {
+      throw new Error("Hand points must be a whole number of zero or more");
     }
-    
-    // Validate scores
-    if (creatorScore < 0 || opponentScore < 0) {
-      throw new Error("Scores cannot be negative");
+    if (hand.outcome === "domino" && !hand.winningSide) {
+      throw new Error("A dominated hand must have a winning side");
     }
-    
-    // Ensure at least one player has reached the winning score
-    const maxScore = Math.max(creatorScore, opponentScore);
-    if (maxScore < game.settings.pointsToWin) {
-      throw new Error(`At least one player must reach ${game.settings.pointsToWin} points to end the game`);
+    if (!hand.winningSide && hand.points > 0) {
+      throw new Error("A tied tranque cannot award points");
     }
     
-    // Determine winner
-    const winner = creatorScore > opponentScore ? game.createdBy : opponentScore > creatorScore ? game.opponent : undefined;
-    
-    // Update game with scores
-    const updates = {
-      scores: {
-        creator: creatorScore,
-        opponent: opponentScore
-      },
-      status: "waiting_confirmation" as GameStatus,
-      updatedAt: serverTimestamp(),
-      winner: winner,
-      // Set the user who needs to confirm (the other player)
-      confirmedBy: userId === game.createdBy ? game.opponent : game.createdBy,
-      // Clear activePlayer during confirmation phase
-      activePlayer: null
-    };
+    const gameRef = doc(db, "games", gameId);
     
-    await updateDoc(gameRef, updates);
+    await runTransaction(db, async (transaction) => {
+      const gameSnap = await transaction.get(gameRef);
+      if (!gameSnap.exists()) throw new Error("Game not found");
+      
+      const game = gameSnap.data() as Game;
+      
+      // Verify user is part of this game
+      const recorderSide = getGameSide(game, userId);
+      if (!recorderSide) {
+        throw new Error("You are not authorized to update this game");
+      }
+      
+      if (game.status !== "in_progress") {
+        throw new Error("Hands can only be recorded while the game is in progress");
+      }
+      
+      const handNumber = (game.handCount || 0) + 1;
+      const scores = {
+        creator: game.scores?.creator || 0,
+        opponent: game.scores?.opponent || 0
+      };
+      if (hand.winningSide) {
+        scores[hand.winningSide] += hand.points;
+      }
+      
+      // Hands are stored under their number, which the rules check against
+      // the game's hand count
+      const handRef = doc(db, "games", gameId, "hands", String(handNumber));
+      transaction.set(handRef, {
+        handNumber,
+        outcome: hand.outcome,
+        winningSide: hand.winningSide,
+        points: hand.points,
+        recordedBy: userId,
+        recordedAt: serverTimestamp()
+      });
+      
+      // Finish the game when the winning side reaches the target
+      const finished = !!hand.winningSide && scores[hand.winningSide] >= game.settings.pointsToWin;
+      transaction.update(gameRef, {
+        scores: buildGameScores(game, scores.creator, scores.opponent),
+        handCount: handNumber,
+        updatedAt: serverTimestamp(),
+        ...(finished && {
+          status: "waiting_confirmation" as GameStatus,
+          ...buildGameResult(game, hand.winningSide),
+          // The other side confirms the final tally
+          ...buildConfirmation(game, recorderSide),
+          activePlayer: null
+        })
+      });
+    });
     
-    // Get updated game
-    const updatedGameSnap = await getDoc(gameRef);
-    return { id: updatedGameSnap.id, ...updatedGameSnap.data() } as Game;
+    return getGameById(gameId);
   } catch (error) {
-    console.error("Error submitting score:", error);
+    console.error("Error recording hand:", error);
     throw error; // Re-throw error for better UI handling
   }
 };
 
-export const confirmGameResult = async (gameId: string, isConfirmed: boolean): Promise<Game | null> => {
+export const confirmGameResult = async (
+  gameId: string,
+  isConfirmed: boolean,
+  dispute?: DisputeClaimInput
+): Promise<Game | null> => {
   try {
     if (!auth.currentUser) throw new Error("You must be logged in to confirm a game");
     
@@ -863,43 +1218,27 @@ export const confirmGameResult = async (gameId: string, isConfirmed: boolean): P
     
     const game = gameSnap.data() as Game;
     
-    // Verify this user is the one who needs to confirm
+    // Verify this user is the one (or on the team) who needs to confirm
     const userId = auth.currentUser.uid;
-    if (game.confirmedBy !== userId) {
+    if (!canConfirmGame(game, userId)) {
       throw new Error("You are not authorized to confirm this game");
     }
     
     if (!isConfirmed) {
-      // User rejected the result - reset scores and status
-      // Set activePlayer to the user who submitted the original scores
-      const submittedBy = userId === game.createdBy ? game.opponent : game.createdBy;
-      
-      await updateDoc(gameRef, {
-        status: "in_progress" as GameStatus,
-        scores: {},
-        winner: null,
-        confirmedBy: null,
-        activePlayer: submittedBy, // Set the active player to the one who submitted the rejected scores
-        updatedAt: serverTimestamp()
-      });
+      // A rejected result goes to a judge instead of back into play
+      if (!dispute) throw new Error("Claim the score you believe is correct");
+      await fileDisputeClaim(gameId, dispute);
     } else {
-      // User confirmed the result - finalize game and update user stats
+      // User confirmed the result - finalize the game. Player stats, ratings and
+      // global ranks are applied server-side by the onGameCompleted function.
       await updateDoc(gameRef, {
         status: "completed" as GameStatus,
         updatedAt: serverTimestamp(),
         confirmedBy: null,
+        confirmingTeam: null,
         activePlayer: null, // Clear active player on completion
         completedAt: serverTimestamp() // Add completion timestamp for ranking purposes
       });
-      
-      // Update stats for both players
-      if (game.scores && game.winner) {
-        // Update stats in parallel for better performance
-        await Promise.all([
-          updateUserStats(game.createdBy, game.scores.creator, game.winner === game.createdBy),
-          updateUserStats(game.opponent, game.scores.opponent, game.winner === game.opponent)
-        ]);
-      }
     }
     
     // Get updated game
@@ -911,36 +1250,6 @@ export const confirmGameResult = async (gameId: string, isConfirmed: boolean): P
   }
 };
 
-// Helper to update user stats after a game
-const updateUserStats = async (userId: string, points: number, isWinner: boolean): Promise<void> => {
-  try {
-    const userRef = doc(db, "users", userId);
-    const userSnap = await getDoc(userRef);
-    
-    if (!userSnap.exists()) return;
-    
-    const user = userSnap.data() as UserProfile;
-    
-    const updatedStats = {
-      gamesPlayed: (user.stats?.gamesPlayed || 0) + 1,
-      gamesWon: (user.stats?.gamesWon || 0) + (isWinner ? 1 : 0),
-      totalPoints: (user.stats?.totalPoints || 0) + points,
-      lastGameAt: serverTimestamp(),
-      winStreak: isWinner ? (user.stats?.winStreak || 0) + 1 : 0,
-      maxWinStreak: isWinner ? 
-        Math.max((user.stats?.winStreak || 0) + 1, (user.stats?.maxWinStreak || 0)) : 
-        (user.stats?.maxWinStreak || 0)
-    };
-    
-    await updateDoc(userRef, { stats: updatedStats });
-    
-    // Always update rankings when any game is completed
-    await updateGlobalRankings();
-  } catch (error) {
-    console.error("Error updating user stats:", error);
-  }
-};
-
 // Helper to calculate player title based on wins
 export const calculateTitle = (wins: number): string => {
   if (wins >= 25) return "Duro del 6";
@@ -959,24 +1268,55 @@ export interface RankingEntry {
   gamesWon: number;
   totalPoints: number;
   winRate: number;
+  rating: number;
   rank: number;
 }
 
+// Ranking orderings - league standings as calculated, skill rating, or the classic wins-first classification
+export type RankingOrder = "standings" | "rating" | "wins";
+
+// Compare two ranking entries for the given ordering (descending)
+export const compareRankings = (
+  a: Pick<RankingEntry, "gamesWon" | "totalPoints" | "winRate" | "rating" | "rank">,
+  b: Pick<RankingEntry, "gamesWon" | "totalPoints" | "winRate" | "rating" | "rank">,
+  order: RankingOrder = "rating"
+): number => {
+  // Standings keep the order they were calculated in (league scoring and tiebreaks)
+  if (order === "standings") return a.rank - b.rank;
+  
+  if (order === "rating" && b.rating !== a.rating) {
+    return b.rating - a.rating;
+  }
+  
+  // Wins-first: games won, then total points, then win rate
+  if (b.gamesWon !== a.gamesWon) return b.gamesWon - a.gamesWon;
+  if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
+  return b.winRate - a.winRate;
+};
+
+// Sort ranking entries and reassign their rank for the given ordering
+export const sortRankings = <T extends RankingEntry>(entries: T[], order: RankingOrder = "rating"): T[] => {
+  return [...entries]
+    .sort((a, b) => compareRankings(a, b, order))
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+};
+
 // Get global rankings of all players
-export const getGlobalRankings = async (): Promise<RankingEntry[]> => {
+export const getGlobalRankings = async (order: RankingOrder = "rating"): Promise<RankingEntry[]> => {
   try {
-    const usersQuery = query(
-      usersCollection,
-      where("stats.gamesPlayed", ">", 0),
-      orderBy("stats.gamesPlayed", "desc"),
-      limit(DEFAULT_QUERY_LIMIT)
-    );
+    // The rating board reads the top of stats.globalRank, which the
+    // onGameCompleted function keeps for every player who has played;
+    // the wins-first classification reads the players with the most wins
+    const usersQuery = order === "wins"
+      ? query(usersCollection, orderBy("stats.gamesWon", "desc"), limit(DEFAULT_QUERY_LIMIT))
+      : query(usersCollection, orderBy("stats.globalRank", "asc"), limit(DEFAULT_QUERY_LIMIT));
     
     const querySnapshot = await getDocs(usersQuery);
     const rankingData: RankingEntry[] = [];
     
     querySnapshot.forEach((doc) => {
       const userData = doc.data() as UserProfile;
+      if (!userData.stats?.gamesPlayed) return;
       
       const winRate = userData.stats.gamesPlayed > 0 
         ? (userData.stats.gamesWon / userData.stats.gamesPlayed) * 100 
@@ -991,35 +1331,13 @@ export const getGlobalRankings = async (): Promise<RankingEntry[]> => {
         gamesWon: userData.stats.gamesWon,
         totalPoints: userData.stats.totalPoints,
         winRate: winRate,
+        rating: userData.stats.rating ?? DEFAULT_RATING,
         rank: 0, // Will be calculated after sorting
       });
     });
     
-    // Sort by classification criteria:
-    // 1. Games won (descending)
-    // 2. Total points (descending)
-    // 3. Win rate (descending)
-    rankingData.sort((a, b) => {
-      // First by games won
-      if (b.gamesWon !== a.gamesWon) {
-        return b.gamesWon - a.gamesWon;
-      }
-      
-      // Then by total points
-      if (b.totalPoints !== a.totalPoints) {
-        return b.totalPoints - a.totalPoints;
-      }
-      
-      // Finally by win rate
-      return b.winRate - a.winRate;
-    });
-    
-    // Assign ranks
-    rankingData.forEach((entry, index) => {
-      entry.rank = index + 1;
-    });
-    
-    return rankingData;
+    // Sort by rating (or wins-first classification) and assign ranks
+    return sortRankings(rankingData, order);
   } catch (error) {
     console.error("Error getting global rankings:", error);
     return [];
@@ -1066,29 +1384,25 @@ export const getRankingsByTimePeriod = async (period: 'week' | 'month' | 'all'):
     gamesSnapshot.forEach(doc => {
       const game = doc.data() as Game;
       
-      // Creator stats
-      if (!playerStats[game.createdBy]) {
-        playerStats[game.createdBy] = { wins: 0, played: 0, points: 0 };
-      }
-      playerStats[game.createdBy].played++;
-      if (game.winner === game.createdBy) {
-        playerStats[game.createdBy].wins++;
-      }
-      if (game.scores) {
-        playerStats[game.createdBy].points += game.scores.creator;
-      }
-      
-      // Opponent stats
-      if (!playerStats[game.opponent]) {
-        playerStats[game.opponent] = { wins: 0, played: 0, points: 0 };
-      }
-      playerStats[game.opponent].played++;
-      if (game.winner === game.opponent) {
-        playerStats[game.opponent].wins++;
-      }
-      if (game.scores) {
-        playerStats[game.opponent].points += game.scores.opponent;
-      }
+      // Credit every player on each side (partners included in team games)
+      (["creator", "opponent"] as GameSide[]).forEach(side => {
+        const sideWon = game.winningTeam
+          ? game.winningTeam === (side === "creator" ? "team1" : "team2")
+          : game.winner === (side === "creator" ? game.createdBy : game.opponent);
+        
+        getSidePlayers(game, side).forEach(playerId => {
+          if (!playerStats[playerId]) {
+            playerStats[playerId] = { wins: 0, played: 0, points: 0 };
+          }
+          playerStats[playerId].played++;
+          if (sideWon) {
+            playerStats[playerId].wins++;
+          }
+          if (game.scores) {
+            playerStats[playerId].points += game.scores[side];
+          }
+        });
+      });
     });
     
     // Get user details for all players with stats in this period
@@ -1122,91 +1436,31 @@ export const getRankingsByTimePeriod = async (period: 'week' | 'month' | 'all'):
           gamesWon: stats.wins,
           totalPoints: stats.points,
           winRate: winRate,
+          rating: userData.stats?.rating ?? DEFAULT_RATING,
           rank: 0 // Will be calculated after sorting
         });
       }
     });
     
-    // Sort and assign ranks
-    rankingData.sort((a, b) => {
-      if (b.gamesWon !== a.gamesWon) return b.gamesWon - a.gamesWon;
-      if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
-      return b.winRate - a.winRate;
-    });
-    
-    rankingData.forEach((entry, index) => {
-      entry.rank = index + 1;
-    });
-    
-    return rankingData;
+    // Ratings are all-time, so a period is always classified wins-first
+    return sortRankings(rankingData, "wins");
   } catch (error) {
     console.error("Error getting rankings by time period:", error);
     return [];
   }
 };
 
-// Get player's rank in global rankings
+// Get player's rank in global rankings, as computed server-side
 export const getPlayerRank = async (userId: string): Promise<number> => {
   try {
-    const rankings = await getGlobalRankings();
-    const playerRanking = rankings.find(rank => rank.userId === userId);
-    return playerRanking?.rank || 0;
+    const userSnap = await getDoc(doc(usersCollection, userId));
+    return userSnap.exists() ? (userSnap.data().stats?.globalRank || 0) : 0;
   } catch (error) {
     console.error("Error getting player rank:", error);
     return 0;
   }
 };
 
-// Update global rankings for all players
-export const updateGlobalRankings = async (): Promise<boolean> => {
-  try {
-    // Get all users with at least one game played
-    const usersQuery = query(
-      usersCollection,
-      where("stats.gamesPlayed", ">", 0),
-      limit(DEFAULT_QUERY_LIMIT)
-    );
-    
-    const querySnapshot = await getDocs(usersQuery);
-    const users = querySnapshot.docs.map(doc => ({
-      ...doc.data() as UserProfile,
-      ref: doc.ref
-    }));
-    
-    // Sort users by ranking criteria
-    users.sort((a, b) => {
-      // First by games won
-      if (b.stats.gamesWon !== a.stats.gamesWon) {
-        return b.stats.gamesWon - a.stats.gamesWon;
-      }
-      
-      // Then by total points
-      if (b.stats.totalPoints !== a.stats.totalPoints) {
-        return b.stats.totalPoints - a.stats.totalPoints;
-      }
-      
-      // Finally by win rate
-      const aWinRate = a.stats.gamesPlayed > 0 ? (a.stats.gamesWon / a.stats.gamesPlayed) : 0;
-      const bWinRate = b.stats.gamesPlayed > 0 ? (b.stats.gamesWon / b.stats.gamesPlayed) : 0;
-      return bWinRate - aWinRate;
-    });
-    
-    // Update rank for each user
-    const updatePromises = users.map((user, index) => {
-      return updateDoc(user.ref, {
-        "stats.globalRank": index + 1,
-        "stats.lastRankUpdate": serverTimestamp()
-      });
-    });
-    
-    await Promise.all(updatePromises);
-    return true;
-  } catch (error) {
-    console.error("Error updating global rankings:", error);
-    return false;
-  }
-};
-
 // Username management functions
 export const checkUsernameExists = async (username: string): Promise<boolean> => {
   try {
@@ -1249,12 +1503,14 @@ export const updateUsername = async (userId: string, username: string): Promise<
           username: username.toLowerCase(),
           displayName: username,
           hasSetUsername: true,
-          // Initialize stats if not already set
-          stats: {
-            gamesPlayed: 0,
-            gamesWon: 0,
-            totalPoints: 0
-          }
+          // Initialize stats if not already set (stats are owned by the server once they exist)
+          ...(userSnap.exists() && userSnap.data().stats ? {} : {
+            stats: {
+              gamesPlayed: 0,
+              gamesWon: 0,
+              totalPoints: 0
+            }
+          })
         });
     
     return true;
@@ -1274,7 +1530,8 @@ export const getAllLeaguesWithRankings = async (): Promise<{
   status: string;
   currentSeason?: string;
   seasonIds?: string[]; // Array of associated season IDs
-  rankings: RankingEntry[];
+  rankings: LeagueRankingEntry[];
+  pairRankings: PairRankingEntry[];
 }[]> => {
   try {
     // Get all active leagues first
@@ -1327,15 +1584,25 @@ export const getAllLeaguesWithRankings = async (): Promise<{
       })
     );
     
+    // Fetch all league pair rankings in parallel
+    const pairRankingsPromise = Promise.all(
+      leagueIds.map(async (leagueId) => {
+        const pairRankings = await getPairRankings(leagueId);
+        return { leagueId, pairRankings };
+      })
+    );
+    
     // Wait for all data to be fetched in parallel
-    const [leagueSeasons, leagueRankings] = await Promise.all([
+    const [leagueSeasons, leagueRankings, leaguePairRankings] = await Promise.all([
       leagueSeasonsPromise,
-      rankingsPromise
+      rankingsPromise,
+      pairRankingsPromise
     ]);
     
     // Create lookup maps for better performance
     const seasonsMap = new Map(leagueSeasons.map(ls => [ls.leagueId, ls.seasonIds]));
     const rankingsMap = new Map(leagueRankings.map(lr => [lr.leagueId, lr.rankings]));
+    const pairRankingsMap = new Map(leaguePairRankings.map(lr => [lr.leagueId, lr.pairRankings]));
     
     // Build final result array
     const leagues = leaguesSnapshot.docs.map(leagueDoc => {
@@ -1349,7 +1616,8 @@ export const getAllLeaguesWithRankings = async (): Promise<{
         status: leagueData.status,
         currentSeason: leagueData.currentSeason || "2024",
         seasonIds: seasonsMap.get(leagueDoc.id) || [],
-        rankings: rankingsMap.get(leagueDoc.id) || []
+        rankings: rankingsMap.get(leagueDoc.id) || [],
+        pairRankings: pairRankingsMap.get(leagueDoc.id) || []
       };
     });
     
@@ -1360,18 +1628,29 @@ export const getAllLeaguesWithRankings = async (): Promise<{
   }
 };
 
+// League ranking entry - totalPoints holds league points from the league's scoring system
+export interface LeagueRankingEntry extends RankingEntry {
+  gamesLost: number;
+  gamesTied: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifferential: number;
+  pointsDeducted?: number; // League points taken off by penalties
+}
+
 // Get rankings for a specific league - OPTIMIZED VERSION
-export const getLeagueRankings = async (leagueId: string): Promise<RankingEntry[]> => {
+export const getLeagueRankings = async (leagueId: string): Promise<LeagueRankingEntry[]> => {
   try {
     const db = getFirestore();
     
     // Get all members and games in parallel for better performance
-    const [allMemberSnap, gamesSnapshot] = await Promise.all([
-      // Get all league members (active and inactive for complete stats)
+    const [leagueSnap, allMemberSnap, gamesSnapshot, seriesSnapshot, deductionsSnapshot] = await Promise.all([
+      getDoc(doc(db, "leagues", leagueId)),
+      // Get all league members (active, inactive and suspended for complete stats)
       getDocs(query(
         collection(db, "leagueMemberships"),
         where("leagueId", "==", leagueId),
-        where("status", "in", ["active", "inactive"]),
+        where("status", "in", ["active", "inactive", "suspended"]),
         limit(DEFAULT_QUERY_LIMIT)
       )),
       // Get all completed league games
@@ -1380,6 +1659,21 @@ export const getLeagueRankings = async (leagueId: string): Promise<RankingEntry[
         where("leagueId", "==", leagueId),
         where("status", "==", "completed"),
         limit(DEFAULT_QUERY_LIMIT)
+      )),
+      // Get all decided league series
+      getDocs(query(
+        collection(db, "series"),
+        where("leagueId", "==", leagueId),
+        where("status", "==", "completed"),
+        limit(DEFAULT_QUERY_LIMIT)
+      )),
+      // Get point deductions that are still in force
+      getDocs(query(
+        collection(db, "leaguePenalties"),
+        where("leagueId", "==", leagueId),
+        where("type", "==", "point_deduction"),
+        where("status", "==", "active"),
+        limit(DEFAULT_QUERY_LIMIT)
       ))
     ]);
 
@@ -1390,7 +1684,7 @@ export const getLeagueRankings = async (leagueId: string): Promise<RankingEntry[
       const memberData = doc.data();
       allLeagueUserIds.push(memberData.userId);
       
-      if (memberData.status === "active") {
+      if (memberData.status === "active" || memberData.status === "suspended") {
         activeMemberIds.push(memberData.userId);
       }
     });
@@ -1399,56 +1693,41 @@ export const getLeagueRankings = async (leagueId: string): Promise<RankingEntry[
       return [];
     }
 
-    // Initialize player stats more efficiently
-    const playerStats = Object.fromEntries(
-      allLeagueUserIds.map(userId => [
-        userId,
-        {
-          gamesPlayed: 0,
-          gamesWon: 0,
-          totalPoints: 0,
-          userId
-        }
-      ])
-    );
-
-    // Process games to calculate stats efficiently
-    gamesSnapshot.forEach((doc) => {
-      const game = doc.data() as {
-        createdBy: string;
-        opponent: string;
-        winner?: string;
-        scores?: { creator: number; opponent: number };
-      };
-
-      // Only count games where both players are league members
-      const creatorStats = playerStats[game.createdBy];
-      const opponentStats = playerStats[game.opponent];
-      
-      if (creatorStats && opponentStats) {
-        // Update games played
-        creatorStats.gamesPlayed++;
-        opponentStats.gamesPlayed++;
-
-        // Update wins and points based on winner
-        if (game.winner === game.createdBy) {
-          creatorStats.gamesWon++;
-          creatorStats.totalPoints += 3; // Points for win
-          // opponentStats gets 0 points (default)
-        } else if (game.winner === game.opponent) {
-          opponentStats.gamesWon++;
-          opponentStats.totalPoints += 3; // Points for win
-          // creatorStats gets 0 points (default)
-        } else {
-          // Draw or no winner - give 1 point each
-          creatorStats.totalPoints += 1;
-          opponentStats.totalPoints += 1;
-        }
-      }
+    // Standings follow the league's own scoring system and tiebreak order
+    const scoringSystem = leagueSnap.data()?.settings?.scoringSystem;
+    const games = gamesSnapshot.docs.map(gameDoc => gameDoc.data() as Game);
+
+    // Leagues can count a best-of series as one match, scored in games won
+    const standingsGames: StandingsGame[] = scoringSystem?.countSeriesAsMatch
+      ? [
+          ...games.filter(game => !game.seriesId),
+          ...seriesSnapshot.docs.map(seriesDoc => {
+            const series = seriesDoc.data() as Series;
+            return {
+              createdBy: series.createdBy,
+              opponent: series.opponent,
+              winner: series.winner,
+              scores: series.score
+            };
+          })
+        ]
+      : games;
+
+    const deductions = new Map<string, number>();
+    deductionsSnapshot.forEach((penaltyDoc) => {
+      const penalty = penaltyDoc.data() as LeaguePenalty;
+      deductions.set(penalty.userId, (deductions.get(penalty.userId) || 0) + (penalty.points || 0));
     });
 
+    const standings = calculateLeagueStandings(
+      allLeagueUserIds,
+      standingsGames,
+      scoringSystem,
+      deductions
+    );
+
     // Batch user data fetching for better performance
-    const activeUserIds = activeMemberIds.filter(userId => playerStats[userId]);
+    const activeUserIds = activeMemberIds;
     
     if (activeUserIds.length === 0) {
       return [];
@@ -1470,7 +1749,8 @@ export const getLeagueRankings = async (leagueId: string): Promise<RankingEntry[
                 userId,
                 displayName: userData.displayName || userData.username || userId,
                 username: userData.username,
-                photoURL: userData.photoURL
+                photoURL: userData.photoURL,
+                rating: userData.stats?.rating ?? DEFAULT_RATING
               };
             }
           } catch (error) {
@@ -1480,7 +1760,8 @@ export const getLeagueRankings = async (leagueId: string): Promise<RankingEntry[
             userId,
             displayName: userId,
             username: userId,
-            photoURL: undefined
+            photoURL: undefined,
+            rating: DEFAULT_RATING
           };
         }))
       );
@@ -1493,39 +1774,135 @@ export const getLeagueRankings = async (leagueId: string): Promise<RankingEntry[
     // Create user map for O(1) lookup
     const userMap = new Map(userDetails.map(user => [user.userId, user]));
 
-    // Build and sort rankings for active members only
-    const rankings = activeUserIds
-      .map(userId => {
-        const stats = playerStats[userId];
-        const userDetail = userMap.get(userId);
-        const winRate = stats.gamesPlayed > 0 ? (stats.gamesWon / stats.gamesPlayed) * 100 : 0;
+    // Keep the standings order for active members only
+    const rankings = standings
+      .filter(entry => userMap.has(entry.userId))
+      .map((entry, index): LeagueRankingEntry => {
+        const userDetail = userMap.get(entry.userId);
         
         return {
-          userId: stats.userId,
-          displayName: userDetail?.displayName || stats.userId,
-          username: userDetail?.username || stats.userId,
+          userId: entry.userId,
+          displayName: userDetail?.displayName || entry.userId,
+          username: userDetail?.username || entry.userId,
           photoURL: userDetail?.photoURL,
-          gamesPlayed: stats.gamesPlayed,
-          gamesWon: stats.gamesWon,
-          totalPoints: stats.totalPoints,
-          winRate: winRate,
-          rank: 0 // Will be set after sorting
-        } as RankingEntry;
-      })
+          gamesPlayed: entry.gamesPlayed,
+          gamesWon: entry.gamesWon,
+          gamesLost: entry.gamesLost,
+          gamesTied: entry.gamesTied,
+          totalPoints: entry.points,
+          pointsFor: entry.pointsFor,
+          pointsAgainst: entry.pointsAgainst,
+          pointDifferential: entry.pointDifferential,
+          pointsDeducted: entry.pointsDeducted,
+          winRate: entry.winRate,
+          rating: userDetail?.rating ?? DEFAULT_RATING,
+          rank: index + 1
+        };
+      });
+
+    return rankings;
+  } catch (error) {
+    console.error("Error getting league rankings:", error);
+    return [];
+  }
+};
+
+// Pair (pareja) identity - the same two players always map to the same ID regardless of order
+export const getPairId = (playerA: string, playerB: string): string => {
+  return [playerA, playerB].sort().join("_");
+};
+
+// Pair rankings entry - stats for a fixed partnership in double games
+export interface PairRankingEntry {
+  pairId: string;
+  playerIds: [string, string];
+  players: {
+    userId: string;
+    username: string;
+    displayName: string;
+    photoURL?: string;
+  }[];
+  gamesPlayed: number;
+  gamesWon: number;
+  totalPoints: number;
+  winRate: number;
+  currentStreak: number;
+  longestWinStreak: number;
+  rank: number;
+}
+
+// Get rankings for every pair that played completed double games, optionally within one league.
+// Pair stats are kept up to date by the onGameCompleted function
+export const getPairRankings = async (leagueId?: string): Promise<PairRankingEntry[]> => {
+  try {
+    const pairStatsSnapshot = await getDocs(query(
+      collection(db, "pairStats"),
+      where("leagueId", "==", leagueId || null),
+      orderBy("gamesWon", "desc"),
+      limit(DEFAULT_QUERY_LIMIT)
+    ));
+
+    if (pairStatsSnapshot.empty) {
+      return [];
+    }
+
+    const pairStats = pairStatsSnapshot.docs.map(pairDoc => {
+      const data = pairDoc.data();
+      return {
+        pairId: data.pairId,
+        playerIds: data.playerIds,
+        gamesPlayed: data.gamesPlayed || 0,
+        gamesWon: data.gamesWon || 0,
+        totalPoints: data.totalPoints || 0,
+        currentStreak: data.currentStreak || 0,
+        longestWinStreak: data.longestWinStreak || 0
+      } as Omit<PairRankingEntry, "players" | "winRate" | "rank">;
+    });
+
+    // Fetch player details once per player, even if they played in several pairs
+    const playerIds = Array.from(new Set(pairStats.flatMap(stats => stats.playerIds)));
+    const playerDetails = await Promise.all(playerIds.map(async (userId) => {
+      try {
+        const userDoc = await getDoc(doc(db, "users", userId));
+        if (userDoc.exists()) {
+          const userData = userDoc.data();
+          return {
+            userId,
+            displayName: userData.displayName || userData.username || userId,
+            username: userData.username || userId,
+            photoURL: userData.photoURL
+          };
+        }
+      } catch (error) {
+        console.error(`Error fetching user ${userId}:`, error);
+      }
+      return {
+        userId,
+        displayName: userId,
+        username: userId,
+        photoURL: undefined
+      };
+    }));
+    const playerMap = new Map(playerDetails.map(player => [player.userId, player]));
+
+    return pairStats
+      .map(stats => ({
+        ...stats,
+        players: stats.playerIds.map(userId => playerMap.get(userId)!),
+        winRate: stats.gamesPlayed > 0 ? (stats.gamesWon / stats.gamesPlayed) * 100 : 0,
+        rank: 0 // Will be set after sorting
+      }))
       .sort((a, b) => {
-        // Optimized sorting: total points first, then win rate, then games won
-        if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
+        if (b.gamesWon !== a.gamesWon) return b.gamesWon - a.gamesWon;
         if (b.winRate !== a.winRate) return b.winRate - a.winRate;
-        return b.gamesWon - a.gamesWon;
+        return b.totalPoints - a.totalPoints;
       })
-      .map((player, index) => ({
-        ...player,
+      .map((pair, index) => ({
+        ...pair,
         rank: index + 1
       }));
-
-    return rankings;
   } catch (error) {
-    console.error("Error getting league rankings:", error);
+    console.error("Error getting pair rankings:", error);
     return [];
   }
 };
@@ -1655,7 +2032,7 @@ export const getAllActiveLeagues = async (): Promise<{id: string, name: string,
 };
 
 // Get league by ID
-export const getLeagueById = async (leagueId: string): Promise<{id: string, name: string, photoURL?: string} | null> => {
+export const getLeagueById = async (leagueId: string): Promise<{id: string, name: string, photoURL?: string, createdBy?: string} | null> => {
   try {
     const leagueDoc = doc(db, "leagues", leagueId);
     const leagueSnap = await getDoc(leagueDoc);
@@ -1665,7 +2042,8 @@ export const getLeagueById = async (leagueId: string): Promise<{id: string, name
       return {
         id: leagueSnap.id,
         name: data.name,
-        photoURL: data.photoURL
+        photoURL: data.photoURL,
+        createdBy: data.createdBy
       };
     }
     
@@ -2127,6 +2505,234 @@ export const validateAndUpdateLeagueStatus = async (leagueId: string): Promise<s
   }
 };
 
+// League tournament functions
+export const getLeagueTournaments = async (leagueId: string): Promise<LeagueTournament[]> => {
+  try {
+    const tournamentsQuery = query(
+      collection(db, "leagueTournaments"),
+      where("leagueId", "==", leagueId),
+      limit(DEFAULT_QUERY_LIMIT)
+    );
+    
+    const tournamentsSnap = await getDocs(tournamentsQuery);
+    
+    const tournaments = await Promise.all(tournamentsSnap.docs.map(async tournamentDoc => ({
+      ...tournamentDoc.data(),
+      id: tournamentDoc.id,
+      rounds: await getTournamentRounds(tournamentDoc.id)
+    } as LeagueTournament)));
+    
+    return tournaments.sort((a, b) => b.startDate.toMillis() - a.startDate.toMillis());
+  } catch (error) {
+    console.error("Error getting league tournaments:", error);
+    return [];
+  }
+};
+
+// Rounds live in a subcollection of their tournament, one document per round
+export const getTournamentRounds = async (tournamentId: string): Promise<LeagueRound[]> => {
+  try {
+    const roundsSnap = await getDocs(collection(db, "leagueTournaments", tournamentId, "rounds"));
+    
+    return roundsSnap.docs
+      .map(doc => doc.data() as LeagueRound)
+      .sort((a, b) => a.roundNumber - b.roundNumber);
+  } catch (error) {
+    console.error("Error getting tournament rounds:", error);
+    return [];
+  }
+};
+
+// Write a new tournament and its rounds together
+const saveNewTournament = async (
+  tournamentRef: DocumentReference,
+  tournament: Omit<LeagueTournament, "id" | "rounds">,
+  rounds: LeagueRound[]
+): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.set(tournamentRef, tournament);
+  rounds.forEach(round => {
+    batch.set(doc(tournamentRef, "rounds", round.id), round);
+  });
+  await batch.commit();
+};
+
+// Generate a round-robin tournament with rounds spread over a date range (usually the current season)
+export const createRoundRobinTournament = async (
+  leagueId: string,
+  options: {
+    name: string;
+    participantIds: string[];
+    legs: 1 | 2;
+    startDate: Date;
+    endDate: Date;
+    seasonId?: string;
+  }
+): Promise<string> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to create a tournament");
+    
+    if (options.participantIds.length < 2) {
+      throw new Error("A round-robin needs at least two active members");
+    }
+    
+    const roundPairings = generateRoundRobinPairings(options.participantIds, options.legs);
+    const windows = scheduleRoundWindows(roundPairings.length, options.startDate, options.endDate);
+    
+    const tournamentRef = doc(collection(db, "leagueTournaments"));
+    
+    const rounds: LeagueRound[] = roundPairings.map((round, index) => {
+      const roundId = `round-${round.roundNumber}`;
+      return {
+        id: roundId,
+        tournamentId: tournamentRef.id,
+        roundNumber: round.roundNumber,
+        startDate: Timestamp.fromDate(windows[index].startDate),
+        endDate: Timestamp.fromDate(windows[index].endDate),
+        status: "scheduled",
+        matches: round.pairings.map((pairing, matchIndex) => ({
+          id: `${roundId}-match-${matchIndex + 1}`,
+          roundId,
+          homeId: pairing.homeId,
+          awayId: pairing.awayId,
+          scheduledTime: Timestamp.fromDate(windows[index].startDate),
+          status: "scheduled"
+        }))
+      };
+    });
+    
+    const tournament: Omit<LeagueTournament, "id" | "rounds"> = {
+      leagueId,
+      name: options.name,
+      format: "round-robin",
+      legs: options.legs,
+      participantIds: options.participantIds,
+      startDate: Timestamp.fromDate(options.startDate),
+      endDate: Timestamp.fromDate(options.endDate),
+      status: "upcoming",
+      createdBy: auth.currentUser.uid,
+      createdAt: Timestamp.now(),
+      ...(options.seasonId && { seasonId: options.seasonId })
+    };
+    
+    await saveNewTournament(tournamentRef, tournament, rounds);
+    return tournamentRef.id;
+  } catch (error) {
+    console.error("Error creating round-robin tournament:", error);
+    throw error; // Re-throw error for better UI handling
+  }
+};
+
+// Generate an elimination bracket seeded by the current league rankings
+export const createEliminationTournament = async (
+  leagueId: string,
+  options: {
+    name: string;
+    participantLimit?: number; // Only the top N ranked members qualify (playoffTeams)
+    withLosersBracket: boolean;
+    startDate: Date;
+    endDate?: Date;
+    seasonId?: string;
+  }
+): Promise<string> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to create a tournament");
+    
+    // Seeds follow the league rankings - the best ranked member is seed 1
+    const rankings = await getLeagueRankings(leagueId);
+    const seededIds = rankings
+      .map(entry => entry.userId)
+      .slice(0, options.participantLimit || undefined);
+    
+    if (seededIds.length < 2) {
+      throw new Error("An elimination bracket needs at least two ranked members");
+    }
+    
+    const tournamentRef = doc(collection(db, "leagueTournaments"));
+    
+    const rounds: LeagueRound[] = generateEliminationBracket(seededIds, options.withLosersBracket)
+      .map(round => ({
+        id: round.id,
+        tournamentId: tournamentRef.id,
+        roundNumber: round.roundNumber,
+        bracket: round.bracket,
+        status: "scheduled",
+        matches: round.matches.map(match => ({
+          ...match,
+          roundId: round.id,
+          status: "scheduled"
+        }))
+      }));
+    
+    const tournament: Omit<LeagueTournament, "id" | "rounds"> = {
+      leagueId,
+      name: options.name,
+      format: "elimination",
+      hasLosersBracket: rounds.some(round => round.bracket === "losers"),
+      participantIds: seededIds,
+      startDate: Timestamp.fromDate(options.startDate),
+      status: "upcoming",
+      createdBy: auth.currentUser.uid,
+      createdAt: Timestamp.now(),
+      ...(options.endDate && { endDate: Timestamp.fromDate(options.endDate) }),
+      ...(options.seasonId && { seasonId: options.seasonId })
+    };
+    
+    await saveNewTournament(tournamentRef, tournament, rounds);
+    return tournamentRef.id;
+  } catch (error) {
+    console.error("Error creating elimination tournament:", error);
+    throw error; // Re-throw error for better UI handling
+  }
+};
+
+// Create a Swiss tournament - each round is paired from the results so far
+export const createSwissTournament = async (
+  leagueId: string,
+  options: {
+    name: string;
+    numberOfRounds: number;
+    startDate: Date;
+    endDate?: Date;
+    seasonId?: string;
+  }
+): Promise<string> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to create a tournament");
+    
+    // Initial seeding follows the league rankings
+    const rankings = await getLeagueRankings(leagueId);
+    const participantIds = rankings.map(entry => entry.userId);
+    
+    if (participantIds.length < 2) {
+      throw new Error("A Swiss tournament needs at least two ranked members");
+    }
+    if (options.numberOfRounds < 1 || options.numberOfRounds > participantIds.length - 1) {
+      throw new Error(`Choose between 1 and ${participantIds.length - 1} rounds for ${participantIds.length} players`);
+    }
+    
+    const tournament: Omit<LeagueTournament, "id" | "rounds"> = {
+      leagueId,
+      name: options.name,
+      format: "swiss",
+      numberOfRounds: options.numberOfRounds,
+      participantIds,
+      startDate: Timestamp.fromDate(options.startDate),
+      status: "upcoming",
+      createdBy: auth.currentUser.uid,
+      createdAt: Timestamp.now(),
+      ...(options.endDate && { endDate: Timestamp.fromDate(options.endDate) }),
+      ...(options.seasonId && { seasonId: options.seasonId })
+    };
+    
+    const tournamentRef = await addDoc(collection(db, "leagueTournaments"), tournament);
+    return tournamentRef.id;
+  } catch (error) {
+    console.error("Error creating Swiss tournament:", error);
+    throw error; // Re-throw error for better UI handling
+  }
+};
+
 // Profile image management functions
 export const uploadProfileImage = async (file: File, userId: string): Promise<string> => {
   try {
@@ -2389,9 +2995,12 @@ export const deleteLeagueCompletely = async (leagueId: string): Promise<void> =>
       );
       const tournamentsSnap = await getDocs(tournamentsQuery);
       
-      const tournamentDeletions = tournamentsSnap.docs.map(doc =>
-        deleteDoc(doc.ref)
-      );
+      // Rounds go first - their delete rule looks up the tournament
+      const tournamentDeletions = tournamentsSnap.docs.map(async tournamentDoc => {
+        const roundsSnap = await getDocs(collection(tournamentDoc.ref, "rounds"));
+        await Promise.all(roundsSnap.docs.map(roundDoc => deleteDoc(roundDoc.ref)));
+        await deleteDoc(tournamentDoc.ref);
+      });
       await Promise.all(tournamentDeletions);
       console.log(`Deleted ${tournamentsSnap.docs.length} league tournaments for ${leagueId}`);
     } catch (error) {
@@ -2434,5 +3043,637 @@ export const deleteLeagueCompletely = async (leagueId: string): Promise<void> =>
   }
 };
 
+// Chat on games and leagues, stored in games/{id}/messages and leagues/{id}/messages
+export interface ChatTarget {
+  type: "game" | "league";
+  id: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  senderPhotoURL?: string;
+  text: string; // Emptied when the message is deleted
+  createdAt: Timestamp;
+  deleted?: boolean;
+  deletedBy?: string;
+  deletedAt?: Timestamp;
+}
+
+// Members muted by league moderators, stored in leagues/{id}/mutedUsers/{userId}
+export interface ChatMute {
+  userId: string;
+  mutedBy: string;
+  mutedAt: Timestamp;
+  mutedUntil: Timestamp | null; // null = until unmuted
+}
+
+// Post a message; the server checks membership, mutes and the rate limit
+export const sendChatMessage = async (target: ChatTarget, text: string): Promise<void> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to chat");
+    
+    await sendChatMessageCallable({ targetType: target.type, targetId: target.id, text });
+  } catch (error) {
+    console.error("Error sending chat message:", error);
+    throw error; // Re-throw error for better UI handling
+  }
+};
+
+// Delete a message (your own, or any message as a league moderator)
+export const deleteChatMessage = async (target: ChatTarget, messageId: string): Promise<void> => {
+  try {
+    await moderateChatCallable({ action: "delete", targetType: target.type, targetId: target.id, messageId });
+  } catch (error) {
+    console.error("Error deleting chat message:", error);
+    throw error;
+  }
+};
+
+// Mute a member in the league chat and the chats of the league's games
+export const muteChatUser = async (leagueId: string, mutedUserId: string, minutes?: number): Promise<void> => {
+  try {
+    await moderateChatCallable({ action: "mute", leagueId, mutedUserId, minutes });
+  } catch (error) {
+    console.error("Error muting chat user:", error);
+    throw error;
+  }
+};
+
+export const unmuteChatUser = async (leagueId: string, mutedUserId: string): Promise<void> => {
+  try {
+    await moderateChatCallable({ action: "unmute", leagueId, mutedUserId });
+  } catch (error) {
+    console.error("Error unmuting chat user:", error);
+    throw error;
+  }
+};
+
+// League penalties - issued by league judges through the issuePenalty function
+export interface IssuePenaltyInput {
+  leagueId: string;
+  userId: string;
+  type: PenaltyType;
+  reason: string;
+  gameId?: string;
+  points?: number; // Point deductions
+  days?: number; // Suspensions, left out to suspend until lifted
+  amount?: number; // Fines, in the league's currency
+}
+
+export const issuePenalty = async (input: IssuePenaltyInput): Promise<string> => {
+  try {
+    const result = await issuePenaltyCallable(input);
+    return (result.data as { penaltyId: string }).penaltyId;
+  } catch (error) {
+    console.error("Error issuing penalty:", error);
+    throw error;
+  }
+};
+
+export const liftPenalty = async (penaltyId: string): Promise<void> => {
+  try {
+    await liftPenaltyCallable({ penaltyId });
+  } catch (error) {
+    console.error("Error lifting penalty:", error);
+    throw error;
+  }
+};
+
+// Penalties of a league, newest first, optionally for one member only
+export const getLeaguePenalties = async (leagueId: string, userId?: string): Promise<LeaguePenalty[]> => {
+  try {
+    const penaltiesSnap = await getDocs(query(
+      collection(db, "leaguePenalties"),
+      where("leagueId", "==", leagueId),
+      ...(userId ? [where("userId", "==", userId)] : []),
+      limit(DEFAULT_QUERY_LIMIT)
+    ));
+    return penaltiesSnap.docs
+      .map(penaltyDoc => ({ id: penaltyDoc.id, ...penaltyDoc.data() } as LeaguePenalty))
+      .sort((a, b) => b.issuedAt.toMillis() - a.issuedAt.toMillis());
+  } catch (error) {
+    console.error("Error getting league penalties:", error);
+    throw error;
+  }
+};
+
+// Judge and admin roles - granted and revoked by admins through the setUserRole function
+export interface RoleChange {
+  id: string;
+  userId: string;
+  email: string | null;
+  role: StaffRole;
+  action: "granted" | "revoked";
+  reason: string;
+  changedBy: string;
+  changedAt: Timestamp;
+}
+
+export interface RoleLookup {
+  userId: string;
+  email: string;
+  displayName: string | null;
+  roles: StaffRole[];
+}
+
+export const setUserRole = async (userId: string, role: StaffRole, granted: boolean, reason?: string): Promise<void> => {
+  try {
+    await setUserRoleCallable({ userId, role, granted, reason });
+  } catch (error) {
+    console.error("Error changing user role:", error);
+    throw error;
+  }
+};
+
+export const findUserByEmail = async (email: string): Promise<RoleLookup> => {
+  try {
+    const result = await findUserByEmailCallable({ email });
+    return result.data as RoleLookup;
+  } catch (error) {
+    console.error("Error finding user by email:", error);
+    throw error;
+  }
+};
+
+// Players holding a judge or admin role
+export const getStaffMembers = async (): Promise<UserProfile[]> => {
+  try {
+    const staffSnap = await getDocs(query(
+      collection(db, "users"),
+      where("roles", "array-contains-any", STAFF_ROLES),
+      limit(DEFAULT_QUERY_LIMIT)
+    ));
+    return staffSnap.docs.map(userDoc => ({ ...userDoc.data(), uid: userDoc.id } as UserProfile));
+  } catch (error) {
+    console.error("Error getting judges and admins:", error);
+    throw error;
+  }
+};
+
+// Audit trail of role changes, newest first (admins only)
+export const getRoleChanges = async (maxResults = 50): Promise<RoleChange[]> => {
+  try {
+    const changesSnap = await getDocs(query(
+      collection(db, "roleChanges"),
+      orderBy("changedAt", "desc"),
+      limit(maxResults)
+    ));
+    return changesSnap.docs.map(changeDoc => ({ id: changeDoc.id, ...changeDoc.data() } as RoleChange));
+  } catch (error) {
+    console.error("Error getting role changes:", error);
+    throw error;
+  }
+};
+
+// Game disputes - stored in gameDisputes/{gameId}. Claims are filed through the
+// fileDisputeClaim function and judges settle them through resolveDispute.
+export type DisputeDecision = "uphold_creator" | "uphold_opponent" | "corrected" | "voided";
+
+export interface DisputeClaimInput {
+  scores: { creator: number; opponent: number };
+  comment: string;
+  handId?: string; // Hand the claim is about, for games with a hand ledger
+}
+
+export interface DisputeClaim {
+  scores: { creator: number; opponent: number };
+  comment: string;
+  userId: string | null; // null while the submitted result stands unexplained
+  submittedAt: Timestamp;
+}
+
+export interface GameDispute {
+  id: string; // Same as the game ID
+  gameId: string;
+  leagueId: string | null;
+  players: string[];
+  sides: Record<GameSide, string[]>;
+  pointsToWin: number | null;
+  status: "open" | "resolved";
+  claims: Record<GameSide, DisputeClaim>;
+  handId?: string;
+  handNumber?: number;
+  openedBy: string;
+  openedAt: Timestamp;
+  updatedAt: Timestamp;
+  resolution?: {
+    decision: DisputeDecision;
+    scores: { creator: number; opponent: number } | null; // null when voided
+    note: string;
+    resolvedBy: string;
+    resolvedAt: Timestamp;
+  };
+  history: {
+    action: "opened" | "claim_updated" | "resolved";
+    side?: GameSide;
+    decision?: DisputeDecision;
+    userId: string;
+    at: Timestamp;
+  }[];
+}
+
+// Dispute a submitted result, or restate your side's claim while the dispute is open
+export const fileDisputeClaim = async (gameId: string, claim: DisputeClaimInput): Promise<void> => {
+  try {
+    await fileDisputeClaimCallable({ gameId, ...claim });
+  } catch (error) {
+    console.error("Error filing dispute claim:", error);
+    throw error;
+  }
+};
+
+export const resolveDispute = async (
+  gameId: string,
+  decision: DisputeDecision,
+  note: string,
+  scores?: { creator: number; opponent: number }
+): Promise<void> => {
+  try {
+    await resolveDisputeCallable({ gameId, decision, note, scores });
+  } catch (error) {
+    console.error("Error resolving dispute:", error);
+    throw error;
+  }
+};
+
+export const getGameDispute = async (gameId: string): Promise<GameDispute | null> => {
+  try {
+    const disputeSnap = await getDoc(doc(db, "gameDisputes", gameId));
+    return disputeSnap.exists() ? { id: disputeSnap.id, ...disputeSnap.data() } as GameDispute : null;
+  } catch (error) {
+    console.error("Error getting game dispute:", error);
+    return null;
+  }
+};
+
+// Open disputes the signed-in user can settle, oldest first. Federation judges
+// see every dispute; league owners and judges see those of their leagues.
+export const getOpenDisputes = async (): Promise<GameDispute[]> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) return [];
+
+    const disputesCollection = collection(db, "gameDisputes");
+    let disputeDocs;
+    if (isJudge(user)) {
+      disputeDocs = (await getDocs(query(
+        disputesCollection,
+        where("status", "==", "open"),
+        limit(DEFAULT_QUERY_LIMIT)
+      ))).docs;
+    } else {
+      const [ownedSnap, judgedSnap] = await Promise.all([
+        getDocs(query(collection(db, "leagues"), where("createdBy", "==", user.uid))),
+        getDocs(query(collection(db, "leagues"), where(`memberRoles.${user.uid}`, "==", "judge")))
+      ]);
+      const leagueIds = new Set([...ownedSnap.docs, ...judgedSnap.docs].map(leagueDoc => leagueDoc.id));
+
+      // One query per league so the rules can check the league's judges
+      const leagueSnaps = await Promise.all([...leagueIds].map(leagueId => getDocs(query(
+        disputesCollection,
+        where("leagueId", "==", leagueId),
+        where("status", "==", "open"),
+        limit(DEFAULT_QUERY_LIMIT)
+      ))));
+      disputeDocs = leagueSnaps.flatMap(leagueSnap => leagueSnap.docs);
+    }
+
+    return disputeDocs
+      .map(disputeDoc => ({ id: disputeDoc.id, ...disputeDoc.data() } as GameDispute))
+      // Players never rule on their own game
+      .filter(dispute => !dispute.players.includes(user.uid))
+      .sort((a, b) => a.openedAt.toMillis() - b.openedAt.toMillis());
+  } catch (error) {
+    console.error("Error getting open disputes:", error);
+    throw error;
+  }
+};
+
+// League invitations - league admins invite players found with searchUsers;
+// invitees answer through the respondToLeagueInvitation function
+export interface LeagueInvitationInput {
+  leagueId: string;
+  leagueName: string;
+  invitedUserId: string;
+  role: LeagueMemberRole;
+  expiresInDays?: number; // Left out for invitations that never expire
+  comped: boolean;
+}
+
+export interface LeagueInvitationResponse {
+  membershipId: string | null;
+  paymentRequired: boolean; // The invitee still pays the league fee on the join page
+}
+
+const isInvitationExpired = (invitation: LeagueInvitation): boolean =>
+  !!invitation.expiresAt && invitation.expiresAt.toMillis() <= Date.now();
+
+export const sendLeagueInvitation = async (input: LeagueInvitationInput): Promise<string> => {
+  try {
+    if (!auth.currentUser) throw new Error("You must be logged in to invite players");
+
+    // One open invitation per player and league
+    const existingSnap = await getDocs(query(
+      collection(db, "leagueInvitations"),
+      where("leagueId", "==", input.leagueId),
+      where("invitedUserId", "==", input.invitedUserId),
+      where("status", "==", "pending")
+    ));
+    if (existingSnap.docs.some(invitationDoc => !isInvitationExpired(invitationDoc.data() as LeagueInvitation))) {
+      throw new Error("This player already has a pending invitation");
+    }
+
+    const invitationRef = await addDoc(collection(db, "leagueInvitations"), {
+      leagueId: input.leagueId,
+      leagueName: input.leagueName,
+      invitedBy: auth.currentUser.uid,
+      invitedByName: auth.currentUser.displayName || "A league admin",
+      invitedUserId: input.invitedUserId,
+      invitedAt: serverTimestamp(),
+      status: "pending",
+      role: input.role,
+      comped: input.comped,
+      ...(input.expiresInDays && {
+        expiresAt: Timestamp.fromMillis(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+      })
+    });
+    return invitationRef.id;
+  } catch (error) {
+    console.error("Error sending league invitation:", error);
+    throw error;
+  }
+};
+
+// Pending invitations of a league, newest first (league admins)
+export const getLeagueInvitations = async (leagueId: string): Promise<LeagueInvitation[]> => {
+  try {
+    const invitationsSnap = await getDocs(query(
+      collection(db, "leagueInvitations"),
+      where("leagueId", "==", leagueId),
+      where("status", "==", "pending"),
+      limit(DEFAULT_QUERY_LIMIT)
+    ));
+    return invitationsSnap.docs
+      .map(invitationDoc => ({ id: invitationDoc.id, ...invitationDoc.data() } as LeagueInvitation))
+      .sort((a, b) => (b.invitedAt?.toMillis() || 0) - (a.invitedAt?.toMillis() || 0));
+  } catch (error) {
+    console.error("Error getting league invitations:", error);
+    throw error;
+  }
+};
+
+export const cancelLeagueInvitation = async (invitationId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, "leagueInvitations", invitationId));
+  } catch (error) {
+    console.error("Error canceling league invitation:", error);
+    throw error;
+  }
+};
+
+// League invitations waiting for the signed-in user's answer
+export const getPendingLeagueInvitations = async (): Promise<LeagueInvitation[]> => {
+  try {
+    if (!auth.currentUser) return [];
+
+    const invitationsSnap = await getDocs(query(
+      collection(db, "leagueInvitations"),
+      where("invitedUserId", "==", auth.currentUser.uid),
+      where("status", "==", "pending"),
+      limit(DEFAULT_QUERY_LIMIT)
+    ));
+    return invitationsSnap.docs
+      .map(invitationDoc => ({ id: invitationDoc.id, ...invitationDoc.data() } as LeagueInvitation))
+      .filter(invitation => !isInvitationExpired(invitation));
+  } catch (error) {
+    console.error("Error getting league invitations:", error);
+    return [];
+  }
+};
+
+export const respondToLeagueInvitation = async (
+  invitationId: string,
+  accept: boolean
+): Promise<LeagueInvitationResponse> => {
+  try {
+    const result = await respondToLeagueInvitationCallable({ invitationId, accept });
+    return result.data as LeagueInvitationResponse;
+  } catch (error) {
+    console.error("Error answering league invitation:", error);
+    throw error;
+  }
+};
+
+// Free trials - a priced league's trialPeriodDays of active membership,
+// once per player and league. Paying during the trial starts at its end
+export interface LeagueTrialStart {
+  trialEndsAt: string; // ISO date
+}
+
+export const startLeagueTrial = async (leagueId: string): Promise<LeagueTrialStart> => {
+  try {
+    const result = await startLeagueTrialCallable({ leagueId });
+    return result.data as LeagueTrialStart;
+  } catch (error) {
+    console.error("Error starting league trial:", error);
+    throw error;
+  }
+};
+
+// League subscriptions - recurring Square billing for priced leagues.
+// Square invoices the member monthly and the webhook extends the membership
+export interface LeagueSubscriptionStart {
+  subscriptionId: string;
+  invoiceUrl: string | null; // First invoice to pay, when Square has it ready
+}
+
+export const createLeagueSubscription = async (leagueId: string): Promise<LeagueSubscriptionStart> => {
+  try {
+    const result = await createLeagueSubscriptionCallable({ leagueId });
+    return result.data as LeagueSubscriptionStart;
+  } catch (error) {
+    console.error("Error creating league subscription:", error);
+    throw error;
+  }
+};
+
+// The signed-in user's subscriptions, newest first
+export const getUserSubscriptions = async (): Promise<LeagueSubscription[]> => {
+  try {
+    if (!auth.currentUser) return [];
+
+    const subscriptionsSnap = await getDocs(query(
+      collection(db, "subscriptions"),
+      where("userId", "==", auth.currentUser.uid),
+      limit(DEFAULT_QUERY_LIMIT)
+    ));
+    return subscriptionsSnap.docs
+      .map(subscriptionDoc => ({ id: subscriptionDoc.id, ...subscriptionDoc.data() } as LeagueSubscription))
+      .sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
+  } catch (error) {
+    console.error("Error getting subscriptions:", error);
+    throw error;
+  }
+};
+
+export const setSubscriptionAutoRenew = async (subscriptionId: string, autoRenew: boolean): Promise<void> => {
+  try {
+    await setSubscriptionAutoRenewCallable({ subscriptionId, autoRenew });
+  } catch (error) {
+    console.error("Error changing auto-renew:", error);
+    throw error;
+  }
+};
+
+export const cancelLeagueSubscription = async (subscriptionId: string): Promise<void> => {
+  try {
+    await cancelLeagueSubscriptionCallable({ subscriptionId });
+  } catch (error) {
+    console.error("Error canceling subscription:", error);
+    throw error;
+  }
+};
+
+// Payments are listed newest first, a page at a time; a shorter page is the
+// last one
+export const PAYMENTS_PAGE_SIZE = DEFAULT_QUERY_LIMIT;
+
+// One page of payments whose field matches, after the given payment
+const getPaymentsPage = async (
+  field: "leagueId" | "userId",
+  value: string,
+  after?: LeaguePayment
+): Promise<LeaguePayment[]> => {
+  const paymentsSnap = await getDocs(query(
+    collection(db, "payments"),
+    where(field, "==", value),
+    orderBy("createdAt", "desc"),
+    orderBy(documentId(), "desc"),
+    ...(after ? [startAfter(after.createdAt, after.id)] : []),
+    limit(PAYMENTS_PAGE_SIZE)
+  ));
+  return paymentsSnap.docs
+    .map(paymentDoc => ({ id: paymentDoc.id, ...paymentDoc.data() } as LeaguePayment));
+};
+
+// League payments - recorded by the payment functions and the Square webhook.
+// League owners and judges can refund them through refundLeaguePayment
+export const getLeaguePayments = async (leagueId: string, after?: LeaguePayment): Promise<LeaguePayment[]> => {
+  try {
+    return await getPaymentsPage("leagueId", leagueId, after);
+  } catch (error) {
+    console.error("Error getting league payments:", error);
+    throw error;
+  }
+};
+
+// Every payment of a league, for reports that total them
+export const getAllLeaguePayments = async (leagueId: string): Promise<LeaguePayment[]> => {
+  const payments: LeaguePayment[] = [];
+  let page: LeaguePayment[];
+  do {
+    page = await getLeaguePayments(leagueId, payments[payments.length - 1]);
+    payments.push(...page);
+  } while (page.length === PAYMENTS_PAGE_SIZE);
+  return payments;
+};
+
+// The signed-in user's own payments, newest first
+export const getUserPayments = async (after?: LeaguePayment): Promise<LeaguePayment[]> => {
+  try {
+    if (!auth.currentUser) return [];
+
+    return await getPaymentsPage("userId", auth.currentUser.uid, after);
+  } catch (error) {
+    console.error("Error getting payments:", error);
+    throw error;
+  }
+};
+
+// A single payment, for its receipt; null if missing or not readable
+export const getPaymentById = async (paymentId: string): Promise<LeaguePayment | null> => {
+  try {
+    const paymentSnap = await getDoc(doc(db, "payments", paymentId));
+    return paymentSnap.exists() ? ({ id: paymentSnap.id, ...paymentSnap.data() } as LeaguePayment) : null;
+  } catch (error) {
+    console.error("Error getting payment:", error);
+    return null;
+  }
+};
+
+// Leagues the signed-in user owns, for the treasurer view
+export const getOwnedLeagues = async (): Promise<League[]> => {
+  try {
+    if (!auth.currentUser) return [];
+
+    const leaguesSnap = await getDocs(query(
+      collection(db, "leagues"),
+      where("createdBy", "==", auth.currentUser.uid),
+      limit(DEFAULT_QUERY_LIMIT)
+    ));
+    return leaguesSnap.docs
+      .map(leagueDoc => ({ id: leagueDoc.id, ...leagueDoc.data() } as League))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error getting owned leagues:", error);
+    throw error;
+  }
+};
+
+// All memberships of a league, whatever their status
+export const getLeagueMembers = async (leagueId: string): Promise<LeagueMember[]> => {
+  try {
+    const membersSnap = await getDocs(query(
+      collection(db, "leagueMemberships"),
+      where("leagueId", "==", leagueId)
+    ));
+    return membersSnap.docs.map(memberDoc => ({ id: memberDoc.id, ...memberDoc.data() } as LeagueMember));
+  } catch (error) {
+    console.error("Error getting league members:", error);
+    throw error;
+  }
+};
+
+export interface RefundPaymentInput {
+  paymentId: string;
+  mode: NonNullable<LeaguePaymentRefund["mode"]>;
+  deactivateMembership: boolean;
+  reason?: string;
+}
+
+export interface RefundPaymentResult {
+  amount: number; // Refunded amount, in the payment's currency
+  status: LeaguePaymentRefund["status"];
+}
+
+export const refundLeaguePayment = async (input: RefundPaymentInput): Promise<RefundPaymentResult> => {
+  try {
+    const result = await refundLeaguePaymentCallable(input);
+    return result.data as RefundPaymentResult;
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+    throw error;
+  }
+};
+
+// Role of a user in a league, or null if they are not an active member
+export const getLeagueMemberRole = async (leagueId: string, userId: string): Promise<LeagueMemberRole | null> => {
+  try {
+    const membershipSnap = await getDocs(query(
+      collection(db, "leagueMemberships"),
+      where("leagueId", "==", leagueId),
+      where("userId", "==", userId),
+      where("status", "==", "active"),
+      limit(1)
+    ));
+    return membershipSnap.empty ? null : (membershipSnap.docs[0].data().role as LeagueMemberRole);
+  } catch (error) {
+    console.error("Error getting league member role:", error);
+    return null;
+  }
+};
+
 export { auth, db, storage, functions };
 export default app;
\ No newline at end of file
@@ -5,6 +5,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { 
   getGameConfig, 
+  subscribeToGameConfig,
   GameConfigurationSchema,
   getDefaultGameMode,
   getDefaultPoints,
@@ -83,21 +84,23 @@ export const useGameOptions = () => {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const applyConfig = (config: GameConfigurationSchema) => {
+      setOptions({
+        gameModes: config.gameModes.filter(mode => !mode.deprecated),
+        pointsOptions: config.pointsOptions.filter(option => !option.deprecated),
+        rulesets: config.rulesets.filter(ruleset => !ruleset.deprecated),
+        startingPlayerOptions: config.startingPlayerOptions.filter(option => !option.deprecated),
+        timeLimitOptions: config.timeLimitOptions.filter(option => !option.deprecated),
+        numberOfPlayersOptions: config.numberOfPlayersOptions.filter(option => !option.deprecated)
+      });
+    };
+
     const loadOptions = async () => {
       try {
         setLoading(true);
         setError(null);
         
-        const config = await getGameConfig();
-        
-        setOptions({
-          gameModes: config.gameModes.filter(mode => !mode.deprecated),
-          pointsOptions: config.pointsOptions.filter(option => !option.deprecated),
-          rulesets: config.rulesets.filter(ruleset => !ruleset.deprecated),
-          startingPlayerOptions: config.startingPlayerOptions.filter(option => !option.deprecated),
-          timeLimitOptions: config.timeLimitOptions.filter(option => !option.deprecated),
-          numberOfPlayersOptions: config.numberOfPlayersOptions.filter(option => !option.deprecated)
-        });
+        applyConfig(await getGameConfig());
       } catch (err) {
         console.error('Error loading game options:', err);
         setError('Failed to load game options');
@@ -107,6 +110,9 @@ export const useGameOptions = () => {
     };
 
     loadOptions();
+
+    // Options deprecated or added by a judge show up without a reload
+    return subscribeToGameConfig(applyConfig);
   }, []);
 
   return { options, loading, error };
@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect } from 'react';
-import { getAllLeaguesWithRankings, getAllSeasons } from '../firebase';
+import { getAllLeaguesWithRankings, getAllSeasons, PairRankingEntry, LeagueRankingEntry } from '../firebase';
 import { Season } from '../models/league';
 import { useDataCache } from './useDataCache';
 
@@ -12,7 +12,8 @@ interface LeagueWithRankings {
   status: string;
   currentSeason?: string;
   seasonIds?: string[];
-  rankings: any[];
+  rankings: LeagueRankingEntry[];
+  pairRankings: PairRankingEntry[];
 }
 
 interface UseRankingsReturn {
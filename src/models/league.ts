@@ -8,7 +8,7 @@ export type GameMode = "single" | "double";
 export type LeagueStatus = "active" | "completed" | "upcoming" | "canceled";
 
 // League membership status
-export type MembershipStatus = "active" | "inactive" | "pending" | "banned";
+export type MembershipStatus = "active" | "inactive" | "pending" | "banned" | "suspended";
 
 // League member role
 export type LeagueMemberRole = "player" | "admin" | "judge" | "owner";
@@ -16,6 +16,12 @@ export type LeagueMemberRole = "player" | "admin" | "judge" | "owner";
 // Types of tournaments/events
 export type TournamentFormat = "round-robin" | "elimination" | "swiss" | "custom";
 
+// Tiebreakers applied, in order, to members level on league points
+export type StandingsTiebreak = "head-to-head" | "point-differential" | "points-scored";
+
+// How a game still in progress at its deadline is resolved
+export type TimeoutPolicy = "leader_wins" | "forfeit_inactive" | "abandon";
+
 // Season status
 export type SeasonStatus = "active" | "completed" | "upcoming" | "archived";
 
@@ -58,6 +64,10 @@ export interface League {
   isPublic: boolean;
   photoURL?: string;
   
+  // Current members and their league role, kept in step with their
+  // memberships by the onLeagueMembershipRoleChanged function
+  memberRoles?: Record<string, LeagueMemberRole>;
+  
   // League settings
   settings: LeagueSettings;
   
@@ -98,6 +108,8 @@ export interface LeagueSettings {
     pointsPerDraw?: number;
     pointsPerLoss?: number;
     usePointDifferential: boolean;
+    tiebreakOrder?: StandingsTiebreak[]; // Defaults to head-to-head, differential, points scored
+    countSeriesAsMatch?: boolean; // A best-of series counts as one match instead of one per game
   };
   
   // Tournament settings
@@ -108,6 +120,7 @@ export interface LeagueSettings {
   
   // Rules and penalties
   timeLimit?: number; // in minutes
+  timeoutPolicy?: TimeoutPolicy; // Defaults to "leader_wins"
   penaltiesEnabled: boolean;
 }
 
@@ -131,9 +144,11 @@ export interface LeagueMember {
   role: LeagueMemberRole;
   
   // Payment and subscription info
-  paymentStatus?: 'active' | 'expired' | 'pending' | 'cancelled';
+  paymentStatus?: 'active' | 'expired' | 'pending' | 'cancelled' | 'comped' | 'trial'; // comped = invited without a fee
   subscriptionId?: string;
   membershipExpiresAt?: Timestamp;
+  trialEndsAt?: Timestamp; // Set once the member has started the league's free trial
+  trialReminderSentAt?: Timestamp;
   
   // Player statistics within this league
   stats: LeagueMemberStats;
@@ -146,23 +161,78 @@ export interface LeaguePayment {
   leagueId: string;
   amount: number;
   currency: string;
-  squarePaymentId: string;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
-  type: 'initial' | 'renewal' | 'penalty';
+  squarePaymentId?: string; // Set once Square has charged the payment
+  status: 'pending' | 'completed' | 'failed' | 'refunded' | 'canceled'; // Fines are canceled when lifted
+  // Card payments are initial or renewal; checkout links record
+  // membership_payment and Square subscription invoices subscription_payment
+  type: 'initial' | 'renewal' | 'penalty' | 'membership_payment' | 'subscription_payment';
+  paymentMethod?: 'square_card' | 'square_checkout' | 'square_subscription';
+  penaltyId?: string; // The fine a penalty payment settles
+  squareInvoiceId?: string;
+  squareOrderId?: string; // Order of the invoice, which refunds of it name
+  subscriptionId?: string;
+  receiptUrl?: string;
+  membershipExpiresAt?: Timestamp; // Membership expiry this payment paid up to
   createdAt: Timestamp;
   processedAt?: Timestamp;
+  failureReason?: string; // Shown to the player as is
+  failureCode?: string; // Square error code
+  refund?: LeaguePaymentRefund; // Set once a refund has been requested
+}
+
+// Refund of a membership payment, issued by a league owner or judge through
+// the refundLeaguePayment function and settled by the refund.updated webhook.
+// The payment moves to 'refunded' once Square completes the refund
+export interface LeaguePaymentRefund {
+  amount: number;
+  mode?: 'full' | 'prorated'; // Missing for refunds made in the Square dashboard
+  status: 'pending' | 'completed' | 'failed';
+  reason?: string;
+  squareRefundId?: string;
+  membershipDeactivated: boolean;
+  refundedBy: string; // User ID, or 'square' for dashboard refunds
+  requestedAt: Timestamp;
+  completedAt?: Timestamp;
   failureReason?: string;
 }
 
+export type PenaltyType = "point_deduction" | "warning" | "suspension" | "fine";
+
+// Penalties are issued and lifted by the issuePenalty and liftPenalty
+// functions; fines are settled when their payment completes
+export type PenaltyStatus = "active" | "lifted" | "settled";
+
+// Penalty recorded against a league member
+export interface LeaguePenalty {
+  id: string;
+  leagueId: string;
+  userId: string;
+  type: PenaltyType;
+  reason: string;
+  gameId?: string; // Game the penalty relates to
+  status: PenaltyStatus;
+  points?: number; // League points deducted, for point_deduction
+  suspendedUntil?: Timestamp | null; // End of a suspension; null = until lifted
+  previousStatus?: MembershipStatus; // Membership status restored when a suspension ends
+  amount?: number; // Fine amount
+  currency?: string;
+  paymentId?: string; // Pending penalty payment in the payments collection
+  issuedBy: string;
+  issuedAt: Timestamp;
+  liftedBy?: string;
+  liftedAt?: Timestamp;
+  settledAt?: Timestamp;
+}
+
 // Subscription management
 export interface LeagueSubscription {
   id: string;
   userId: string;
   leagueId: string;
-  status: 'active' | 'expired' | 'cancelled' | 'past_due';
+  status: 'pending' | 'active' | 'expired' | 'cancelled' | 'past_due';
   currentPeriodStart: Timestamp;
   currentPeriodEnd: Timestamp;
-  autoRenew: boolean;
+  autoRenew: boolean; // Off schedules a Square cancellation at the period end
   createdAt: Timestamp;
   updatedAt: Timestamp;
   
@@ -170,6 +240,10 @@ export interface LeagueSubscription {
   paymentHistory: string[]; // Payment IDs
   nextPaymentDate?: Timestamp;
   lastPaymentId?: string;
+
+  // Square recurring billing; one-off checkout payments have none
+  squareSubscriptionId?: string;
+  cancelledAt?: Timestamp;
 }
 
 // League member statistics
@@ -197,8 +271,15 @@ export interface LeagueTournament {
   startDate: Timestamp;
   endDate?: Timestamp;
   format: TournamentFormat;
-  rounds: LeagueRound[];
+  rounds: LeagueRound[]; // Stored as documents in the tournament's rounds subcollection
   status: "upcoming" | "active" | "completed";
+  legs?: 1 | 2; // Round-robin: play everyone once or twice (home and away)
+  hasLosersBracket?: boolean; // Elimination: double elimination with a grand final
+  numberOfRounds?: number; // Swiss: rounds are paired one at a time up to this count
+  participantIds?: string[]; // User IDs or team IDs taking part
+  seasonId?: string;
+  createdBy?: string;
+  createdAt?: Timestamp;
   
   // Results
   standings?: LeagueStanding[];
@@ -213,6 +294,9 @@ export interface LeagueRound {
   startDate?: Timestamp;
   endDate?: Timestamp;
   matches: LeagueMatch[];
+  status?: "scheduled" | "open" | "completed"; // Games are created when the round opens
+  openedAt?: Timestamp;
+  bracket?: "winners" | "losers" | "final"; // Elimination tournaments only
 }
 
 // Match in a league
@@ -223,7 +307,7 @@ export interface LeagueMatch {
   awayId: string; // User ID or team ID
   scheduledTime?: Timestamp;
   location?: string;
-  status: "scheduled" | "in_progress" | "completed" | "canceled";
+  status: "scheduled" | "in_progress" | "completed" | "canceled" | "abandoned";
   
   // Scores
   homeScore?: number;
@@ -232,6 +316,19 @@ export interface LeagueMatch {
   // Confirmation
   confirmedBy?: string[];
   winner?: string; // User ID or team ID
+  
+  // Game created for this match once its round opens
+  gameId?: string;
+  
+  // Elimination bracket wiring - empty home/away IDs are filled as earlier matches finish
+  homeSeed?: number;
+  awaySeed?: number;
+  nextMatchId?: string;
+  nextMatchSlot?: "home" | "away";
+  loserNextMatchId?: string;
+  loserNextMatchSlot?: "home" | "away";
+  isBye?: boolean; // Decided automatically because one side was a bye
+  isWalkover?: boolean; // Awarded by an admin after the game was abandoned
 }
 
 // Team for team-based leagues
@@ -263,18 +360,27 @@ export interface LeagueStanding {
   gamesTied?: number;
   points: number; // League points (not game points)
   pointDifferential: number;
+  
+  // Swiss tiebreaks
+  buchholz?: number; // Sum of the opponents' scores
+  sonnebornBerger?: number; // Scores of beaten opponents plus half of drawn ones
 }
 
 // League invitation
 export interface LeagueInvitation {
   id: string;
   leagueId: string;
+  leagueName: string; // Copied so invitees can see it before joining
   invitedBy: string; // User ID
+  invitedByName: string;
   invitedUserId: string;
   invitedAt: Timestamp;
-  status: "pending" | "accepted" | "declined";
+  status: "pending" | "accepted" | "declined" | "expired";
   role: LeagueMemberRole;
   expiresAt?: Timestamp;
+  comped: boolean; // Accepting skips the league's membership fee
+  respondedAt?: Timestamp; // Set by the respondToLeagueInvitation function
+  membershipId?: string;
 }
 
 // Join request for public leagues
@@ -298,7 +404,7 @@ export interface LeagueGame {
   opponent: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
-  status: "invited" | "accepted" | "rejected" | "in_progress" | "waiting_confirmation" | "completed";
+  status: "invited" | "accepted" | "rejected" | "in_progress" | "waiting_confirmation" | "disputed" | "completed";
   scores?: {
     creator: number;
     opponent: number;
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { getGamePreferences, GamePreferences } from "../utils/gamePreferences";
 import { useGameDefaults, useGameOptions } from "../hooks/useGameConfig";
+import { useGameConfig } from "../config/gameConfig";
 import { useNavigate, Link } from "react-router-dom";
-import { auth, createGame, createTeamGame, searchUsers, isPlayerInActiveGame, GameMode, UserProfile, getAllActiveLeagues } from "../firebase";
+import { auth, createGame, createTeamGame, searchUsers, isPlayerInActiveGame, GameMode, UserProfile, getAllActiveLeagues, SERIES_LENGTHS, getSeriesWinsNeeded } from "../firebase";
 import { ArrowLeftIcon, InformationCircleIcon, ExclamationTriangleIcon, XMarkIcon, UserPlusIcon } from "@heroicons/react/24/solid";
 import { Select } from "../components/select";
 import { getFirestore, collection, query, where, getDocs } from "firebase/firestore";
@@ -19,6 +20,8 @@ const CreateGame: React.FC = () => {
   // Dynamic game configuration hooks
   const { defaults: gameDefaults, loading: defaultsLoading } = useGameDefaults();
   const { options: gameOptions } = useGameOptions();
+  const { config: remoteConfig } = useGameConfig();
+  const spectatorsEnabled = remoteConfig?.features?.allowSpectators !== false;
   
   // Game configuration state - completely dynamic, no hardcoded values
   const [gameConfig, setGameConfig] = useState<{
@@ -29,6 +32,8 @@ const CreateGame: React.FC = () => {
     ruleset: string;
     selectedLeague: string;
     timeLimit?: number; // Optional time limit from league settings
+    bestOf: number; // 1 for a single game, otherwise the length of a series
+    allowSpectators: boolean;
   } | null>(null);
   
   // Initialize game config with user defaults when they load
@@ -43,7 +48,9 @@ const CreateGame: React.FC = () => {
         numberOfPlayers: initialPlayers,
         startingPlayer: "creator", // This could also come from config in the future
         ruleset: gameDefaults.ruleset,
-        selectedLeague: ""
+        selectedLeague: "",
+        bestOf: 1,
+        allowSpectators: false
       });
     }
   }, [gameDefaults, defaultsLoading, gameConfig]);
@@ -274,10 +281,12 @@ const CreateGame: React.FC = () => {
         pointsToWin: selectedLeague.settings.pointsToWin,
         ruleset: leagueRuleset,
         // Apply time limit if set in league
-        ...(selectedLeague.settings.timeLimit && { timeLimit: selectedLeague.settings.timeLimit })
+        timeLimit: selectedLeague.settings.timeLimit || undefined
       } : prev);
       setLeagueSettingsApplied(true);
     } else {
+      // Friendly games have no time limit
+      setGameConfig(prev => prev?.timeLimit ? { ...prev, timeLimit: undefined } : prev);
       setLeagueSettingsApplied(false);
     }
     
@@ -596,7 +605,10 @@ const CreateGame: React.FC = () => {
           startingPlayer: gameConfig.startingPlayer,
           useBoricuaRules: getUseBoricuaRules(),
           ruleset: gameConfig.ruleset,
-          leagueId: gameConfig.selectedLeague || undefined
+          leagueId: gameConfig.selectedLeague || undefined,
+          timeLimit: gameConfig.timeLimit,
+          bestOf: gameConfig.bestOf,
+          allowSpectators: spectatorsEnabled && gameConfig.allowSpectators
         }, teams);
       } else {
         // Traditional head-to-head game
@@ -607,7 +619,10 @@ const CreateGame: React.FC = () => {
           startingPlayer: gameConfig.startingPlayer,
           useBoricuaRules: getUseBoricuaRules(),
           ruleset: gameConfig.ruleset,
-          leagueId: gameConfig.selectedLeague || undefined
+          leagueId: gameConfig.selectedLeague || undefined,
+          timeLimit: gameConfig.timeLimit,
+          bestOf: gameConfig.bestOf,
+          allowSpectators: spectatorsEnabled && gameConfig.allowSpectators
         });
       }
       
@@ -887,13 +902,63 @@ const CreateGame: React.FC = () => {
                     onChange={handleChange}
                     className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
                   >
-                    <option value="creator">Game creator</option>
-                    <option value="opponent">Opponent</option>
-                    <option value="random">Random selection</option>
+                    {(gameOptions?.startingPlayerOptions || []).map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
                   </select>
                 )}
               </div>
               
+              {/* Series - a single game or a best-of series with the same players */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium mb-2">Series</label>
+                {!gameConfig ? (
+                  <div className="w-full h-10 bg-gray-200 dark:bg-zinc-700 rounded-lg animate-pulse" />
+                ) : (
+                  <>
+                    <select
+                      name="bestOf"
+                      value={gameConfig.bestOf}
+                      onChange={(e) => handleOptionChange("bestOf", parseInt(e.target.value))}
+                      className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                    >
+                      {SERIES_LENGTHS.map((length) => (
+                        <option key={length} value={length}>
+                          {length === 1 ? "Single game" : `Best of ${length}`}
+                        </option>
+                      ))}
+                    </select>
+                    {gameConfig.bestOf > 1 && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-zinc-400">
+                        The next game starts automatically after each confirmed result until a side wins {getSeriesWinsNeeded(gameConfig.bestOf)} games.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+              
+              {/* Spectators - only when judges have spectating switched on */}
+              {gameConfig && spectatorsEnabled && (
+                <div className="mb-6">
+                  <label className="flex items-start gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={gameConfig.allowSpectators}
+                      onChange={(e) => handleOptionChange("allowSpectators", e.target.checked)}
+                      className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="font-medium">Allow spectators</span>
+                      <span className="block text-xs text-gray-500 dark:text-zinc-400">
+                        Anyone with the link can watch the score live. Players can change this later.
+                      </span>
+                    </span>
+                  </label>
+                </div>
+              )}
+              
               {/* Rules Variant - Completely Dynamic */}
               <div className="mb-6">
                 <label className="block text-sm font-medium mb-2">
@@ -1382,11 +1447,13 @@ const CreateGame: React.FC = () => {
                       <div>
                         <span className="block text-sm text-gray-500 dark:text-zinc-400">Starting Player</span>
                         <span className="font-medium">
-                          {gameConfig.startingPlayer === "creator" 
-                            ? "Game Creator" 
-                            : gameConfig.startingPlayer === "opponent" 
-                              ? "Opponent" 
-                              : "Random Selection"}
+                          {gameOptions?.startingPlayerOptions.find(o => o.value === gameConfig.startingPlayer)?.label || gameConfig.startingPlayer}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="block text-sm text-gray-500 dark:text-zinc-400">Series</span>
+                        <span className="font-medium">
+                          {gameConfig.bestOf > 1 ? `Best of ${gameConfig.bestOf}` : "Single game"}
                         </span>
                       </div>
                       <div className="col-span-2">
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import {
+  getOpenDisputes,
+  resolveDispute,
+  getUserProfile,
+  getLeagueById,
+  GameDispute,
+  DisputeDecision,
+  GameSide,
+} from "../firebase";
+import { formatClaimScore } from "../utils/disputes";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+
+const SIDES: GameSide[] = ["creator", "opponent"];
+
+interface RulingForm {
+  decision: DisputeDecision;
+  creator: string;
+  opponent: string;
+  note: string;
+}
+
+const DEFAULT_RULING: RulingForm = { decision: "uphold_creator", creator: "", opponent: "", note: "" };
+
+const DisputeQueue: React.FC = () => {
+  const [disputes, setDisputes] = useState<GameDispute[]>([]);
+  const [playerNames, setPlayerNames] = useState<Record<string, string>>({});
+  const [leagueNames, setLeagueNames] = useState<Record<string, string>>({});
+  const [rulings, setRulings] = useState<Record<string, RulingForm>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    try {
+      const openDisputes = await getOpenDisputes();
+      setDisputes(openDisputes);
+
+      const playerIds = [...new Set(openDisputes.flatMap(dispute => dispute.players))];
+      const leagueIds = [...new Set(openDisputes.map(dispute => dispute.leagueId).filter((leagueId): leagueId is string => !!leagueId))];
+      const [profiles, leagues] = await Promise.all([
+        Promise.all(playerIds.map(playerId => getUserProfile(playerId))),
+        Promise.all(leagueIds.map(leagueId => getLeagueById(leagueId)))
+      ]);
+      setPlayerNames(Object.fromEntries(profiles
+        .filter(profile => profile !== null)
+        .map(profile => [profile.uid, profile.displayName])));
+      setLeagueNames(Object.fromEntries(leagues
+        .filter(league => league !== null)
+        .map(league => [league.id, league.name])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load disputes");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const sideName = (dispute: GameDispute, side: GameSide) =>
+    dispute.sides[side].map(playerId => playerNames[playerId] || "Unknown").join(" + ");
+
+  const getRuling = (gameId: string) => rulings[gameId] || DEFAULT_RULING;
+
+  const updateRuling = (gameId: string, changes: Partial<RulingForm>) => {
+    setRulings(prev => ({ ...prev, [gameId]: { ...(prev[gameId] || DEFAULT_RULING), ...changes } }));
+  };
+
+  const handleResolve = async (dispute: GameDispute) => {
+    const ruling = getRuling(dispute.gameId);
+    setSavingId(dispute.gameId);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await resolveDispute(
+        dispute.gameId,
+        ruling.decision,
+        ruling.note.trim(),
+        ruling.decision === "corrected"
+          ? { creator: Number(ruling.creator), opponent: Number(ruling.opponent) }
+          : undefined
+      );
+      setMessage(`Dispute between ${sideName(dispute, "creator")} and ${sideName(dispute, "opponent")} settled.`);
+      setRulings(prev => {
+        const remaining = { ...prev };
+        delete remaining[dispute.gameId];
+        return remaining;
+      });
+      await loadDisputes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to settle the dispute");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-64 w-full items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 max-w-5xl mx-auto space-y-6 text-zinc-900 dark:text-white">
+      <div>
+        <h1 className="text-2xl font-bold">Dispute Queue</h1>
+        <p className="text-sm text-gray-500 dark:text-zinc-400 mt-1">
+          Results the players could not agree on, oldest first. Upholding a claim or correcting the score
+          completes the game and updates player stats; voiding it counts the game for nobody.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 dark:bg-red-900/20">
+          <p className="text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border-l-4 border-green-500 p-4 dark:bg-green-900/20">
+          <p className="text-green-700 dark:text-green-300">{message}</p>
+        </div>
+      )}
+
+      {disputes.length === 0 ? (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-500 dark:text-zinc-400">No open disputes. Nice and quiet.</p>
+          </CardContent>
+        </Card>
+      ) : disputes.map(dispute => {
+        const ruling = getRuling(dispute.gameId);
+        const isSaving = savingId === dispute.gameId;
+        const correctedReady = ruling.creator !== "" && ruling.opponent !== "" && ruling.creator !== ruling.opponent;
+
+        return (
+          <Card key={dispute.id}>
+            <CardHeader>
+              <CardTitle className="text-base flex flex-wrap items-center justify-between gap-2">
+                <span>{sideName(dispute, "creator")} vs {sideName(dispute, "opponent")}</span>
+                <Link to={`/game/${dispute.gameId}`} className="text-sm font-normal text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                  View game
+                </Link>
+              </CardTitle>
+              <p className="text-xs text-gray-500 dark:text-zinc-400">
+                {dispute.leagueId ? leagueNames[dispute.leagueId] || "League game" : "Friendly game"}
+                {dispute.pointsToWin && ` · Played to ${dispute.pointsToWin}`}
+                {dispute.handNumber !== undefined && ` · About hand ${dispute.handNumber}`}
+                {` · Opened ${dispute.openedAt.toDate().toLocaleString()}`}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {SIDES.map(side => {
+                  const claim = dispute.claims[side];
+                  return (
+                    <div key={side} className="p-3 border rounded-md dark:border-zinc-700">
+                      <p className="text-sm font-medium">{sideName(dispute, side)} claim</p>
+                      <p className="text-xl font-bold">{formatClaimScore(claim.scores)}</p>
+                      <p className="text-sm text-gray-600 dark:text-zinc-300 mt-1 break-words">
+                        {claim.comment || "Submitted result, no comment"}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor={`decision-${dispute.id}`}>Ruling</Label>
+                  <select
+                    id={`decision-${dispute.id}`}
+                    value={ruling.decision}
+                    onChange={(e) => updateRuling(dispute.gameId, { decision: e.target.value as DisputeDecision })}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                  >
+                    <option value="uphold_creator">Uphold {sideName(dispute, "creator")}</option>
+                    <option value="uphold_opponent">Uphold {sideName(dispute, "opponent")}</option>
+                    <option value="corrected">Enter a corrected score</option>
+                    <option value="voided">Void the game</option>
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor={`note-${dispute.id}`}>Note to the players</Label>
+                  <Input
+                    id={`note-${dispute.id}`}
+                    value={ruling.note}
+                    maxLength={500}
+                    onChange={(e) => updateRuling(dispute.gameId, { note: e.target.value })}
+                    placeholder="Optional"
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              {ruling.decision === "corrected" && (
+                <div className="grid grid-cols-2 gap-3">
+                  {SIDES.map(side => (
+                    <div key={side}>
+                      <Label htmlFor={`score-${side}-${dispute.id}`}>{sideName(dispute, side)}</Label>
+                      <Input
+                        id={`score-${side}-${dispute.id}`}
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={ruling[side]}
+                        onChange={(e) => updateRuling(dispute.gameId, { [side]: e.target.value })}
+                        className="mt-1"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <Button
+                onClick={() => handleResolve(dispute)}
+                disabled={isSaving || (ruling.decision === "corrected" && !correctedReady)}
+                variant={ruling.decision === "voided" ? "destructive" : "default"}
+              >
+                {isSaving ? "Saving..." : "Settle Dispute"}
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DisputeQueue;
@@ -0,0 +1,363 @@
+import React, { useState, useEffect, useMemo, useCallback, memo } from "react";
+import {
+  useGameConfig,
+  saveGameConfig,
+  validateGameConfig,
+  getVersionBump,
+  bumpVersion,
+  GameConfigurationSchema
+} from "../config/gameConfig";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Checkbox } from "../components/ui/checkbox";
+import { ExclamationTriangleIcon, PlusIcon } from "@heroicons/react/24/solid";
+
+// Option lists judges can edit here
+type EditableListKey = "pointsOptions" | "rulesets" | "timeLimitOptions";
+
+interface EditableOption {
+  value: string | number;
+  label: string;
+  description?: string;
+  isDefault?: boolean;
+  deprecated?: boolean;
+}
+
+type FeatureFlag = Exclude<keyof NonNullable<GameConfigurationSchema["features"]>, "maxPlayersPerGame">;
+
+const FEATURE_FLAGS: { key: FeatureFlag; label: string; description: string }[] = [
+  { key: "enableTimeouts", label: "Time limits", description: "Games can have a deadline and are resolved when it passes" },
+  { key: "allowSpectators", label: "Spectators", description: "Players can let others watch their games live" },
+  { key: "enableChat", label: "Chat", description: "Game and league chat panels" },
+  { key: "enablePenalties", label: "Penalties", description: "League judges can issue penalties" },
+  { key: "allowDraws", label: "Draws", description: "Games can end tied" },
+  { key: "enableConfirmation", label: "Result confirmation", description: "The other side confirms results before they count" }
+];
+
+const cloneConfig = (config: GameConfigurationSchema): GameConfigurationSchema =>
+  JSON.parse(JSON.stringify(config));
+
+// Editable table of one option list
+const OptionListEditor = memo(({
+  title,
+  valueType,
+  valueHint,
+  options,
+  publishedValues,
+  onChange
+}: {
+  title: string;
+  valueType: "number" | "text";
+  valueHint: string;
+  options: EditableOption[];
+  publishedValues: Set<string | number>;
+  onChange: (options: EditableOption[]) => void;
+}) => {
+  const [newValue, setNewValue] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+
+  const updateOption = (index: number, changes: Partial<EditableOption>) => {
+    onChange(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const setDefault = (index: number) => {
+    onChange(options.map((option, i) => ({ ...option, isDefault: i === index })));
+  };
+
+  const addOption = () => {
+    const value = valueType === "number" ? Number(newValue) : newValue.trim();
+    if (newValue.trim() === "" || !newLabel.trim()) return;
+    onChange([...options, { value, label: newLabel.trim(), description: "", isDefault: false }]);
+    setNewValue("");
+    setNewLabel("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {options.map((option, index) => {
+          const isNew = !publishedValues.has(option.value);
+          return (
+            <div
+              key={`${option.value}-${index}`}
+              className={`grid gap-2 rounded-md border p-3 sm:grid-cols-[8rem_1fr_1fr_auto] sm:items-center ${
+                option.deprecated ? "opacity-60" : ""
+              }`}
+            >
+              <div className="font-mono text-sm">
+                {option.value}
+                {isNew && <span className="ml-2 rounded bg-blue-100 px-1.5 py-0.5 text-xs text-blue-800 dark:bg-blue-900 dark:text-blue-200">new</span>}
+                {option.deprecated && <span className="ml-2 rounded bg-gray-200 px-1.5 py-0.5 text-xs text-gray-700 dark:bg-zinc-700 dark:text-gray-300">deprecated</span>}
+              </div>
+              <Input
+                value={option.label}
+                onChange={(e) => updateOption(index, { label: e.target.value })}
+                placeholder="Label"
+              />
+              <Input
+                value={option.description || ""}
+                onChange={(e) => updateOption(index, { description: e.target.value })}
+                placeholder="Description"
+              />
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1 text-sm">
+                  <input
+                    type="radio"
+                    name={`${title}-default`}
+                    checked={!!option.isDefault}
+                    disabled={option.deprecated}
+                    onChange={() => setDefault(index)}
+                  />
+                  Default
+                </label>
+                {isNew ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(options.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={option.isDefault && !option.deprecated}
+                    onClick={() => updateOption(index, { deprecated: !option.deprecated })}
+                  >
+                    {option.deprecated ? "Restore" : "Deprecate"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="grid gap-2 rounded-md border border-dashed p-3 sm:grid-cols-[8rem_1fr_auto] sm:items-center">
+          <Input
+            type={valueType}
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            placeholder={valueHint}
+          />
+          <Input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="Label"
+          />
+          <Button variant="outline" size="sm" onClick={addOption} disabled={!newValue.trim() || !newLabel.trim()}>
+            <PlusIcon className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Published options cannot be removed, only deprecated, so existing games keep their settings.
+        </p>
+      </CardContent>
+    </Card>
+  );
+});
+OptionListEditor.displayName = "OptionListEditor";
+
+const GameConfigAdmin: React.FC = () => {
+  const { config, loading, error } = useGameConfig();
+  const [draft, setDraft] = useState<GameConfigurationSchema | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState("");
+
+  // Follow the published config until the judge starts editing
+  useEffect(() => {
+    if (config && !dirty) {
+      setDraft(cloneConfig(config));
+    }
+  }, [config, dirty]);
+
+  const publishedValues = useMemo(() => ({
+    pointsOptions: new Set<string | number>(config?.pointsOptions.map(option => option.value) || []),
+    rulesets: new Set<string | number>(config?.rulesets.map(option => option.value) || []),
+    timeLimitOptions: new Set<string | number>(config?.timeLimitOptions.map(option => option.value) || [])
+  }), [config]);
+
+  const updateDraft = useCallback((changes: Partial<GameConfigurationSchema>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setDirty(true);
+    setErrors([]);
+    setMessage("");
+  }, []);
+
+  const updateList = useCallback((key: EditableListKey) => (options: EditableOption[]) => {
+    updateDraft({ [key]: options } as Partial<GameConfigurationSchema>);
+  }, [updateDraft]);
+
+  const nextVersion = config && draft && dirty
+    ? bumpVersion(config.version, getVersionBump(config, draft))
+    : null;
+
+  const handleDiscard = () => {
+    setDirty(false);
+    setErrors([]);
+    setMessage("");
+  };
+
+  const handlePublish = async () => {
+    if (!config || !draft) return;
+
+    const validationErrors = validateGameConfig(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    try {
+      setSaving(true);
+      const published = await saveGameConfig(config, draft);
+      setDirty(false);
+      setMessage(`Published version ${published.version}`);
+    } catch (err) {
+      console.error("Error publishing game config:", err);
+      setErrors([err instanceof Error ? err.message : "Failed to publish the game configuration"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !draft || !config) {
+    return (
+      <div className="flex h-64 w-full items-center justify-center">
+        {error ? (
+          <p className="text-red-600">{error}</p>
+        ) : (
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 sm:p-4 lg:p-6 w-full lg:max-w-6xl lg:mx-auto space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Game Configuration</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Version {config.version} · last updated {new Date(config.lastUpdated).toLocaleString()}
+            {nextVersion && <> · publishing as {nextVersion}</>}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleDiscard} disabled={!dirty || saving}>
+            Discard changes
+          </Button>
+          <Button onClick={handlePublish} disabled={!dirty || saving}>
+            {saving ? "Publishing..." : "Publish"}
+          </Button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-900 dark:bg-red-950 dark:text-red-200">
+          <div className="mb-2 flex items-center gap-2 font-medium">
+            <ExclamationTriangleIcon className="h-5 w-5" />
+            Fix these problems before publishing
+          </div>
+          <ul className="list-disc space-y-1 pl-6">
+            {errors.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {message && (
+        <div className="rounded-md border border-green-200 bg-green-50 p-4 text-sm text-green-800 dark:border-green-900 dark:bg-green-950 dark:text-green-200">
+          {message}
+        </div>
+      )}
+
+      <Tabs defaultValue="points">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="points">Points</TabsTrigger>
+          <TabsTrigger value="rulesets">Rulesets</TabsTrigger>
+          <TabsTrigger value="time-limits">Time Limits</TabsTrigger>
+          <TabsTrigger value="features">Features</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="points">
+          <OptionListEditor
+            title="Points Options"
+            valueType="number"
+            valueHint="Points"
+            options={draft.pointsOptions}
+            publishedValues={publishedValues.pointsOptions}
+            onChange={updateList("pointsOptions")}
+          />
+        </TabsContent>
+
+        <TabsContent value="rulesets">
+          <OptionListEditor
+            title="Rulesets"
+            valueType="text"
+            valueHint="ID"
+            options={draft.rulesets}
+            publishedValues={publishedValues.rulesets}
+            onChange={updateList("rulesets")}
+          />
+        </TabsContent>
+
+        <TabsContent value="time-limits">
+          <OptionListEditor
+            title="Time Limits"
+            valueType="number"
+            valueHint="Minutes"
+            options={draft.timeLimitOptions}
+            publishedValues={publishedValues.timeLimitOptions}
+            onChange={updateList("timeLimitOptions")}
+          />
+        </TabsContent>
+
+        <TabsContent value="features">
+          <Card>
+            <CardHeader>
+              <CardTitle>Feature Flags</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {FEATURE_FLAGS.map(({ key, label, description }) => (
+                <Label key={key} className="flex items-start gap-3 rounded-lg border p-3">
+                  <Checkbox
+                    checked={!!draft.features?.[key]}
+                    onCheckedChange={(checked) => updateDraft({
+                      features: { ...draft.features, [key]: !!checked }
+                    })}
+                  />
+                  <div className="grid gap-1.5 font-normal">
+                    <p className="text-sm leading-none font-medium">{label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+                  </div>
+                </Label>
+              ))}
+
+              <div className="max-w-xs">
+                <Label htmlFor="maxPlayersPerGame">Max players per game</Label>
+                <Input
+                  id="maxPlayersPerGame"
+                  type="number"
+                  min={2}
+                  value={draft.features?.maxPlayersPerGame ?? ""}
+                  onChange={(e) => updateDraft({
+                    features: { ...draft.features, maxPlayersPerGame: Number(e.target.value) }
+                  })}
+                  className="mt-1"
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default GameConfigAdmin;
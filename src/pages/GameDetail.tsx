@@ -4,18 +4,29 @@ import {
   auth, 
   getGameById, 
   getUserProfile, 
-  submitGameScore, 
+  recordGameHand, 
   confirmGameResult, 
+  canConfirmGame,
+  getGameSide,
   acceptGameInvitation,
   rejectGameInvitation,
   startGame,
+  declareHighestDouble,
+  setGameSpectators,
+  getGamePlayers,
   getLeagueById,
+  getLeagueMemberRole,
   getUserLeaguesWithRanking
 } from "../firebase";
-import { useGameModeInfo, usePointsInfo, useRulesetInfo } from "../hooks/useGameConfig";
-import { getFirestore, doc, onSnapshot } from "firebase/firestore";
-import type { Game, UserProfile } from "../firebase";
+import { canModerateLeague, canJudgeLeague, isJudge } from "../utils/auth";
+import { useGameModeInfo, usePointsInfo, useRulesetInfo, useStartingPlayerInfo } from "../hooks/useGameConfig";
+import { useGameConfig } from "../config/gameConfig";
+import { getFirestore, doc, onSnapshot, collection, query, orderBy, Timestamp } from "firebase/firestore";
+import type { Game, GameHand, GameSide, GameDispute, HandOutcome, UserProfile, StartingPlayerResolution, Series } from "../firebase";
+import type { LeagueMemberRole } from "../models/league";
 import UserProfileModal, { useUserProfileModal } from "../components/UserProfileModal";
+import ChatPanel from "../components/ChatPanel";
+import GameDisputeCard from "../components/GameDisputeCard";
 import { Avatar } from "../components/avatar";
 import {
   Card,
@@ -95,10 +106,234 @@ const RulesetDisplay = memo<{ useBoricuaRules: boolean }>(({ useBoricuaRules })
   );
 });
 
+// Format a remaining duration as h:mm:ss or m:ss
+const formatTimeLeft = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+// Countdown to the deadline of a game with a time limit
+const GameCountdown = memo<{ deadline: Timestamp; timeLimit?: number }>(({ deadline, timeLimit }) => {
+  const { config } = useGameConfig();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Deadlines are not enforced while time limits are switched off
+  if (config?.features?.enableTimeouts === false) return null;
+
+  const remaining = deadline.toMillis() - now;
+  const urgent = remaining < 5 * 60 * 1000;
+
+  return (
+    <div className={`p-3 rounded-md border ${
+      urgent
+        ? "bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-900"
+        : "bg-gray-50 border-transparent dark:bg-zinc-700"
+    }`}>
+      <p className="text-sm text-gray-500 dark:text-zinc-400">
+        Time Left{timeLimit ? ` (${timeLimit} minute limit)` : ""}
+      </p>
+      {remaining > 0 ? (
+        <p className={`font-mono text-lg font-medium ${urgent ? "text-red-600 dark:text-red-400" : ""}`}>
+          {formatTimeLeft(remaining)}
+        </p>
+      ) : (
+        <p className="font-medium text-red-600 dark:text-red-400">
+          Time's up - the game will be resolved by the league's time limit policy shortly
+        </p>
+      )}
+    </div>
+  );
+});
+
+// Doubles in a double-six set, highest first
+// Live score of the best-of series a game belongs to
+const SeriesBanner = memo<{
+  seriesId: string;
+  gameId: string;
+  gameNumber?: number;
+  teamNames: { team1: string; team2: string };
+}>(({ seriesId, gameId, gameNumber, teamNames }) => {
+  const [series, setSeries] = useState<Series | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(getFirestore(), "series", seriesId), (seriesSnap) => {
+      setSeries(seriesSnap.exists() ? { id: seriesSnap.id, ...seriesSnap.data() } as Series : null);
+    }, (error) => {
+      console.error("Error listening to series updates:", error);
+    });
+    return () => unsubscribe();
+  }, [seriesId]);
+
+  if (!series) return null;
+
+  const winnerName = series.winningSide === "creator" ? teamNames.team1 : teamNames.team2;
+
+  return (
+    <div className="p-3 rounded-md border border-indigo-200 bg-indigo-50 dark:border-indigo-900 dark:bg-indigo-900/20">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-indigo-700 dark:text-indigo-300">
+          Game {gameNumber || 1} of a best of {series.bestOf} series
+        </p>
+        <p className="font-medium">
+          {teamNames.team1} {series.score.creator} - {series.score.opponent} {teamNames.team2}
+        </p>
+      </div>
+      {series.status === "completed" && (
+        <p className="mt-1 text-sm font-medium text-indigo-700 dark:text-indigo-300">
+          {winnerName} won the series {Math.max(series.score.creator, series.score.opponent)}-{Math.min(series.score.creator, series.score.opponent)}
+        </p>
+      )}
+      {series.status === "abandoned" && (
+        <p className="mt-1 text-sm text-red-600 dark:text-red-400">The series ended with an abandoned game</p>
+      )}
+      {series.status === "canceled" && (
+        <p className="mt-1 text-sm text-red-600 dark:text-red-400">The series was canceled</p>
+      )}
+      {series.status === "in_progress" && series.currentGameId !== gameId && (
+        <Link
+          to={`/game/${series.currentGameId}`}
+          className="mt-1 inline-block text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400"
+        >
+          Go to game {series.gameIds.length} →
+        </Link>
+      )}
+    </div>
+  );
+});
+
+// Players open a game to spectators and share its public /watch link
+const SpectatorAccess = memo<{ gameId: string; allowSpectators: boolean }>(({ gameId, allowSpectators }) => {
+  const { config } = useGameConfig();
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Judges can switch spectating off for every game
+  if (config?.features?.allowSpectators === false) return null;
+
+  // Keep the base path of the current page (GitHub Pages deploys under a subpath)
+  const watchUrl = window.location.href.replace(/\/game\/.*$/, `/watch/${gameId}`);
+
+  const handleToggle = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await setGameSpectators(gameId, !allowSpectators);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not update spectator access");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(watchUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Error copying spectator link:", err);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-zinc-700 rounded-md">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-sm text-gray-500 dark:text-zinc-400">Spectators</p>
+          <p className="font-medium">
+            {allowSpectators ? "Anyone with the link can watch" : "Only players can see this game"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {allowSpectators && (
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-zinc-500 hover:bg-gray-100 dark:hover:bg-zinc-600"
+            >
+              {copied ? "Copied!" : "Copy link"}
+            </button>
+          )}
+          <button
+            onClick={handleToggle}
+            disabled={saving}
+            className="px-3 py-1 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {allowSpectators ? "Stop sharing" : "Allow spectators"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+});
+
+const DOUBLE_NAMES = ["blank", "one", "two", "three", "four", "five", "six"];
+const formatDouble = (pips: number) => `Double ${DOUBLE_NAMES[pips]}`;
+
+// Component to display the starting player option and how it was resolved
+const StartingPlayerDisplay = memo<{
+  startingPlayer: string;
+  resolution?: StartingPlayerResolution;
+  getPlayerName: (userId: string) => string;
+}>(({ startingPlayer, resolution, getPlayerName }) => {
+  const startingPlayerInfo = useStartingPlayerInfo(startingPlayer);
+
+  const getResolutionDetail = () => {
+    if (!resolution) return null;
+    switch (resolution.method) {
+      case "random":
+        return `Drawn at random from ${resolution.candidates?.length || 0} players`;
+      case "winner_previous":
+        return "Won the previous game between these players";
+      case "highest_double":
+        return resolution.highestDouble !== undefined
+          ? `Held the highest double (${formatDouble(resolution.highestDouble)})`
+          : "Held the highest double";
+      default:
+        return startingPlayerInfo?.description;
+    }
+  };
+
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-zinc-700 rounded-md">
+      <p className="text-sm text-gray-500 dark:text-zinc-400">Starting Player</p>
+      <p className="font-medium">
+        {resolution ? getPlayerName(resolution.playerId) : startingPlayerInfo?.label || startingPlayer}
+      </p>
+      {resolution ? (
+        <p className="text-xs text-gray-400 dark:text-zinc-500 mt-1">
+          {startingPlayerInfo?.label || resolution.option}: {getResolutionDetail()}
+          {resolution.fallbackReason && ` (${resolution.fallbackReason.toLowerCase()}, so a random draw was used)`}
+          {resolution.resolvedAt && ` · ${resolution.resolvedAt.toDate().toLocaleString()}`}
+        </p>
+      ) : startingPlayerInfo?.description && (
+        <p className="text-xs text-gray-400 dark:text-zinc-500 mt-1">
+          {startingPlayerInfo.description}
+        </p>
+      )}
+    </div>
+  );
+});
+
 // Add display names for debugging
 GameModeDisplay.displayName = 'GameModeDisplay';
+StartingPlayerDisplay.displayName = 'StartingPlayerDisplay';
 PointsDisplay.displayName = 'PointsDisplay';
 RulesetDisplay.displayName = 'RulesetDisplay';
+GameCountdown.displayName = 'GameCountdown';
+SeriesBanner.displayName = 'SeriesBanner';
+SpectatorAccess.displayName = 'SpectatorAccess';
 
 const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
   const { id } = useParams<{ id: string }>();
@@ -112,19 +347,30 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
     // Team game participants
     team1Players: [] as UserProfile[],
     team2Players: [] as UserProfile[],
-    leagueInfo: null as {id: string, name: string, photoURL?: string} | null,
+    leagueInfo: null as {id: string, name: string, photoURL?: string, createdBy?: string} | null,
     loading: true,
     error: null as string | null,
   });
   
   const [scoreState, setScoreState] = useState({
-    creatorScore: 0,
-    opponentScore: 0,
     isSubmitting: false,
   });
   
+  // Hand ledger for the running tally
+  const [hands, setHands] = useState<GameHand[]>([]);
+  const [handForm, setHandForm] = useState({
+    outcome: "domino" as HandOutcome,
+    winningSide: "creator" as GameSide | null,
+    points: 0,
+  });
+  
   const [uiState, setUiState] = useState({
     rejectionReason: "",
+    disputedHandId: "",
+    disputeComment: "",
+    claimedCreatorScore: "",
+    claimedOpponentScore: "",
+    declaredDouble: "6",
   });
 
   // Use the user profile modal hook
@@ -132,8 +378,35 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
 
   // Destructure for cleaner access
   const { game, creator, opponent, team1Players, team2Players, leagueInfo, loading, error } = gameState;
-  const { creatorScore, opponentScore, isSubmitting } = scoreState;
-  const { rejectionReason } = uiState;
+  const { isSubmitting } = scoreState;
+  const { rejectionReason, disputedHandId, disputeComment, claimedCreatorScore, claimedOpponentScore, declaredDouble } = uiState;
+
+  // League moderators can delete messages and mute players in league games
+  const [leagueRole, setLeagueRole] = useState<LeagueMemberRole | null>(null);
+  useEffect(() => {
+    const user = auth.currentUser;
+    if (!game?.leagueId || !user) {
+      setLeagueRole(null);
+      return;
+    }
+    getLeagueMemberRole(game.leagueId, user.uid).then(setLeagueRole);
+  }, [game?.leagueId]);
+  const canModerateChat = !!game?.leagueId && canModerateLeague(auth.currentUser, undefined, leagueRole);
+
+  // Both claims and the judge's ruling for games that went to a dispute
+  const [dispute, setDispute] = useState<GameDispute | null>(null);
+  useEffect(() => {
+    if (!id || !game?.hasDispute) {
+      setDispute(null);
+      return;
+    }
+    const unsubscribe = onSnapshot(doc(getFirestore(), "gameDisputes", id), (disputeSnap) => {
+      setDispute(disputeSnap.exists() ? { id: disputeSnap.id, ...disputeSnap.data() } as GameDispute : null);
+    }, (err) => {
+      console.error("Error listening to the game dispute:", err);
+    });
+    return () => unsubscribe();
+  }, [id, game?.hasDispute]);
 
   // Helper functions for team games
   const getActivePlayerName = useCallback(() => {
@@ -177,6 +450,12 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
     }
   }, [game, creator, opponent, team1Players, team2Players]);
 
+  // Resolve a participant's display name by user ID
+  const getPlayerName = useCallback((userId: string) => {
+    const players = [creator, opponent, ...team1Players, ...team2Players];
+    return players.find(p => p?.uid === userId)?.displayName || "Unknown";
+  }, [creator, opponent, team1Players, team2Players]);
+
   // Check if current user is part of this game (works for both traditional and team games)
   const isParticipant = useCallback(() => {
     if (!game || !auth.currentUser) return false;
@@ -229,19 +508,6 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
     return false;
   }, [game]);
   
-  // Check if it's current user's turn to submit scores
-  const canSubmitScores = useCallback(() => {
-    if (!game || !auth.currentUser) return false;
-    
-    // Only the player who's currently active can submit scores
-    if (game.status === "in_progress" && game.activePlayer) {
-      return game.activePlayer === auth.currentUser.uid;
-    }
-    
-    // If no activePlayer is set, only the creator can submit scores
-    return isCreator();
-  }, [game, isCreator]);
-
   // Check if this is an invitation waiting for the current user to accept/reject
   const isPendingInvitation = useCallback(() => {
     if (!game || !auth.currentUser) return false;
@@ -269,7 +535,7 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
   // Check if user needs to confirm the game
   const needsConfirmation = useCallback(() => {
     if (!game || !auth.currentUser) return false;
-    return game.status === "waiting_confirmation" && game.confirmedBy === auth.currentUser.uid;
+    return canConfirmGame(game, auth.currentUser.uid);
   }, [game]);
 
   // Optimized batch data loading function
@@ -322,7 +588,8 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
         const leagueInfo = league ? {
           id: league.id,
           name: league.name,
-          photoURL: league.photoURL
+          photoURL: league.photoURL,
+          createdBy: league.createdBy
         } : null;
 
         // Update state for team game
@@ -353,7 +620,8 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
         const leagueInfo = league ? {
           id: league.id,
           name: league.name,
-          photoURL: league.photoURL
+          photoURL: league.photoURL,
+          createdBy: league.createdBy
         } : null;
 
         // Update all state at once
@@ -368,15 +636,6 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
           error: null,
         });
       }
-
-      // Initialize scores if they exist
-      if (gameData.scores) {
-        setScoreState(prev => ({
-          ...prev,
-          creatorScore: gameData.scores?.creator || 0,
-          opponentScore: gameData.scores?.opponent || 0,
-        }));
-      }
     } catch (err) {
       console.error("Error loading game:", err);
       setGameState(prev => ({ 
@@ -414,24 +673,24 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
         clearTimeout(timeoutId);
         timeoutId = setTimeout(() => {
           setGameState(prev => ({ ...prev, game: gameData }));
-          
-          // Update scores if they exist
-          if (gameData.scores) {
-            setScoreState(prev => ({
-              ...prev,
-              creatorScore: gameData.scores.creator,
-              opponentScore: gameData.scores.opponent,
-            }));
-          }
         }, 100); // 100ms debounce
       }
     }, (error) => {
       console.error("Error listening to game updates:", error);
     });
     
-    // Clean up listener and timeout on unmount
+    // Real-time listener for the hand ledger
+    const handsQuery = query(collection(db, "games", id, "hands"), orderBy("handNumber", "asc"));
+    const unsubscribeHands = onSnapshot(handsQuery, (handsSnapshot) => {
+      setHands(handsSnapshot.docs.map(handDoc => ({ id: handDoc.id, ...handDoc.data() } as GameHand)));
+    }, (error) => {
+      console.error("Error listening to game hands:", error);
+    });
+    
+    // Clean up listeners and timeout on unmount
     return () => {
       unsubscribe();
+      unsubscribeHands();
       clearTimeout(timeoutId);
     };
   }, [id, loadGameData]);
@@ -536,34 +795,35 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
     }
   }, [id, isAccepted, refreshNotifications]);
 
-  // Handle score submission
-  const handleScoreSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!id || !isParticipant() || !game) {
-      setGameState(prev => ({ ...prev, error: "You cannot submit scores for this game" }));
-      return;
-    }
-    
-    // Check if it's this player's turn to submit scores
-    if (!canSubmitScores()) {
-      setGameState(prev => ({ ...prev, error: "It's not your turn to submit scores" }));
-      return;
-    }
+  // Handle declaring the highest double before a highest_double game starts
+  const handleDeclareDouble = useCallback(async () => {
+    if (!id) return;
 
-    // Validate scores
-    if (creatorScore < 0 || opponentScore < 0) {
-      setGameState(prev => ({ ...prev, error: "Scores cannot be negative" }));
-      return;
-    }
-    
-    // Make sure one player has reached the winning score
-    const maxScore = Math.max(creatorScore, opponentScore);
-    if (maxScore < game.settings.pointsToWin) {
+    try {
+      setScoreState(prev => ({ ...prev, isSubmitting: true }));
+      setGameState(prev => ({ ...prev, error: null }));
+
+      const updatedGame = await declareHighestDouble(id, declaredDouble === "none" ? null : Number(declaredDouble));
+      if (updatedGame) {
+        setGameState(prev => ({ ...prev, game: updatedGame }));
+      }
+    } catch (err) {
+      console.error("Error declaring highest double:", err);
       setGameState(prev => ({ 
         ...prev, 
-        error: `At least one player must reach ${game.settings.pointsToWin} points to end the game` 
+        error: err instanceof Error ? err.message : "An error occurred while declaring your double" 
       }));
+    } finally {
+      setScoreState(prev => ({ ...prev, isSubmitting: false }));
+    }
+  }, [id, declaredDouble]);
+
+  // Handle recording a hand
+  const handleHandSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!id || !isParticipant() || !game) {
+      setGameState(prev => ({ ...prev, error: "You cannot record hands for this game" }));
       return;
     }
 
@@ -571,27 +831,28 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
       setScoreState(prev => ({ ...prev, isSubmitting: true }));
       setGameState(prev => ({ ...prev, error: null }));
 
-      const updatedGame = await submitGameScore(id, creatorScore, opponentScore);
+      const updatedGame = await recordGameHand(id, handForm);
       
       if (updatedGame) {
         setGameState(prev => ({ ...prev, game: updatedGame }));
-        // Refresh notifications when scores are submitted
-        if (refreshNotifications) {
+        setHandForm(prev => ({ ...prev, points: 0 }));
+        // Refresh notifications when the hand finishes the game
+        if (refreshNotifications && updatedGame.status === "waiting_confirmation") {
           refreshNotifications();
         }
       } else {
-        setGameState(prev => ({ ...prev, error: "Failed to submit scores" }));
+        setGameState(prev => ({ ...prev, error: "Failed to record hand" }));
       }
     } catch (err: any) {
-      console.error("Error submitting scores:", err);
+      console.error("Error recording hand:", err);
       setGameState(prev => ({ 
         ...prev, 
-        error: err.message || "An error occurred while submitting scores" 
+        error: err.message || "An error occurred while recording the hand" 
       }));
     } finally {
       setScoreState(prev => ({ ...prev, isSubmitting: false }));
     }
-  }, [id, isParticipant, game, canSubmitScores, creatorScore, opponentScore, refreshNotifications]);
+  }, [id, isParticipant, game, handForm, refreshNotifications]);
 
   // Handle game confirmation
   const handleConfirmation = useCallback(async (isConfirmed: boolean) => {
@@ -604,10 +865,23 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
       setScoreState(prev => ({ ...prev, isSubmitting: true }));
       setGameState(prev => ({ ...prev, error: null }));
 
-      const updatedGame = await confirmGameResult(id, isConfirmed);
+      // A dispute carries the score this side claims and goes to a judge
+      const dispute = isConfirmed ? undefined : {
+        scores: { creator: Number(claimedCreatorScore), opponent: Number(claimedOpponentScore) },
+        comment: disputeComment,
+        ...(disputedHandId && { handId: disputedHandId })
+      };
+      const updatedGame = await confirmGameResult(id, isConfirmed, dispute);
       
       if (updatedGame) {
         setGameState(prev => ({ ...prev, game: updatedGame }));
+        setUiState(prev => ({
+          ...prev,
+          disputedHandId: "",
+          disputeComment: "",
+          claimedCreatorScore: "",
+          claimedOpponentScore: ""
+        }));
         // Refresh notifications when game is confirmed
         if (refreshNotifications) {
           refreshNotifications();
@@ -627,7 +901,7 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
     } finally {
       setScoreState(prev => ({ ...prev, isSubmitting: false }));
     }
-  }, [id, needsConfirmation, game, refreshNotifications]);
+  }, [id, needsConfirmation, game, disputedHandId, disputeComment, claimedCreatorScore, claimedOpponentScore, refreshNotifications]);
 
   // Memoized calculations for better performance
   const gameStatus = useMemo(() => {
@@ -637,25 +911,43 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
       isParticipant: isParticipant(),
       isCreator: isCreator(),
       isOpponent: isOpponent(),
-      canSubmitScores: canSubmitScores(),
       isPendingInvitation: isPendingInvitation(),
       isSentInvitation: isSentInvitation(),
       isAccepted: isAccepted(),
       isCurrentUserTurn: isCurrentUserTurn(),
       needsConfirmation: needsConfirmation(),
     };
-  }, [game, isParticipant, isCreator, isOpponent, canSubmitScores, isPendingInvitation, isSentInvitation, isAccepted, isCurrentUserTurn, needsConfirmation]);
+  }, [game, isParticipant, isCreator, isOpponent, isPendingInvitation, isSentInvitation, isAccepted, isCurrentUserTurn, needsConfirmation]);
+
+  // A dispute needs a claimed score with a winner and a comment for the judge
+  const canDispute = claimedCreatorScore !== "" && claimedOpponentScore !== "" &&
+    claimedCreatorScore !== claimedOpponentScore && !!disputeComment.trim();
+
+  // Judges who did not play this game can settle its dispute
+  const canJudgeGame = !!game && !isParticipant() && (game.leagueId
+    ? canJudgeLeague(auth.currentUser, leagueInfo?.createdBy || "", leagueRole)
+    : isJudge(auth.currentUser));
 
-  // Memoized score validation
-  const scoreValidation = useMemo(() => {
-    if (!game) return { isValid: false, canSubmit: false };
+  // Running tally after each hand (disputed hands do not count)
+  const handLedger = useMemo(() => {
+    let creatorTotal = 0;
+    let opponentTotal = 0;
     
-    const maxScore = Math.max(creatorScore, opponentScore);
-    const isValid = creatorScore >= 0 && opponentScore >= 0;
-    const canSubmit = isValid && maxScore >= game.settings.pointsToWin;
+    return hands.map(hand => {
+      if (!hand.disputed && hand.winningSide === "creator") creatorTotal += hand.points;
+      if (!hand.disputed && hand.winningSide === "opponent") opponentTotal += hand.points;
+      return { hand, creatorTotal, opponentTotal };
+    });
+  }, [hands]);
+
+  // Memoized hand validation
+  const handValidation = useMemo(() => {
+    const validPoints = Number.isInteger(handForm.points) && handForm.points >= 0;
+    const hasWinner = handForm.winningSide !== null;
+    const canSubmit = validPoints && (hasWinner || (handForm.outcome === "tranque" && handForm.points === 0));
     
-    return { isValid, canSubmit, maxScore };
-  }, [game, creatorScore, opponentScore]);
+    return { canSubmit };
+  }, [handForm]);
 
   // Profile modal handlers - now simplified
   const handleUserClick = useCallback((user: UserProfile) => {
@@ -720,14 +1012,18 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
             ${game.status === "rejected" ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" : ""}
             ${game.status === "in_progress" ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100" : ""}
             ${game.status === "waiting_confirmation" ? "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100" : ""}
+            ${game.status === "disputed" ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" : ""}
             ${game.status === "completed" ? "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100" : ""}
+            ${game.status === "abandoned" ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" : ""}
           `}>
             {game.status === "invited" && "Invitation Pending"}
             {game.status === "accepted" && "Ready to Play"}
             {game.status === "rejected" && "Invitation Rejected"}
             {game.status === "in_progress" && "In Progress"}
             {game.status === "waiting_confirmation" && "Waiting for Confirmation"}
+            {game.status === "disputed" && "Disputed"}
             {game.status === "completed" && "Completed"}
+            {game.status === "abandoned" && "Abandoned"}
           </span>
           
           {game.status === "in_progress" && game.activePlayer && (
@@ -737,12 +1033,58 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
           )}
         </div>
 
+        {/* Best-of series */}
+        {game.seriesId && game.id && (
+          <div className="mb-4 sm:mb-6">
+            <SeriesBanner
+              seriesId={game.seriesId}
+              gameId={game.id}
+              gameNumber={game.seriesGameNumber}
+              teamNames={getTeamDisplayNames()}
+            />
+          </div>
+        )}
+
+        {/* Time limit */}
+        {game.status === "in_progress" && game.deadline && (
+          <div className="mb-4 sm:mb-6">
+            <GameCountdown deadline={game.deadline} timeLimit={game.settings.timeLimit} />
+          </div>
+        )}
+
+        {/* How an overdue game was resolved */}
+        {game.timeout && (
+          <div className="mb-4 sm:mb-6 p-3 rounded-md border border-amber-200 bg-amber-50 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-900/20 dark:text-amber-200">
+            <p className="font-medium">Time limit reached</p>
+            <p>
+              {game.timeout.outcome === "leader_wins" &&
+                `${getTeamDisplayNames()[game.timeout.scoresAtDeadline.creator > game.timeout.scoresAtDeadline.opponent ? "team1" : "team2"]} led at the deadline and won the game.`}
+              {game.timeout.outcome === "forfeit" && game.timeout.forfeitedBy &&
+                `${getTeamDisplayNames()[game.timeout.forfeitedBy === "creator" ? "team1" : "team2"]} stopped recording hands and forfeited the game.`}
+              {game.timeout.outcome === "abandoned" &&
+                "The game had no clear result at the deadline and was marked as abandoned."}
+            </p>
+            <p className="text-xs mt-1">
+              Score at the deadline: {game.timeout.scoresAtDeadline.creator} - {game.timeout.scoresAtDeadline.opponent}
+            </p>
+          </div>
+        )}
+
         {/* Game Information */}
         <div className="mb-6 space-y-4">
           <GameModeDisplay gameMode={game.settings.gameMode} />
           <PointsDisplay points={game.settings.pointsToWin} />
+          <StartingPlayerDisplay
+            startingPlayer={game.settings.startingPlayer || "creator"}
+            resolution={game.startingPlayerResolution}
+            getPlayerName={getPlayerName}
+          />
           <RulesetDisplay useBoricuaRules={game.settings.useBoricuaRules || false} />
           
+          {game.id && isParticipant() && (
+            <SpectatorAccess gameId={game.id} allowSpectators={game.allowSpectators || false} />
+          )}
+          
           {/* Game Date */}
           <div className="p-3 bg-gray-50 dark:bg-zinc-700 rounded-md">
             <p className="text-sm text-gray-500 dark:text-zinc-400">Created</p>
@@ -1023,10 +1365,51 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
               <p className="mb-3">
                 Both players have accepted! You're ready to start the game.
               </p>
+
+              {/* Highest double declarations decide who starts */}
+              {game.settings.startingPlayer === "highest_double" && (
+                <div className="mb-3 space-y-2 text-sm">
+                  <p>Draw your tiles, then declare the highest double in your hand. The highest double starts.</p>
+                  <ul className="space-y-1">
+                    {getGamePlayers(game).map(playerId => {
+                      const declared = game.highestDoubles?.[playerId];
+                      return (
+                        <li key={playerId} className="flex justify-between">
+                          <span>{getPlayerName(playerId)}</span>
+                          <span className="text-gray-600 dark:text-zinc-300">
+                            {declared === undefined ? "Waiting..." : declared === null ? "No double" : formatDouble(declared)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  <div className="flex gap-2">
+                    <select
+                      value={declaredDouble}
+                      onChange={(e) => setUiState(prev => ({ ...prev, declaredDouble: e.target.value }))}
+                      className="flex-1 p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                    >
+                      {[6, 5, 4, 3, 2, 1, 0].map(pips => (
+                        <option key={pips} value={pips}>{formatDouble(pips)}</option>
+                      ))}
+                      <option value="none">No double</option>
+                    </select>
+                    <button
+                      onClick={handleDeclareDouble}
+                      disabled={isSubmitting}
+                      className="px-4 py-2 rounded-md font-medium bg-gray-200 hover:bg-gray-300 dark:bg-zinc-600 dark:hover:bg-zinc-500 disabled:opacity-50"
+                    >
+                      Declare
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <button
                 onClick={handleStartGame}
-                disabled={isSubmitting}
-                className={`w-full py-2 rounded-md font-medium ${
+                disabled={isSubmitting || (game.settings.startingPlayer === "highest_double" &&
+                  getGamePlayers(game).some(playerId => game.highestDoubles?.[playerId] === undefined))}
+                className={`w-full py-2 rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
                   isSubmitting
                     ? "bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-zinc-700 dark:text-zinc-400"
                     : "bg-blue-600 text-white hover:bg-blue-700"
@@ -1055,68 +1438,143 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
           </div>
         )}
         
-        {/* Score Submission - Only show if game is in progress and it's user's turn to submit scores */}
-        {game.status === "in_progress" && gameStatus?.isParticipant && (
+        {/* Hand Ledger - running tally of every hand (mano) played */}
+        {(game.status === "in_progress" || hands.length > 0) && (
           <div className="mb-6">
-            <h2 className="text-lg font-semibold mb-3">Submit Final Scores</h2>
-            
-            {!gameStatus?.canSubmitScores ? (
-              <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-900 rounded-md mb-4">
-                <p>It's not your turn to submit scores. Wait for the active player to finish their turn.</p>
-                <p className="mt-2 text-sm">
-                  Active player: <span className="font-medium">{getActivePlayerName()}</span>
-                </p>
+            <h2 className="text-lg font-semibold mb-3">Hands</h2>
+            <div className="flex justify-center items-center text-center mb-4">
+              <div className="text-center px-6">
+                <p className="text-sm">{getTeamDisplayNames().team1}</p>
+                <p className="text-2xl font-bold">{game.scores?.creator || 0}</p>
+              </div>
+              <div className="text-xl font-bold mx-4">-</div>
+              <div className="text-center px-6">
+                <p className="text-sm">{getTeamDisplayNames().team2}</p>
+                <p className="text-2xl font-bold">{game.scores?.opponent || 0}</p>
               </div>
+            </div>
+            <p className="text-center text-xs text-gray-500 dark:text-zinc-400 mb-3">
+              First to {game.settings.pointsToWin} points wins
+            </p>
+            
+            {hands.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-zinc-400">No hands recorded yet.</p>
             ) : (
-              <form onSubmit={handleScoreSubmit}>
-                <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900 rounded-md mb-4">
-                  <p>You are submitting the final scores for this game. The other player will need to confirm these scores.</p>
-                  <p className="mt-2 text-sm">Enter scores for both players. At least one player must reach {game.settings.pointsToWin} points.</p>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-zinc-700 text-left text-gray-500 dark:text-zinc-400">
+                      <th className="py-2 pr-3">#</th>
+                      <th className="py-2 pr-3">Result</th>
+                      <th className="py-2 pr-3">Points</th>
+                      <th className="py-2 pr-3">Recorded By</th>
+                      <th className="py-2 pr-3 text-right">{getTeamDisplayNames().team1}</th>
+                      <th className="py-2 text-right">{getTeamDisplayNames().team2}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {handLedger.map(({ hand, creatorTotal, opponentTotal }) => (
+                      <tr 
+                        key={hand.id}
+                        className={`border-b border-gray-100 dark:border-zinc-800 ${hand.disputed ? "line-through text-gray-400 dark:text-zinc-500" : ""}`}
+                      >
+                        <td className="py-2 pr-3">{hand.handNumber}</td>
+                        <td className="py-2 pr-3">
+                          {hand.outcome === "tranque" ? "Tranque" : "Dominó"}
+                          {hand.winningSide 
+                            ? ` - ${getTeamDisplayNames()[hand.winningSide === "creator" ? "team1" : "team2"]}`
+                            : " - Tied"}
+                          {hand.disputed && (
+                            <span className="ml-2 text-xs text-red-500 no-underline">(Disputed)</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">{hand.points}</td>
+                        <td className="py-2 pr-3">{getPlayerName(hand.recordedBy)}</td>
+                        <td className="py-2 pr-3 text-right font-medium">{creatorTotal}</td>
+                        <td className="py-2 text-right font-medium">{opponentTotal}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Hand Entry - any participant can record the hand that was just played */}
+        {game.status === "in_progress" && gameStatus?.isParticipant && (
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold mb-3">Record Hand</h2>
+            <form onSubmit={handleHandSubmit}>
+              <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900 rounded-md mb-4">
+                <p>Record each hand as it is played. The game finishes automatically once a {game.teams ? "team" : "player"} reaches {game.settings.pointsToWin} points, and the other side confirms the final tally.</p>
+              </div>
+              
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Result</label>
+                  <select
+                    value={handForm.outcome}
+                    onChange={(e) => {
+                      const outcome = e.target.value as HandOutcome;
+                      setHandForm(prev => ({
+                        ...prev,
+                        outcome,
+                        winningSide: outcome === "domino" && !prev.winningSide ? "creator" : prev.winningSide,
+                      }));
+                    }}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                  >
+                    <option value="domino">Dominó</option>
+                    <option value="tranque">Tranque (blocked)</option>
+                  </select>
                 </div>
-                
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4">
-                  <div>
-                    <label className="block text-sm font-medium mb-1">
-                      {getTeamDisplayNames().team1}
-                    </label>
-                    <input
-                      type="number"
-                      min="0"
-                      max="999"
-                      value={creatorScore}
-                      onChange={(e) => setScoreState(prev => ({ ...prev, creatorScore: parseInt(e.target.value) || 0 }))}
-                      className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">
-                      {getTeamDisplayNames().team2}
-                    </label>
-                    <input
-                      type="number"
-                      min="0"
-                      max="999"
-                      value={opponentScore}
-                      onChange={(e) => setScoreState(prev => ({ ...prev, opponentScore: parseInt(e.target.value) || 0 }))}
-                      className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
-                      required
-                    />
-                  </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    {handForm.outcome === "domino" ? "Dominated By" : "Won By (lowest count)"}
+                  </label>
+                  <select
+                    value={handForm.winningSide || ""}
+                    onChange={(e) => setHandForm(prev => ({
+                      ...prev,
+                      winningSide: (e.target.value || null) as GameSide | null,
+                      points: e.target.value ? prev.points : 0,
+                    }))}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                  >
+                    <option value="creator">{getTeamDisplayNames().team1}</option>
+                    <option value="opponent">{getTeamDisplayNames().team2}</option>
+                    {handForm.outcome === "tranque" && (
+                      <option value="">Tied - no points</option>
+                    )}
+                  </select>
                 </div>
-                <button
-                  type="submit"
-                  disabled={isSubmitting || !scoreValidation.canSubmit}
-                  className={`w-full py-2 rounded-md font-medium ${
-                    isSubmitting || !scoreValidation.canSubmit
-                      ? "bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-zinc-700 dark:text-zinc-400"
-                      : "bg-blue-600 text-white hover:bg-blue-700"
-                  }`}
-                >
-                  {isSubmitting ? "Submitting..." : "Submit Final Scores"}
-                </button>
-              </form>
-            )}
+                <div>
+                  <label className="block text-sm font-medium mb-1">Points</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="999"
+                    value={handForm.points}
+                    disabled={!handForm.winningSide}
+                    onChange={(e) => setHandForm(prev => ({ ...prev, points: parseInt(e.target.value) || 0 }))}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                    required
+                  />
+                </div>
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting || !handValidation.canSubmit}
+                className={`w-full py-2 rounded-md font-medium ${
+                  isSubmitting || !handValidation.canSubmit
+                    ? "bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-zinc-700 dark:text-zinc-400"
+                    : "bg-blue-600 text-white hover:bg-blue-700"
+                }`}
+              >
+                {isSubmitting ? "Recording..." : "Record Hand"}
+              </button>
+            </form>
           </div>
         )}
 
@@ -1140,6 +1598,71 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
                 </div>
               </div>
               <p className="mb-3">Are these scores correct?</p>
+              <p className="text-sm mb-3 text-gray-600 dark:text-zinc-300">
+                If not, claim the score you believe is correct. A judge will settle the dispute.
+              </p>
+              <div className="grid grid-cols-2 gap-3 sm:gap-4 mb-3">
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    {getTeamDisplayNames().team1}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={claimedCreatorScore}
+                    onChange={(e) => setUiState(prev => ({ ...prev, claimedCreatorScore: e.target.value }))}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    {getTeamDisplayNames().team2}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={claimedOpponentScore}
+                    onChange={(e) => setUiState(prev => ({ ...prev, claimedOpponentScore: e.target.value }))}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4">
+                {hands.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      Hand in question (optional)
+                    </label>
+                    <select
+                      value={disputedHandId}
+                      onChange={(e) => setUiState(prev => ({ ...prev, disputedHandId: e.target.value }))}
+                      className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                    >
+                      <option value="">Whole game</option>
+                      {hands.filter(hand => !hand.disputed).map(hand => (
+                        <option key={hand.id} value={hand.id}>
+                          Hand {hand.handNumber} - {hand.points} points
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className={hands.length > 0 ? "" : "sm:col-span-2"}>
+                  <label className="block text-sm font-medium mb-1">
+                    Comment for the judge
+                  </label>
+                  <input
+                    type="text"
+                    value={disputeComment}
+                    maxLength={500}
+                    onChange={(e) => setUiState(prev => ({ ...prev, disputeComment: e.target.value }))}
+                    placeholder="What was wrong with the submitted result?"
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                  />
+                </div>
+              </div>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                 <button
                   onClick={() => handleConfirmation(true)}
@@ -1154,9 +1677,9 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
                 </button>
                 <button
                   onClick={() => handleConfirmation(false)}
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || !canDispute}
                   className={`py-2 rounded-md font-medium ${
-                    isSubmitting
+                    isSubmitting || !canDispute
                       ? "bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-zinc-700 dark:text-zinc-400"
                       : "bg-red-600 text-white hover:bg-red-700"
                   }`}
@@ -1168,6 +1691,17 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
           </div>
         )}
 
+        {/* Dispute - both claims while a judge reviews the result, then the ruling */}
+        {dispute && (
+          <GameDisputeCard
+            key={dispute.updatedAt.toMillis()}
+            dispute={dispute}
+            sideNames={{ creator: getTeamDisplayNames().team1, opponent: getTeamDisplayNames().team2 }}
+            currentSide={auth.currentUser ? getGameSide(game, auth.currentUser.uid) : null}
+            canJudge={canJudgeGame}
+          />
+        )}
+
         {/* Final Results - Only show if game is completed */}
         {game.status === "completed" && game.scores && (
           <div className="mb-6">
@@ -1198,7 +1732,7 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
         {game.status === "waiting_confirmation" && !gameStatus?.needsConfirmation && (
           <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900 rounded-md mb-4">
             <p className="text-center">
-              Waiting for {gameStatus?.needsConfirmation ? "you" : "the other player"} to confirm the results.
+              Waiting for {game.teams ? "the other team" : "the other player"} to confirm the results.
             </p>
           </div>
         )}
@@ -1212,12 +1746,12 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
           }`}>
             <p className="text-center font-medium">
               {gameStatus?.isCurrentUserTurn 
-                ? `It's your turn to play and submit the final scores${game.teams ? " for your team" : ""}` 
-                : `Waiting for ${getActivePlayerName()} to play and submit the final scores`}
+                ? `It's your turn to play${game.teams ? " for your team" : ""}` 
+                : `Waiting for ${getActivePlayerName()} to play`}
             </p>
             {gameStatus?.isCurrentUserTurn && (
               <p className="text-center text-sm mt-2 text-green-600 dark:text-green-400">
-                Play your game in person, then submit the final scores when finished
+                Play your game in person and record each hand as it finishes
               </p>
             )}
           </div>
@@ -1225,6 +1759,18 @@ const GameDetail: React.FC<GameDetailProps> = ({ refreshNotifications }) => {
         </CardContent>
       </Card>
 
+      {/* Game chat */}
+      {game.id && isParticipant() && (
+        <div className="mt-6">
+          <ChatPanel
+            target={{ type: "game", id: game.id }}
+            leagueId={game.leagueId}
+            canModerate={canModerateChat}
+            title="Game Chat"
+          />
+        </div>
+      )}
+
       {/* User Profile Modal */}
       <UserProfileModal
         user={selectedUser}
@@ -10,6 +10,7 @@ import {
   getLeagueById,
 } from "../firebase";
 import type { Game, UserProfile } from "../firebase";
+import type { LeagueInvitation } from "../models/league";
 import {
   getFirestore,
   doc,
@@ -55,11 +56,15 @@ import {
   TableHeader,
   TableRow,
 } from "../components/ui/table";
+import LeagueInvitationsCard from "../components/LeagueInvitationsCard";
 
 interface GamesListProps {
   refreshNotifications?: () => Promise<void>;
+  leagueInvitations?: LeagueInvitation[];
 }
 
+const NO_LEAGUE_INVITATIONS: LeagueInvitation[] = [];
+
 // Extended Game type for table display
 interface GameTableRow extends Game {
   opponentName: string;
@@ -263,7 +268,7 @@ const NoGamesState = memo(({ isInActiveGame, onCreateGame }: {
   </Card>
 ));
 
-const GamesList: React.FC<GamesListProps> = ({ refreshNotifications }) => {
+const GamesList: React.FC<GamesListProps> = ({ refreshNotifications, leagueInvitations = NO_LEAGUE_INVITATIONS }) => {
   const navigate = useNavigate();
   
   // Combine related states to reduce re-renders
@@ -492,8 +497,10 @@ const GamesList: React.FC<GamesListProps> = ({ refreshNotifications }) => {
         accepted: { display: "Ready to Play", color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100" },
         in_progress: { display: "🔥 In Progress", color: "bg-gradient-to-r from-green-400 to-green-600 text-white dark:from-green-500 dark:to-green-700 animate-pulse shadow-lg border border-green-300" },
         waiting_confirmation: { display: "Waiting Confirmation", color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100" },
+        disputed: { display: "Disputed", color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" },
         completed: { display: "Completed", color: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-100" },
-        rejected: { display: "Rejected", color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" }
+        rejected: { display: "Rejected", color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" },
+        abandoned: { display: "Abandoned", color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100" }
       };
 
       const status = statusMap[game.status as keyof typeof statusMap] || 
@@ -619,11 +626,11 @@ const GamesList: React.FC<GamesListProps> = ({ refreshNotifications }) => {
     const inProgress = tableData.filter(g => g.status === "in_progress");
     
     return {
-      hasNewInvitations: invitations.length > 0,
+      hasNewInvitations: invitations.length > 0 || leagueInvitations.length > 0,
       hasInProgressGames: inProgress.length > 0,
       inProgressCount: inProgress.length,
     };
-  }, [tableData]);
+  }, [tableData, leagueInvitations]);
 
   if (gameState.loading) {
     return <LoadingState />;
@@ -712,6 +719,8 @@ const GamesList: React.FC<GamesListProps> = ({ refreshNotifications }) => {
         </div>
       )}
 
+      <LeagueInvitationsCard invitations={leagueInvitations} onAnswered={refreshNotifications} />
+
       {gameState.isRefreshing && !gameState.loading && (
         <div className="mb-6 p-4 bg-blue-100 border border-blue-400 text-blue-800 rounded-md flex items-center">
           <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-800 mr-2"></div>
@@ -1,11 +1,16 @@
 import React, { useEffect, useState, memo, useCallback, useMemo, useRef } from "react";
-import { useNavigate } from "react-router-dom";
-import { auth, getUserProfile, getUserGames, getUserLeaguesWithRanking } from "../firebase";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { auth, getUserProfile, getUserGames, getUserLeaguesWithRanking, getOwnedLeagues } from "../firebase";
 import type { User } from "firebase/auth";
 import type { UserProfile } from "../firebase";
 import { getFirestore, doc, getDoc } from "firebase/firestore";
 import { LeagueCard, StatCard, TitleBadge } from "../components/ProfileComponents";
 import ProfileCard from "../components/ProfileCard";
+import LeagueSubscriptionsList from "../components/LeagueSubscriptionsList";
+import PaymentHistory from "../components/PaymentHistory";
+import TreasurerReport from "../components/TreasurerReport";
+import type { League } from "../models/league";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
 import { ExclamationCircleIcon } from "@heroicons/react/24/solid";
 import {
   Card,
@@ -223,6 +228,7 @@ LoadingSpinner.displayName = 'LoadingSpinner';
 // Optimized main Profile component with caching and fast loading
 const Profile = memo<{ user?: User }>(({ user: propUser }) => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [user, setUser] = useState<User | null>(propUser || null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [recentGames, setRecentGames] = useState<GameDisplay[]>([]);
@@ -238,6 +244,7 @@ const Profile = memo<{ user?: User }>(({ user: propUser }) => {
   const [loading, setLoading] = useState(true);
   const [dataLoading, setDataLoading] = useState({ profile: true, games: true, leagues: true });
   const [imageUploadError, setImageUploadError] = useState<string | null>(null);
+  const [ownedLeagues, setOwnedLeagues] = useState<League[]>([]);
 
   // Cache for opponent names to avoid repeated Firebase calls
   const opponentCacheRef = useRef<Map<string, string>>(new Map());
@@ -350,6 +357,8 @@ const Profile = memo<{ user?: User }>(({ user: propUser }) => {
       setUser(currentUser);
 
       if (currentUser) {
+        // League owners also get the treasurer view on the billing tab
+        getOwnedLeagues().then(setOwnedLeagues).catch(() => setOwnedLeagues([]));
         await fetchUserData(currentUser);
       }
       setLoading(false);
@@ -401,150 +410,190 @@ const Profile = memo<{ user?: User }>(({ user: propUser }) => {
         </div>
       )}
 
-      {/* Player Info Card */}
-      <ProfileCard 
-        title="Player Information"
-        className="mb-8"
-        loading={!showProfileSection}
-        skeleton={<ProfileSkeleton />}
-      >
-        <div className="flex flex-col sm:flex-row items-center sm:items-start gap-4 sm:gap-6">
-          <div className="flex-shrink-0">
-            {user ? (
-              <ProfileImageUploader
-                user={user}
-                onImageUpdate={handleImageUpdate}
-                onError={handleImageError}
-                size="lg"
-                className="w-20 h-20 sm:w-24 sm:h-24"
-              />
+      <Tabs defaultValue={searchParams.get("tab") === "billing" ? "billing" : "overview"} className="w-full">
+        <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsTrigger value="overview">Profile</TabsTrigger>
+          <TabsTrigger value="billing">Billing</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="overview">
+          {/* Player Info Card */}
+          <ProfileCard 
+            title="Player Information"
+            className="mb-8"
+            loading={!showProfileSection}
+            skeleton={<ProfileSkeleton />}
+          >
+            <div className="flex flex-col sm:flex-row items-center sm:items-start gap-4 sm:gap-6">
+              <div className="flex-shrink-0">
+                {user ? (
+                  <ProfileImageUploader
+                    user={user}
+                    onImageUpdate={handleImageUpdate}
+                    onError={handleImageError}
+                    size="lg"
+                    className="w-20 h-20 sm:w-24 sm:h-24"
+                  />
+                ) : (
+                  <ProfileImage user={user!} />
+                )}
+              </div>
+              <div className="flex-grow min-w-0 text-center sm:text-left w-full sm:w-auto">
+                <h2 className="text-xl sm:text-2xl font-semibold text-zinc-900 dark:text-white break-words">
+                  {user.displayName || "Player"}
+                </h2>
+                {userProfile?.username && (
+                  <p className="text-sm text-zinc-500 dark:text-zinc-400 break-all mt-1">@{userProfile.username}</p>
+                )}
+                <p className="text-sm sm:text-base text-zinc-600 dark:text-zinc-400 mt-1 break-all sm:break-words">
+                  {user.email}
+                </p>
+                <div className="mt-3">
+                  <TitleBadge gamesWon={userProfile?.stats?.gamesWon || 0} />
+                </div>
+              </div>
+            </div>
+          </ProfileCard>
+
+          {/* User's Leagues Section */}
+          <ProfileCard 
+            title="Your Leagues"
+            className="mb-8"
+            loading={!showLeaguesSection}
+            skeleton={<LeaguesSkeleton />}
+          >
+            {userLeagues.length === 0 ? (
+              <div className="text-sm text-zinc-500 dark:text-zinc-400">You are not a member of any active leagues.</div>
             ) : (
-              <ProfileImage user={user!} />
-            )}
-          </div>
-          <div className="flex-grow min-w-0 text-center sm:text-left w-full sm:w-auto">
-            <h2 className="text-xl sm:text-2xl font-semibold text-zinc-900 dark:text-white break-words">
-              {user.displayName || "Player"}
-            </h2>
-            {userProfile?.username && (
-              <p className="text-sm text-zinc-500 dark:text-zinc-400 break-all mt-1">@{userProfile.username}</p>
+              <div className="flex flex-wrap gap-4">
+                {userLeagues.map((league) => (
+                  <LeagueCard 
+                    key={league.id} 
+                    league={league} 
+                    showRanking={true}
+                    href={`/leagues/${league.id}`}
+                  />
+                ))}
+              </div>
             )}
-            <p className="text-sm sm:text-base text-zinc-600 dark:text-zinc-400 mt-1 break-all sm:break-words">
-              {user.email}
-            </p>
-            <div className="mt-3">
-              <TitleBadge gamesWon={userProfile?.stats?.gamesWon || 0} />
-            </div>
-          </div>
-        </div>
-      </ProfileCard>
-
-      {/* User's Leagues Section */}
-      <ProfileCard 
-        title="Your Leagues"
-        className="mb-8"
-        loading={!showLeaguesSection}
-        skeleton={<LeaguesSkeleton />}
-      >
-        {userLeagues.length === 0 ? (
-          <div className="text-sm text-zinc-500 dark:text-zinc-400">You are not a member of any active leagues.</div>
-        ) : (
-          <div className="flex flex-wrap gap-4">
-            {userLeagues.map((league) => (
-              <LeagueCard 
-                key={league.id} 
-                league={league} 
-                showRanking={true}
-                href={`/leagues/${league.id}`}
+          </ProfileCard>
+
+          {/* Stats Overview */}
+          <ProfileCard 
+            title="Player Statistics"
+            className="mb-8"
+            loading={!showStatsSection}
+            skeleton={<StatsSkeleton />}
+          >
+            <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+              <StatCard 
+                title="Games Played"
+                value={userProfile?.stats?.gamesPlayed || 0}
+                color="text-zinc-900 dark:text-white"
               />
-            ))}
-          </div>
-        )}
-      </ProfileCard>
-
-      {/* Stats Overview */}
-      <ProfileCard 
-        title="Player Statistics"
-        className="mb-8"
-        loading={!showStatsSection}
-        skeleton={<StatsSkeleton />}
-      >
-        <div className="grid grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
-          <StatCard 
-            title="Games Played"
-            value={userProfile?.stats?.gamesPlayed || 0}
-            color="text-zinc-900 dark:text-white"
-          />
-          <StatCard 
-            title="Games Won"
-            value={userProfile?.stats?.gamesWon || 0}
-            color="text-green-600 dark:text-green-400"
-          />
-          <StatCard 
-            title="Total Points"
-            value={userProfile?.stats?.totalPoints || 0}
-            color="text-blue-600 dark:text-blue-400"
-            className="col-span-2 lg:col-span-1"
-          />
-          {winRate !== null && (
-            <StatCard 
-              title="Win Rate"
-              value={`${winRate}%`}
-              color="text-purple-600 dark:text-purple-400"
-              className="col-span-2 lg:col-span-3"
-            />
-          )}
-        </div>
-      </ProfileCard>
-
-      {/* Match History */}
-      <ProfileCard 
-        title="Last 5 Matches"
-        loading={!showGamesSection}
-        skeleton={<GamesSkeleton />}
-      >
-        <div className="overflow-x-auto">
-          <Table>
-            {recentGames.length === 0 && (
-              <TableCaption>No completed games yet</TableCaption>
-            )}
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-[100px]">Date</TableHead>
-                <TableHead>Opponent</TableHead>
-                <TableHead className="hidden sm:table-cell">Type</TableHead>
-                <TableHead>Result</TableHead>
-                <TableHead>Score</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {recentGames.length > 0 ? (
-                recentGames.map((game) => (
-                  <GameRow key={game.id} game={game} onGameClick={handleGameClick} />
-                ))
-              ) : (
-                <TableRow>
-                  <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
-                    No completed games yet
-                  </TableCell>
-                </TableRow>
+              <StatCard 
+                title="Games Won"
+                value={userProfile?.stats?.gamesWon || 0}
+                color="text-green-600 dark:text-green-400"
+              />
+              <StatCard 
+                title="Total Points"
+                value={userProfile?.stats?.totalPoints || 0}
+                color="text-blue-600 dark:text-blue-400"
+                className="col-span-2 lg:col-span-1"
+              />
+              {winRate !== null && (
+                <StatCard 
+                  title="Win Rate"
+                  value={`${winRate}%`}
+                  color="text-purple-600 dark:text-purple-400"
+                  className="col-span-2 lg:col-span-3"
+                />
               )}
-            </TableBody>
-          </Table>
-        </div>
-        
-        {/* View All Games Button */}
-        {recentGames.length > 0 && (
-          <div className="mt-4 text-center">
-            <button
-              onClick={() => navigate('/games')}
-              className="px-4 py-2 text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
-            >
-              View All Games
-            </button>
-          </div>
-        )}
-      </ProfileCard>
+              {((userProfile?.stats?.gamesForfeited || 0) > 0 || (userProfile?.stats?.gamesAbandoned || 0) > 0) && (
+                <>
+                  <StatCard 
+                    title="Lost by Forfeit"
+                    value={userProfile?.stats?.gamesForfeited || 0}
+                    color="text-red-600 dark:text-red-400"
+                  />
+                  <StatCard 
+                    title="Abandoned"
+                    value={userProfile?.stats?.gamesAbandoned || 0}
+                    color="text-gray-600 dark:text-gray-400"
+                  />
+                </>
+              )}
+            </div>
+          </ProfileCard>
+
+          {/* Match History */}
+          <ProfileCard 
+            title="Last 5 Matches"
+            loading={!showGamesSection}
+            skeleton={<GamesSkeleton />}
+          >
+            <div className="overflow-x-auto">
+              <Table>
+                {recentGames.length === 0 && (
+                  <TableCaption>No completed games yet</TableCaption>
+                )}
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[100px]">Date</TableHead>
+                    <TableHead>Opponent</TableHead>
+                    <TableHead className="hidden sm:table-cell">Type</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentGames.length > 0 ? (
+                    recentGames.map((game) => (
+                      <GameRow key={game.id} game={game} onGameClick={handleGameClick} />
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                        No completed games yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            
+            {/* View All Games Button */}
+            {recentGames.length > 0 && (
+              <div className="mt-4 text-center">
+                <button
+                  onClick={() => navigate('/games')}
+                  className="px-4 py-2 text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                >
+                  View All Games
+                </button>
+              </div>
+            )}
+          </ProfileCard>
+        </TabsContent>
+
+        <TabsContent value="billing">
+          <ProfileCard title="Payment History" className="mb-8">
+            <PaymentHistory />
+          </ProfileCard>
+
+          {/* Recurring league memberships */}
+          <ProfileCard title="League Subscriptions" className="mb-8">
+            <LeagueSubscriptionsList />
+          </ProfileCard>
+
+          {ownedLeagues.length > 0 && (
+            <ProfileCard title="Treasurer">
+              <TreasurerReport leagues={ownedLeagues} />
+            </ProfileCard>
+          )}
+        </TabsContent>
+      </Tabs>
     </div>
   );
 });
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { getPaymentById, getLeagueById, getUserProfile } from "../firebase";
+import type { LeaguePayment } from "../models/league";
+import {
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  describePayment,
+  formatMoney,
+  paymentPeriod,
+} from "../utils/payments";
+import { Button } from "../components/ui/button";
+
+// Printable receipt of a league payment, built from the stored payment
+// record. Players see their own receipts, league owners and judges their
+// league's
+const Receipt: React.FC = () => {
+  const { paymentId } = useParams<{ paymentId: string }>();
+  const [payment, setPayment] = useState<LeaguePayment | null>(null);
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [payerName, setPayerName] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!paymentId) return;
+
+    const loadReceipt = async () => {
+      const receiptPayment = await getPaymentById(paymentId);
+      setPayment(receiptPayment);
+      if (receiptPayment) {
+        const [league, payer] = await Promise.all([
+          getLeagueById(receiptPayment.leagueId),
+          getUserProfile(receiptPayment.userId),
+        ]);
+        setLeagueName(league?.name || "League");
+        setPayerName(payer?.displayName || "");
+      }
+      setLoading(false);
+    };
+
+    loadReceipt();
+  }, [paymentId]);
+
+  if (loading) {
+    return (
+      <div className="flex h-64 w-full items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!payment || (payment.status !== "completed" && payment.status !== "refunded")) {
+    return (
+      <div className="p-3 sm:p-6 max-w-2xl mx-auto text-zinc-900 dark:text-white">
+        <p className="text-lg">No receipt is available for this payment.</p>
+        <Link to="/profile?tab=billing" className="text-blue-600 hover:underline dark:text-blue-400">
+          &larr; Back to your profile
+        </Link>
+      </div>
+    );
+  }
+
+  const paidAt = (payment.processedAt || payment.createdAt)?.toDate();
+  const period = paymentPeriod(payment);
+  const refund = payment.refund?.status === "completed" ? payment.refund : null;
+
+  return (
+    <div className="p-3 sm:p-6 max-w-2xl mx-auto text-zinc-900 dark:text-white print:text-black">
+      <div className="flex justify-between items-center mb-6 print:hidden">
+        <Link to="/profile?tab=billing" className="text-blue-600 hover:underline dark:text-blue-400">
+          &larr; Back to your profile
+        </Link>
+        <Button onClick={() => window.print()}>Print Receipt</Button>
+      </div>
+
+      <div className="border rounded-lg p-6 sm:p-8 dark:border-zinc-700 print:border-0 print:p-0">
+        <div className="flex justify-between items-start gap-4 mb-8">
+          <div>
+            <h1 className="text-2xl font-bold">Receipt</h1>
+            <p className="text-sm text-gray-500 dark:text-zinc-400 print:text-gray-600">Domino Gamer</p>
+          </div>
+          <div className="text-right text-sm">
+            <p className="font-medium">{paidAt?.toLocaleDateString()}</p>
+            <p className="text-gray-500 dark:text-zinc-400 print:text-gray-600 break-all">No. {payment.id}</p>
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-y-2 text-sm mb-8">
+          {payerName && (
+            <>
+              <dt className="text-gray-500 dark:text-zinc-400 print:text-gray-600">Billed to</dt>
+              <dd>{payerName}</dd>
+            </>
+          )}
+          <dt className="text-gray-500 dark:text-zinc-400 print:text-gray-600">League</dt>
+          <dd>{leagueName}</dd>
+          {payment.paymentMethod && (
+            <>
+              <dt className="text-gray-500 dark:text-zinc-400 print:text-gray-600">Paid with</dt>
+              <dd>{PAYMENT_METHOD_LABELS[payment.paymentMethod]}</dd>
+            </>
+          )}
+          <dt className="text-gray-500 dark:text-zinc-400 print:text-gray-600">Status</dt>
+          <dd>{PAYMENT_STATUS_LABELS[payment.status]}</dd>
+        </dl>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b dark:border-zinc-700">
+              <th className="text-left py-2 font-medium">Description</th>
+              <th className="text-right py-2 font-medium">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b dark:border-zinc-700">
+              <td className="py-2">
+                {describePayment(payment)}
+                {period && (
+                  <span className="block text-xs text-gray-500 dark:text-zinc-400 print:text-gray-600">
+                    {period.start.toLocaleDateString()} - {period.end.toLocaleDateString()}
+                  </span>
+                )}
+              </td>
+              <td className="py-2 text-right">{formatMoney(payment.amount, payment.currency)}</td>
+            </tr>
+            {refund && (
+              <tr className="border-b dark:border-zinc-700">
+                <td className="py-2">
+                  Refund
+                  {refund.completedAt && (
+                    <span className="block text-xs text-gray-500 dark:text-zinc-400 print:text-gray-600">
+                      {refund.completedAt.toDate().toLocaleDateString()}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 text-right">-{formatMoney(refund.amount, payment.currency)}</td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td className="pt-3 font-semibold">Total paid</td>
+              <td className="pt-3 text-right font-semibold">
+                {formatMoney(payment.amount - (refund?.amount || 0), payment.currency)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+
+        {payment.receiptUrl && (
+          <p className="mt-8 text-xs text-gray-500 dark:text-zinc-400 print:hidden">
+            Square's receipt for this payment is{" "}
+            <a href={payment.receiptUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              available here
+            </a>.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Receipt;
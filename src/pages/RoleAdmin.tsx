@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  auth,
+  setUserRole,
+  findUserByEmail,
+  getStaffMembers,
+  getRoleChanges,
+  UserProfile,
+  RoleChange,
+  RoleLookup,
+} from "../firebase";
+import { STAFF_ROLES, type StaffRole } from "../utils/auth";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { Avatar } from "../components/avatar";
+
+const ROLE_LABELS: Record<StaffRole, string> = {
+  judge: "Judge",
+  admin: "Admin",
+};
+
+const RoleAdmin: React.FC = () => {
+  const [staff, setStaff] = useState<UserProfile[]>([]);
+  const [changes, setChanges] = useState<RoleChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Grant form
+  const [email, setEmail] = useState("");
+  const [lookup, setLookup] = useState<RoleLookup | null>(null);
+  const [role, setRole] = useState<StaffRole>("judge");
+  const [reason, setReason] = useState("");
+
+  const loadRoles = useCallback(async () => {
+    try {
+      const [staffMembers, roleChanges] = await Promise.all([
+        getStaffMembers(),
+        getRoleChanges(),
+      ]);
+      setStaff(staffMembers);
+      setChanges(roleChanges);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load judges and admins");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setError(null);
+    setMessage(null);
+    setLookup(null);
+
+    try {
+      setLookup(await findUserByEmail(email));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No user with that email");
+    }
+  };
+
+  const changeRole = async (userId: string, name: string, changedRole: StaffRole, granted: boolean) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await setUserRole(userId, changedRole, granted, reason.trim() || undefined);
+      setMessage(`${ROLE_LABELS[changedRole]} role ${granted ? "granted to" : "revoked from"} ${name}.`);
+      setReason("");
+      setLookup(null);
+      setEmail("");
+      await loadRoles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change the role");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const nameOf = (userId: string) =>
+    staff.find(member => member.uid === userId)?.displayName ||
+    (userId === auth.currentUser?.uid ? auth.currentUser.displayName : null) ||
+    userId;
+
+  if (loading) {
+    return (
+      <div className="flex h-64 w-full items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 max-w-5xl mx-auto space-y-6 text-zinc-900 dark:text-white">
+      <div>
+        <h1 className="text-2xl font-bold">Judges &amp; Admins</h1>
+        <p className="text-sm text-gray-500 dark:text-zinc-400 mt-1">
+          Judges run leagues and edit the game configuration; admins also grant and revoke roles.
+          Changes apply the next time the player's app refreshes their sign-in.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 dark:bg-red-900/20">
+          <p className="text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border-l-4 border-green-500 p-4 dark:bg-green-900/20">
+          <p className="text-green-700 dark:text-green-300">{message}</p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Grant a Role</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleLookup} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="flex-1">
+              <Label htmlFor="roleEmail">Player email</Label>
+              <Input
+                id="roleEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="player@example.com"
+                className="mt-1"
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={!email.trim()}>
+              Find player
+            </Button>
+          </form>
+
+          <div>
+            <Label htmlFor="roleReason">Reason (recorded in the audit trail)</Label>
+            <Input
+              id="roleReason"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional"
+              className="mt-1"
+            />
+          </div>
+
+          {lookup && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded-md dark:border-zinc-700">
+              <div>
+                <p className="font-medium">{lookup.displayName || lookup.email}</p>
+                <p className="text-sm text-gray-500 dark:text-zinc-400">
+                  {lookup.email} · {lookup.roles.length > 0
+                    ? lookup.roles.map(held => ROLE_LABELS[held]).join(", ")
+                    : "Player"}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as StaffRole)}
+                  className="p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                >
+                  {STAFF_ROLES.map(staffRole => (
+                    <option key={staffRole} value={staffRole}>{ROLE_LABELS[staffRole]}</option>
+                  ))}
+                </select>
+                <Button
+                  disabled={saving || lookup.roles.includes(role)}
+                  onClick={() => changeRole(lookup.userId, lookup.displayName || lookup.email, role, true)}
+                >
+                  Grant
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Judges &amp; Admins ({staff.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {staff.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-zinc-400">Nobody holds a role yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Player</TableHead>
+                  <TableHead>Roles</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staff.map(member => (
+                  <TableRow key={member.uid}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Avatar
+                          src={member.photoURL}
+                          initials={member.displayName.substring(0, 2).toUpperCase()}
+                          alt={member.displayName}
+                          className="h-8 w-8"
+                        />
+                        <div>
+                          <p className="font-medium">{member.displayName}</p>
+                          <p className="text-xs text-gray-500 dark:text-zinc-400">{member.email}</p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {(member.roles || []).map(held => ROLE_LABELS[held]).join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {(member.roles || []).map(held => (
+                        <Button
+                          key={held}
+                          variant="outline"
+                          size="sm"
+                          disabled={saving || (held === "admin" && member.uid === auth.currentUser?.uid)}
+                          onClick={() => changeRole(member.uid, member.displayName, held, false)}
+                        >
+                          Revoke {ROLE_LABELS[held]}
+                        </Button>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Trail</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-zinc-400">No role changes recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Player</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map(change => (
+                  <TableRow key={change.id}>
+                    <TableCell>{change.changedAt.toDate().toLocaleString()}</TableCell>
+                    <TableCell>{change.email || nameOf(change.userId)}</TableCell>
+                    <TableCell>
+                      <span className={change.action === "granted" ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+                        {ROLE_LABELS[change.role]} {change.action}
+                      </span>
+                    </TableCell>
+                    <TableCell>{nameOf(change.changedBy)}</TableCell>
+                    <TableCell className="max-w-xs">{change.reason || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RoleAdmin;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, memo } from "react";
+import { useParams, Link } from "react-router-dom";
+import { doc, onSnapshot } from "firebase/firestore";
+import { EyeIcon, EyeSlashIcon } from "@heroicons/react/24/solid";
+import { db } from "../firebase";
+import type { SpectatorGame, SpectatorPlayer } from "../firebase";
+import { useGameConfig } from "../config/gameConfig";
+import { Avatar } from "../components/avatar";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+
+const STATUS_LABELS: Record<string, string> = {
+  invited: "Waiting for players",
+  accepted: "About to start",
+  in_progress: "Live",
+  waiting_confirmation: "Confirming result",
+  disputed: "Result under review",
+  completed: "Final",
+  abandoned: "Abandoned",
+  rejected: "Canceled",
+};
+
+// One side of the table with its players and score
+const SpectatorSide = memo<{
+  players: SpectatorPlayer[];
+  score: number;
+  isActive: boolean;
+  isWinner: boolean;
+}>(({ players, score, isActive, isWinner }) => (
+  <div className={`flex-1 p-4 rounded-lg border text-center ${
+    isWinner
+      ? "border-green-300 bg-green-50 dark:border-green-800 dark:bg-green-900/20"
+      : "border-gray-200 dark:border-zinc-700"
+  }`}>
+    <div className="flex justify-center -space-x-2 mb-3">
+      {players.map(player => (
+        <Avatar
+          key={player.uid}
+          src={player.photoURL || undefined}
+          initials={player.displayName.substring(0, 2).toUpperCase()}
+          alt={player.displayName}
+          className="h-14 w-14 ring-2 ring-white dark:ring-zinc-900"
+        />
+      ))}
+    </div>
+    <p className="font-medium">{players.map(player => player.displayName).join(" + ")}</p>
+    <p className="text-4xl font-bold mt-2">{score}</p>
+    {isActive && (
+      <p className="mt-1 text-xs font-medium text-blue-600 dark:text-blue-400">Playing now</p>
+    )}
+    {isWinner && (
+      <p className="mt-1 text-xs font-medium text-green-600 dark:text-green-400">Winner</p>
+    )}
+  </div>
+));
+
+SpectatorSide.displayName = 'SpectatorSide';
+
+const SpectateGame: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { config } = useGameConfig();
+  const [game, setGame] = useState<SpectatorGame | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Live scores from the public copy of the game
+  useEffect(() => {
+    if (!id) return;
+
+    const unsubscribe = onSnapshot(doc(db, "spectatorGames", id), (gameSnap) => {
+      setGame(gameSnap.exists() ? { id: gameSnap.id, ...gameSnap.data() } as SpectatorGame : null);
+      setLoading(false);
+    }, (error) => {
+      console.error("Error listening to spectator game:", error);
+      setGame(null);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex h-64 w-full items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!game || config?.features?.allowSpectators === false) {
+    return (
+      <div className="p-6 max-w-2xl mx-auto text-center text-zinc-900 dark:text-white">
+        <EyeSlashIcon className="h-10 w-10 mx-auto text-gray-400 mb-3" />
+        <h1 className="text-xl font-bold mb-2">This game can't be watched</h1>
+        <p className="text-gray-500 dark:text-zinc-400">
+          The players have not opened it to spectators, or it no longer exists.
+        </p>
+        <Link to="/" className="inline-block mt-4 text-blue-600 hover:text-blue-800">
+          Back to home
+        </Link>
+      </div>
+    );
+  }
+
+  const isLive = game.status === "in_progress";
+
+  return (
+    <div className="p-6 max-w-3xl mx-auto text-zinc-900 dark:text-white">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold flex items-center">
+          <EyeIcon className="h-6 w-6 mr-2 text-gray-400" />
+          Watching Game
+        </h1>
+        <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+          isLive
+            ? "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-100"
+            : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100"
+        }`}>
+          {isLive && <span className="inline-block h-2 w-2 mr-2 rounded-full bg-red-500 animate-pulse" />}
+          {STATUS_LABELS[game.status] || game.status}
+        </span>
+      </div>
+
+      {/* League context */}
+      {game.league && (
+        <div className="mb-4 flex items-center p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900 rounded-md">
+          <Avatar
+            src={game.league.photoURL || undefined}
+            initials={game.league.name.substring(0, 2).toUpperCase()}
+            alt={`${game.league.name} league`}
+            className="h-10 w-10 mr-3 flex-shrink-0"
+          />
+          <div>
+            <p className="text-sm text-blue-700 dark:text-blue-300">League game</p>
+            <p className="font-medium">{game.league.name}</p>
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            First to {game.settings.pointsToWin} points
+            {game.series && ` · Game ${game.series.gameNumber} of a best of ${game.series.bestOf}`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4 items-stretch">
+            <SpectatorSide
+              players={game.team1}
+              score={game.scores.creator}
+              isActive={isLive && game.activeSide === "creator"}
+              isWinner={game.winningSide === "creator"}
+            />
+            <div className="self-center text-gray-400 font-medium">vs</div>
+            <SpectatorSide
+              players={game.team2}
+              score={game.scores.opponent}
+              isActive={isLive && game.activeSide === "opponent"}
+              isWinner={game.winningSide === "opponent"}
+            />
+          </div>
+          <div className="mt-4 flex flex-wrap justify-between gap-2 text-sm text-gray-500 dark:text-zinc-400">
+            <span>{game.handCount} {game.handCount === 1 ? "hand" : "hands"} played</span>
+            {game.startedAt && (
+              <span>Started {game.startedAt.toDate().toLocaleTimeString()}</span>
+            )}
+            {isLive && game.deadline && (
+              <span>Ends by {game.deadline.toDate().toLocaleTimeString()}</span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SpectateGame;
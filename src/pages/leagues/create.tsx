@@ -24,7 +24,8 @@ import { Label } from "../../components/ui/label";
 import { Calendar } from "../../components/ui/calendar";
 import LeagueImageUploader from "../../components/LeagueImageUploader";
 import { useGameConfig } from "../../config/gameConfig";
-import type { GameMode, TournamentFormat, Season } from "../../models/league";
+import type { GameMode, TournamentFormat, Season, TimeoutPolicy } from "../../models/league";
+import { DEFAULT_TIMEOUT_POLICY, TIMEOUT_POLICY_OPTIONS } from "../../utils/timeouts";
 const CreateLeague: React.FC = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
@@ -47,6 +48,7 @@ const CreateLeague: React.FC = () => {
     playoffTeams: 4,
     penaltiesEnabled: true,
     timeLimit: 30,
+    timeoutPolicy: DEFAULT_TIMEOUT_POLICY as TimeoutPolicy,
     pointsPerWin: 3,
     pointsPerDraw: 1,
     pointsPerLoss: 0,
@@ -346,10 +348,9 @@ const CreateLeague: React.FC = () => {
           },
           
           // Game rules
-          rules: {
-            timeLimit: formData.timeLimit > 0 ? Number(formData.timeLimit) : null,
-            penaltiesEnabled: Boolean(formData.penaltiesEnabled),
-          },
+          timeLimit: formData.timeLimit > 0 ? Number(formData.timeLimit) : null,
+          timeoutPolicy: formData.timeoutPolicy,
+          penaltiesEnabled: Boolean(formData.penaltiesEnabled),
 
           // Payment settings for premium leagues
           ...(formData.isPremium && {
@@ -1029,7 +1030,30 @@ const CreateLeague: React.FC = () => {
                 <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
                   {formData.timeLimit === 0 
                     ? "No time limit - games can run indefinitely" 
-                    : `Games will be automatically forfeited after ${formData.timeLimit} minutes`}
+                    : `Games still in progress after ${formData.timeLimit} minutes are resolved automatically`}
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="timeoutPolicy" className="block text-sm font-medium mb-1">
+                  When Time Runs Out
+                </label>
+                <select
+                  id="timeoutPolicy"
+                  name="timeoutPolicy"
+                  value={formData.timeoutPolicy}
+                  onChange={handleChange}
+                  disabled={formData.timeLimit === 0}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                >
+                  {TIMEOUT_POLICY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {TIMEOUT_POLICY_OPTIONS.find(option => option.value === formData.timeoutPolicy)?.description}
                 </p>
               </div>
             </div>
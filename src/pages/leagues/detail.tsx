@@ -10,8 +10,8 @@ import {
   orderBy,
   onSnapshot,
 } from "firebase/firestore";
-import { auth, getUserProfile, UserProfile } from "../../firebase";
-import { canManageLeague, isJudge } from "../../utils/auth";
+import { auth, getUserProfile, getPairRankings, getLeagueRankings, getLeaguePenalties, UserProfile, PairRankingEntry, LeagueRankingEntry } from "../../firebase";
+import { canManageLeague, canJudgeLeague, canModerateLeague, isJudge } from "../../utils/auth";
 import { useGameConfig } from "../../config/gameConfig";
 import {
   TrophyIcon,
@@ -21,8 +21,12 @@ import {
   PencilSquareIcon,
   PlusIcon,
   UsersIcon,
+  ScaleIcon,
 } from "@heroicons/react/24/solid";
-import type { League, LeagueMember, LeagueGame } from "../../models/league";
+import ChatPanel from "../../components/ChatPanel";
+import SquareCheckoutModal from "../../components/SquareCheckoutModal";
+import { TRIAL_REMINDER_DAYS, trialDaysLeft } from "../../utils/payments";
+import type { League, LeagueMember, LeagueGame, LeagueTournament, LeagueRound, LeagueMatch, LeaguePenalty } from "../../models/league";
 import {
   Card,
   CardContent,
@@ -61,6 +65,11 @@ import {
 } from "@tanstack/react-table";
 import { ArrowUpDown } from "lucide-react";
 import UserProfileModal, { useUserProfileModal } from "../../components/UserProfileModal";
+import PairRankingsTable from "../../components/PairRankingsTable";
+import TournamentBracket from "../../components/TournamentBracket";
+import { getTiebreakOrder, TIEBREAK_LABELS } from "../../utils/standings";
+import { DEFAULT_TIMEOUT_POLICY, TIMEOUT_POLICY_OPTIONS } from "../../utils/timeouts";
+import { describePenalty } from "../../utils/penalties";
 import { Timestamp } from "firebase/firestore";
 import { Input } from "../../components/ui/input";
 
@@ -79,8 +88,10 @@ const LeagueDetail: React.FC = () => {
   const [members, setMembers] = useState<LeagueMember[]>([]);
   const [allMembers, setAllMembers] = useState<LeagueMember[]>([]);
   const [games, setGames] = useState<LeagueGame[]>([]);
+  const [tournaments, setTournaments] = useState<LeagueTournament[]>([]);
+  const [tournamentRounds, setTournamentRounds] = useState<Record<string, LeagueRound[]>>({});
   const [activeTab, setActiveTab] = useState<
-    "overview" | "standings" | "members" | "games"
+    "overview" | "standings" | "members" | "games" | "tournaments" | "chat"
   >("overview");
   const [userDisplayNames, setUserDisplayNames] = useState<
     Record<string, string>
@@ -120,6 +131,12 @@ const LeagueDetail: React.FC = () => {
   const [membersColumnFilters, setMembersColumnFilters] = useState<ColumnFiltersState>([]);
   const [membersGlobalFilter, setMembersGlobalFilter] = useState("");
   const [standingsSorting, setStandingsSorting] = useState<SortingState>([]);
+  const [standingsView, setStandingsView] = useState<"players" | "pairs">("players");
+  const [pairRankings, setPairRankings] = useState<PairRankingEntry[]>([]);
+  const [standings, setStandings] = useState<LeagueRankingEntry[]>([]);
+  const [myPenalties, setMyPenalties] = useState<LeaguePenalty[]>([]);
+  const [fineToPay, setFineToPay] = useState<LeaguePenalty | null>(null);
+  const [showMembershipCheckout, setShowMembershipCheckout] = useState(false);
   const [gamesSorting, setGamesSorting] = useState<SortingState>([]);
 
   // Centralized user data fetching with cache
@@ -155,7 +172,7 @@ const LeagueDetail: React.FC = () => {
             return {
               userId,
               userData,
-              isJudgeUser: isJudge(userData.email || ""),
+              isJudgeUser: isJudge(userData),
               displayName: userData.displayName || userData.username || userId,
               fullProfile
             };
@@ -217,111 +234,57 @@ const LeagueDetail: React.FC = () => {
     return fetchUserData(userIds);
   }, [fetchUserData]);
 
-  // Check user permissions for managing the league
+  // Check user permissions for managing the league - league admins manage it,
+  // league judges only reach the penalties
   const canManage = league
-    ? canManageLeague(auth.currentUser, league.createdBy)
+    ? canManageLeague(auth.currentUser, league.createdBy, userMembership?.role)
+    : false;
+  const canJudge = league
+    ? canJudgeLeague(auth.currentUser, league.createdBy, userMembership?.role)
     : false;
 
-  // Calculate league standings from games
-  const calculateStandings = () => {
-    const playerStats: Record<string, { 
-      gamesPlayed: number, 
-      gamesWon: number, 
-      points: number,
-      pointsFor: number,
-      pointsAgainst: number 
-    }> = {};
-
-    // Initialize stats for all members
-    members.forEach(member => {
-      playerStats[member.userId] = {
-        gamesPlayed: 0,
-        gamesWon: 0,
-        points: 0,
-        pointsFor: 0,
-        pointsAgainst: 0
-      };
-    });
+  // League chat is open to active members and moderated by owners, admins and judges
+  const canChat = gameConfig?.features?.enableChat !== false &&
+    (canManage || userMembership?.status === "active");
+  const canModerateChat = league
+    ? canModerateLeague(auth.currentUser, league.createdBy, userMembership?.role)
+    : false;
 
-    // Calculate stats from completed games
-    const completedGames = games.filter(game => game.status === 'completed' && game.scores);
-    
-    completedGames.forEach(game => {
-        // Make sure we have stats for both players (create if missing)
-        if (!playerStats[game.createdBy]) {
-          playerStats[game.createdBy] = {
-            gamesPlayed: 0,
-            gamesWon: 0,
-            points: 0,
-            pointsFor: 0,
-            pointsAgainst: 0
-          };
-        }
-        
-        if (!playerStats[game.opponent]) {
-          playerStats[game.opponent] = {
-            gamesPlayed: 0,
-            gamesWon: 0,
-            points: 0,
-            pointsFor: 0,
-            pointsAgainst: 0
-          };
-        }
-        
-        const creatorStats = playerStats[game.createdBy];
-        const opponentStats = playerStats[game.opponent];
-
-        if (creatorStats && opponentStats && game.scores) {
-          // Update games played
-          creatorStats.gamesPlayed++;
-          opponentStats.gamesPlayed++;
-
-          // Update points for/against
-          creatorStats.pointsFor += game.scores.creator;
-          creatorStats.pointsAgainst += game.scores.opponent;
-          opponentStats.pointsFor += game.scores.opponent;
-          opponentStats.pointsAgainst += game.scores.creator;
-
-          // Determine winner and update wins/points
-          if (game.winner === game.createdBy) {
-            creatorStats.gamesWon++;
-            creatorStats.points += league?.settings?.scoringSystem?.pointsPerWin || 3;
-            opponentStats.points += league?.settings?.scoringSystem?.pointsPerLoss || 0;
-          } else if (game.winner === game.opponent) {
-            opponentStats.gamesWon++;
-            opponentStats.points += league?.settings?.scoringSystem?.pointsPerWin || 3;
-            creatorStats.points += league?.settings?.scoringSystem?.pointsPerLoss || 0;
-          } else {
-            // Draw
-            creatorStats.points += league?.settings?.scoringSystem?.pointsPerDraw || 1;
-            opponentStats.points += league?.settings?.scoringSystem?.pointsPerDraw || 1;
-          }
-        }
-      });
+  // Free trial of the current member: a reminder to pay shows in its last
+  // days and stays once the trial has lapsed without a payment
+  const trialEndsAt = league?.settings?.pricing?.paymentRequired ? userMembership?.trialEndsAt : undefined;
+  const onTrial = userMembership?.status === "active" && userMembership.paymentStatus === "trial";
+  const trialEnded = !!trialEndsAt && userMembership?.status === "inactive" &&
+    !!userMembership.membershipExpiresAt?.isEqual(trialEndsAt);
+  const trialDays = trialDaysLeft(trialEndsAt);
+  const showTrialReminder = trialEnded || (onTrial && trialDays <= TRIAL_REMINDER_DAYS);
+
+  // Pair and player standings are rebuilt whenever another league game is completed
+  const completedGamesCount = useMemo(
+    () => games.filter(game => game.status === 'completed').length,
+    [games]
+  );
 
-    // Convert to array and sort by points, then by win rate, then by point differential
-    const result = Object.entries(playerStats)
-      .map(([userId, stats]) => ({
-        userId,
-        displayName: userDisplayNames[userId] || userId,
-        photoURL: userProfiles[userId]?.photoURL,
-        ...stats,
-        winRate: stats.gamesPlayed > 0 ? (stats.gamesWon / stats.gamesPlayed) * 100 : 0,
-        pointDifferential: stats.pointsFor - stats.pointsAgainst
-      }))
-      .sort((a, b) => {
-        // Sort by points first
-        if (b.points !== a.points) return b.points - a.points;
-        // Then by win rate
-        if (b.winRate !== a.winRate) return b.winRate - a.winRate;
-        // Then by point differential
-        return b.pointDifferential - a.pointDifferential;
-      });
-    
-    return result;
-  };
+  useEffect(() => {
+    if (!id) return;
+    getPairRankings(id).then(setPairRankings);
+  }, [id, completedGamesCount]);
 
-  const standings = useMemo(() => calculateStandings(), [members, games, userDisplayNames, userProfiles, league?.settings]);
+  // Standings use the same calculation as the rankings page, with this league's scoring system
+  const scoringSystem = league?.settings?.scoringSystem;
+  useEffect(() => {
+    if (!id) return;
+    getLeagueRankings(id).then(setStandings);
+  }, [id, completedGamesCount, scoringSystem]);
+
+  // The current member's active penalties, including fines still to pay
+  const membershipStatus = userMembership?.status;
+  useEffect(() => {
+    if (!id || !auth.currentUser) return;
+    getLeaguePenalties(id, auth.currentUser.uid)
+      .then(penalties => setMyPenalties(penalties.filter(penalty => penalty.status === "active")))
+      .catch(() => setMyPenalties([]));
+  }, [id, membershipStatus]);
 
   // Filter members when userProfiles change (to exclude judges)
   useEffect(() => {
@@ -527,6 +490,41 @@ const LeagueDetail: React.FC = () => {
       }
     });
 
+    // Brackets and Swiss standings update as their games are confirmed
+    const tournamentsQuery = query(
+      collection(db, "leagueTournaments"),
+      where("leagueId", "==", id),
+      where("format", "in", ["elimination", "swiss"])
+    );
+
+    // Each tournament's rounds are documents in its rounds subcollection
+    const roundListeners = new Map<string, () => void>();
+
+    const unsubTournaments = onSnapshot(tournamentsQuery, (tournamentsSnap) => {
+      const tournamentsData = tournamentsSnap.docs
+        .map(docSnapshot => ({ id: docSnapshot.id, ...docSnapshot.data() } as LeagueTournament))
+        .sort((a, b) => b.startDate.toMillis() - a.startDate.toMillis());
+      setTournaments(tournamentsData);
+
+      tournamentsData.forEach(tournament => {
+        if (roundListeners.has(tournament.id)) return;
+        roundListeners.set(tournament.id, onSnapshot(
+          collection(db, "leagueTournaments", tournament.id, "rounds"),
+          (roundsSnap) => {
+            const rounds = roundsSnap.docs
+              .map(roundDoc => roundDoc.data() as LeagueRound)
+              .sort((a, b) => a.roundNumber - b.roundNumber);
+            setTournamentRounds(prev => ({ ...prev, [tournament.id]: rounds }));
+          }
+        ));
+      });
+
+      const participantIds = tournamentsData.flatMap(tournament => tournament.participantIds || []);
+      if (participantIds.length > 0) {
+        fetchUserDisplayNames(Array.from(new Set(participantIds)));
+      }
+    });
+
     // Clean up listeners on unmount
     return () => {
       unsubLeague();
@@ -534,6 +532,8 @@ const LeagueDetail: React.FC = () => {
       unsubMembers();
       unsubLeagueGames();
       unsubRegularGames();
+      unsubTournaments();
+      roundListeners.forEach(unsubRounds => unsubRounds());
     };
   }, [id, fetchUserDisplayNames]);
 
@@ -553,6 +553,10 @@ const LeagueDetail: React.FC = () => {
     navigate(`/game/${gameId}`);
   }, [navigate]);
 
+  const handleBracketMatchClick = useCallback((match: LeagueMatch) => {
+    if (match.gameId) navigate(`/game/${match.gameId}`);
+  }, [navigate]);
+
   // Handle player click - use cache for better performance
   const handlePlayerClick = useCallback(async (player: StandingEntry) => {
     try {
@@ -656,18 +660,7 @@ const LeagueDetail: React.FC = () => {
   }, [gameConfig]);
 
   // Define standings type
-  type StandingEntry = {
-    userId: string;
-    displayName: string;
-    photoURL?: string;
-    gamesPlayed: number;
-    gamesWon: number;
-    points: number;
-    pointsFor: number;
-    pointsAgainst: number;
-    winRate: number;
-    pointDifferential: number;
-  };
+  type StandingEntry = LeagueRankingEntry;
 
   // Define table columns
   // Members table columns
@@ -729,15 +722,22 @@ const LeagueDetail: React.FC = () => {
       cell: ({ row }) => {
         const status = row.getValue("status") as string;
         return (
-          <span
-            className={`px-2 py-1 text-xs rounded-full ${
-              status === "active"
-                ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-200"
-                : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
-            }`}
-          >
-            {status}
-          </span>
+          <div className="flex flex-wrap gap-1">
+            <span
+              className={`px-2 py-1 text-xs rounded-full ${
+                status === "active"
+                  ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-200"
+                  : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+              }`}
+            >
+              {status}
+            </span>
+            {status === "active" && row.original.paymentStatus === "trial" && (
+              <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-200">
+                trial
+              </span>
+            )}
+          </div>
         );
       },
     },
@@ -760,14 +760,11 @@ const LeagueDetail: React.FC = () => {
     {
       accessorKey: "rank",
       header: "Rank",
-      cell: ({ row }) => {
-        const rank = row.index + 1;
-        return (
-          <div className="text-xs sm:text-sm font-bold text-center">
-            #{rank}
-          </div>
-        );
-      },
+      cell: ({ row }) => (
+        <div className="text-xs sm:text-sm font-bold text-center">
+          #{row.original.rank}
+        </div>
+      ),
     },
     {
       accessorKey: "displayName",
@@ -820,11 +817,28 @@ const LeagueDetail: React.FC = () => {
       },
     },
     {
-      accessorKey: "points",
+      accessorKey: "pointDifferential",
+      header: "+/-",
+      cell: ({ row }) => {
+        const differential = row.getValue("pointDifferential") as number;
+        return (
+          <div className="text-xs sm:text-sm text-center font-mono">
+            {differential > 0 ? `+${differential}` : differential}
+          </div>
+        );
+      },
+    },
+    {
+      accessorKey: "totalPoints",
       header: "Points",
       cell: ({ row }) => (
         <div className="text-xs sm:text-sm text-center font-mono">
-          {row.getValue("points")}
+          {row.getValue("totalPoints")}
+          {!!row.original.pointsDeducted && (
+            <span className="ml-1 text-red-600 dark:text-red-400" title="League points deducted by penalties">
+              (-{row.original.pointsDeducted})
+            </span>
+          )}
         </div>
       ),
     },
@@ -899,10 +913,13 @@ const LeagueDetail: React.FC = () => {
                       ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-200"
                       : status === "waiting_confirmation"
                         ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200"
-                        : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                        : status === "disputed"
+                          ? "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-200"
+                          : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
             }`}
           >
             {status === "waiting_confirmation" ? "Awaiting Confirmation" : 
+             status === "disputed" ? "Disputed" :
              status === "in_progress" ? "In Progress" :
              status === "accepted" ? "Ready to Start" :
              status === "invited" ? "Invited" :
@@ -928,6 +945,14 @@ const LeagueDetail: React.FC = () => {
     },
   ], []);
 
+  const tournamentsWithRounds = useMemo(() =>
+    tournaments.map(tournament => ({
+      ...tournament,
+      rounds: tournamentRounds[tournament.id] || []
+    })),
+    [tournaments, tournamentRounds]
+  );
+
   // Create table instances - wait for userProfiles to be loaded like standings does
   const membersWithDisplayNames = useMemo(() => 
     members.map(member => ({
@@ -945,6 +970,7 @@ const LeagueDetail: React.FC = () => {
          game.status === 'in_progress' || 
          game.status === 'accepted' ||
          game.status === 'waiting_confirmation' ||
+         game.status === 'disputed' ||
          game.status === 'invited')
       )
       .map(game => ({
@@ -1127,7 +1153,7 @@ const LeagueDetail: React.FC = () => {
               )}
           </div>
 
-          {canManage && (
+          {(canManage || canJudge) && (
             <div className="flex flex-col sm:flex-row gap-2">
               <Link
                 to={`/leagues/manage/${id}`}
@@ -1136,20 +1162,131 @@ const LeagueDetail: React.FC = () => {
                 <PencilSquareIcon className="h-5 w-5 mr-1" />
                 Manage League
               </Link>
+              {canJudge && (
+                <Link
+                  to="/disputes"
+                  className="px-4 py-2 border border-gray-300 dark:border-zinc-600 rounded-md hover:bg-gray-50 dark:hover:bg-zinc-700 flex items-center justify-center sm:justify-start"
+                >
+                  <ScaleIcon className="h-5 w-5 mr-1" />
+                  Disputes
+                </Link>
+              )}
             </div>
           )}
           </div>
         </CardContent>
       </Card>
 
+      {/* Penalties of the current member */}
+      {myPenalties.length > 0 && (
+        <Card className="mb-4 sm:mb-6 border-red-200 dark:border-red-900">
+          <CardHeader>
+            <CardTitle className="text-base text-red-700 dark:text-red-300">Your Penalties</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-3">
+              {myPenalties.map(penalty => (
+                <li key={penalty.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+                  <div>
+                    <p className="font-medium">{describePenalty(penalty)}</p>
+                    <p className="text-gray-600 dark:text-gray-400">
+                      {penalty.reason}
+                      {penalty.gameId && (
+                        <Link to={`/game/${penalty.gameId}`} className="ml-2 text-blue-600 hover:underline">
+                          View game
+                        </Link>
+                      )}
+                    </p>
+                  </div>
+                  {penalty.type === "fine" && penalty.paymentId && (
+                    <Button
+                      size="sm"
+                      onClick={() => setFineToPay(penalty)}
+                      className="bg-red-600 hover:bg-red-700 text-white"
+                    >
+                      Pay fine
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Free trial of the current member, and the reminder to pay before it ends */}
+      {trialEndsAt && (onTrial || trialEnded) && (
+        <Card className={`mb-4 sm:mb-6 ${showTrialReminder ? "border-amber-300 dark:border-amber-800" : "border-blue-200 dark:border-blue-900"}`}>
+          <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+            <div>
+              <p className="font-medium flex items-center gap-2">
+                <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-200">
+                  Free trial
+                </span>
+                {trialEnded
+                  ? "Your free trial has ended"
+                  : `${trialDays} day${trialDays !== 1 ? "s" : ""} left`}
+              </p>
+              <p className="text-gray-600 dark:text-gray-400 mt-1">
+                {trialEnded
+                  ? "Pay the monthly membership fee to keep playing in this league."
+                  : `Your trial ends on ${trialEndsAt.toDate().toLocaleDateString()}. ${
+                      showTrialReminder
+                        ? "Pay now to keep playing; your first month starts when the trial ends."
+                        : "Billing starts when the trial ends."
+                    }`}
+              </p>
+            </div>
+            {showTrialReminder && (
+              <Button
+                size="sm"
+                onClick={() => setShowMembershipCheckout(true)}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                Pay now
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {showMembershipCheckout && league.settings?.pricing?.paymentRequired && (
+        <SquareCheckoutModal
+          isOpen={showMembershipCheckout}
+          onClose={() => setShowMembershipCheckout(false)}
+          leagueId={league.id}
+          leagueName={league.name}
+          monthlyFee={league.settings.pricing.monthlyFee}
+          currency={league.settings.pricing.currency || "USD"}
+          userId={auth.currentUser?.uid}
+          onSuccess={() => setShowMembershipCheckout(false)}
+        />
+      )}
+
+      {fineToPay && fineToPay.paymentId && (
+        <SquareCheckoutModal
+          isOpen={!!fineToPay}
+          onClose={() => setFineToPay(null)}
+          leagueId={league.id}
+          leagueName={league.name}
+          monthlyFee={fineToPay.amount || 0}
+          currency={fineToPay.currency}
+          fine={{ paymentId: fineToPay.paymentId, reason: fineToPay.reason }}
+        />
+      )}
+
       {/* Tabs */}
-      <Tabs defaultValue="overview" value={activeTab} onValueChange={(value) => setActiveTab(value as "overview" | "standings" | "members" | "games")}>
+      <Tabs defaultValue="overview" value={activeTab} onValueChange={(value) => setActiveTab(value as "overview" | "standings" | "members" | "games" | "tournaments" | "chat")}>
         <div className="overflow-x-auto -mx-3 sm:mx-0">
-          <TabsList className="grid w-max min-w-full sm:w-full grid-cols-4 mx-3 sm:mx-0">
+          <TabsList className={`grid w-max min-w-full sm:w-full ${canChat ? "grid-cols-6" : "grid-cols-5"} mx-3 sm:mx-0`}>
             <TabsTrigger value="overview" className="text-xs sm:text-sm">Overview</TabsTrigger>
             <TabsTrigger value="standings" className="text-xs sm:text-sm">Standings</TabsTrigger>
             <TabsTrigger value="members" className="text-xs sm:text-sm">Members ({members.length})</TabsTrigger>
             <TabsTrigger value="games" className="text-xs sm:text-sm">Games ({games.length})</TabsTrigger>
+            <TabsTrigger value="tournaments" className="text-xs sm:text-sm">Tournaments</TabsTrigger>
+            {canChat && (
+              <TabsTrigger value="chat" className="text-xs sm:text-sm">Chat</TabsTrigger>
+            )}
           </TabsList>
         </div>
         
@@ -1182,6 +1319,13 @@ const LeagueDetail: React.FC = () => {
                       {league.settings.timeLimit} minutes per game
                     </li>
                   )}
+                  {(league.settings?.timeLimit || 0) > 0 && (
+                    <li>
+                      <strong>When Time Runs Out:</strong>{" "}
+                      {TIMEOUT_POLICY_OPTIONS.find(option =>
+                        option.value === (league.settings.timeoutPolicy || DEFAULT_TIMEOUT_POLICY))?.label}
+                    </li>
+                  )}
                   <li>
                     <strong>Requires Confirmation:</strong>{" "}
                     {league.settings?.requireConfirmation ? "Yes" : "No"}
@@ -1215,16 +1359,16 @@ const LeagueDetail: React.FC = () => {
                   </li>
                   <li>
                     <strong>Scoring System:</strong>{" "}
-                    {league.settings?.scoringSystem?.pointsPerWin || 3} pts win
-                    / {league.settings?.scoringSystem?.pointsPerDraw || 1} pts
-                    draw / {league.settings?.scoringSystem?.pointsPerLoss || 0}{" "}
+                    {league.settings?.scoringSystem?.pointsPerWin ?? 3} pts win
+                    / {league.settings?.scoringSystem?.pointsPerDraw ?? 1} pts
+                    draw / {league.settings?.scoringSystem?.pointsPerLoss ?? 0}{" "}
                     pts loss
                   </li>
                   <li>
                     <strong>Tiebreakers:</strong>{" "}
-                    {league.settings?.scoringSystem?.usePointDifferential
-                      ? "Uses point differential"
-                      : "Win count only"}
+                    {getTiebreakOrder(league.settings?.scoringSystem)
+                      .map((tiebreak) => TIEBREAK_LABELS[tiebreak])
+                      .join(", ")}
                   </li>
                 </ul>
               </div>
@@ -1278,15 +1422,35 @@ const LeagueDetail: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex justify-between items-center">
                 <span>League Standings</span>
-                {league.status && league.status === "active" && (
-                  <span className="text-sm text-gray-500 dark:text-gray-400 font-normal">
-                    Updated in real-time as games are played
-                  </span>
-                )}
+                <div className="flex items-center gap-3">
+                  {league.status && league.status === "active" && (
+                    <span className="hidden sm:inline text-sm text-gray-500 dark:text-gray-400 font-normal">
+                      Updated in real-time as games are played
+                    </span>
+                  )}
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant={standingsView === "players" ? "default" : "outline"}
+                      onClick={() => setStandingsView("players")}
+                    >
+                      Players
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={standingsView === "pairs" ? "default" : "outline"}
+                      onClick={() => setStandingsView("pairs")}
+                    >
+                      Pairs
+                    </Button>
+                  </div>
+                </div>
               </CardTitle>
             </CardHeader>
             <CardContent>
-            {standings.length === 0 ? (
+            {standingsView === "pairs" ? (
+              <PairRankingsTable pairs={pairRankings} />
+            ) : standings.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 No games completed yet
               </div>
@@ -1513,6 +1677,100 @@ const LeagueDetail: React.FC = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="tournaments" className="mt-4 sm:mt-6 space-y-4">
+          {tournaments.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-8 text-gray-500">
+                No brackets or Swiss tournaments have been created for this league yet
+              </CardContent>
+            </Card>
+          ) : (
+            tournamentsWithRounds.map(tournament => (
+              <Card key={tournament.id}>
+                <CardHeader>
+                  <CardTitle className="flex justify-between items-center">
+                    <span>{tournament.name}</span>
+                    <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                      {tournament.format === "swiss"
+                        ? `Swiss · round ${tournament.rounds.length} of ${tournament.numberOfRounds}`
+                        : tournament.hasLosersBracket ? "Double elimination" : "Single elimination"} · {tournament.status}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {tournament.format === "elimination" && (
+                    <TournamentBracket
+                      tournament={tournament}
+                      displayNames={userDisplayNames}
+                      onMatchClick={handleBracketMatchClick}
+                    />
+                  )}
+                  {tournament.format === "swiss" && tournament.winner && (
+                    <div className="flex items-center gap-2 rounded-md bg-yellow-50 dark:bg-yellow-900/20 px-3 py-2 text-sm font-medium text-yellow-800 dark:text-yellow-200">
+                      <TrophyIcon className="h-5 w-5" />
+                      Winner: {userDisplayNames[tournament.winner] || tournament.winner}
+                    </div>
+                  )}
+                  {tournament.standings && tournament.standings.length > 0 && (
+                    <div className="overflow-hidden rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Rank</TableHead>
+                            <TableHead>Player</TableHead>
+                            <TableHead>W-L</TableHead>
+                            <TableHead>Diff</TableHead>
+                            <TableHead>Points</TableHead>
+                            {tournament.format === "swiss" && (
+                              <>
+                                <TableHead title="Sum of the opponents' scores">Buchholz</TableHead>
+                                <TableHead title="Scores of beaten opponents plus half of drawn ones">S-B</TableHead>
+                              </>
+                            )}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {tournament.standings.map(standing => (
+                            <TableRow key={standing.id}>
+                              <TableCell className="font-bold">#{standing.rank}</TableCell>
+                              <TableCell>{userDisplayNames[standing.id] || standing.id}</TableCell>
+                              <TableCell>
+                                {standing.gamesWon}-{standing.gamesLost}
+                                {standing.gamesTied ? `-${standing.gamesTied}` : ""}
+                              </TableCell>
+                              <TableCell className="font-mono">
+                                {standing.pointDifferential > 0 ? "+" : ""}{standing.pointDifferential}
+                              </TableCell>
+                              <TableCell className="font-mono">{standing.points}</TableCell>
+                              {tournament.format === "swiss" && (
+                                <>
+                                  <TableCell className="font-mono">{standing.buchholz ?? 0}</TableCell>
+                                  <TableCell className="font-mono">{standing.sonnebornBerger ?? 0}</TableCell>
+                                </>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        {canChat && id && (
+          <TabsContent value="chat" className="mt-4 sm:mt-6">
+            <ChatPanel
+              target={{ type: "league", id }}
+              leagueId={id}
+              canModerate={canModerateChat}
+              title="League Chat"
+            />
+          </TabsContent>
+        )}
       </Tabs>
 
       <UserProfileModal
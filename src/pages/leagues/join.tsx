@@ -12,7 +12,7 @@ import {
   serverTimestamp,
   onSnapshot,
 } from "firebase/firestore";
-import { auth } from "../../firebase";
+import { auth, startLeagueTrial } from "../../firebase";
 import {
   TrophyIcon,
   UserGroupIcon,
@@ -34,10 +34,13 @@ const JoinLeague: React.FC = () => {
   const [joinMessage, setJoinMessage] = useState("");
   const [alreadyMember, setAlreadyMember] = useState(false);
   const [pendingRequest, setPendingRequest] = useState(false);
+  const [awaitingPayment, setAwaitingPayment] = useState(false);
   const [inactiveMember, setInactiveMember] = useState(false);
   const [redirectCountdown, setRedirectCountdown] = useState<number | null>(null);
   const [showJoinConfirmModal, setShowJoinConfirmModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [trialEnded, setTrialEnded] = useState(false);
+  const [trialError, setTrialError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!id || !auth.currentUser) {
@@ -135,8 +138,16 @@ const JoinLeague: React.FC = () => {
           setAlreadyMember(false);
           setPendingRequest(false);
           setInactiveMember(true);
+          // Trials that lapsed without a payment still expire at their end
+          setTrialEnded(!!membership.trialEndsAt && !!membership.membershipExpiresAt?.isEqual(membership.trialEndsAt));
           setLoading(false);
           return; // Exit early - user is inactive member
+        } else if (membership.status === "pending" && membership.paymentStatus === "pending") {
+          // Accepted an invitation to a paid league; only the fee is missing
+          setAlreadyMember(false);
+          setAwaitingPayment(true);
+          setLoading(false);
+          return;
         } else if (membership.status === "pending") {
           setAlreadyMember(false);
           setPendingRequest(true);
@@ -148,6 +159,7 @@ const JoinLeague: React.FC = () => {
       // If no membership found, reset all membership states and check join requests
       setAlreadyMember(false);
       setInactiveMember(false);
+      setAwaitingPayment(false);
     });
 
     // Set up real-time listener for join requests (SECOND PRIORITY)
@@ -259,7 +271,10 @@ const JoinLeague: React.FC = () => {
     // Check if this is a premium league that requires payment
     const isPremiumLeague = league.settings?.pricing?.paymentRequired === true;
     
-    if (isPremiumLeague) {
+    if (isPremiumLeague && (league.settings?.pricing?.trialPeriodDays || 0) > 0) {
+      // Leagues with a free trial let players in before the first payment
+      await handleStartTrial();
+    } else if (isPremiumLeague) {
       // For premium leagues, show payment modal instead of confirmation
       setShowPaymentModal(true);
     } else {
@@ -268,6 +283,21 @@ const JoinLeague: React.FC = () => {
     }
   };
 
+  const handleStartTrial = async () => {
+    if (!id) return;
+
+    setSubmitting(true);
+    setTrialError(null);
+    try {
+      // The membership listener redirects once the trial membership is active
+      await startLeagueTrial(id);
+    } catch (err) {
+      setTrialError(err instanceof Error ? err.message : "Failed to start the free trial");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handlePaymentSuccess = () => {
     // Payment was successful, membership will be automatically created or reactivated by Firebase Function
     setShowPaymentModal(false);
@@ -275,6 +305,7 @@ const JoinLeague: React.FC = () => {
     // Show success message and redirect
     setAlreadyMember(true);
     setInactiveMember(false);
+    setAwaitingPayment(false);
     setRedirectCountdown(3);
     
     const countdownInterval = setInterval(() => {
@@ -387,6 +418,11 @@ const JoinLeague: React.FC = () => {
     );
   }
 
+  // Free trial length of a priced league; the server allows one per player
+  const trialDays = league.settings?.pricing?.paymentRequired
+    ? league.settings.pricing.trialPeriodDays || 0
+    : 0;
+
   return (
     <div className="p-6 max-w-6xl mx-auto dark:text-white">
       <h1 className="text-2xl font-bold mb-6 flex items-center">
@@ -420,6 +456,11 @@ const JoinLeague: React.FC = () => {
                 </strong>
                 <span className="text-sm ml-1">/month</span>
               </p>
+              {trialDays > 0 && (
+                <p className="mb-2 font-medium text-green-700 dark:text-green-300">
+                  Includes a {trialDays}-day free trial. Billing starts when the trial ends.
+                </p>
+              )}
               <p className="text-xs text-green-600 dark:text-green-400">
                 Monthly membership fee required to join and participate in this league. 
                 Payment is processed securely through Square using credit cards, Apple Pay, or Google Pay.
@@ -545,10 +586,12 @@ const JoinLeague: React.FC = () => {
                 </svg>
               </div>
               <h2 className="text-xl font-semibold mb-2 text-red-700 dark:text-red-300">
-                Your membership is currently inactive
+                {trialEnded ? "Your free trial has ended" : "Your membership is currently inactive"}
               </h2>
               <p className="text-gray-600 dark:text-gray-400 mb-4">
-                You are a member of this league but your membership has expired or been deactivated. 
+                {trialEnded
+                  ? "Your free trial of this league is over. "
+                  : "You are a member of this league but your membership has expired or been deactivated. "}
                 {league.settings?.pricing?.paymentRequired 
                   ? " You can reactivate your membership by making a payment below."
                   : " Please contact the league administrator to reactivate your membership."
@@ -604,6 +647,47 @@ const JoinLeague: React.FC = () => {
               </button>
             </div>
           </div>
+        ) : awaitingPayment && league.settings?.pricing?.paymentRequired ? (
+          <div className="text-center py-6">
+            <h2 className="text-xl font-semibold mb-2">
+              You've been invited to {league.name}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              Your invitation has been accepted.{" "}
+              {trialDays > 0
+                ? `Start your ${trialDays}-day free trial or pay the monthly membership fee to start playing.`
+                : "Pay the monthly membership fee to start playing."}
+            </p>
+            {trialError && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-4">{trialError}</p>
+            )}
+            <div className="flex justify-center space-x-3">
+              {trialDays > 0 && (
+                <button
+                  onClick={handleStartTrial}
+                  disabled={submitting}
+                  className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  {submitting ? "Starting..." : `Start ${trialDays}-Day Free Trial`}
+                </button>
+              )}
+              <button
+                onClick={() => setShowPaymentModal(true)}
+                className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+              >
+                Pay {new Intl.NumberFormat('en-US', {
+                  style: 'currency',
+                  currency: league.settings.pricing.currency || 'USD',
+                }).format(league.settings.pricing.monthlyFee)} to Join
+              </button>
+              <button
+                onClick={() => navigate(`/leagues/${id}`)}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                View League Details
+              </button>
+            </div>
+          </div>
         ) : pendingRequest ? (
           <div className="text-center py-6">
             <h2 className="text-xl font-semibold mb-2">
@@ -634,9 +718,9 @@ const JoinLeague: React.FC = () => {
           <form onSubmit={handleJoinRequest}>
             <h2 className="text-xl font-semibold mb-4">Join Request</h2>
 
-            {error && (
+            {(error || trialError) && (
               <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-4 dark:bg-red-900/20">
-                <p className="text-red-700 dark:text-red-300">{error}</p>
+                <p className="text-red-700 dark:text-red-300">{error || trialError}</p>
               </div>
             )}
 
@@ -672,26 +756,40 @@ const JoinLeague: React.FC = () => {
                 Cancel
               </Link>
 
-              <button
-                type="submit"
-                disabled={submitting}
-                className={`px-4 py-2 rounded-md font-medium ${
-                  submitting
-                    ? "bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-zinc-700 dark:text-zinc-400"
-                    : "bg-green-600 text-white hover:bg-green-700"
-                }`}
-              >
-                {submitting
-                  ? "Processing..."
-                  : league.settings?.pricing?.paymentRequired
-                  ? `Pay ${new Intl.NumberFormat('en-US', {
-                      style: 'currency',
-                      currency: league.settings.pricing.currency || 'USD',
-                    }).format(league.settings.pricing.monthlyFee)} to Join`
-                  : league.settings?.allowJoinRequests
-                  ? "Submit Request to Join"
-                  : "Join League"}
-              </button>
+              <div className="flex space-x-3">
+                {trialDays > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setShowPaymentModal(true)}
+                    disabled={submitting}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-zinc-700 dark:text-gray-200 dark:hover:bg-zinc-600"
+                  >
+                    Pay Now Instead
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className={`px-4 py-2 rounded-md font-medium ${
+                    submitting
+                      ? "bg-gray-300 text-gray-500 cursor-not-allowed dark:bg-zinc-700 dark:text-zinc-400"
+                      : "bg-green-600 text-white hover:bg-green-700"
+                  }`}
+                >
+                  {submitting
+                    ? "Processing..."
+                    : trialDays > 0
+                    ? `Start ${trialDays}-Day Free Trial`
+                    : league.settings?.pricing?.paymentRequired
+                    ? `Pay ${new Intl.NumberFormat('en-US', {
+                        style: 'currency',
+                        currency: league.settings.pricing.currency || 'USD',
+                      }).format(league.settings.pricing.monthlyFee)} to Join`
+                    : league.settings?.allowJoinRequests
+                    ? "Submit Request to Join"
+                    : "Join League"}
+                </button>
+              </div>
             </div>
           </form>
         )}
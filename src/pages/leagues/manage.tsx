@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import {
   getFirestore,
@@ -26,14 +26,30 @@ import {
   type SortingState,
   type ColumnFiltersState,
 } from "@tanstack/react-table";
-import { auth, uploadLeagueImage, getLeagueSeasons, getCurrentSeason, createSeason, updateSeasonStatus, getAllSeasons, deleteLeagueCompletely, getUserProfile } from "../../firebase";
-import { isJudge } from "../../utils/auth";
+import { auth, functions, uploadLeagueImage, getLeagueSeasons, getCurrentSeason, createSeason, updateSeasonStatus, getAllSeasons, deleteLeagueCompletely, getUserProfile, getLeagueTournaments, createRoundRobinTournament, createEliminationTournament, createSwissTournament, issuePenalty, liftPenalty, getLeaguePenalties, getLeagueMemberRole, searchUsers, sendLeagueInvitation, getLeagueInvitations, cancelLeagueInvitation, getLeaguePayments, getPaymentById, PAYMENTS_PAGE_SIZE, refundLeaguePayment } from "../../firebase";
+import type { UserProfile } from "../../firebase";
+import { httpsCallable } from "firebase/functions";
+import {
+  isJudge,
+  canManageLeague,
+  canJudgeLeague,
+  canAssignLeagueRoles,
+  ASSIGNABLE_LEAGUE_ROLES,
+} from "../../utils/auth";
 import { TrophyIcon } from "@heroicons/react/24/solid";
 import type {
   League,
   LeagueMember,
   LeagueJoinRequest,
+  LeagueInvitation,
+  LeagueMemberRole,
+  LeagueTournament,
+  LeaguePenalty,
+  PenaltyType,
+  LeaguePayment,
+  LeaguePaymentRefund,
   Season,
+  TimeoutPolicy,
 } from "../../models/league";
 import { ConfirmModal } from "../../components/modal";
 import {
@@ -69,6 +85,19 @@ import {
 } from "../../components/ui/avatar";
 import { Input } from "../../components/input";
 import UserProfileModal, { useUserProfileModal } from "../../components/UserProfileModal";
+import TournamentBracket from "../../components/TournamentBracket";
+import { BYE_ID } from "../../utils/tournaments";
+import { DEFAULT_TIEBREAK_ORDER, TIEBREAK_LABELS } from "../../utils/standings";
+import { DEFAULT_TIMEOUT_POLICY, TIMEOUT_POLICY_OPTIONS } from "../../utils/timeouts";
+import { PENALTY_LABELS, describePenalty } from "../../utils/penalties";
+import { formatMoney, proratedRefundAmount, isRefundable } from "../../utils/payments";
+
+// Firebase functions
+const openTournamentRound = httpsCallable(functions, "openTournamentRound");
+const recordTournamentWalkover = httpsCallable(functions, "recordTournamentWalkover");
+
+// Tab list widths by the number of tabs the user can see
+const GRID_COLUMNS = ["grid-cols-1", "grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4", "grid-cols-5", "grid-cols-6", "grid-cols-7"];
 
 const LeagueManagement: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -77,6 +106,7 @@ const LeagueManagement: React.FC = () => {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [league, setLeague] = useState<League | null>(null);
+  const [memberRole, setMemberRole] = useState<LeagueMemberRole | null>(null);
   const [members, setMembers] = useState<LeagueMember[]>([]);
   const [joinRequests, setJoinRequests] = useState<LeagueJoinRequest[]>([]);
   const [seasons, setSeasons] = useState<Season[]>([]);
@@ -110,6 +140,76 @@ const LeagueManagement: React.FC = () => {
   // Game configuration hook
   const { config: gameConfig, loading: configLoading } = useGameConfig();
 
+  // Tournament schedule state
+  const [tournaments, setTournaments] = useState<LeagueTournament[]>([]);
+  const [scheduleForm, setScheduleForm] = useState<{
+    name: string;
+    format: "round-robin" | "elimination" | "swiss";
+    legs: 1 | 2;
+    withLosersBracket: boolean;
+    numberOfRounds: number;
+  }>({
+    name: "",
+    format: "round-robin",
+    legs: 1,
+    withLosersBracket: false,
+    numberOfRounds: 5,
+  });
+  const [scheduleMessage, setScheduleMessage] = useState<string | null>(null);
+
+  // Penalties state
+  const [penalties, setPenalties] = useState<LeaguePenalty[]>([]);
+  const [penaltyForm, setPenaltyForm] = useState<{
+    userId: string;
+    type: PenaltyType;
+    reason: string;
+    gameId: string;
+    points: number;
+    days: number; // 0 = until lifted
+    amount: number;
+  }>({
+    userId: "",
+    type: "warning",
+    reason: "",
+    gameId: "",
+    points: 1,
+    days: 7,
+    amount: 10,
+  });
+  const [penaltyMessage, setPenaltyMessage] = useState<string | null>(null);
+
+  // Payments state
+  const [payments, setPayments] = useState<LeaguePayment[]>([]);
+  const [hasMorePayments, setHasMorePayments] = useState(false);
+  const [loadingMorePayments, setLoadingMorePayments] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<LeaguePayment | null>(null);
+  const [refundForm, setRefundForm] = useState<{
+    mode: NonNullable<LeaguePaymentRefund["mode"]>;
+    deactivateMembership: boolean;
+    reason: string;
+  }>({
+    mode: "prorated",
+    deactivateMembership: true,
+    reason: "",
+  });
+  const [refundMessage, setRefundMessage] = useState<string | null>(null);
+
+  // Invitations state
+  const [invitations, setInvitations] = useState<LeagueInvitation[]>([]);
+  const [inviteeNames, setInviteeNames] = useState<Record<string, string>>({});
+  const [inviteSearch, setInviteSearch] = useState("");
+  const [inviteResults, setInviteResults] = useState<UserProfile[]>([]);
+  const [inviteForm, setInviteForm] = useState<{
+    role: LeagueMemberRole;
+    expiresInDays: number; // 0 = never expires
+    comped: boolean;
+  }>({
+    role: "player",
+    expiresInDays: 14,
+    comped: false,
+  });
+  const [inviteMessage, setInviteMessage] = useState<string | null>(null);
+
   // League form data
   const [formData, setFormData] = useState({
     name: "",
@@ -132,8 +232,11 @@ const LeagueManagement: React.FC = () => {
     pointsPerDraw: 1,
     pointsPerLoss: 0,
     usePointDifferential: true,
+    countSeriesAsMatch: false,
+    tiebreakOrder: DEFAULT_TIEBREAK_ORDER,
     // Game rules
     timeLimit: 30,
+    timeoutPolicy: DEFAULT_TIMEOUT_POLICY as TimeoutPolicy,
     penaltiesEnabled: true,
   });
 
@@ -254,19 +357,36 @@ const LeagueManagement: React.FC = () => {
       }
 
       const leagueData = { id: leagueSnap.id, ...leagueSnap.data() } as League;
+      const role = await getLeagueMemberRole(id, auth.currentUser.uid);
 
+      // League admins manage the league, league judges handle penalties
       if (
-        !isJudge(auth.currentUser) &&
-        leagueData.createdBy !== auth.currentUser.uid
+        !canManageLeague(auth.currentUser, leagueData.createdBy, role) &&
+        !canJudgeLeague(auth.currentUser, leagueData.createdBy, role)
       ) {
         navigate(`/leagues/${id}`);
         return;
       }
+      setMemberRole(role);
     };
 
     checkPermission();
   }, [id, navigate]);
 
+  const loadInvitations = useCallback(async (leagueId: string) => {
+    try {
+      const pending = await getLeagueInvitations(leagueId);
+      const profiles = await Promise.all(pending.map((invitation) => getUserProfile(invitation.invitedUserId)));
+      setInvitations(pending);
+      setInviteeNames(Object.fromEntries(profiles
+        .filter((profile) => profile !== null)
+        .map((profile) => [profile.uid, profile.displayName])));
+    } catch (err) {
+      console.error("Error loading invitations:", err);
+      setInvitations([]);
+    }
+  }, []);
+
   useEffect(() => {
     const fetchLeagueData = async () => {
       if (!id) return;
@@ -313,8 +433,11 @@ const LeagueManagement: React.FC = () => {
           pointsPerDraw: leagueData.settings?.scoringSystem?.pointsPerDraw ?? 1,
           pointsPerLoss: leagueData.settings?.scoringSystem?.pointsPerLoss ?? 0,
           usePointDifferential: leagueData.settings?.scoringSystem?.usePointDifferential ?? true,
+          countSeriesAsMatch: leagueData.settings?.scoringSystem?.countSeriesAsMatch ?? false,
+          tiebreakOrder: leagueData.settings?.scoringSystem?.tiebreakOrder ?? DEFAULT_TIEBREAK_ORDER,
           // Game rules - using proper nullish coalescing for 0 values
           timeLimit: leagueData.settings?.timeLimit ?? 30,
+          timeoutPolicy: leagueData.settings?.timeoutPolicy ?? DEFAULT_TIMEOUT_POLICY,
           penaltiesEnabled: leagueData.settings?.penaltiesEnabled ?? true,
         });
 
@@ -352,7 +475,7 @@ const LeagueManagement: React.FC = () => {
                 return {
                   userId,
                   userData,
-                  isJudgeUser: isJudge(userData.email || ""),
+                  isJudgeUser: isJudge(userData),
                   displayName: userData.displayName || userData.username || userId,
                   photoURL: userData.photoURL || null
                 };
@@ -544,7 +667,16 @@ const LeagueManagement: React.FC = () => {
 
     fetchLeagueData();
     fetchSeasonsData();
-  }, [id]);
+    getLeagueTournaments(id!).then(setTournaments);
+    getLeaguePenalties(id!).then(setPenalties).catch(() => setPenalties([]));
+    getLeaguePayments(id!)
+      .then((page) => {
+        setPayments(page);
+        setHasMorePayments(page.length === PAYMENTS_PAGE_SIZE);
+      })
+      .catch(() => setPayments([]));
+    loadInvitations(id!);
+  }, [id, loadInvitations]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -575,12 +707,15 @@ const LeagueManagement: React.FC = () => {
           playoffsEnabled: formData.playoffsEnabled,
           playoffTeams: formData.playoffTeams,
           timeLimit: formData.timeLimit,
+          timeoutPolicy: formData.timeoutPolicy,
           penaltiesEnabled: formData.penaltiesEnabled,
           scoringSystem: {
             pointsPerWin: formData.pointsPerWin,
             pointsPerDraw: formData.pointsPerDraw,
             pointsPerLoss: formData.pointsPerLoss,
             usePointDifferential: formData.usePointDifferential,
+            countSeriesAsMatch: formData.countSeriesAsMatch,
+            tiebreakOrder: formData.tiebreakOrder,
           },
         },
         updatedAt: serverTimestamp(),
@@ -609,12 +744,15 @@ const LeagueManagement: React.FC = () => {
             playoffsEnabled: formData.playoffsEnabled,
             playoffTeams: formData.playoffTeams,
             timeLimit: formData.timeLimit,
+            timeoutPolicy: formData.timeoutPolicy,
             penaltiesEnabled: formData.penaltiesEnabled,
             scoringSystem: {
               pointsPerWin: formData.pointsPerWin,
               pointsPerDraw: formData.pointsPerDraw,
               pointsPerLoss: formData.pointsPerLoss,
               usePointDifferential: formData.usePointDifferential,
+              countSeriesAsMatch: formData.countSeriesAsMatch,
+              tiebreakOrder: formData.tiebreakOrder,
             },
           },
         };
@@ -670,7 +808,7 @@ const LeagueManagement: React.FC = () => {
   };
 
   // Función para manejar click en perfil de miembro
-  const handleMemberClick = async (member: LeagueMember) => {
+  const handleMemberClick = useCallback(async (member: LeagueMember) => {
     try {
       const fullUserProfile = await getUserProfile(member.userId);
       
@@ -680,10 +818,10 @@ const LeagueManagement: React.FC = () => {
     } catch (error) {
       console.error("Error fetching user profile:", error);
     }
-  };
+  }, [openProfileModal]);
 
   // Función para manejar cambio de estado de miembro
-  const handleMemberStatusChange = async (memberId: string, newStatus: "active" | "inactive") => {
+  const handleMemberStatusChange = useCallback(async (memberId: string, newStatus: "active" | "inactive") => {
     if (!id || !memberId) return;
 
     setSaving(true);
@@ -708,62 +846,48 @@ const LeagueManagement: React.FC = () => {
     } finally {
       setSaving(false);
     }
-  };
+  }, [id]);
 
-  const handleMemberAction = async (
-    memberId: string,
-    action: "promote" | "demote" | "remove",
-  ) => {
+  // Give a member a league role - only the owner and judges can
+  const handleMemberRoleChange = useCallback(async (memberId: string, role: LeagueMemberRole) => {
     if (!id || !memberId) return;
 
-    // If action is remove, show confirmation modal instead of executing immediately
-    if (action === "remove") {
-      const member = members.find((m) => m.id === memberId);
-      if (member) {
-        const memberName = userDisplayNames[member.userId] || member.userId;
-        setMemberToRemove({ id: memberId, name: memberName });
-        setShowRemoveMemberModal(true);
-      }
-      return;
-    }
-
     setSaving(true);
     setError(null);
 
     try {
       const db = getFirestore();
-      const memberRef = firestoreDoc(db, "leagueMemberships", memberId);
-
-      if (action === "promote") {
-        // Promote to admin
-        await updateDoc(memberRef, {
-          role: "admin",
-          updatedAt: serverTimestamp(),
-        });
-
-        // Update local state
-        setMembers((prev) =>
-          prev.map((m) => (m.id === memberId ? { ...m, role: "admin" } : m)),
-        );
-      } else if (action === "demote") {
-        // Demote to player
-        await updateDoc(memberRef, {
-          role: "player",
-          updatedAt: serverTimestamp(),
-        });
+      await updateDoc(firestoreDoc(db, "leagueMemberships", memberId), {
+        role,
+        updatedAt: serverTimestamp(),
+      });
 
-        // Update local state
-        setMembers((prev) =>
-          prev.map((m) => (m.id === memberId ? { ...m, role: "player" } : m)),
-        );
-      }
+      // Update local state
+      setMembers((prev) =>
+        prev.map((m) => (m.id === memberId ? { ...m, role } : m)),
+      );
     } catch (err) {
-      console.error(`Error ${action} member:`, err);
-      setError(`Failed to ${action} member. Please try again.`);
+      console.error("Error changing member role:", err);
+      setError("Failed to change the member's role. Please try again.");
     } finally {
       setSaving(false);
     }
-  };
+  }, [id]);
+
+  // Removing a member asks for confirmation first
+  const handleMemberAction = useCallback((
+    memberId: string,
+    action: "remove",
+  ) => {
+    if (!id || !memberId || action !== "remove") return;
+
+    const member = members.find((m) => m.id === memberId);
+    if (member) {
+      const memberName = userDisplayNames[member.userId] || member.userId;
+      setMemberToRemove({ id: memberId, name: memberName });
+      setShowRemoveMemberModal(true);
+    }
+  }, [id, members, userDisplayNames]);
 
   // Handle confirmed member removal
   const handleConfirmRemoveMember = async () => {
@@ -842,6 +966,362 @@ const LeagueManagement: React.FC = () => {
     }
   };
 
+  // Move a tiebreaker up (-1) or down (+1) in the tiebreak order
+  const moveTiebreak = (index: number, direction: -1 | 1) => {
+    setFormData((prev) => {
+      const tiebreakOrder = [...prev.tiebreakOrder];
+      [tiebreakOrder[index], tiebreakOrder[index + direction]] = [tiebreakOrder[index + direction], tiebreakOrder[index]];
+      return { ...prev, tiebreakOrder };
+    });
+  };
+
+  // Generate a round-robin between the active members, spread over the current season
+  const handleGenerateRoundRobin = async () => {
+    if (!id || !league) return;
+
+    setScheduleMessage(null);
+    setError(null);
+
+    if (!currentSeason) {
+      setError("Associate this league with a season before generating a schedule");
+      return;
+    }
+
+    const participantIds = members
+      .filter((member) => member.status === "active")
+      .map((member) => member.userId);
+
+    if (participantIds.length < 2) {
+      setError("A round-robin needs at least two active members");
+      return;
+    }
+
+    // Rounds start no earlier than today so none of them open in the past
+    const seasonStart = currentSeason.startDate.toDate();
+    const seasonEnd = currentSeason.endDate.toDate();
+    const startDate = seasonStart > new Date() ? seasonStart : new Date();
+
+    if (startDate >= seasonEnd) {
+      setError("The current season has already ended");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await createRoundRobinTournament(id, {
+        name: scheduleForm.name.trim() || `${league.name} Round Robin`,
+        participantIds,
+        legs: scheduleForm.legs,
+        startDate,
+        endDate: seasonEnd,
+        seasonId: currentSeason.id,
+      });
+
+      setTournaments(await getLeagueTournaments(id));
+      setScheduleForm((prev) => ({ ...prev, name: "" }));
+      setScheduleMessage("Round-robin schedule generated. Games are created as invitations when each round opens.");
+    } catch (err) {
+      console.error("Error generating round-robin:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate the round-robin schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Generate an elimination bracket seeded by the current league standings
+  const handleGenerateBracket = async () => {
+    if (!id || !league) return;
+
+    setScheduleMessage(null);
+    setError(null);
+    setSaving(true);
+
+    try {
+      await createEliminationTournament(id, {
+        name: scheduleForm.name.trim() || `${league.name} Playoffs`,
+        participantLimit: league.settings.playoffsEnabled ? league.settings.playoffTeams : undefined,
+        withLosersBracket: scheduleForm.withLosersBracket,
+        startDate: new Date(),
+        endDate: currentSeason?.endDate.toDate(),
+        seasonId: currentSeason?.id,
+      });
+
+      setTournaments(await getLeagueTournaments(id));
+      setScheduleForm((prev) => ({ ...prev, name: "" }));
+      setScheduleMessage("Bracket generated. Start it to send the first invitations - later matches are sent as results are confirmed.");
+    } catch (err) {
+      console.error("Error generating bracket:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate the bracket");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Create a Swiss tournament - the first round is paired when it is started
+  const handleGenerateSwiss = async () => {
+    if (!id || !league) return;
+
+    setScheduleMessage(null);
+    setError(null);
+    setSaving(true);
+
+    try {
+      await createSwissTournament(id, {
+        name: scheduleForm.name.trim() || `${league.name} Swiss`,
+        numberOfRounds: scheduleForm.numberOfRounds,
+        startDate: new Date(),
+        endDate: currentSeason?.endDate.toDate(),
+        seasonId: currentSeason?.id,
+      });
+
+      setTournaments(await getLeagueTournaments(id));
+      setScheduleForm((prev) => ({ ...prev, name: "" }));
+      setScheduleMessage("Swiss tournament created. Publish the first round to pair players - later rounds are paired as each round finishes.");
+    } catch (err) {
+      console.error("Error creating Swiss tournament:", err);
+      setError(err instanceof Error ? err.message : "Failed to create the Swiss tournament");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Open the next scheduled round now instead of waiting for its start date
+  const handleOpenNextRound = async (tournamentId: string) => {
+    if (!id) return;
+
+    setSaving(true);
+    setScheduleMessage(null);
+    setError(null);
+
+    try {
+      const result = await openTournamentRound({ tournamentId });
+      const data = result.data as { roundNumber?: number; gamesCreated: number };
+
+      setTournaments(await getLeagueTournaments(id));
+      setScheduleMessage(data.roundNumber
+        ? `Round ${data.roundNumber} opened - ${data.gamesCreated} game invitations sent.`
+        : `Bracket updated - ${data.gamesCreated} game invitations sent.`);
+    } catch (err) {
+      console.error("Error opening tournament round:", err);
+      setError(err instanceof Error ? err.message : "Failed to open the next round");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Award an abandoned match to one side so the tournament can go on
+  const handleRecordWalkover = async (tournamentId: string, matchId: string, winnerId: string) => {
+    if (!id) return;
+
+    setSaving(true);
+    setScheduleMessage(null);
+    setError(null);
+
+    try {
+      await recordTournamentWalkover({ tournamentId, matchId, winnerId });
+
+      setTournaments(await getLeagueTournaments(id));
+      setScheduleMessage(`Walkover awarded to ${userDisplayNames[winnerId] || winnerId}.`);
+    } catch (err) {
+      console.error("Error recording walkover:", err);
+      setError(err instanceof Error ? err.message : "Failed to record the walkover");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Record a penalty against a member through the issuePenalty function
+  const handleIssuePenalty = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+
+    setPenaltyMessage(null);
+    setError(null);
+
+    if (!penaltyForm.userId || !penaltyForm.reason.trim()) {
+      setError("Choose a member and give a reason for the penalty");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await issuePenalty({
+        leagueId: id,
+        userId: penaltyForm.userId,
+        type: penaltyForm.type,
+        reason: penaltyForm.reason.trim(),
+        ...(penaltyForm.gameId.trim() && { gameId: penaltyForm.gameId.trim() }),
+        ...(penaltyForm.type === "point_deduction" && { points: penaltyForm.points }),
+        ...(penaltyForm.type === "suspension" && penaltyForm.days > 0 && { days: penaltyForm.days }),
+        ...(penaltyForm.type === "fine" && { amount: penaltyForm.amount }),
+      });
+
+      setPenalties(await getLeaguePenalties(id));
+      if (penaltyForm.type === "suspension") {
+        setMembers((prev) =>
+          prev.map((m) => (m.userId === penaltyForm.userId ? { ...m, status: "suspended" } : m))
+        );
+      }
+      setPenaltyForm((prev) => ({ ...prev, reason: "", gameId: "" }));
+      setPenaltyMessage(`${PENALTY_LABELS[penaltyForm.type]} issued to ${
+        userDisplayNames[penaltyForm.userId] || penaltyForm.userId
+      }.`);
+    } catch (err) {
+      console.error("Error issuing penalty:", err);
+      setError(err instanceof Error ? err.message : "Failed to issue the penalty");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLoadMorePayments = async () => {
+    if (!id) return;
+    setLoadingMorePayments(true);
+    try {
+      const page = await getLeaguePayments(id, payments[payments.length - 1]);
+      setPayments((prev) => [...prev, ...page]);
+      setHasMorePayments(page.length === PAYMENTS_PAGE_SIZE);
+    } catch (err) {
+      console.error("Error loading payments:", err);
+      setError(err instanceof Error ? err.message : "Failed to load more payments");
+    } finally {
+      setLoadingMorePayments(false);
+    }
+  };
+
+  const handleStartRefund = (payment: LeaguePayment) => {
+    setRefundMessage(null);
+    setError(null);
+    setRefundTarget(payment);
+    setRefundForm({ mode: "prorated", deactivateMembership: true, reason: "" });
+  };
+
+  // Refund a membership payment through the refundLeaguePayment function
+  const handleRefundPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !refundTarget) return;
+
+    setRefundMessage(null);
+    setError(null);
+    setSaving(true);
+
+    try {
+      const result = await refundLeaguePayment({
+        paymentId: refundTarget.id,
+        mode: refundForm.mode,
+        deactivateMembership: refundForm.deactivateMembership,
+        ...(refundForm.reason.trim() && { reason: refundForm.reason.trim() }),
+      });
+
+      const refunded = await getPaymentById(refundTarget.id);
+      if (refunded) {
+        setPayments((prev) => prev.map((p) => (p.id === refunded.id ? refunded : p)));
+      }
+      if (refundForm.deactivateMembership) {
+        setMembers((prev) =>
+          prev.map((m) => (m.userId === refundTarget.userId ? { ...m, status: "inactive" } : m))
+        );
+      }
+      setRefundMessage(`${formatMoney(result.amount, refundTarget.currency)} refunded to ${
+        userDisplayNames[refundTarget.userId] || refundTarget.userId
+      }${result.status === "pending" ? ". Square is still processing the refund." : "."}`);
+      setRefundTarget(null);
+    } catch (err) {
+      console.error("Error refunding payment:", err);
+      setError(err instanceof Error ? err.message : "Failed to refund the payment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleInviteSearch = async (term: string) => {
+    setInviteSearch(term);
+    if (term.trim().length < 3) {
+      setInviteResults([]);
+      return;
+    }
+
+    try {
+      const results = await searchUsers(term.trim());
+      const memberIds = new Set(
+        members.filter((m) => m.status === "active" || m.status === "suspended").map((m) => m.userId)
+      );
+      setInviteResults(results.filter((user) => user.uid !== auth.currentUser?.uid && !memberIds.has(user.uid)));
+    } catch (err) {
+      console.error("Error searching players:", err);
+      setInviteResults([]);
+    }
+  };
+
+  // Invite a player found by search with the chosen role, expiry and comp
+  const handleSendInvitation = async (user: UserProfile) => {
+    if (!id || !league) return;
+
+    setInviteMessage(null);
+    setError(null);
+    setSaving(true);
+
+    try {
+      await sendLeagueInvitation({
+        leagueId: id,
+        leagueName: league.name,
+        invitedUserId: user.uid,
+        role: inviteForm.role,
+        comped: league.settings.pricing?.paymentRequired === true && inviteForm.comped,
+        ...(inviteForm.expiresInDays > 0 && { expiresInDays: inviteForm.expiresInDays }),
+      });
+
+      await loadInvitations(id);
+      setInviteResults((prev) => prev.filter((result) => result.uid !== user.uid));
+      setInviteMessage(`Invitation sent to ${user.displayName}.`);
+    } catch (err) {
+      console.error("Error sending invitation:", err);
+      setError(err instanceof Error ? err.message : "Failed to send the invitation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelInvitation = async (invitation: LeagueInvitation) => {
+    if (!id) return;
+
+    setInviteMessage(null);
+    setError(null);
+    setSaving(true);
+
+    try {
+      await cancelLeagueInvitation(invitation.id);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+      setInviteMessage("Invitation canceled.");
+    } catch (err) {
+      console.error("Error canceling invitation:", err);
+      setError(err instanceof Error ? err.message : "Failed to cancel the invitation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLiftPenalty = async (penalty: LeaguePenalty) => {
+    if (!id) return;
+
+    setPenaltyMessage(null);
+    setError(null);
+    setSaving(true);
+
+    try {
+      await liftPenalty(penalty.id);
+      setPenalties(await getLeaguePenalties(id));
+      setPenaltyMessage("Penalty lifted.");
+    } catch (err) {
+      console.error("Error lifting penalty:", err);
+      setError(err instanceof Error ? err.message : "Failed to lift the penalty");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Clean duplicates when approving join requests
   const cleanDuplicatesAfterApproval = async (leagueId: string) => {
     try {
@@ -913,6 +1393,15 @@ const LeagueManagement: React.FC = () => {
     }
   };
 
+  // What the current user can do here: league admins manage, league judges
+  // handle penalties, and only the owner and judges hand out league roles
+  const canEditLeague = !!league && canManageLeague(auth.currentUser, league.createdBy, memberRole);
+  const canJudge = !!league && canJudgeLeague(auth.currentUser, league.createdBy, memberRole);
+  const canAssignRoles = !!league && canAssignLeagueRoles(auth.currentUser, league.createdBy);
+  const proratedRefundTotal = refundTarget
+    ? proratedRefundAmount(refundTarget, members.find((m) => m.userId === refundTarget.userId)?.membershipExpiresAt)
+    : 0;
+
   // Definir las columnas de la tabla de miembros
   const membersColumns = useMemo<ColumnDef<LeagueMember & { displayName?: string }>[]>(() => [
     {
@@ -960,7 +1449,8 @@ const LeagueManagement: React.FC = () => {
                     ? "bg-green-100 text-green-800 border-green-200 hover:bg-green-200 dark:bg-green-900/20 dark:text-green-200 dark:border-green-800 dark:hover:bg-green-800/30"
                     : "bg-gray-100 text-gray-800 border-gray-200 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-600"
                 }`}
-                disabled={saving}
+                disabled={saving || member.status === "suspended"}
+                title={member.status === "suspended" ? "Lift the suspension from the Penalties tab" : undefined}
               >
                 {member.status}
                 <span className="ml-1">▼</span>
@@ -990,6 +1480,49 @@ const LeagueManagement: React.FC = () => {
         );
       },
     },
+    {
+      accessorKey: "role",
+      header: "Role",
+      cell: ({ row }) => {
+        const member = row.original;
+        if (!canAssignRoles || member.role === "owner") {
+          return (
+            <span className="text-xs sm:text-sm capitalize text-gray-700 dark:text-gray-300">
+              {member.role === "admin" || member.role === "judge" ? `League ${member.role}` : member.role}
+            </span>
+          );
+        }
+        return (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => e.stopPropagation()}
+                className="px-2 py-1 text-xs rounded-full border capitalize"
+                disabled={saving}
+              >
+                {member.role}
+                <span className="ml-1">▼</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {ASSIGNABLE_LEAGUE_ROLES.map((role) => (
+                <DropdownMenuItem
+                  key={role}
+                  onClick={() => handleMemberRoleChange(member.id as string, role)}
+                  className={member.role === role ? "bg-blue-50 dark:bg-blue-900/20" : ""}
+                >
+                  {role === "player" ? "Player" : role === "admin"
+                    ? "League admin - approves requests, edits settings"
+                    : "League judge - resolves disputes, issues penalties"}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        );
+      },
+    },
     {
       accessorKey: "joinedAt",
       header: "Joined",
@@ -1030,7 +1563,7 @@ const LeagueManagement: React.FC = () => {
         return null;
       },
     },
-  ], [userDisplayNames, userPhotoURLs, saving, handleMemberClick, handleMemberStatusChange, handleMemberAction]);
+  ], [userDisplayNames, userPhotoURLs, saving, canAssignRoles, handleMemberClick, handleMemberStatusChange, handleMemberRoleChange, handleMemberAction]);
 
   // Preparar datos de miembros con nombres para mostrar
   const membersWithDisplayNames = useMemo(() => 
@@ -1162,13 +1695,28 @@ const LeagueManagement: React.FC = () => {
       </div>
 
       {/* Tabs */}
-      <Tabs defaultValue="details" className="w-full">
+      <Tabs defaultValue={canEditLeague ? "details" : "penalties"} className="w-full">
         <div className="overflow-x-auto -mx-3 sm:mx-0">
-          <TabsList className="grid w-max min-w-full sm:w-full grid-cols-4 mx-3 sm:mx-0">
-            <TabsTrigger value="details" className="text-xs sm:text-sm">League Details</TabsTrigger>
-            <TabsTrigger value="members" className="text-xs sm:text-sm">Members ({members.filter(m => m.status === "active").length})</TabsTrigger>
-            <TabsTrigger value="requests" className="text-xs sm:text-sm">Join Requests ({joinRequests.length})</TabsTrigger>
-            <TabsTrigger value="danger" className="text-xs sm:text-sm text-red-600 dark:text-red-400">Danger Zone</TabsTrigger>
+          <TabsList className={`grid w-max min-w-full sm:w-full ${
+            GRID_COLUMNS[(canEditLeague ? 4 : 0) + (canJudge ? 2 : 0) + (canAssignRoles ? 1 : 0)]
+          } mx-3 sm:mx-0`}>
+            {canEditLeague && (
+              <>
+                <TabsTrigger value="details" className="text-xs sm:text-sm">League Details</TabsTrigger>
+                <TabsTrigger value="members" className="text-xs sm:text-sm">Members ({members.filter(m => m.status === "active").length})</TabsTrigger>
+                <TabsTrigger value="requests" className="text-xs sm:text-sm">Requests & Invites ({joinRequests.length})</TabsTrigger>
+                <TabsTrigger value="schedule" className="text-xs sm:text-sm">Schedule</TabsTrigger>
+              </>
+            )}
+            {canJudge && (
+              <>
+                <TabsTrigger value="penalties" className="text-xs sm:text-sm">Penalties</TabsTrigger>
+                <TabsTrigger value="payments" className="text-xs sm:text-sm">Payments</TabsTrigger>
+              </>
+            )}
+            {canAssignRoles && (
+              <TabsTrigger value="danger" className="text-xs sm:text-sm text-red-600 dark:text-red-400">Danger Zone</TabsTrigger>
+            )}
           </TabsList>
         </div>
 
@@ -1511,6 +2059,29 @@ const LeagueManagement: React.FC = () => {
                         Set to 0 for no time limit
                       </p>
                     </div>
+
+                    <div>
+                      <label htmlFor="timeoutPolicy" className="text-sm font-medium">
+                        When Time Runs Out
+                      </label>
+                      <select
+                        id="timeoutPolicy"
+                        name="timeoutPolicy"
+                        value={formData.timeoutPolicy}
+                        onChange={handleChange}
+                        disabled={formData.timeLimit === 0}
+                        className="w-full p-2 mt-1 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-700 dark:border-zinc-600"
+                      >
+                        {TIMEOUT_POLICY_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {TIMEOUT_POLICY_OPTIONS.find(option => option.value === formData.timeoutPolicy)?.description}
+                      </p>
+                    </div>
                   </div>
 
                   <div className="space-y-3">
@@ -1740,6 +2311,62 @@ const LeagueManagement: React.FC = () => {
                       </p>
                     </div>
                   </Label>
+
+                  <Label className="hover:bg-accent/50 flex items-start gap-3 rounded-lg border p-3 has-[[aria-checked=true]]:border-blue-600 has-[[aria-checked=true]]:bg-blue-50 dark:has-[[aria-checked=true]]:border-blue-900 dark:has-[[aria-checked=true]]:bg-blue-950">
+                    <Checkbox
+                      id="countSeriesAsMatch"
+                      checked={formData.countSeriesAsMatch}
+                      onCheckedChange={(checked) => setFormData(prev => ({ ...prev, countSeriesAsMatch: !!checked }))}
+                      className="data-[state=checked]:border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-white dark:data-[state=checked]:border-blue-700 dark:data-[state=checked]:bg-blue-700"
+                    />
+                    <div className="grid gap-1.5 font-normal">
+                      <p className="text-sm leading-none font-medium">
+                        Count Best-of Series as One Match
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        A finished series scores like a single match won by the series winner, with games won as the score
+                      </p>
+                    </div>
+                  </Label>
+
+                  <div>
+                    <Label className="text-sm font-medium">Tiebreak Order</Label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                      Applied in this order to members level on league points
+                    </p>
+                    <ol className="space-y-2">
+                      {formData.tiebreakOrder.map((tiebreak, index) => (
+                        <li
+                          key={tiebreak}
+                          className={`flex items-center justify-between rounded-md border p-2 text-sm ${
+                            tiebreak === "point-differential" && !formData.usePointDifferential ? "opacity-50" : ""
+                          }`}
+                        >
+                          <span>{index + 1}. {TIEBREAK_LABELS[tiebreak]}</span>
+                          <div className="flex gap-1">
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              disabled={index === 0}
+                              onClick={() => moveTiebreak(index, -1)}
+                            >
+                              ↑
+                            </Button>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              disabled={index === formData.tiebreakOrder.length - 1}
+                              onClick={() => moveTiebreak(index, 1)}
+                            >
+                              ↓
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
                 </div>
 
                 {/* Submit Button */}
@@ -1932,6 +2559,780 @@ const LeagueManagement: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          <Card className="w-full mt-4 sm:mt-6">
+            <CardHeader>
+              <CardTitle>Invite Players ({invitations.length} pending)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {inviteMessage && (
+                <div className="bg-green-50 border-l-4 border-green-500 p-4 mb-4 dark:bg-green-900/20">
+                  <p className="text-green-700 dark:text-green-300">{inviteMessage}</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-end mb-4">
+                <div>
+                  <Label htmlFor="inviteRole" className="text-sm font-medium">
+                    Role
+                  </Label>
+                  <select
+                    id="inviteRole"
+                    value={inviteForm.role}
+                    onChange={(e) => setInviteForm((prev) => ({ ...prev, role: e.target.value as LeagueMemberRole }))}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                  >
+                    {(canAssignRoles ? ASSIGNABLE_LEAGUE_ROLES : ["player" as LeagueMemberRole]).map((role) => (
+                      <option key={role} value={role}>
+                        {role === "player" ? "Player" : `League ${role}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="inviteExpiry" className="text-sm font-medium">
+                    Invitation expires
+                  </Label>
+                  <select
+                    id="inviteExpiry"
+                    value={inviteForm.expiresInDays}
+                    onChange={(e) => setInviteForm((prev) => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                  >
+                    <option value={3}>In 3 days</option>
+                    <option value={7}>In 7 days</option>
+                    <option value={14}>In 14 days</option>
+                    <option value={30}>In 30 days</option>
+                    <option value={0}>Never</option>
+                  </select>
+                </div>
+                {league.settings.pricing?.paymentRequired && (
+                  <div className="flex items-center space-x-2 pb-2">
+                    <Checkbox
+                      id="inviteComped"
+                      checked={inviteForm.comped}
+                      onCheckedChange={(checked) => setInviteForm((prev) => ({ ...prev, comped: !!checked }))}
+                    />
+                    <Label htmlFor="inviteComped" className="text-sm font-medium">
+                      Comp the membership fee
+                    </Label>
+                  </div>
+                )}
+              </div>
+
+              <Input
+                placeholder="Search players by username or name (3+ characters)..."
+                value={inviteSearch}
+                onChange={(e) => handleInviteSearch(e.target.value)}
+                className="max-w-sm"
+              />
+
+              {inviteResults.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  {inviteResults.map((user) => (
+                    <div
+                      key={user.uid}
+                      className="flex items-center justify-between gap-3 p-2 rounded-md bg-gray-50 border border-gray-200 dark:bg-zinc-700 dark:border-zinc-600"
+                    >
+                      <div className="flex items-center gap-2">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={user.photoURL || undefined} />
+                          <AvatarFallback>{user.displayName?.charAt(0) || "?"}</AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <p className="text-sm font-medium">{user.displayName}</p>
+                          {user.username && (
+                            <p className="text-xs text-gray-500 dark:text-zinc-400">@{user.username}</p>
+                          )}
+                        </div>
+                      </div>
+                      <Button size="sm" disabled={saving} onClick={() => handleSendInvitation(user)}>
+                        Invite
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {invitations.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <h3 className="text-sm font-medium">Pending invitations</h3>
+                  {invitations.map((invitation) => (
+                    <div
+                      key={invitation.id}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-md border border-gray-200 dark:border-zinc-600"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">
+                          {inviteeNames[invitation.invitedUserId] || invitation.invitedUserId}
+                          <span className="ml-2 text-xs capitalize text-gray-500 dark:text-zinc-400">{invitation.role}</span>
+                          {invitation.comped && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
+                              Comped
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-zinc-400">
+                          Invited by {invitation.invitedByName}
+                          {invitation.invitedAt && ` on ${invitation.invitedAt.toDate().toLocaleDateString()}`}
+                          {invitation.expiresAt
+                            ? ` · Expires ${invitation.expiresAt.toDate().toLocaleDateString()}`
+                            : " · Never expires"}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={saving}
+                        onClick={() => handleCancelInvitation(invitation)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="penalties" className="mt-4 sm:mt-6 w-full">
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Penalties</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {error && (
+                <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-4 dark:bg-red-900/20">
+                  <p className="text-red-700 dark:text-red-300">{error}</p>
+                </div>
+              )}
+
+              {penaltyMessage && (
+                <div className="bg-green-50 border-l-4 border-green-500 p-4 mb-4 dark:bg-green-900/20">
+                  <p className="text-green-700 dark:text-green-300">{penaltyMessage}</p>
+                </div>
+              )}
+
+              {!league.settings.penaltiesEnabled || gameConfig?.features?.enablePenalties === false ? (
+                <p className="text-sm text-gray-500 dark:text-zinc-400">
+                  Penalties are turned off for this league. Enable them in the league details to record penalties.
+                </p>
+              ) : (
+                <form onSubmit={handleIssuePenalty} className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-end mb-6">
+                  <div>
+                    <Label htmlFor="penaltyMember" className="text-sm font-medium">
+                      Member
+                    </Label>
+                    <select
+                      id="penaltyMember"
+                      value={penaltyForm.userId}
+                      onChange={(e) => setPenaltyForm((prev) => ({ ...prev, userId: e.target.value }))}
+                      className="mt-1 w-full p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                    >
+                      <option value="">Choose a member</option>
+                      {members
+                        .filter((member) => member.status === "active" || member.status === "suspended")
+                        .map((member) => (
+                          <option key={member.userId} value={member.userId}>
+                            {userDisplayNames[member.userId] || member.userId}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="penaltyType" className="text-sm font-medium">
+                      Penalty
+                    </Label>
+                    <select
+                      id="penaltyType"
+                      value={penaltyForm.type}
+                      onChange={(e) => setPenaltyForm((prev) => ({ ...prev, type: e.target.value as PenaltyType }))}
+                      className="mt-1 w-full p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                    >
+                      {(Object.keys(PENALTY_LABELS) as PenaltyType[]).map((type) => (
+                        <option key={type} value={type}>{PENALTY_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    {penaltyForm.type === "point_deduction" && (
+                      <>
+                        <Label htmlFor="penaltyPoints" className="text-sm font-medium">
+                          League points to deduct
+                        </Label>
+                        <Input
+                          id="penaltyPoints"
+                          type="number"
+                          min={1}
+                          value={penaltyForm.points}
+                          onChange={(e) => setPenaltyForm((prev) => ({ ...prev, points: Math.max(1, parseInt(e.target.value) || 1) }))}
+                          className="mt-1"
+                        />
+                      </>
+                    )}
+                    {penaltyForm.type === "suspension" && (
+                      <>
+                        <Label htmlFor="penaltyDays" className="text-sm font-medium">
+                          Days (0 = until lifted)
+                        </Label>
+                        <Input
+                          id="penaltyDays"
+                          type="number"
+                          min={0}
+                          value={penaltyForm.days}
+                          onChange={(e) => setPenaltyForm((prev) => ({ ...prev, days: Math.max(0, parseInt(e.target.value) || 0) }))}
+                          className="mt-1"
+                        />
+                      </>
+                    )}
+                    {penaltyForm.type === "fine" && (
+                      <>
+                        <Label htmlFor="penaltyAmount" className="text-sm font-medium">
+                          Amount ({league.settings.pricing?.currency || "USD"})
+                        </Label>
+                        <Input
+                          id="penaltyAmount"
+                          type="number"
+                          min={0.5}
+                          step={0.5}
+                          value={penaltyForm.amount}
+                          onChange={(e) => setPenaltyForm((prev) => ({ ...prev, amount: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                          className="mt-1"
+                        />
+                      </>
+                    )}
+                  </div>
+                  <div className="lg:col-span-2">
+                    <Label htmlFor="penaltyReason" className="text-sm font-medium">
+                      Reason
+                    </Label>
+                    <Input
+                      id="penaltyReason"
+                      value={penaltyForm.reason}
+                      maxLength={500}
+                      onChange={(e) => setPenaltyForm((prev) => ({ ...prev, reason: e.target.value }))}
+                      placeholder="What happened"
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="penaltyGame" className="text-sm font-medium">
+                      Game ID (optional)
+                    </Label>
+                    <Input
+                      id="penaltyGame"
+                      value={penaltyForm.gameId}
+                      onChange={(e) => setPenaltyForm((prev) => ({ ...prev, gameId: e.target.value }))}
+                      placeholder="Game the penalty relates to"
+                      className="mt-1"
+                    />
+                  </div>
+                  <div className="lg:col-span-3">
+                    <Button type="submit" disabled={saving} className="bg-red-600 hover:bg-red-700 text-white">
+                      {saving ? "Saving..." : "Issue Penalty"}
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {penalties.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-zinc-400">No penalties have been recorded in this league.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Member</TableHead>
+                        <TableHead>Penalty</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Issued</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {penalties.map((penalty) => (
+                        <TableRow key={penalty.id}>
+                          <TableCell>{userDisplayNames[penalty.userId] || penalty.userId}</TableCell>
+                          <TableCell>{describePenalty(penalty)}</TableCell>
+                          <TableCell className="max-w-xs">
+                            {penalty.reason}
+                            {penalty.gameId && (
+                              <Link to={`/game/${penalty.gameId}`} className="block text-xs text-blue-600 hover:underline">
+                                View game
+                              </Link>
+                            )}
+                          </TableCell>
+                          <TableCell>{penalty.issuedAt.toDate().toLocaleDateString()}</TableCell>
+                          <TableCell className="capitalize">{penalty.status}</TableCell>
+                          <TableCell>
+                            {penalty.status === "active" && penalty.type !== "warning" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={saving}
+                                onClick={() => handleLiftPenalty(penalty)}
+                              >
+                                Lift
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="payments" className="mt-4 sm:mt-6 w-full">
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Payments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {error && (
+                <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-4 dark:bg-red-900/20">
+                  <p className="text-red-700 dark:text-red-300">{error}</p>
+                </div>
+              )}
+
+              {refundMessage && (
+                <div className="bg-green-50 border-l-4 border-green-500 p-4 mb-4 dark:bg-green-900/20">
+                  <p className="text-green-700 dark:text-green-300">{refundMessage}</p>
+                </div>
+              )}
+
+              {refundTarget && (
+                <form onSubmit={handleRefundPayment} className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-end mb-6 p-4 rounded-md bg-gray-50 dark:bg-zinc-700/50">
+                  <p className="lg:col-span-3 text-sm">
+                    Refund {userDisplayNames[refundTarget.userId] || refundTarget.userId}'s payment of{" "}
+                    {formatMoney(refundTarget.amount, refundTarget.currency)} from{" "}
+                    {refundTarget.createdAt?.toDate().toLocaleDateString()}
+                  </p>
+                  <div>
+                    <Label htmlFor="refundMode" className="text-sm font-medium">
+                      Amount
+                    </Label>
+                    <select
+                      id="refundMode"
+                      value={refundForm.mode}
+                      onChange={(e) => setRefundForm((prev) => ({ ...prev, mode: e.target.value as "full" | "prorated" }))}
+                      className="mt-1 w-full p-2 border border-gray-300 rounded-md dark:bg-zinc-700 dark:border-zinc-600"
+                    >
+                      <option value="prorated">
+                        Days left ({formatMoney(proratedRefundTotal, refundTarget.currency)})
+                      </option>
+                      <option value="full">
+                        Full payment ({formatMoney(refundTarget.amount, refundTarget.currency)})
+                      </option>
+                    </select>
+                  </div>
+                  <div className="lg:col-span-2">
+                    <Label htmlFor="refundReason" className="text-sm font-medium">
+                      Reason (optional)
+                    </Label>
+                    <Input
+                      id="refundReason"
+                      value={refundForm.reason}
+                      maxLength={192}
+                      onChange={(e) => setRefundForm((prev) => ({ ...prev, reason: e.target.value }))}
+                      placeholder="Shown on the Square refund"
+                      className="mt-1"
+                    />
+                  </div>
+                  <div className="lg:col-span-3 flex items-center space-x-2">
+                    <Checkbox
+                      id="refundDeactivate"
+                      checked={refundForm.deactivateMembership}
+                      onCheckedChange={(checked) => setRefundForm((prev) => ({ ...prev, deactivateMembership: !!checked }))}
+                    />
+                    <Label htmlFor="refundDeactivate" className="text-sm">
+                      End the membership now
+                    </Label>
+                  </div>
+                  <div className="lg:col-span-3 flex gap-2">
+                    <Button
+                      type="submit"
+                      disabled={saving || (refundForm.mode === "prorated" && proratedRefundTotal <= 0)}
+                      className="bg-red-600 hover:bg-red-700 text-white"
+                    >
+                      {saving ? "Refunding..." : "Refund Payment"}
+                    </Button>
+                    <Button type="button" variant="outline" disabled={saving} onClick={() => setRefundTarget(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              {payments.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-zinc-400">No payments have been made in this league.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Member</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Refund</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {payments.map((payment) => (
+                        <TableRow key={payment.id}>
+                          <TableCell>{userDisplayNames[payment.userId] || payment.userId}</TableCell>
+                          <TableCell>{payment.createdAt?.toDate().toLocaleDateString()}</TableCell>
+                          <TableCell>{formatMoney(payment.amount, payment.currency)}</TableCell>
+                          <TableCell className="capitalize">{payment.status}</TableCell>
+                          <TableCell>
+                            {payment.refund && (
+                              <>
+                                {formatMoney(payment.refund.amount, payment.currency)}{" "}
+                                <span className="capitalize">{payment.refund.status}</span>
+                                {payment.refund.failureReason && (
+                                  <span className="block text-xs text-red-600 dark:text-red-400">
+                                    {payment.refund.failureReason}
+                                  </span>
+                                )}
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {isRefundable(payment) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={saving}
+                                onClick={() => handleStartRefund(payment)}
+                              >
+                                Refund
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {hasMorePayments && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-3"
+                      disabled={loadingMorePayments}
+                      onClick={handleLoadMorePayments}
+                    >
+                      {loadingMorePayments ? "Loading..." : "Load more payments"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="schedule" className="mt-4 sm:mt-6 w-full">
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Tournament Schedule</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {error && (
+                <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-4 dark:bg-red-900/20">
+                  <p className="text-red-700 dark:text-red-300">{error}</p>
+                </div>
+              )}
+
+              {scheduleMessage && (
+                <div className="bg-green-50 border-l-4 border-green-500 p-4 mb-4 dark:bg-green-900/20">
+                  <p className="text-green-700 dark:text-green-300">{scheduleMessage}</p>
+                </div>
+              )}
+
+              <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md mb-4">
+                <p className="text-sm text-blue-700 dark:text-blue-300">
+                  <strong>About Round-Robin:</strong> Every active member plays every other member once (single leg) or twice
+                  with home and away swapped (double leg). Rounds are spread across the current season
+                  {currentSeason ? (
+                    <> ({currentSeason.startDate.toDate().toLocaleDateString()} - {currentSeason.endDate.toDate().toLocaleDateString()})</>
+                  ) : null}
+                  , and each round's games are sent as invitations when the round opens.
+                </p>
+                <p className="text-sm text-blue-700 dark:text-blue-300 mt-2">
+                  <strong>About Elimination:</strong> Members are seeded by the current league standings
+                  {league.settings.playoffsEnabled && league.settings.playoffTeams
+                    ? ` (top ${league.settings.playoffTeams} qualify)`
+                    : ""}
+                  . Top seeds get byes when the field is not a power of two, and winners advance automatically
+                  as results are confirmed. With a losers bracket, a first loss sends the player to the losers
+                  bracket, whose champion meets the winners bracket champion in the grand final.
+                </p>
+                <p className="text-sm text-blue-700 dark:text-blue-300 mt-2">
+                  <strong>About Swiss:</strong> Suited to large fields. Each round pairs players with similar scores who
+                  have not met yet, an odd player out gets a bye (worth a win), and ties in the standings are broken by
+                  Buchholz and then Sonneborn-Berger.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 items-end mb-6">
+                <div>
+                  <Label htmlFor="tournamentName" className="text-sm font-medium">
+                    Schedule Name
+                  </Label>
+                  <Input
+                    id="tournamentName"
+                    value={scheduleForm.name}
+                    onChange={(e) => setScheduleForm((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder={`${league.name} ${
+                      scheduleForm.format === "elimination" ? "Playoffs" : scheduleForm.format === "swiss" ? "Swiss" : "Round Robin"
+                    }`}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="tournamentFormat" className="text-sm font-medium">
+                    Format
+                  </Label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button id="tournamentFormat" variant="outline" className="w-full justify-between mt-1">
+                        {scheduleForm.format === "elimination"
+                          ? "Elimination bracket"
+                          : scheduleForm.format === "swiss" ? "Swiss system" : "Round-robin"}
+                        <span className="ml-2">▼</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-full">
+                      <DropdownMenuItem onClick={() => setScheduleForm((prev) => ({ ...prev, format: "round-robin" }))}>
+                        Round-robin
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setScheduleForm((prev) => ({ ...prev, format: "elimination" }))}>
+                        Elimination bracket
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => setScheduleForm((prev) => ({
+                          ...prev,
+                          format: "swiss",
+                          numberOfRounds: league.settings.numberOfRounds || prev.numberOfRounds,
+                        }))}
+                      >
+                        Swiss system
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                {scheduleForm.format === "swiss" ? (
+                  <div>
+                    <Label htmlFor="swissRounds" className="text-sm font-medium">
+                      Rounds
+                    </Label>
+                    <Input
+                      id="swissRounds"
+                      type="number"
+                      min={1}
+                      value={scheduleForm.numberOfRounds}
+                      onChange={(e) => setScheduleForm((prev) => ({ ...prev, numberOfRounds: parseInt(e.target.value) || 1 }))}
+                      className="mt-1"
+                    />
+                  </div>
+                ) : scheduleForm.format === "elimination" ? (
+                  <Label className="hover:bg-accent/50 flex items-center gap-3 rounded-lg border p-2.5 has-[[aria-checked=true]]:border-blue-600 has-[[aria-checked=true]]:bg-blue-50 dark:has-[[aria-checked=true]]:border-blue-900 dark:has-[[aria-checked=true]]:bg-blue-950">
+                    <Checkbox
+                      id="withLosersBracket"
+                      checked={scheduleForm.withLosersBracket}
+                      onCheckedChange={(checked) => setScheduleForm((prev) => ({ ...prev, withLosersBracket: !!checked }))}
+                      className="data-[state=checked]:border-blue-600 data-[state=checked]:bg-blue-600 data-[state=checked]:text-white dark:data-[state=checked]:border-blue-700 dark:data-[state=checked]:bg-blue-700"
+                    />
+                    <span className="text-sm font-medium">Losers bracket (double elimination)</span>
+                  </Label>
+                ) : (
+                <div>
+                  <Label htmlFor="tournamentLegs" className="text-sm font-medium">
+                    Legs
+                  </Label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button id="tournamentLegs" variant="outline" className="w-full justify-between mt-1">
+                        {scheduleForm.legs === 1 ? "Single leg" : "Double leg (home & away)"}
+                        <span className="ml-2">▼</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-full">
+                      <DropdownMenuItem onClick={() => setScheduleForm((prev) => ({ ...prev, legs: 1 }))}>
+                        Single leg
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setScheduleForm((prev) => ({ ...prev, legs: 2 }))}>
+                        Double leg (home & away)
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                )}
+                {scheduleForm.format === "swiss" ? (
+                  <Button
+                    onClick={handleGenerateSwiss}
+                    disabled={saving || members.filter((m) => m.status === "active").length < 2}
+                  >
+                    {saving ? "Creating..." : "Create Swiss tournament"}
+                  </Button>
+                ) : scheduleForm.format === "elimination" ? (
+                  <Button
+                    onClick={handleGenerateBracket}
+                    disabled={saving || members.filter((m) => m.status === "active").length < 2}
+                  >
+                    {saving ? "Generating..." : "Generate seeded bracket"}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleGenerateRoundRobin}
+                    disabled={saving || !currentSeason || members.filter((m) => m.status === "active").length < 2}
+                  >
+                    {saving ? "Generating..." : `Generate for ${members.filter((m) => m.status === "active").length} active members`}
+                  </Button>
+                )}
+              </div>
+
+              {!currentSeason && scheduleForm.format === "round-robin" && (
+                <p className="text-sm text-orange-600 dark:text-orange-400 mb-4">
+                  Associate this league with a season in League Details to generate a schedule.
+                </p>
+              )}
+
+              {tournaments.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No schedules generated yet
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {tournaments.map((tournament) => (
+                    <div
+                      key={tournament.id}
+                      className="bg-gray-50 dark:bg-zinc-700 rounded-lg p-4 border border-gray-200 dark:border-zinc-600"
+                    >
+                      <div className="flex flex-col sm:flex-row justify-between items-start gap-4 mb-4">
+                        <div>
+                          <h3 className="text-lg font-medium">{tournament.name}</h3>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {tournament.format === "elimination"
+                              ? `${tournament.participantIds?.length || 0} players • ${tournament.hasLosersBracket ? "Double elimination" : "Single elimination"}`
+                              : tournament.format === "swiss"
+                              ? `${tournament.participantIds?.length || 0} players • Swiss, round ${tournament.rounds.length} of ${tournament.numberOfRounds}`
+                              : `${tournament.rounds.length} rounds • ${tournament.legs === 2 ? "Double leg" : "Single leg"}`} • {tournament.status}
+                          </p>
+                        </div>
+                        {tournament.format === "elimination" ? (
+                          tournament.status !== "completed" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleOpenNextRound(tournament.id)}
+                              disabled={saving}
+                            >
+                              {tournament.status === "upcoming" ? "Start Bracket" : "Send Ready Invitations"}
+                            </Button>
+                          )
+                        ) : tournament.format === "swiss" ? (
+                          tournament.rounds.length < (tournament.numberOfRounds || 0) &&
+                          tournament.rounds.every((round) => round.status === "completed") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleOpenNextRound(tournament.id)}
+                              disabled={saving}
+                            >
+                              Publish Round {tournament.rounds.length + 1}
+                            </Button>
+                          )
+                        ) : tournament.rounds.some((round) => round.status === "scheduled") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleOpenNextRound(tournament.id)}
+                            disabled={saving}
+                          >
+                            Open Next Round Now
+                          </Button>
+                        )}
+                      </div>
+
+                      {tournament.format === "elimination" ? (
+                        <TournamentBracket tournament={tournament} displayNames={userDisplayNames} />
+                      ) : (
+                      <div className="space-y-3">
+                        {tournament.rounds.map((round) => (
+                          <div key={round.id} className="border-t border-gray-200 dark:border-zinc-600 pt-3">
+                            <div className="flex justify-between items-center mb-2">
+                              <span className="font-medium text-sm">
+                                Round {round.roundNumber}
+                                {round.startDate && round.endDate && (
+                                  <span className="text-gray-500 dark:text-gray-400 font-normal">
+                                    {" "}• {round.startDate.toDate().toLocaleDateString()} - {round.endDate.toDate().toLocaleDateString()}
+                                  </span>
+                                )}
+                              </span>
+                              <span className="text-xs px-2 py-1 rounded-full bg-gray-200 dark:bg-zinc-600">
+                                {round.status || "scheduled"}
+                              </span>
+                            </div>
+                            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm text-gray-700 dark:text-gray-300">
+                              {round.matches.map((match) => (
+                                <li key={match.id}>
+                                  {userDisplayNames[match.homeId] || match.homeId}
+                                  {match.awayId === BYE_ID
+                                    ? " - bye"
+                                    : ` vs ${userDisplayNames[match.awayId] || match.awayId}`}
+                                  {match.status === "completed" && match.homeScore !== undefined && (
+                                    <span className="text-gray-500 dark:text-gray-400"> ({match.homeScore} - {match.awayScore})</span>
+                                  )}
+                                  {match.isWalkover && (
+                                    <span className="text-gray-500 dark:text-gray-400"> (walkover)</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                      )}
+
+                      {tournament.rounds.flatMap((round) => round.matches)
+                        .filter((match) => match.status === "abandoned")
+                        .map((match) => (
+                          <div
+                            key={match.id}
+                            className="mt-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20 px-3 py-2 text-sm"
+                          >
+                            <span>
+                              {userDisplayNames[match.homeId] || match.homeId} vs {userDisplayNames[match.awayId] || match.awayId} was abandoned
+                              {tournament.format === "elimination" && " - the bracket waits for a walkover"}
+                            </span>
+                            <div className="flex gap-2">
+                              {[match.homeId, match.awayId].map((playerId) => (
+                                <Button
+                                  key={playerId}
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleRecordWalkover(tournament.id, match.id, playerId)}
+                                  disabled={saving}
+                                >
+                                  Award to {userDisplayNames[playerId] || playerId}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
 
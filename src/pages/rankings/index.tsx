@@ -3,6 +3,10 @@ import { Link } from "react-router-dom";
 import {
   calculateTitle,
   RankingEntry as RankingEntryType,
+  LeagueRankingEntry,
+  PairRankingEntry,
+  RankingOrder,
+  sortRankings,
   UserProfile,
   getUserProfile,
 } from "../../firebase";
@@ -46,6 +50,7 @@ import {
 import { ChevronDownIcon } from "@heroicons/react/24/solid";
 import UserProfileModal, { useUserProfileModal } from "../../components/UserProfileModal";
 import { useRankings } from "../../hooks/useRankings";
+import PairRankingsTable from "../../components/PairRankingsTable";
 
 // Use the RankingEntry type from firebase.ts
 type RankingEntry = RankingEntryType;
@@ -60,11 +65,15 @@ interface LeagueWithRankings {
   status: string;
   currentSeason?: string;
   seasonIds?: string[]; // Array of associated season IDs
-  rankings: RankingEntry[];
+  rankings: LeagueRankingEntry[];
+  pairRankings: PairRankingEntry[];
 }
 
+// Rankings can list individual players or fixed pairs (parejas)
+type RankingsView = "players" | "pairs";
+
 // Extended RankingEntry type for table display
-interface RankingTableRow extends RankingEntry {
+interface RankingTableRow extends LeagueRankingEntry {
   formattedTitle: string;
   positionDisplay: string;
   playerDisplay: React.ReactNode;
@@ -140,6 +149,7 @@ const convertRankingEntryToUserProfile = (entry: RankingEntry): UserProfile => {
       globalRank: entry.rank,
       winStreak: 0, // Not available in RankingEntry
       maxWinStreak: 0, // Not available in RankingEntry
+      rating: entry.rating,
     },
     hasSetUsername: !!entry.username,
   };
@@ -189,6 +199,18 @@ const createRankingColumns = (
       );
     },
   },
+  {
+    accessorKey: "pointDifferential",
+    header: "+/-",
+    cell: ({ row }) => {
+      const differential = row.getValue("pointDifferential") as number;
+      return (
+        <div className="text-xs sm:text-sm text-center font-mono">
+          {differential > 0 ? `+${differential}` : differential}
+        </div>
+      );
+    },
+  },
   {
     accessorKey: "totalPoints",
     header: "Points",
@@ -198,6 +220,15 @@ const createRankingColumns = (
       </div>
     ),
   },
+  {
+    accessorKey: "rating",
+    header: "Rating",
+    cell: ({ row }) => (
+      <div className="text-xs sm:text-sm text-center font-mono font-medium">
+        {row.getValue("rating")}
+      </div>
+    ),
+  },
   // {
   //   accessorKey: "formattedTitle",
   //   header: "Title",
@@ -246,8 +277,10 @@ const NoDataState = memo<{ isFiltered?: boolean }>(({ isFiltered = false }) => (
 // League Rankings Table Component with better memoization
 const LeagueRankingsTable: React.FC<{
   league: LeagueWithRankings;
+  view: RankingsView;
+  order: RankingOrder;
   onPlayerClick: (player: RankingEntry) => void;
-}> = memo(({ league, onPlayerClick }) => {
+}> = memo(({ league, view, order, onPlayerClick }) => {
   // Table states
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
 
@@ -270,14 +303,14 @@ const LeagueRankingsTable: React.FC<{
 
   // Transform rankings data for table display - deep memo with league.id
   const tableData = useMemo(() => {
-    return league.rankings.map((entry, index): RankingTableRow => ({
+    return sortRankings(league.rankings, order).map((entry, index): RankingTableRow => ({
       ...entry,
       formattedTitle: calculateTitle(entry.gamesWon),
       positionDisplay: (index + 1).toString(),
       playerDisplay: createPlayerDisplay(entry),
       winPercentage: entry.gamesPlayed > 0 ? (entry.gamesWon / entry.gamesPlayed) * 100 : 0,
     }));
-  }, [league.id, league.rankings, createPlayerDisplay]); // Add league.id for better dependency tracking
+  }, [league.id, league.rankings, order, createPlayerDisplay]); // Add league.id for better dependency tracking
 
   // Create columns with click handler - stable reference
   const columns = useMemo(() => 
@@ -298,7 +331,7 @@ const LeagueRankingsTable: React.FC<{
     },
   });
 
-  if (league.rankings.length === 0) {
+  if (view === "players" && league.rankings.length === 0) {
     return (
       <Card>
         <CardHeader>
@@ -354,86 +387,93 @@ const LeagueRankingsTable: React.FC<{
         )}
       </CardHeader>
       <CardContent>
-        <div className="w-full">
-          {/* Table */}
-          <div className="overflow-hidden rounded-md border">
-            <Table>
-              <TableHeader>
-                {table.getHeaderGroups().map((headerGroup) => (
-                  <TableRow key={headerGroup.id}>
-                    {headerGroup.headers.map((header) => (
-                      <TableHead key={header.id}>
-                        {header.isPlaceholder
-                          ? null
-                          : flexRender(
-                              header.column.columnDef.header,
-                              header.getContext()
-                            )}
-                      </TableHead>
-                    ))}
-                  </TableRow>
-                ))}
-              </TableHeader>
-              <TableBody>
-                {table.getRowModel().rows?.length ? (
-                  table.getRowModel().rows.map((row) => (
-                    <TableRow
-                      key={row.id}
-                      className="hover:bg-gray-50 dark:hover:bg-zinc-700/50 cursor-pointer"
-                      onClick={() => onPlayerClick(row.original)}
-                    >
-                      {row.getVisibleCells().map((cell) => (
-                        <TableCell key={cell.id}>
-                          {flexRender(
-                            cell.column.columnDef.cell,
-                            cell.getContext()
-                          )}
-                        </TableCell>
+        {view === "pairs" ? (
+          <PairRankingsTable
+            pairs={league.pairRankings}
+            emptyMessage="No pairs have played a double game in this league yet."
+          />
+        ) : (
+          <div className="w-full">
+            {/* Table */}
+            <div className="overflow-hidden rounded-md border">
+              <Table>
+                <TableHeader>
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <TableRow key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <TableHead key={header.id}>
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(
+                                header.column.columnDef.header,
+                                header.getContext()
+                              )}
+                        </TableHead>
                       ))}
                     </TableRow>
-                  ))
-                ) : (
-                  <TableRow>
-                    <TableCell
-                      colSpan={columns.length}
-                      className="h-24 text-center"
-                    >
-                      No rankings found.
-                    </TableCell>
-                  </TableRow>
-                )}
-              </TableBody>
-            </Table>
-          </div>
-          
-          {/* Pagination */}
-          {table.getPageCount() > 1 && (
-            <div className="flex items-center justify-end space-x-2 py-4">
-              <div className="text-muted-foreground flex-1 text-sm">
-                Page {table.getState().pagination.pageIndex + 1} of{" "}
-                {table.getPageCount()}
-              </div>
-              <div className="space-x-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => table.previousPage()}
-                  disabled={!table.getCanPreviousPage()}
-                >
-                  Previous
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => table.nextPage()}
-                  disabled={!table.getCanNextPage()}
-                >
-                  Next
-                </Button>
-              </div>
+                  ))}
+                </TableHeader>
+                <TableBody>
+                  {table.getRowModel().rows?.length ? (
+                    table.getRowModel().rows.map((row) => (
+                      <TableRow
+                        key={row.id}
+                        className="hover:bg-gray-50 dark:hover:bg-zinc-700/50 cursor-pointer"
+                        onClick={() => onPlayerClick(row.original)}
+                      >
+                        {row.getVisibleCells().map((cell) => (
+                          <TableCell key={cell.id}>
+                            {flexRender(
+                              cell.column.columnDef.cell,
+                              cell.getContext()
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell
+                        colSpan={columns.length}
+                        className="h-24 text-center"
+                      >
+                        No rankings found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
             </div>
-          )}
-        </div>
+            
+            {/* Pagination */}
+            {table.getPageCount() > 1 && (
+              <div className="flex items-center justify-end space-x-2 py-4">
+                <div className="text-muted-foreground flex-1 text-sm">
+                  Page {table.getState().pagination.pageIndex + 1} of{" "}
+                  {table.getPageCount()}
+                </div>
+                <div className="space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => table.previousPage()}
+                    disabled={!table.getCanPreviousPage()}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => table.nextPage()}
+                    disabled={!table.getCanNextPage()}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -449,6 +489,12 @@ const Rankings: React.FC = () => {
     year: "all", // "all" or specific year
     season: "all" // "all" or specific season ID
   });
+
+  // Individual players or pairs
+  const [view, setView] = useState<RankingsView>("players");
+
+  // League standings, skill rating or wins-first ordering for individual players
+  const [order, setOrder] = useState<RankingOrder>("standings");
   
   // Use the user profile modal hook
   const { isOpen: isProfileModalOpen, selectedUser, openModal: openProfileModal, closeModal: closeProfileModal } = useUserProfileModal();
@@ -693,6 +739,56 @@ const Rankings: React.FC = () => {
               </DropdownMenu>
             </div>
 
+            {/* View Toggle */}
+            <div className="flex flex-col space-y-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                View
+              </label>
+              <div className="flex gap-2">
+                <Button
+                  variant={view === "players" ? "default" : "outline"}
+                  onClick={() => setView("players")}
+                >
+                  Players
+                </Button>
+                <Button
+                  variant={view === "pairs" ? "default" : "outline"}
+                  onClick={() => setView("pairs")}
+                >
+                  Pairs
+                </Button>
+              </div>
+            </div>
+
+            {/* Order Toggle */}
+            {view === "players" && (
+              <div className="flex flex-col space-y-2">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Order by
+                </label>
+                <div className="flex gap-2">
+                  <Button
+                    variant={order === "standings" ? "default" : "outline"}
+                    onClick={() => setOrder("standings")}
+                  >
+                    Standings
+                  </Button>
+                  <Button
+                    variant={order === "rating" ? "default" : "outline"}
+                    onClick={() => setOrder("rating")}
+                  >
+                    Rating
+                  </Button>
+                  <Button
+                    variant={order === "wins" ? "default" : "outline"}
+                    onClick={() => setOrder("wins")}
+                  >
+                    Wins
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Clear Filters Button */}
             {hasActiveFilters && (
               <div className="flex flex-col justify-end">
@@ -747,6 +843,8 @@ const Rankings: React.FC = () => {
             <LeagueRankingsTable
               key={league.id}
               league={league}
+              view={view}
+              order={order}
               onPlayerClick={handlePlayerClick}
             />
           ))}
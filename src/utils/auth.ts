@@ -1,34 +1,97 @@
-// auth.ts - Judge authentication system for USA Domino Federation
+// auth.ts - Role-based access for USA Domino Federation judges and admins
 
 import { User } from "firebase/auth";
-
-// List of judge emails (hardcoded for simplicity)
-// In a production environment, this should be stored in a secure database
-export const JUDGE_EMAILS = ["ulvenforst@gmail.com"];
+import type { LeagueMemberRole } from "../models/league";
 
 // User roles
 export type UserRole = "player" | "judge" | "admin";
 
+// Roles granted through custom claims by the setUserRole function
+export type StaffRole = Exclude<UserRole, "player">;
+
+export const STAFF_ROLES: StaffRole[] = ["judge", "admin"];
+
+// League roles that can moderate the league's chats
+export const LEAGUE_MODERATOR_ROLES: LeagueMemberRole[] = ["owner", "admin", "judge"];
+
+// League roles that can approve join requests and edit league settings
+export const LEAGUE_ADMIN_ROLES: LeagueMemberRole[] = ["owner", "admin"];
+
+// League roles that can resolve disputed games and issue penalties
+export const LEAGUE_JUDGE_ROLES: LeagueMemberRole[] = ["owner", "judge"];
+
+// Roles a league owner can give members
+export const ASSIGNABLE_LEAGUE_ROLES: LeagueMemberRole[] = ["player", "admin", "judge"];
+
+// Another player's roles, as mirrored on their profile
+export interface RoleHolder {
+  roles?: StaffRole[];
+}
+
+// Claims of the signed-in user, read from their ID token
+let tokenRoles: { uid: string; roles: StaffRole[] } | null = null;
+
 /**
- * Determines if a user is a judge based on their email
- * @param user Firebase user object or email string
- * @returns boolean indicating if the user is a judge
+ * Load the signed-in user's roles from their ID token claims
+ * Call before rendering role-dependent UI and again, forcing a token
+ * refresh, when the setUserRole function changes the user's roles.
+ * @param user Firebase user object
+ * @param forceRefresh Fetch a new ID token with the latest claims
+ * @returns The user's staff roles
  */
-export const isJudge = (user: User | string | null): boolean => {
+export const loadRoleClaims = async (
+  user: User | null,
+  forceRefresh = false,
+): Promise<StaffRole[]> => {
+  if (!user) {
+    tokenRoles = null;
+    return [];
+  }
+
+  const { claims } = await user.getIdTokenResult(forceRefresh);
+  const roles = STAFF_ROLES.filter(role => claims[role] === true);
+  tokenRoles = { uid: user.uid, roles };
+  return roles;
+};
+
+const isFirebaseUser = (user: User | RoleHolder): user is User =>
+  "getIdTokenResult" in user;
+
+const hasRole = (user: User | RoleHolder | null, role: StaffRole): boolean => {
   if (!user) return false;
+  if (isFirebaseUser(user)) {
+    return tokenRoles?.uid === user.uid && tokenRoles.roles.includes(role);
+  }
+  return !!user.roles?.includes(role);
+};
 
-  const email = typeof user === "string" ? user : user.email;
-  if (!email) return false;
+/**
+ * Determines if a user is a judge from their custom claims
+ * @param user Firebase user object, or another player's profile
+ * @returns boolean indicating if the user is a judge
+ */
+export const isJudge = (user: User | RoleHolder | null): boolean => {
+  return hasRole(user, "judge");
+};
 
-  return JUDGE_EMAILS.includes(email.toLowerCase());
+/**
+ * Determines if a user is an admin who can grant and revoke roles
+ * @param user Firebase user object, or another player's profile
+ * @returns boolean indicating if the user is an admin
+ */
+export const isAdmin = (user: User | RoleHolder | null): boolean => {
+  return hasRole(user, "admin");
 };
 
 /**
- * Gets user role based on their email
- * @param user Firebase user object or email string
- * @returns The user's role
+ * Gets user role from their custom claims
+ * @param user Firebase user object, or another player's profile
+ * @returns The user's highest role
  */
-export const getUserRole = (user: User | string | null): UserRole => {
+export const getUserRole = (user: User | RoleHolder | null): UserRole => {
+  if (isAdmin(user)) {
+    return "admin";
+  }
   if (isJudge(user)) {
     return "judge";
   }
@@ -46,14 +109,72 @@ export const canCreateLeague = (user: User | null): boolean => {
 
 /**
  * Check if user has permission to manage a specific league
+ * Global judges, the owner and league admins can approve join requests and
+ * edit the league settings.
  * @param user Firebase user object
  * @param leagueCreatorId The user ID of the league creator
+ * @param memberRole The user's role in the league, if they are a member
  * @returns boolean indicating if user can manage the league
  */
 export const canManageLeague = (
   user: User | null,
   leagueCreatorId: string,
+  memberRole?: LeagueMemberRole | null,
+): boolean => {
+  if (!user) return false;
+  return isJudge(user) ||
+    user.uid === leagueCreatorId ||
+    (!!memberRole && LEAGUE_ADMIN_ROLES.includes(memberRole));
+};
+
+/**
+ * Check if user can act as a judge in a specific league (resolve disputed
+ * games, issue penalties)
+ * @param user Firebase user object
+ * @param leagueCreatorId The user ID of the league creator
+ * @param memberRole The user's role in the league, if they are a member
+ * @returns boolean indicating if user can judge the league
+ */
+export const canJudgeLeague = (
+  user: User | null,
+  leagueCreatorId: string,
+  memberRole?: LeagueMemberRole | null,
+): boolean => {
+  if (!user) return false;
+  return isJudge(user) ||
+    user.uid === leagueCreatorId ||
+    (!!memberRole && LEAGUE_JUDGE_ROLES.includes(memberRole));
+};
+
+/**
+ * Check if user can promote members to league admin or judge
+ * Only global judges and the league owner can hand out league roles.
+ * @param user Firebase user object
+ * @param leagueCreatorId The user ID of the league creator
+ * @returns boolean indicating if user can assign league roles
+ */
+export const canAssignLeagueRoles = (
+  user: User | null,
+  leagueCreatorId: string,
 ): boolean => {
   if (!user) return false;
   return isJudge(user) || user.uid === leagueCreatorId;
 };
+
+/**
+ * Check if user can moderate a league's chats (delete messages, mute members)
+ * @param user Firebase user object
+ * @param leagueCreatorId The user ID of the league creator, if known
+ * @param memberRole The user's role in the league, if they are a member
+ * @returns boolean indicating if user can moderate the league
+ */
+export const canModerateLeague = (
+  user: User | null,
+  leagueCreatorId?: string,
+  memberRole?: LeagueMemberRole | null,
+): boolean => {
+  if (!user) return false;
+  return isJudge(user) ||
+    user.uid === leagueCreatorId ||
+    (!!memberRole && LEAGUE_MODERATOR_ROLES.includes(memberRole));
+};
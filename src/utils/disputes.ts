@@ -0,0 +1,29 @@
+// disputes.ts - Labels and summaries for disputed game results
+import type { DisputeDecision, GameDispute, GameSide } from '../firebase';
+
+export const DISPUTE_DECISION_LABELS: Record<DisputeDecision, string> = {
+  uphold_creator: "Upheld the first side's claim",
+  uphold_opponent: "Upheld the second side's claim",
+  corrected: "Corrected the score",
+  voided: "Voided the game"
+};
+
+// A claim's score as "150 - 120", creator side first
+export const formatClaimScore = (scores: { creator: number; opponent: number }): string =>
+  `${scores.creator} - ${scores.opponent}`;
+
+// Short description of a ruling, e.g. "Corrected the score (150 - 120)"
+export const describeResolution = (dispute: GameDispute): string | null => {
+  if (!dispute.resolution) return null;
+  const label = DISPUTE_DECISION_LABELS[dispute.resolution.decision];
+  return dispute.resolution.scores
+    ? `${label} (${formatClaimScore(dispute.resolution.scores)})`
+    : label;
+};
+
+// Side of the dispute a user plays on, or null for judges and spectators
+export const getDisputeSide = (dispute: GameDispute, userId: string): GameSide | null => {
+  if (dispute.sides.creator.includes(userId)) return "creator";
+  if (dispute.sides.opponent.includes(userId)) return "opponent";
+  return null;
+};
@@ -0,0 +1,139 @@
+// payments.ts - Amounts, refunds and reports of league membership payments
+import type { Timestamp } from 'firebase/firestore';
+import type { LeaguePayment } from '../models/league';
+
+// Days of league access one membership payment buys (see leaguePayments.ts)
+export const MEMBERSHIP_PERIOD_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const formatMoney = (amount: number, currency = 'USD'): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+// Whole days of membership left before an expiry, at most one period
+export const daysLeftUntil = (expiresAt: Timestamp | undefined, now = Date.now()): number => {
+  if (!expiresAt) return 0;
+  const days = Math.ceil((expiresAt.toMillis() - now) / DAY_MS);
+  return Math.min(MEMBERSHIP_PERIOD_DAYS, Math.max(0, days));
+};
+
+// Days before a free trial ends that the member is reminded to pay (see
+// leagueTrials.ts)
+export const TRIAL_REMINDER_DAYS = 3;
+
+// Whole days left on a free trial; unlike daysLeftUntil this is not capped
+// at one period, since leagues choose their own trial length
+export const trialDaysLeft = (trialEndsAt: Timestamp | undefined, now = Date.now()): number =>
+  trialEndsAt ? Math.max(0, Math.ceil((trialEndsAt.toMillis() - now) / DAY_MS)) : 0;
+
+// Share of a payment for the days left on the membership it paid for, as
+// the refundLeaguePayment function computes it. Older payments do not
+// record their expiry, so the member's current expiry stands in for it
+export const proratedRefundAmount = (
+  payment: LeaguePayment,
+  membershipExpiresAt?: Timestamp,
+  now = Date.now()
+): number => {
+  const daysLeft = daysLeftUntil(payment.membershipExpiresAt || membershipExpiresAt, now);
+  return Math.round(payment.amount * daysLeft / MEMBERSHIP_PERIOD_DAYS * 100) / 100;
+};
+
+// Payments a league owner or judge can refund from the manage page
+export const isRefundable = (payment: LeaguePayment): boolean =>
+  payment.status === 'completed' &&
+  payment.type !== 'penalty' &&
+  !!payment.squarePaymentId &&
+  (!payment.refund || payment.refund.status === 'failed');
+
+export const PAYMENT_STATUS_LABELS: Record<LeaguePayment['status'], string> = {
+  pending: "Processing",
+  completed: "Paid",
+  failed: "Failed",
+  refunded: "Refunded",
+  canceled: "Canceled"
+};
+
+export const PAYMENT_METHOD_LABELS: Record<NonNullable<LeaguePayment['paymentMethod']>, string> = {
+  square_card: "Card",
+  square_checkout: "Square checkout",
+  square_subscription: "Square subscription invoice"
+};
+
+// What a payment was for, as shown on receipts and in exports
+export const describePayment = (payment: LeaguePayment): string => {
+  if (payment.type === 'penalty') return "League fine";
+  if (payment.type === 'subscription_payment') return "Monthly membership (subscription)";
+  return "Monthly membership";
+};
+
+// Membership period a payment paid for, when it recorded one
+export const paymentPeriod = (payment: LeaguePayment): { start: Date; end: Date } | null => {
+  if (!payment.membershipExpiresAt) return null;
+  const end = payment.membershipExpiresAt.toDate();
+  return { start: new Date(end.getTime() - MEMBERSHIP_PERIOD_DAYS * DAY_MS), end };
+};
+
+// Completed refunds count against the month the payment was made in
+export const refundedAmount = (payment: LeaguePayment): number =>
+  payment.refund?.status === 'completed' ? payment.refund.amount : 0;
+
+export interface MonthlyPaymentTotal {
+  month: string; // YYYY-MM
+  payments: number;
+  collected: number;
+  refunded: number;
+  net: number;
+}
+
+// Money collected per month, newest month first. Pending and failed
+// payments never reached the league, so they are left out
+export const monthlyTotals = (payments: LeaguePayment[]): MonthlyPaymentTotal[] => {
+  const totals = new Map<string, MonthlyPaymentTotal>();
+  for (const payment of payments) {
+    if ((payment.status !== 'completed' && payment.status !== 'refunded') || !payment.createdAt) continue;
+
+    const date = payment.createdAt.toDate();
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const total = totals.get(month) || { month, payments: 0, collected: 0, refunded: 0, net: 0 };
+    total.payments += 1;
+    total.collected += payment.amount;
+    total.refunded += refundedAmount(payment);
+    total.net = Math.round((total.collected - total.refunded) * 100) / 100;
+    totals.set(month, total);
+  }
+  return [...totals.values()].sort((a, b) => b.month.localeCompare(a.month));
+};
+
+// Spreadsheets run cells that start like a formula, so those are quoted
+// with a leading apostrophe
+const csvField = (value: string | number): string => {
+  const raw = String(value);
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Payments as CSV for a league treasurer's books, one row per payment
+export const paymentsToCsv = (payments: LeaguePayment[], memberNames: Record<string, string>): string => {
+  const header = [
+    "Date", "Member", "Member ID", "Description", "Status", "Amount", "Refunded", "Currency",
+    "Period start", "Period end", "Payment ID", "Square payment ID"
+  ];
+  const rows = payments.map(payment => {
+    const period = paymentPeriod(payment);
+    return [
+      payment.createdAt ? payment.createdAt.toDate().toISOString().slice(0, 10) : "",
+      memberNames[payment.userId] || "",
+      payment.userId,
+      describePayment(payment),
+      PAYMENT_STATUS_LABELS[payment.status],
+      payment.amount.toFixed(2),
+      refundedAmount(payment).toFixed(2),
+      payment.currency,
+      period ? period.start.toISOString().slice(0, 10) : "",
+      period ? period.end.toISOString().slice(0, 10) : "",
+      payment.id,
+      payment.squarePaymentId || ""
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvField).join(",")).join("\n");
+};
@@ -0,0 +1,27 @@
+// penalties.ts - Labels and summaries for league penalties
+import type { LeaguePenalty, PenaltyType } from '../models/league';
+
+export const PENALTY_LABELS: Record<PenaltyType, string> = {
+  warning: "Warning",
+  point_deduction: "Point deduction",
+  suspension: "Suspension",
+  fine: "Fine"
+};
+
+// Short description of what a penalty does, e.g. "Point deduction (-3)"
+export const describePenalty = (penalty: LeaguePenalty): string => {
+  const label = PENALTY_LABELS[penalty.type];
+  if (penalty.type === "point_deduction") return `${label} (-${penalty.points})`;
+  if (penalty.type === "fine") {
+    return `${label} (${new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: penalty.currency || 'USD'
+    }).format(penalty.amount || 0)})`;
+  }
+  if (penalty.type === "suspension") {
+    return penalty.suspendedUntil
+      ? `${label} until ${penalty.suspendedUntil.toDate().toLocaleDateString()}`
+      : `${label} until lifted`;
+  }
+  return label;
+};
@@ -0,0 +1,202 @@
+// standings.ts - League standings from each league's own scoring system
+import type { LeagueSettings, StandingsTiebreak } from '../models/league';
+
+export const DEFAULT_TIEBREAK_ORDER: StandingsTiebreak[] = [
+  "head-to-head",
+  "point-differential",
+  "points-scored"
+];
+
+export const TIEBREAK_LABELS: Record<StandingsTiebreak, string> = {
+  "head-to-head": "Head-to-head",
+  "point-differential": "Point differential",
+  "points-scored": "Points scored"
+};
+
+// Defaults used when a league has no scoring system configured
+const DEFAULT_POINTS_PER_WIN = 3;
+const DEFAULT_POINTS_PER_DRAW = 1;
+const DEFAULT_POINTS_PER_LOSS = 0;
+
+type ScoringSystem = Partial<LeagueSettings["scoringSystem"]> | undefined;
+
+// The parts of a completed game that standings are built from
+export interface StandingsGame {
+  createdBy: string;
+  opponent: string;
+  winner?: string;
+  scores?: {
+    creator: number;
+    opponent: number;
+  };
+}
+
+// One member's line in the league table
+export interface PlayerStanding {
+  userId: string;
+  gamesPlayed: number;
+  gamesWon: number;
+  gamesLost: number;
+  gamesTied: number;
+  points: number; // League points (not game points)
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifferential: number;
+  winRate: number;
+  pointsDeducted: number; // Taken off by penalties, already applied to points
+  rank: number;
+}
+
+/**
+ * Tiebreakers a league applies, in order
+ * Point differential is dropped when the league has turned it off.
+ */
+export const getTiebreakOrder = (scoringSystem: ScoringSystem): StandingsTiebreak[] => {
+  const order = scoringSystem?.tiebreakOrder?.length
+    ? scoringSystem.tiebreakOrder
+    : DEFAULT_TIEBREAK_ORDER;
+
+  return scoringSystem?.usePointDifferential === false
+    ? order.filter(tiebreak => tiebreak !== "point-differential")
+    : order;
+};
+
+// League points for one result - zero is a valid configured value
+const getResultPoints = (scoringSystem: ScoringSystem, result: "win" | "draw" | "loss"): number => {
+  if (result === "win") return scoringSystem?.pointsPerWin ?? DEFAULT_POINTS_PER_WIN;
+  if (result === "draw") return scoringSystem?.pointsPerDraw ?? DEFAULT_POINTS_PER_DRAW;
+  return scoringSystem?.pointsPerLoss ?? DEFAULT_POINTS_PER_LOSS;
+};
+
+// League points each player earned in the games between the given players only
+const getHeadToHeadPoints = (
+  playerIds: Set<string>,
+  games: StandingsGame[],
+  scoringSystem: ScoringSystem
+): Map<string, number> => {
+  const points = new Map<string, number>();
+
+  games.forEach(game => {
+    if (!playerIds.has(game.createdBy) || !playerIds.has(game.opponent)) return;
+
+    const creatorResult = game.winner === game.createdBy ? "win" : game.winner === game.opponent ? "loss" : "draw";
+    const opponentResult = creatorResult === "win" ? "loss" : creatorResult === "loss" ? "win" : "draw";
+
+    points.set(game.createdBy, (points.get(game.createdBy) || 0) + getResultPoints(scoringSystem, creatorResult));
+    points.set(game.opponent, (points.get(game.opponent) || 0) + getResultPoints(scoringSystem, opponentResult));
+  });
+
+  return points;
+};
+
+/**
+ * Build the league table for the given members
+ * Only games between two of the members count. Members level on league
+ * points are separated by the league's tiebreak order (head-to-head is the
+ * mini-table between everyone on the same points), then by win rate.
+ * Penalty deductions come off league points before anyone is ranked.
+ * @param playerIds Members to rank
+ * @param games Completed league games
+ * @param scoringSystem The league's scoring settings
+ * @param deductions League points taken off each member by penalties
+ * @returns Standings with ranks assigned
+ */
+export const calculateLeagueStandings = (
+  playerIds: string[],
+  games: StandingsGame[],
+  scoringSystem: ScoringSystem,
+  deductions: Map<string, number> = new Map()
+): PlayerStanding[] => {
+  const table = new Map<string, PlayerStanding>(playerIds.map(userId => [userId, {
+    userId,
+    gamesPlayed: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    gamesTied: 0,
+    points: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifferential: 0,
+    winRate: 0,
+    pointsDeducted: 0,
+    rank: 0
+  }]));
+
+  const countedGames = games.filter(game => table.has(game.createdBy) && table.has(game.opponent));
+
+  countedGames.forEach(game => {
+    const creator = table.get(game.createdBy)!;
+    const opponent = table.get(game.opponent)!;
+
+    creator.gamesPlayed++;
+    opponent.gamesPlayed++;
+
+    if (game.scores) {
+      creator.pointsFor += game.scores.creator;
+      creator.pointsAgainst += game.scores.opponent;
+      opponent.pointsFor += game.scores.opponent;
+      opponent.pointsAgainst += game.scores.creator;
+    }
+
+    if (game.winner === game.createdBy) {
+      creator.gamesWon++;
+      opponent.gamesLost++;
+      creator.points += getResultPoints(scoringSystem, "win");
+      opponent.points += getResultPoints(scoringSystem, "loss");
+    } else if (game.winner === game.opponent) {
+      opponent.gamesWon++;
+      creator.gamesLost++;
+      opponent.points += getResultPoints(scoringSystem, "win");
+      creator.points += getResultPoints(scoringSystem, "loss");
+    } else {
+      creator.gamesTied++;
+      opponent.gamesTied++;
+      creator.points += getResultPoints(scoringSystem, "draw");
+      opponent.points += getResultPoints(scoringSystem, "draw");
+    }
+  });
+
+  const standings = Array.from(table.values()).map(entry => ({
+    ...entry,
+    points: entry.points - (deductions.get(entry.userId) || 0),
+    pointsDeducted: deductions.get(entry.userId) || 0,
+    pointDifferential: entry.pointsFor - entry.pointsAgainst,
+    winRate: entry.gamesPlayed > 0 ? (entry.gamesWon / entry.gamesPlayed) * 100 : 0
+  }));
+
+  // Head-to-head only compares members who are level on points
+  const levelGroups = new Map<number, Set<string>>();
+  standings.forEach(entry => {
+    const group = levelGroups.get(entry.points) || new Set<string>();
+    group.add(entry.userId);
+    levelGroups.set(entry.points, group);
+  });
+
+  const headToHead = new Map<string, number>();
+  levelGroups.forEach(group => {
+    if (group.size < 2) return;
+    getHeadToHeadPoints(group, countedGames, scoringSystem)
+      .forEach((points, userId) => headToHead.set(userId, points));
+  });
+
+  const tiebreakOrder = getTiebreakOrder(scoringSystem);
+  const tiebreakValue = (entry: PlayerStanding, tiebreak: StandingsTiebreak): number => {
+    if (tiebreak === "head-to-head") return headToHead.get(entry.userId) || 0;
+    if (tiebreak === "point-differential") return entry.pointDifferential;
+    return entry.pointsFor;
+  };
+
+  return standings
+    .sort((a, b) => {
+      if (b.points !== a.points) return b.points - a.points;
+
+      for (const tiebreak of tiebreakOrder) {
+        const difference = tiebreakValue(b, tiebreak) - tiebreakValue(a, tiebreak);
+        if (difference !== 0) return difference;
+      }
+
+      if (b.winRate !== a.winRate) return b.winRate - a.winRate;
+      return b.gamesWon - a.gamesWon;
+    })
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+};
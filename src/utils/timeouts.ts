@@ -0,0 +1,22 @@
+// timeouts.ts - League policies for games that run past their time limit
+import type { TimeoutPolicy } from '../models/league';
+
+export const DEFAULT_TIMEOUT_POLICY: TimeoutPolicy = "leader_wins";
+
+export const TIMEOUT_POLICY_OPTIONS: { value: TimeoutPolicy; label: string; description: string }[] = [
+  {
+    value: "leader_wins",
+    label: "Leader wins",
+    description: "The side ahead on points when time runs out wins; level games are abandoned"
+  },
+  {
+    value: "forfeit_inactive",
+    label: "Forfeit by the inactive side",
+    description: "The side that went longest without recording a hand forfeits"
+  },
+  {
+    value: "abandon",
+    label: "Abandon",
+    description: "The game is closed without a result"
+  }
+];
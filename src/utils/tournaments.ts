@@ -0,0 +1,270 @@
+// tournaments.ts - Pairing and scheduling helpers for league tournaments
+
+// A pairing of two participants (user IDs or team IDs)
+export interface TournamentPairing {
+  homeId: string;
+  awayId: string;
+}
+
+// All pairings of one round
+export interface TournamentRoundPairings {
+  roundNumber: number;
+  pairings: TournamentPairing[];
+}
+
+// Date window of one round
+export interface RoundWindow {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Generate a round-robin schedule using the circle method
+ * Every participant plays every other participant once per leg. With an odd
+ * number of participants one of them rests (bye) each round.
+ * @param participantIds User IDs or team IDs taking part
+ * @param legs 1 for a single round-robin, 2 to repeat it with home/away swapped
+ * @returns Rounds in playing order
+ */
+export const generateRoundRobinPairings = (
+  participantIds: string[],
+  legs: 1 | 2 = 1
+): TournamentRoundPairings[] => {
+  const participants: (string | null)[] = [...participantIds];
+  if (participants.length < 2) return [];
+
+  // Odd counts get a placeholder - whoever meets it has a bye that round
+  if (participants.length % 2 !== 0) {
+    participants.push(null);
+  }
+
+  const roundsPerLeg = participants.length - 1;
+  const half = participants.length / 2;
+  const firstLeg: TournamentRoundPairings[] = [];
+  let rotation = [...participants];
+
+  for (let round = 0; round < roundsPerLeg; round++) {
+    const pairings: TournamentPairing[] = [];
+
+    for (let i = 0; i < half; i++) {
+      const home = rotation[i];
+      const away = rotation[rotation.length - 1 - i];
+      if (!home || !away) continue;
+
+      // Alternate the fixed participant's home/away so nobody is always at home
+      pairings.push(i === 0 && round % 2 === 1
+        ? { homeId: away, awayId: home }
+        : { homeId: home, awayId: away });
+    }
+
+    firstLeg.push({ roundNumber: round + 1, pairings });
+
+    // Keep the first participant fixed and rotate everyone else one seat
+    rotation = [rotation[0], rotation[rotation.length - 1], ...rotation.slice(1, -1)];
+  }
+
+  if (legs === 1) return firstLeg;
+
+  // Second leg repeats the first with home and away swapped
+  const secondLeg = firstLeg.map(round => ({
+    roundNumber: round.roundNumber + roundsPerLeg,
+    pairings: round.pairings.map(pairing => ({
+      homeId: pairing.awayId,
+      awayId: pairing.homeId
+    }))
+  }));
+
+  return [...firstLeg, ...secondLeg];
+};
+
+/**
+ * Split a date range into consecutive, equally long round windows
+ * @param roundCount Number of rounds to schedule
+ * @param startDate Start of the range (e.g. the season start)
+ * @param endDate End of the range (e.g. the season end)
+ * @returns One window per round, in order
+ */
+export const scheduleRoundWindows = (
+  roundCount: number,
+  startDate: Date,
+  endDate: Date
+): RoundWindow[] => {
+  if (roundCount <= 0) return [];
+
+  const totalMs = endDate.getTime() - startDate.getTime();
+  if (totalMs <= 0) {
+    throw new Error("The schedule end date must be after the start date");
+  }
+
+  const roundMs = totalMs / roundCount;
+
+  return Array.from({ length: roundCount }, (_, index) => ({
+    startDate: new Date(startDate.getTime() + roundMs * index),
+    endDate: new Date(startDate.getTime() + roundMs * (index + 1))
+  }));
+};
+
+// Placeholder for an empty bracket slot - whoever meets it advances automatically
+export const BYE_ID = "bye";
+
+// Bracket a round belongs to in an elimination tournament
+export type BracketSide = "winners" | "losers" | "final";
+
+// Match of a generated bracket; empty slot IDs are filled as results come in
+export interface BracketMatchPlan {
+  id: string;
+  homeId: string;
+  awayId: string;
+  homeSeed?: number;
+  awaySeed?: number;
+  nextMatchId?: string;
+  nextMatchSlot?: "home" | "away";
+  loserNextMatchId?: string;
+  loserNextMatchSlot?: "home" | "away";
+}
+
+// Round of a generated bracket
+export interface BracketRoundPlan {
+  id: string;
+  bracket: BracketSide;
+  roundNumber: number;
+  matches: BracketMatchPlan[];
+}
+
+/**
+ * Standard bracket seed order, so the top seeds can only meet in later rounds
+ * @param size Bracket size (a power of two)
+ * @returns 1-based seeds in slot order, e.g. [1, 8, 4, 5, 2, 7, 3, 6] for 8
+ */
+export const getSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const nextSize = order.length * 2;
+    order = order.flatMap(seed => [seed, nextSize + 1 - seed]);
+  }
+  return order;
+};
+
+/**
+ * Generate a single- or double-elimination bracket
+ * Fields that are not a power of two are padded with byes, which go to the
+ * top seeds. The losers bracket feeds a grand final against the winners
+ * bracket champion.
+ * @param seededIds Participant IDs ordered by seed (best first)
+ * @param withLosersBracket Whether first losses drop into a losers bracket
+ * @returns Winners rounds, then losers rounds, then the grand final
+ */
+export const generateEliminationBracket = (
+  seededIds: string[],
+  withLosersBracket: boolean
+): BracketRoundPlan[] => {
+  if (seededIds.length < 2) return [];
+
+  const size = Math.pow(2, Math.ceil(Math.log2(seededIds.length)));
+  const winnersRounds = Math.log2(size);
+  const useLosers = withLosersBracket && winnersRounds >= 2;
+  const losersRounds = useLosers ? 2 * (winnersRounds - 1) : 0;
+  const seedOrder = getSeedOrder(size);
+
+  const winnersId = (round: number, match: number) => `W${round}-${match + 1}`;
+  const losersId = (round: number, match: number) => `L${round}-${match + 1}`;
+  const slotFor = (match: number): "home" | "away" => (match % 2 === 0 ? "home" : "away");
+
+  // Number of matches in losers round j (odd rounds halve the field, even rounds take new losers)
+  const losersMatchCount = (round: number) => {
+    if (round === 1) return size / 4;
+    const drop = round % 2 === 0 ? round / 2 + 1 : (round - 1) / 2 + 2;
+    return size / Math.pow(2, drop);
+  };
+
+  const rounds: BracketRoundPlan[] = [];
+
+  for (let round = 1; round <= winnersRounds; round++) {
+    const matchCount = size / Math.pow(2, round);
+    const isFinal = round === winnersRounds;
+
+    rounds.push({
+      id: `winners-${round}`,
+      bracket: "winners",
+      roundNumber: round,
+      matches: Array.from({ length: matchCount }, (_, match) => {
+        const plan: BracketMatchPlan = {
+          id: winnersId(round, match),
+          homeId: "",
+          awayId: ""
+        };
+
+        if (round === 1) {
+          const homeSeed = seedOrder[match * 2];
+          const awaySeed = seedOrder[match * 2 + 1];
+          plan.homeId = seededIds[homeSeed - 1] ?? BYE_ID;
+          plan.awayId = seededIds[awaySeed - 1] ?? BYE_ID;
+          plan.homeSeed = homeSeed;
+          plan.awaySeed = awaySeed;
+        }
+
+        if (!isFinal) {
+          plan.nextMatchId = winnersId(round + 1, Math.floor(match / 2));
+          plan.nextMatchSlot = slotFor(match);
+        } else if (useLosers) {
+          plan.nextMatchId = "F-1";
+          plan.nextMatchSlot = "home";
+        }
+
+        if (useLosers) {
+          if (round === 1) {
+            plan.loserNextMatchId = losersId(1, Math.floor(match / 2));
+            plan.loserNextMatchSlot = slotFor(match);
+          } else {
+            plan.loserNextMatchId = losersId(2 * (round - 1), match);
+            plan.loserNextMatchSlot = "away";
+          }
+        }
+
+        return plan;
+      })
+    });
+  }
+
+  for (let round = 1; round <= losersRounds; round++) {
+    const isFinal = round === losersRounds;
+
+    rounds.push({
+      id: `losers-${round}`,
+      bracket: "losers",
+      roundNumber: round,
+      matches: Array.from({ length: losersMatchCount(round) }, (_, match) => {
+        const plan: BracketMatchPlan = {
+          id: losersId(round, match),
+          homeId: "",
+          awayId: ""
+        };
+
+        if (isFinal) {
+          plan.nextMatchId = "F-1";
+          plan.nextMatchSlot = "away";
+        } else if (round % 2 === 1) {
+          // Odd rounds feed the same slot of the next round, where new losers arrive
+          plan.nextMatchId = losersId(round + 1, match);
+          plan.nextMatchSlot = "home";
+        } else {
+          plan.nextMatchId = losersId(round + 1, Math.floor(match / 2));
+          plan.nextMatchSlot = slotFor(match);
+        }
+
+        return plan;
+      })
+    });
+  }
+
+  if (useLosers) {
+    rounds.push({
+      id: "final",
+      bracket: "final",
+      roundNumber: 1,
+      matches: [{ id: "F-1", homeId: "", awayId: "" }]
+    });
+  }
+
+  return rounds;
+};